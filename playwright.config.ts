@@ -0,0 +1,32 @@
+import { defineConfig } from '@playwright/test';
+
+// E2E runs against `pnpm dev:mock`: the app on :3030 backed by the mock NocoDB
+// server and its fixture records, so no real NocoDB instance is needed.
+export default defineConfig({
+  testDir: './playwright-tests',
+  use: {
+    baseURL: 'http://localhost:3030',
+    // Same cookie the login route sets, so specs start on authenticated pages.
+    storageState: {
+      cookies: [
+        {
+          name: 'yt-viewer-auth',
+          value: 'authenticated',
+          domain: 'localhost',
+          path: '/',
+          expires: -1,
+          httpOnly: true,
+          secure: false,
+          sameSite: 'Lax',
+        },
+      ],
+      origins: [],
+    },
+  },
+  webServer: {
+    command: 'pnpm dev:mock',
+    url: 'http://localhost:3030/api/health',
+    reuseExistingServer: !process.env.CI,
+    timeout: 120_000,
+  },
+});
@@ -171,10 +171,10 @@ async function handleVideoAPIRequest(request) {
   } catch (error) {
     console.log('[SW] Network failed for /api/videos, checking IndexedDB...');
     
-    // Network failed, try IndexedDB
+    // Network failed, try IndexedDB (only holds the snapshot of one workspace)
     const offlineModeEnabled = await getOfflineModeFromDB();
     
-    if (offlineModeEnabled) {
+    if (offlineModeEnabled && await isOfflineWorkspaceRequest(request)) {
       try {
         const videoCount = await getVideoCountFromDB();
         
@@ -235,7 +235,7 @@ async function handleVideoDetailRequest(request) {
       // If offline mode is enabled, opportunistically enrich IndexedDB with detail payloads.
       // This keeps the offline cache up-to-date without storing transcript fields.
       const offlineModeEnabled = await getOfflineModeFromDB();
-      if (offlineModeEnabled) {
+      if (offlineModeEnabled && await isOfflineWorkspaceRequest(request)) {
         try {
           const data = await response.clone().json();
           if (data && data.video && typeof data.video === 'object') {
@@ -256,7 +256,7 @@ async function handleVideoDetailRequest(request) {
     // Network failed, try IndexedDB
     const offlineModeEnabled = await getOfflineModeFromDB();
     
-    if (offlineModeEnabled) {
+    if (offlineModeEnabled && await isOfflineWorkspaceRequest(request)) {
       try {
         const url = new URL(request.url);
         const videoId = url.searchParams.get('videoId');
@@ -707,6 +707,24 @@ async function getOfflineModeFromDB() {
   }
 }
 
+/**
+ * The offline snapshot belongs to the workspace it was synced for
+ * (metadata `offlineWorkspace`, null = default). Requests for another
+ * workspace must not be answered from it.
+ */
+async function isOfflineWorkspaceRequest(request) {
+  try {
+    const requested = new URL(request.url).searchParams.get('workspace');
+    const db = await openOfflineDB();
+    const synced = await db.get('metadata', 'offlineWorkspace');
+    const normalize = (value) => (value && value !== 'default' ? value : null);
+    return normalize(requested) === normalize(synced);
+  } catch (error) {
+    console.error('[SW] Error checking offline workspace:', error);
+    return false;
+  }
+}
+
 /**
  * Get a single video by VideoID from IndexedDB
  */
@@ -0,0 +1,48 @@
+import { config as loadEnv } from 'dotenv';
+import { exit } from 'node:process';
+
+// Load .env.local first (overrides handled explicitly), then fall back to .env.
+loadEnv({ path: '.env.local', override: false });
+loadEnv();
+
+import axios from 'axios';
+
+import { getNocoDBConfig } from '../src/features/videos/api/config';
+import { fetchTableColumns } from '../src/features/videos/api/table-metadata';
+import { getWorkspaces } from '../src/features/videos/api/workspaces';
+
+// Usage: tsx scripts/add-trash-column.ts
+// Adds the `TrashedAt` DateTime column that soft delete needs to every
+// configured workspace table. Existing rows keep an empty `TrashedAt`, so no
+// video moves to the trash; the `Archived` checkbox is not touched. Set
+// VIDEO_SOFT_DELETE=true afterwards.
+
+const TRASH_COLUMN = 'TrashedAt';
+
+async function addTrashColumns() {
+  for (const workspace of getWorkspaces()) {
+    const config = getNocoDBConfig({
+      projectId: workspace.projectId,
+      tableId: workspace.tableId,
+      tableName: workspace.tableName,
+    });
+    const { table, columns } = await fetchTableColumns(config);
+
+    if (columns.some((column) => column.title === TRASH_COLUMN)) {
+      console.log(`${workspace.id}: ${TRASH_COLUMN} already exists`);
+      continue;
+    }
+
+    await axios.post(
+      `${config.url}/api/v2/meta/tables/${encodeURIComponent(table.resolvedTableId)}/columns`,
+      { title: TRASH_COLUMN, column_name: TRASH_COLUMN, uidt: 'DateTime' },
+      { headers: { 'xc-token': config.token } },
+    );
+    console.log(`${workspace.id}: added ${TRASH_COLUMN} to ${table.resolvedTableName ?? table.resolvedTableId}`);
+  }
+}
+
+addTrashColumns().catch((error) => {
+  console.error('Failed to add the trash column:', error instanceof Error ? error.message : error);
+  exit(1);
+});
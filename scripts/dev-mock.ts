@@ -0,0 +1,39 @@
+import { spawn } from 'node:child_process';
+import { env, exit } from 'node:process';
+
+import { mockNocoDBEnv, startMockNocoDBFromArgs } from './mock-nocodb';
+
+// `pnpm dev:mock`: start the mock NocoDB server and run `next dev` against it.
+// Used for local work without a NocoDB instance and as the Playwright web server.
+
+async function main() {
+  const server = await startMockNocoDBFromArgs();
+  console.log(`Mock NocoDB listening on ${server.url}`);
+
+  const child = spawn('pnpm', ['dev'], {
+    stdio: 'inherit',
+    env: {
+      ...env,
+      ...mockNocoDBEnv(server),
+      VIDEO_REPOSITORY: 'nocodb',
+      NOCODB_TABLE_NAME: '',
+      NOCODB_WORKSPACES: '',
+      APP_PASSWORD: env.APP_PASSWORD || 'mock-password',
+    },
+  });
+
+  const stop = (signal: NodeJS.Signals) => {
+    child.kill(signal);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  child.on('exit', (code) => {
+    server.close().finally(() => exit(code ?? 0));
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  exit(1);
+});
@@ -0,0 +1,60 @@
+import { readFileSync } from 'node:fs';
+import { argv, env, exit } from 'node:process';
+
+import {
+  defaultFixture,
+  startMockNocoDB,
+  type MockNocoDBFixture,
+  type MockNocoDBServer,
+} from '../src/__mocks__/nocodb/server';
+
+// Usage: tsx scripts/mock-nocodb.ts [--port 8090] [--fixture path/to/fixture.json]
+// MOCK_NOCODB_PORT and MOCK_NOCODB_FIXTURE work as well.
+
+function readOption(name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : argv[index + 1];
+}
+
+export const DEFAULT_MOCK_NOCODB_PORT = 8090;
+
+export async function startMockNocoDBFromArgs(): Promise<MockNocoDBServer> {
+  const port = Number(readOption('port') ?? env.MOCK_NOCODB_PORT ?? DEFAULT_MOCK_NOCODB_PORT);
+  const fixturePath = readOption('fixture') ?? env.MOCK_NOCODB_FIXTURE;
+  const fixture = fixturePath
+    ? (JSON.parse(readFileSync(fixturePath, 'utf8')) as MockNocoDBFixture)
+    : defaultFixture;
+
+  return startMockNocoDB({ port, fixture });
+}
+
+export function mockNocoDBEnv(server: MockNocoDBServer): Record<string, string> {
+  return {
+    NC_URL: server.url,
+    NC_TOKEN: server.token,
+    NOCODB_PROJECT_ID: server.projectId,
+    NOCODB_TABLE_ID: server.tableId,
+    // The fixture table has the `TrashedAt` column soft delete needs.
+    VIDEO_SOFT_DELETE: 'true',
+  };
+}
+
+async function main() {
+  const server = await startMockNocoDBFromArgs();
+  console.log(`Mock NocoDB listening on ${server.url} with ${server.records().length} records.`);
+  console.log('Point the app at it with:');
+  Object.entries(mockNocoDBEnv(server)).forEach(([key, value]) => console.log(`  ${key}=${value}`));
+
+  const shutdown = () => {
+    server.close().then(() => exit(0), () => exit(1));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (import.meta.url === `file://${argv[1]}`) {
+  main().catch((error) => {
+    console.error(error);
+    exit(1);
+  });
+}
@@ -0,0 +1,98 @@
+// @vitest-environment node
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllCache } from '@/features/videos/api/cache';
+import { fetchVideoByVideoId, fetchVideos, updateVideo } from '@/features/videos/api/nocodb';
+import { resetTableMetadataCaches } from '@/features/videos/api/table-metadata';
+
+import { startMockNocoDB, type MockNocoDBServer } from './server';
+import { compileWhere, WhereSyntaxError } from './where';
+
+describe('compileWhere', () => {
+  const records = [
+    { Id: 1, Title: 'Zinsen erklärt', ImportanceRating: 5, Archived: false, PublishedAt: '2025-02-27T18:00:00.000Z' },
+    { Id: 2, Title: 'Startup funding', ImportanceRating: 2, Archived: true, PublishedAt: null },
+    { Id: 3, Title: null, ImportanceRating: null, Archived: null, PublishedAt: '2024-06-01' },
+  ];
+  const ids = (where: string) => records.filter(compileWhere(where)).map((record) => record.Id);
+
+  it('evaluates conditions, groups and negation', () => {
+    expect(ids('(ImportanceRating,ge,3)')).toEqual([1]);
+    expect(ids('(Title,like,%ERKL%)~or(Title,blank)')).toEqual([1, 3]);
+    expect(ids('(Archived,neq,true)~and~not(Title,blank)')).toEqual([1]);
+    expect(ids('((PublishedAt,lt,exactDate,2025-01-01)~or(ImportanceRating,eq,2))')).toEqual([2, 3]);
+  });
+
+  it('rejects malformed clauses', () => {
+    expect(() => compileWhere('(Title,eq,x')).toThrow(WhereSyntaxError);
+    expect(() => compileWhere('(Title,between,1)')).toThrow(WhereSyntaxError);
+  });
+});
+
+describe('mock NocoDB server', () => {
+  let server: MockNocoDBServer;
+
+  beforeAll(async () => {
+    server = await startMockNocoDB();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    clearAllCache();
+    resetTableMetadataCaches();
+    vi.stubEnv('NC_URL', server.url);
+    vi.stubEnv('NC_TOKEN', server.token);
+    vi.stubEnv('NOCODB_PROJECT_ID', server.projectId);
+    vi.stubEnv('NOCODB_TABLE_ID', server.tableId);
+    vi.stubEnv('VIDEO_SOFT_DELETE', 'true');
+    vi.stubEnv('VIDEO_AUDIT_LOG_MAX_ENTRIES', '0');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('pages, filters and projects records like NocoDB', async () => {
+    const response = await fetch(
+      `${server.url}/api/v2/tables/${server.tableId}/records?sort=-ImportanceRating&fields=Id,Title&limit=2&offset=1`,
+      { headers: { 'xc-token': server.token } },
+    );
+    const body = await response.json();
+
+    expect(body.list).toEqual([
+      { Id: 2, Title: 'Künstliche Intelligenz: Chancen für den Mittelstand' },
+      { Id: 6, Title: 'Startup Funding in 2025: What Changed' },
+    ]);
+    expect(body.pageInfo).toMatchObject({ totalRows: 6, pageSize: 2, isFirstPage: false, isLastPage: false });
+
+    const unauthorized = await fetch(`${server.url}/api/v2/tables/${server.tableId}/records`);
+    expect(unauthorized.status).toBe(401);
+
+    const invalid = await fetch(`${server.url}/api/v2/tables/${server.tableId}/records?where=(Title,eq`, {
+      headers: { 'xc-token': server.token },
+    });
+    expect(invalid.status).toBe(422);
+  });
+
+  it('serves every fixture record through the app schemas and accepts updates', async () => {
+    const { videos, pageInfo } = await fetchVideos({ limit: 25 });
+
+    // Record 4 is in the trash and hidden while soft delete is on; record 6 is
+    // only archived by the user and stays listed.
+    expect(pageInfo.totalRows).toBe(5);
+    expect(videos.map((video) => video.Id)).not.toContain(4);
+    expect(videos.find((video) => video.Id === 6)).toBeDefined();
+
+    const german = await fetchVideoByVideoId('kJQP7kiw5Fk');
+    expect(german?.Sentiment).toBe(0.7);
+    expect(german?.Tags?.map((tag) => tag.name)).toEqual(['KI', 'Mittelstand', 'Digitalisierung']);
+
+    const updated = await updateVideo('kJQP7kiw5Fk', { ImportanceRating: 1, PersonalComment: 'Nachschauen' });
+    expect(updated).toMatchObject({ ImportanceRating: 1, PersonalComment: 'Nachschauen' });
+    expect(server.records().find((record) => record.Id === 2)).toMatchObject({ ImportanceRating: 1 });
+  });
+});
@@ -0,0 +1,319 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import defaultFixtureJson from './fixtures/videos.json';
+import { compareBySort, compileWhere, WhereSyntaxError, type RawRecord } from './where';
+
+/**
+ * In-memory stand-in for the NocoDB v2 endpoints the app calls:
+ *
+ * - `GET  /api/v2/meta/projects/:projectId/tables` and `GET /api/v2/meta/tables/:tableId`
+ * - `GET  /api/v2/tables/:tableId`
+ * - `GET  /api/v2/tables/:tableId/records` (`where`, `sort`, `fields`, `limit`, `offset`)
+ * - `GET  /api/v2/tables/:tableId/records/:id`
+ * - `POST`, `PATCH` and `DELETE /api/v2/tables/:tableId/records` (object or array body)
+ * - `DELETE /api/v2/tables/:tableId/records/:id`
+ *
+ * Link endpoints are not implemented; the fixture table has no link columns,
+ * so the app never calls them. Errors use NocoDB's `{ msg }` body.
+ */
+
+export interface MockNocoDBColumn {
+  title: string;
+  uidt: string;
+  pk?: boolean;
+  pv?: boolean;
+  system?: boolean;
+}
+
+export interface MockNocoDBFixture {
+  projectId: string;
+  table: { id: string; title: string; table_name: string };
+  columns: MockNocoDBColumn[];
+  records: RawRecord[];
+}
+
+export interface MockNocoDBOptions {
+  fixture?: MockNocoDBFixture;
+  /** Value expected in the `xc-token` header. */
+  token?: string;
+  port?: number;
+  host?: string;
+}
+
+export interface MockNocoDBServer {
+  url: string;
+  port: number;
+  token: string;
+  projectId: string;
+  tableId: string;
+  /** Current records, including changes made through the API. */
+  records(): RawRecord[];
+  /** Restore the fixture records. */
+  reset(): void;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_MOCK_NOCODB_TOKEN = 'mock-token';
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 1000;
+
+export const defaultFixture = defaultFixtureJson as unknown as MockNocoDBFixture;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'content-type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8').trim();
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+function asRows(body: unknown): RawRecord[] {
+  const rows = Array.isArray(body) ? body : [body];
+  if (rows.length === 0 || rows.some((row) => !row || typeof row !== 'object' || Array.isArray(row))) {
+    throw new HttpError(400, 'Request body must be a record or an array of records');
+  }
+  return rows as RawRecord[];
+}
+
+function parseCount(value: string | null, fallback: number, name: string): number {
+  if (value === null || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new HttpError(400, `Invalid ${name} "${value}"`);
+  }
+  return parsed;
+}
+
+function pickFields(record: RawRecord, fields: string[] | null): RawRecord {
+  if (!fields) {
+    return record;
+  }
+  return Object.fromEntries(fields.filter((field) => field in record).map((field) => [field, record[field]]));
+}
+
+/** Start the mock server; `port: 0` (the default) picks a free port. */
+export async function startMockNocoDB(options: MockNocoDBOptions = {}): Promise<MockNocoDBServer> {
+  const fixture = options.fixture ?? defaultFixture;
+  const token = options.token ?? DEFAULT_MOCK_NOCODB_TOKEN;
+  const { table } = fixture;
+  let records: RawRecord[] = clone(fixture.records);
+
+  const tableMeta = { id: table.id, title: table.title, table_name: table.table_name, base_id: fixture.projectId };
+  const columnsMeta = fixture.columns.map((column) => ({
+    id: `c_${column.title}`,
+    title: column.title,
+    column_name: column.title,
+    uidt: column.uidt,
+    pk: column.pk ?? false,
+    pv: column.pv ?? false,
+    system: column.system ?? false,
+  }));
+
+  const isTable = (identifier: string) => [table.id, table.title, table.table_name].includes(identifier);
+  const findRecord = (id: string) => records.find((record) => String(record.Id) === id);
+  const requireRecord = (id: unknown) => {
+    const record = findRecord(String(id));
+    if (!record) {
+      throw new HttpError(404, `Record '${String(id)}' not found`);
+    }
+    return record;
+  };
+
+  function listRecords(query: URLSearchParams) {
+    let predicate;
+    try {
+      predicate = compileWhere(query.get('where'));
+    } catch (error) {
+      if (error instanceof WhereSyntaxError) {
+        throw new HttpError(422, `Invalid where clause: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const limit = Math.min(parseCount(query.get('limit'), DEFAULT_PAGE_SIZE, 'limit') || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = parseCount(query.get('offset'), 0, 'offset');
+    const fieldsParam = query.get('fields');
+    const fields = fieldsParam ? fieldsParam.split(',').map((field) => field.trim()).filter(Boolean) : null;
+
+    const matching = records.filter(predicate).sort(compareBySort(query.get('sort')));
+    const page = matching.slice(offset, offset + limit);
+
+    return {
+      list: page.map((record) => pickFields(record, fields)),
+      pageInfo: {
+        totalRows: matching.length,
+        page: Math.floor(offset / limit) + 1,
+        pageSize: limit,
+        isFirstPage: offset === 0,
+        isLastPage: offset + limit >= matching.length,
+      },
+    };
+  }
+
+  function createRecords(body: unknown) {
+    const now = new Date().toISOString();
+    return asRows(body).map((row) => {
+      const Id = records.reduce((max, record) => Math.max(max, Number(record.Id) || 0), 0) + 1;
+      records.push({ ...row, Id, CreatedAt: now, UpdatedAt: now });
+      return { Id };
+    });
+  }
+
+  function updateRecords(body: unknown) {
+    const now = new Date().toISOString();
+    const rows = asRows(body);
+    // Validate every id first so a bad row leaves the table untouched, as NocoDB's bulk update does.
+    const targets = rows.map((row) => requireRecord(row.Id));
+    return rows.map((row, index) => {
+      const { Id, ...changes } = row;
+      Object.assign(targets[index], changes, { UpdatedAt: now });
+      return { Id: targets[index].Id ?? Id };
+    });
+  }
+
+  function deleteRecords(ids: unknown[]) {
+    const targets = ids.map(requireRecord);
+    records = records.filter((record) => !targets.includes(record));
+    return targets.map((record) => ({ Id: record.Id }));
+  }
+
+  async function route(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url ?? '/', 'http://mock-nocodb');
+    const method = request.method ?? 'GET';
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (request.headers['xc-token'] !== token) {
+      throw new HttpError(401, 'Authentication required - xc-token is missing or invalid');
+    }
+    if (segments[0] !== 'api' || segments[1] !== 'v2') {
+      throw new HttpError(404, `Cannot ${method} ${url.pathname}`);
+    }
+
+    const [, , area, ...rest] = segments;
+
+    if (area === 'meta' && method === 'GET') {
+      if (rest[0] === 'projects' && rest[2] === 'tables' && rest.length === 3) {
+        if (rest[1] !== fixture.projectId) {
+          throw new HttpError(404, `Base '${rest[1]}' not found`);
+        }
+        return sendJson(response, 200, { list: [tableMeta], pageInfo: { totalRows: 1 } });
+      }
+      if (rest[0] === 'tables' && rest.length === 2) {
+        if (!isTable(rest[1])) {
+          throw new HttpError(404, `Table '${rest[1]}' not found`);
+        }
+        return sendJson(response, 200, { ...tableMeta, columns: columnsMeta });
+      }
+    }
+
+    if (area === 'tables' && rest.length > 0) {
+      if (!isTable(rest[0])) {
+        throw new HttpError(404, `Table '${rest[0]}' not found`);
+      }
+      const [, resource, recordId, ...extra] = rest;
+
+      if (resource === undefined && method === 'GET') {
+        return sendJson(response, 200, { ...tableMeta, columns: columnsMeta });
+      }
+
+      if (resource === 'records' && extra.length === 0) {
+        if (recordId === undefined) {
+          switch (method) {
+            case 'GET':
+              return sendJson(response, 200, listRecords(url.searchParams));
+            case 'POST': {
+              const body = await readJsonBody(request);
+              const created = createRecords(body);
+              return sendJson(response, 200, Array.isArray(body) ? created : created[0]);
+            }
+            case 'PATCH': {
+              const body = await readJsonBody(request);
+              const updated = updateRecords(body);
+              return sendJson(response, 200, Array.isArray(body) ? updated : updated[0]);
+            }
+            case 'DELETE': {
+              const body = await readJsonBody(request);
+              const deleted = deleteRecords(asRows(body).map((row) => row.Id));
+              return sendJson(response, 200, Array.isArray(body) ? deleted : deleted[0]);
+            }
+          }
+        } else {
+          switch (method) {
+            case 'GET': {
+              const fieldsParam = url.searchParams.get('fields');
+              const fields = fieldsParam ? fieldsParam.split(',').map((field) => field.trim()) : null;
+              return sendJson(response, 200, pickFields(requireRecord(recordId), fields));
+            }
+            case 'DELETE':
+              return sendJson(response, 200, deleteRecords([recordId])[0]);
+          }
+        }
+      }
+    }
+
+    throw new HttpError(404, `Cannot ${method} ${url.pathname}`);
+  }
+
+  const server: Server = createServer((request, response) => {
+    route(request, response).catch((error: unknown) => {
+      const status = error instanceof HttpError ? error.status : 500;
+      sendJson(response, status, { msg: error instanceof Error ? error.message : String(error) });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host ?? '127.0.0.1'}:${port}`,
+    port,
+    token,
+    projectId: fixture.projectId,
+    tableId: table.id,
+    records: () => records,
+    reset: () => {
+      records = clone(fixture.records);
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections?.();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
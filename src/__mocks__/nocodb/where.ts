@@ -0,0 +1,196 @@
+/**
+ * Evaluator for the subset of NocoDB's `where` syntax the app sends:
+ * `(Field,op,value)` conditions joined with `~and` / `~or`, nested groups and
+ * an optional `~not` prefix. Dates use the `exactDate` sub-operator.
+ *
+ * Only used by the mock NocoDB server; it mirrors NocoDB's behaviour closely
+ * enough for development and E2E tests, not every edge case.
+ */
+
+export type RawRecord = Record<string, unknown>;
+export type RecordPredicate = (record: RawRecord) => boolean;
+
+export class WhereSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WhereSyntaxError';
+  }
+}
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === 'object' && value !== null && Object.keys(value).length === 0)
+  );
+}
+
+function textOf(value: unknown): string {
+  if (Array.isArray(value)) return value.map(textOf).join(', ');
+  if (value && typeof value === 'object') return Object.values(value as RawRecord).map(textOf).join(' ');
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '[\\s\\S]*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function compare(actual: unknown, expected: string, exactDate: boolean): number | null {
+  if (isBlank(actual)) return null;
+
+  if (exactDate) {
+    const left = new Date(String(actual));
+    return Number.isNaN(left.getTime()) ? null : left.toISOString().slice(0, 10).localeCompare(expected);
+  }
+
+  const left = typeof actual === 'number' ? actual : Number(actual);
+  const right = Number(expected);
+  if (!Number.isNaN(left) && !Number.isNaN(right) && expected.trim() !== '') {
+    return left - right;
+  }
+  return textOf(actual).localeCompare(expected);
+}
+
+function condition(args: string[]): RecordPredicate {
+  const [field, op, ...rest] = args;
+  if (!field || !op) {
+    throw new WhereSyntaxError(`Incomplete condition (${args.join(',')})`);
+  }
+
+  const exactDate = rest[0] === 'exactDate';
+  const value = (exactDate ? rest.slice(1) : rest).join(',');
+  const read = (record: RawRecord) => record[field];
+
+  const ordered = (test: (result: number) => boolean): RecordPredicate => (record) => {
+    const result = compare(read(record), value, exactDate);
+    return result !== null && test(result);
+  };
+
+  switch (op) {
+    case 'eq':
+      return ordered((result) => result === 0);
+    case 'neq':
+      return (record) => compare(read(record), value, exactDate) !== 0;
+    case 'gt':
+      return ordered((result) => result > 0);
+    case 'ge':
+    case 'gte':
+      return ordered((result) => result >= 0);
+    case 'lt':
+      return ordered((result) => result < 0);
+    case 'le':
+    case 'lte':
+      return ordered((result) => result <= 0);
+    case 'like':
+      return (record) => likeToRegExp(value).test(textOf(read(record)));
+    case 'nlike':
+      return (record) => !likeToRegExp(value).test(textOf(read(record)));
+    case 'blank':
+    case 'is':
+    case 'null':
+      return (record) => isBlank(read(record));
+    case 'notblank':
+    case 'isnot':
+    case 'notnull':
+      return (record) => !isBlank(read(record));
+    case 'checked':
+      return (record) => Boolean(read(record));
+    case 'notchecked':
+      return (record) => !read(record);
+    default:
+      throw new WhereSyntaxError(`Unsupported comparison operator "${op}"`);
+  }
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): RecordPredicate {
+    const predicate = this.expression();
+    if (this.index < this.input.length) {
+      throw new WhereSyntaxError(`Unexpected "${this.input.slice(this.index)}" at position ${this.index}`);
+    }
+    return predicate;
+  }
+
+  // Operators apply left to right, as in NocoDB; the app wraps mixed groups in parentheses.
+  private expression(): RecordPredicate {
+    let predicate = this.term();
+    while (this.input.startsWith('~and', this.index) || this.input.startsWith('~or', this.index)) {
+      const isAnd = this.input.startsWith('~and', this.index);
+      this.index += isAnd ? 4 : 3;
+      const left = predicate;
+      const right = this.term();
+      predicate = isAnd ? (record) => left(record) && right(record) : (record) => left(record) || right(record);
+    }
+    return predicate;
+  }
+
+  private term(): RecordPredicate {
+    if (this.input.startsWith('~not', this.index)) {
+      this.index += 4;
+      const inner = this.term();
+      return (record) => !inner(record);
+    }
+
+    this.expect('(');
+    let predicate: RecordPredicate;
+    if (this.input[this.index] === '(' || this.input.startsWith('~not', this.index)) {
+      predicate = this.expression();
+    } else {
+      const end = this.input.indexOf(')', this.index);
+      if (end === -1) {
+        throw new WhereSyntaxError('Missing ")"');
+      }
+      predicate = condition(this.input.slice(this.index, end).split(','));
+      this.index = end;
+    }
+    this.expect(')');
+    return predicate;
+  }
+
+  private expect(character: string) {
+    if (this.input[this.index] !== character) {
+      throw new WhereSyntaxError(`Expected "${character}" at position ${this.index}`);
+    }
+    this.index += 1;
+  }
+}
+
+/** Compile a `where` string into a record predicate; an empty clause matches everything. */
+export function compileWhere(where: string | null | undefined): RecordPredicate {
+  const trimmed = where?.trim();
+  if (!trimmed) {
+    return () => true;
+  }
+  return new Parser(trimmed).parse();
+}
+
+/** NocoDB `sort` parameter: comma-separated fields, `-` for descending. Blanks rank lowest (first ascending, last descending). */
+export function compareBySort(sort: string | null | undefined): (a: RawRecord, b: RawRecord) => number {
+  const keys = (sort ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean)
+    .map((key) => ({ field: key.replace(/^-/, ''), direction: key.startsWith('-') ? -1 : 1 }));
+
+  return (a, b) => {
+    for (const { field, direction } of keys) {
+      const left = a[field];
+      const right = b[field];
+      if (isBlank(left) || isBlank(right)) {
+        if (isBlank(left) !== isBlank(right)) return (isBlank(left) ? -1 : 1) * direction;
+        continue;
+      }
+      const result =
+        typeof left === 'number' && typeof right === 'number' ? left - right : textOf(left).localeCompare(textOf(right));
+      if (result !== 0) return result * direction;
+    }
+    return Number(a.Id) - Number(b.Id);
+  };
+}
@@ -1,12 +1,18 @@
 "use client";
 
 import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { Settings } from 'lucide-react';
+import { RefreshCw, Settings, Trash2 } from 'lucide-react';
 import { SearchComponent } from '@/shared/components/search-component';
 import { PWAInstallPrompt } from '@/shared/components/pwa-install-prompt';
 import { Button } from '@/shared/components/ui/button';
 import { SavedList } from '@/features/saved/components/saved-list';
+import { WorkspaceSwitcher } from '@/features/videos/components/workspace-switcher';
+import { AddVideoDialog } from '@/features/videos/components/add-video-dialog';
+import { SortDropdown } from '@/features/videos/components/sort-dropdown';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
+import { useVideoChanges } from '@/features/videos/hooks/use-video-changes';
 
 /**
  * Client-side HomePage Component
@@ -17,6 +23,15 @@ import { SavedList } from '@/features/saved/components/saved-list';
  */
 export function HomePageClient() {
   const [activeView, setActiveView] = useState<'summaries' | 'saved'>('summaries');
+  const { workspaceId, withWorkspace } = useWorkspace();
+  const { changedCount, acknowledge } = useVideoChanges(workspaceId);
+  const [listVersion, setListVersion] = useState(0);
+  const sort = useSearchParams()?.get('sort') ?? '';
+
+  const refreshList = () => {
+    acknowledge();
+    setListVersion((version) => version + 1);
+  };
 
   return (
     <div className="min-h-screen bg-neutral-900 text-neutral-50 p-4 md:p-8 font-plex-sans">
@@ -26,6 +41,8 @@ export function HomePageClient() {
             Video Collection
           </h1>
           <div className="flex items-center gap-4">
+            <WorkspaceSwitcher />
+            <AddVideoDialog onAdded={refreshList} />
             <div className="flex items-center gap-2 rounded-lg bg-neutral-800/80 p-1">
               <Button
                 size="sm"
@@ -43,7 +60,14 @@ export function HomePageClient() {
               </Button>
             </div>
             <Link
-              href="/settings"
+              href={withWorkspace('/trash')}
+              className="p-2 rounded-lg hover:bg-neutral-800 transition-colors"
+              title="Trash"
+            >
+              <Trash2 className="w-5 h-5 text-neutral-400 hover:text-neutral-100" />
+            </Link>
+            <Link
+              href={withWorkspace('/settings')}
               className="p-2 rounded-lg hover:bg-neutral-800 transition-colors"
               title="Settings"
             >
@@ -52,10 +76,26 @@ export function HomePageClient() {
           </div>
         </div>
 
+        {activeView === 'summaries' && (
+          <div className="mb-4 flex justify-end">
+            <SortDropdown />
+          </div>
+        )}
+
+        {activeView === 'summaries' && changedCount > 0 && (
+          <div className="mb-4 flex items-center justify-between gap-4 rounded-lg bg-neutral-800/80 px-4 py-2 text-sm text-neutral-300">
+            <span>Videos were changed in NocoDB since this list was loaded.</span>
+            <Button size="sm" variant="secondary" onClick={refreshList}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        )}
+
         {activeView === 'summaries' ? (
           <div className="search-component-wrapper">
-            {/* No initialVideos - let SearchComponent fetch client-side */}
-            <SearchComponent initialVideos={[]} />
+            {/* No initialVideos - let SearchComponent fetch client-side; remount per workspace, sort and on refresh */}
+            <SearchComponent key={`${workspaceId ?? 'default'}:${sort}:${listVersion}`} initialVideos={[]} />
           </div>
         ) : (
           <SavedList />
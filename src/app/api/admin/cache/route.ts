@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+
+import { getCacheStats } from '@/features/videos/api/cache';
+import { withApiErrors } from '@/shared/utils/api-errors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cache diagnostics: LRU size and hit/miss counters of the server-side video
+ * cache. Protected by the auth middleware like every other non-public route.
+ */
+export const GET = withApiErrors(async () => {
+  return NextResponse.json({ success: true, cache: getCacheStats() });
+});
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+
+import { buildSchemaDriftReport } from '@/features/videos/api/schema-drift';
+import { withApiErrors } from '@/shared/utils/api-errors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Compare the live NocoDB column list with `videoSchema` and the request
+ * field lists. Same data as the drift section on `/diagnostics`.
+ */
+export const GET = withApiErrors(async () => {
+  const report = await buildSchemaDriftReport();
+  return NextResponse.json({ success: true, report });
+}, 'Failed to build schema drift report');
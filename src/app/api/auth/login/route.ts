@@ -2,13 +2,8 @@ import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { timingSafeEqual } from 'crypto';
 
-const APP_PASSWORD = process.env.APP_PASSWORD;
-
-if (!APP_PASSWORD) {
-  throw new Error('APP_PASSWORD environment variable is required');
-}
-
-const APP_PASSWORD_NON_NULL = APP_PASSWORD;
+import { ApiError, readJsonBody, withApiErrors } from '@/shared/utils/api-errors';
+import { readServerEnv } from '@/shared/utils/env';
 
 type RateLimitEntry = {
   attempts: number;
@@ -40,7 +35,7 @@ async function readPassword(request: NextRequest): Promise<string | null> {
   const contentType = request.headers.get('content-type') ?? '';
 
   if (contentType.includes('application/json')) {
-    const body = await request.json().catch(() => null) as { password?: unknown } | null;
+    const body = (await readJsonBody(request)) as { password?: unknown } | null;
     return typeof body?.password === 'string' ? body.password : null;
   }
 
@@ -57,7 +52,7 @@ async function readPassword(request: NextRequest): Promise<string | null> {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withApiErrors(async (request: NextRequest) => {
   const ip = request.headers.get('x-forwarded-for')?.split(',')[0] ||
              request.headers.get('x-real-ip') ||
              'unknown';
@@ -67,7 +62,7 @@ export async function POST(request: NextRequest) {
     if (isFormRequest) {
       return NextResponse.redirect(new URL('/login?error=ratelimit', request.url), { status: 303 });
     }
-    return NextResponse.json({ success: false, message: 'Zu viele Versuche. Bitte warten Sie 10 Minuten.' }, { status: 429 });
+    throw new ApiError(429, 'Too many login attempts', 'Zu viele Versuche. Bitte warten Sie 10 Minuten.');
   }
 
   try {
@@ -75,14 +70,14 @@ export async function POST(request: NextRequest) {
     const isFormRequest = !(request.headers.get('content-type') ?? '').includes('application/json');
 
     if (!password) {
-      return NextResponse.json({ success: false, message: 'Passwort erforderlich' }, { status: 400 });
+      throw new ApiError(400, 'Password required', 'Passwort erforderlich');
     }
 
     const passwordBuffer = Buffer.from(password);
-    const expectedBuffer = Buffer.from(APP_PASSWORD_NON_NULL);
+    const expectedBuffer = Buffer.from(readServerEnv('APP_PASSWORD'));
 
     if (passwordBuffer.length !== expectedBuffer.length) {
-      return NextResponse.json({ success: false, message: 'Falsches Passwort' }, { status: 401 });
+      throw new ApiError(401, 'Wrong password', 'Falsches Passwort');
     }
 
     if (timingSafeEqual(passwordBuffer, expectedBuffer)) {
@@ -105,8 +100,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.redirect(new URL('/login?error=1', request.url), { status: 303 });
     }
 
-    return NextResponse.json({ success: false, message: 'Falsches Passwort' }, { status: 401 });
-  } catch {
+    throw new ApiError(401, 'Wrong password', 'Falsches Passwort');
+  } catch (error) {
     const contentType = request.headers.get('content-type') ?? '';
     const isFormRequest = !contentType.includes('application/json');
 
@@ -114,6 +109,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.redirect(new URL('/login?error=1', request.url), { status: 303 });
     }
 
-    return NextResponse.json({ success: false, message: 'Fehler bei der Authentifizierung' }, { status: 500 });
+    throw error instanceof ApiError ? error : new ApiError(500, 'Authentication failed', 'Fehler bei der Authentifizierung');
   }
-}
+});
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 
-export async function POST() {
+import { withApiErrors } from '@/shared/utils/api-errors';
+
+export const POST = withApiErrors(async () => {
   const response = NextResponse.json({ success: true });
 
   // Clear authentication cookie
@@ -13,4 +15,4 @@ export async function POST() {
   });
 
   return response;
-}
+});
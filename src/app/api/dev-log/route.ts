@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { appendFile } from 'node:fs/promises';
 import { resolve } from 'node:path';
 
+import { readJsonBody, withApiErrors } from '@/shared/utils/api-errors';
+
 interface DevLogRequestBody {
   timestamp?: string;
   level?: 'info' | 'warn' | 'error' | 'debug';
@@ -18,26 +20,20 @@ function normaliseEntry(body: DevLogRequestBody) {
   };
 }
 
-export async function POST(request: Request) {
+export const POST = withApiErrors(async (request: Request) => {
   if (process.env.NODE_ENV === 'production') {
     return NextResponse.json({ ok: true, ignored: true });
   }
 
-  try {
-    const body = (await request.json()) as DevLogRequestBody;
-    const entry = normaliseEntry(body);
-    const line = `${entry.timestamp} [${entry.level}] ${entry.message}${
-      entry.payload ? ` ${JSON.stringify(entry.payload)}` : ''
-    }\n`;
+  const body = (await readJsonBody(request)) as DevLogRequestBody;
+  const entry = normaliseEntry(body);
+  const line = `${entry.timestamp} [${entry.level}] ${entry.message}${
+    entry.payload ? ` ${JSON.stringify(entry.payload)}` : ''
+  }\n`;
 
-    const logPath = resolve(process.cwd(), 'server.log');
-    await appendFile(logPath, line, { encoding: 'utf8' });
+  const logPath = resolve(process.cwd(), 'server.log');
+  await appendFile(logPath, line, { encoding: 'utf8' });
 
-    console.log('[dev-log endpoint]', line.trim());
-    return NextResponse.json({ ok: true });
-  } catch (error) {
-    console.error('[dev-log endpoint] failed to write log', error);
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json({ ok: false, error: message }, { status: 500 });
-  }
-}
+  console.log('[dev-log endpoint]', line.trim());
+  return NextResponse.json({ ok: true });
+}, 'Failed to write dev log');
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+
+import { withApiErrors } from '@/shared/utils/api-errors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/health
+ *
+ * Liveness: answers `200` as long as the server process handles requests.
+ * It never calls NocoDB, so a slow upstream cannot get the container
+ * restarted; use `/api/ready` for dependency checks.
+ */
+export const GET = withApiErrors(async () => {
+  return NextResponse.json(
+    { status: 'pass', uptimeSeconds: Math.round(process.uptime()), timestamp: new Date().toISOString() },
+    { headers: { 'Cache-Control': 'no-store' } },
+  );
+});
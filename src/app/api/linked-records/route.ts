@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isLinkedRecordField,
+  LINKED_RECORD_FIELDS,
+  searchLinkedRecords,
+} from '@/features/videos/api/nocodb';
+import { resolveWorkspace, WORKSPACE_PARAM, workspaceTableOverrides } from '@/features/videos/api/workspaces';
+import { ApiError, withApiErrors } from '@/shared/utils/api-errors';
+
+/**
+ * GET /api/linked-records?field=Tags&q=mach
+ *
+ * Existing link targets whose title contains `q`, used as suggestions by the
+ * tag editors. Fields stored as plain text have no target table and return
+ * an empty list.
+ */
+export const GET = withApiErrors(async (request: NextRequest) => {
+  const { searchParams } = request.nextUrl;
+  const field = searchParams.get('field') ?? '';
+  if (!isLinkedRecordField(field)) {
+    throw new ApiError(400, 'Invalid field', `field must be one of ${LINKED_RECORD_FIELDS.join(', ')}`);
+  }
+
+  const workspace = resolveWorkspace(searchParams.get(WORKSPACE_PARAM));
+  const options = await searchLinkedRecords(field, searchParams.get('q') ?? '', workspaceTableOverrides(workspace));
+
+  return NextResponse.json({ success: true, options });
+}, 'Failed to search linked records');
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+
+// Registers the cache collectors even before the first cached read.
+import '@/features/videos/api/cache';
+import { ApiError, withApiErrors } from '@/shared/utils/api-errors';
+import { readServerEnv } from '@/shared/utils/env';
+import { PROMETHEUS_CONTENT_TYPE, renderMetrics } from '@/shared/utils/metrics';
+import { hasOperatorAccess } from '@/shared/utils/operator-access';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/metrics
+ *
+ * Prometheus text exposition of route, NocoDB, cache, TTS and download
+ * metrics. Scrapers authenticate with `Authorization: Bearer $METRICS_TOKEN`;
+ * a logged-in browser session is accepted too. The route is exempt from the
+ * cookie redirect in the middleware so scrapers get a `401` instead.
+ */
+export const GET = withApiErrors(async (request: NextRequest) => {
+  if (!hasOperatorAccess(request)) {
+    const token = readServerEnv('METRICS_TOKEN');
+    throw new ApiError(401, 'Unauthorized', token ? 'Send the metrics token as a Bearer token.' : 'Log in or set METRICS_TOKEN.');
+  }
+
+  return new Response(renderMetrics(), {
+    headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE, 'Cache-Control': 'no-store' },
+  });
+}, 'Failed to render metrics');
@@ -0,0 +1,70 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+import { createLocalVideoRepository } from '@/features/videos/api/local-repository';
+import { setVideoRepository } from '@/features/videos/api/repository';
+import { POST } from './route';
+
+describe('/api/offline/sync mutations', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await mkdtemp(join(tmpdir(), 'yt-viewer-offline-sync-'));
+    const filePath = join(dir, 'videos.json');
+    await writeFile(
+      filePath,
+      JSON.stringify([
+        { Id: 1, VideoID: 'a', Title: 'Alpha', Watched: false, UpdatedAt: '2026-10-05T00:00:00.000Z' },
+        { Id: 2, VideoID: 'b', Title: 'Beta', Watched: false, UpdatedAt: '2026-10-05T00:00:00.000Z' },
+      ]),
+      'utf8',
+    );
+    setVideoRepository(createLocalVideoRepository({ filePath }));
+    vi.stubEnv('VIDEO_AUDIT_LOG_MAX_ENTRIES', '0');
+  });
+
+  afterEach(async () => {
+    setVideoRepository(null);
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports stale offline edits as conflicts', async () => {
+    const mutation = (id: string, videoId: number, expectedUpdatedAt: string) => ({
+      id,
+      type: 'UPDATE',
+      videoId,
+      timestamp: 1,
+      data: { Watched: true },
+      retryCount: 0,
+      expectedUpdatedAt,
+    });
+
+    const response = await POST(
+      new NextRequest('http://localhost:3000/api/offline/sync', {
+        method: 'POST',
+        body: JSON.stringify({
+          action: 'mutations',
+          mutations: [mutation('m1', 1, '2026-10-01T00:00:00.000Z'), mutation('m2', 2, '2026-10-05T00:00:00.000Z')],
+        }),
+        headers: { 'content-type': 'application/json', cookie: 'yt-viewer-auth=authenticated' },
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      synced: 1,
+      errors: [{ mutationId: 'm1', error: expect.any(String), conflict: true }],
+    });
+  });
+});
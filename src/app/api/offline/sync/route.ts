@@ -1,124 +1,193 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { fetchVideos, videoOfflineCacheItemSchema } from '@/features/videos/api/nocodb';
-import { updateVideo, deleteVideo } from '@/features/videos/api/mutations';
+import {
+  iterateVideos,
+  batchMutateVideos,
+  deleteOperation,
+  videoOfflineCacheItemSchema,
+  type Video,
+  type VideoBatchOperation,
+  type VideoOfflineCacheItem,
+} from '@/features/videos/api/nocodb';
+import {
+  resolveWorkspace,
+  workspaceMutationOverrides,
+  workspaceTableOverrides,
+  type Workspace,
+} from '@/features/videos/api/workspaces';
+import { ApiError, readJsonBody, withApiErrors } from '@/shared/utils/api-errors';
+import { getRequestActor } from '@/shared/utils/request-actor';
 import { STORAGE_LIMITS } from '@/features/offline/db/schema';
+import type { PendingMutation } from '@/features/offline/schemas';
+import { getChangeFeedCursor } from '@/features/videos/api/change-feed';
 import { VIDEO_OFFLINE_FIELDS } from '@/features/videos/api/fields';
 
 // Increase timeout for slow Cloudflare tunnels (2 minutes)
 export const maxDuration = 120;
 
+// NocoDB caps `limit` per request, so the snapshot is read in pages.
+const OFFLINE_SYNC_PAGE_SIZE = 100;
+
 /**
  * Server-side sync endpoint
  *
- * For 'cache': Returns newest videos from NocoDB (client stores in IndexedDB)
+ * For 'cache': Returns newest videos from NocoDB (client stores in IndexedDB) plus a
+ *   `changeCursor` for `/api/videos/changes`, so the client can apply later edits
  * For 'mutations': Executes pending mutations from client
+ *
+ * `workspace` in the body scopes both actions to one configured NocoDB table;
+ * a mutation may carry its own `workspace` (queued while another was active).
  */
-export async function POST(request: NextRequest) {
+export const POST = withApiErrors(async (request: NextRequest) => {
   const startTime = Date.now();
   console.log('[API /api/offline/sync] Received sync request');
 
-  try {
-    const body = await request.json();
-    const { action, mutations } = body;
-    console.log(`[API /api/offline/sync] Action: ${action}`);
+  const body = (await readJsonBody(request)) as { action?: unknown; mutations?: PendingMutation[]; workspace?: unknown };
+  const { action, mutations } = body;
+  const workspace = resolveWorkspace(typeof body.workspace === 'string' ? body.workspace : null);
+  console.log(`[API /api/offline/sync] Action: ${action} (workspace: ${workspace.id})`);
+
+  if (action === 'cache') {
+    // Fetch newest videos from NocoDB (without transcripts)
+    console.log('[API /api/offline/sync] Fetching newest videos from NocoDB...');
+
+    try {
+      // Stream the newest videos page by page straight from NocoDB (bypassing
+      // the list cache, so the snapshot is never a stale-while-revalidate
+      // entry) and stop once the offline storage limit is reached. A client
+      // disconnect aborts the remaining page requests.
+      console.log('[API /api/offline/sync] Streaming videos with offline-cache params...');
+      const videos: VideoOfflineCacheItem[] = [];
+      let totalAvailable = 0;
+      // Taken before reading so a webhook change that lands mid-sync is replayed, not lost.
+      const changeCursor = getChangeFeedCursor();
+
+      for await (const page of iterateVideos({
+        sort: '-CreatedAt',
+        pageSize: OFFLINE_SYNC_PAGE_SIZE,
+        concurrency: 2,
+        signal: request.signal,
+        fields: [...VIDEO_OFFLINE_FIELDS],
+        schema: videoOfflineCacheItemSchema,
+        ...workspaceTableOverrides(workspace),
+      })) {
+        totalAvailable = page.pageInfo.totalRows;
+        videos.push(...page.videos.slice(0, STORAGE_LIMITS.MAX_VIDEOS - videos.length));
+        if (videos.length >= STORAGE_LIMITS.MAX_VIDEOS) {
+          break;
+        }
+      }
 
-    if (action === 'cache') {
-      // Fetch newest videos from NocoDB (without transcripts)
-      console.log('[API /api/offline/sync] Fetching newest videos from NocoDB...');
+      console.log(`[API /api/offline/sync] Streamed ${videos.length} videos (total: ${totalAvailable})`);
 
-      try {
-        // CRITICAL: Clear cache before fetching to avoid stale empty results
-        const { clearAllCache } = await import('@/features/videos/api/cache');
-        clearAllCache();
-        console.log('[API /api/offline/sync] Cleared video cache');
-
-        // Use CreatedAt sorting (proven to work) and request the fields needed for offline detail pages.
-        console.log('[API /api/offline/sync] Calling fetchVideos with offline-cache params...');
-        const result = await fetchVideos({
-          sort: '-CreatedAt',
-          limit: STORAGE_LIMITS.MAX_VIDEOS,
-          page: 1,
-          fields: [...VIDEO_OFFLINE_FIELDS],
-          schema: videoOfflineCacheItemSchema,
-        });
+      if (videos.length === 0) {
+        console.warn('[API /api/offline/sync] WARNING: No videos returned from NocoDB!');
+      }
 
-        console.log(`[API /api/offline/sync] fetchVideos returned ${result.videos.length} videos (total: ${result.pageInfo.totalRows})`);
+      // Videos already exclude transcripts via fields parameter
+      console.log(`[API /api/offline/sync] Returning ${videos.length} videos in ${Date.now() - startTime}ms`);
+
+      return NextResponse.json({
+        videos,
+        workspace: workspace.id,
+        changeCursor,
+        timestamp: Date.now(),
+        totalAvailable,
+      });
+    } catch (fetchError) {
+      // Rethrown as-is so the error middleware can map NocoDB statuses
+      console.error('[API /api/offline/sync] Failed to fetch videos from NocoDB:', fetchError);
+      throw fetchError;
+    }
 
-        if (result.videos.length === 0) {
-          console.warn('[API /api/offline/sync] WARNING: No videos returned from NocoDB!');
-        }
+  } else if (action === 'mutations') {
+    // Require authentication for mutations
+    const authCookie = request.cookies.get('yt-viewer-auth');
+    if (!authCookie || authCookie.value !== 'authenticated') {
+      console.error('[API /api/offline/sync] Unauthorized mutation attempt');
+      throw new ApiError(401, 'Unauthorized. Authentication required.');
+    }
 
-        // Videos already exclude transcripts via fields parameter
-        const videos = result.videos;
+    // Execute pending mutations on server
+    console.log('[API /api/offline/sync] Processing mutations...', mutations?.length || 0);
 
-        console.log(`[API /api/offline/sync] Returning ${videos.length} videos in ${Date.now() - startTime}ms`);
+    if (!mutations || !Array.isArray(mutations)) {
+      return NextResponse.json({ synced: 0, errors: [] });
+    }
 
-        return NextResponse.json({
-          videos,
-          timestamp: Date.now(),
-          totalAvailable: result.pageInfo.totalRows,
-        });
-      } catch (fetchError) {
-        console.error('[API /api/offline/sync] Failed to fetch videos from NocoDB:', fetchError);
-        throw new Error(`Failed to fetch videos from NocoDB: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}`);
-      }
+    const errors: Array<{ mutationId: string; error: string; conflict?: boolean }> = [];
+    let synced = 0;
 
-    } else if (action === 'mutations') {
-      // Require authentication for mutations
-      const authCookie = request.cookies.get('yt-viewer-auth');
-      if (!authCookie || authCookie.value !== 'authenticated') {
-        console.error('[API /api/offline/sync] Unauthorized mutation attempt');
-        return NextResponse.json(
-          { error: 'Unauthorized. Authentication required.' },
-          { status: 401 }
-        );
-      }
+    // Mutations are grouped per workspace and sent as one batch each, so a
+    // long offline session replays with a few bulk requests. Order within a
+    // workspace is preserved.
+    const batches = new Map<string, { workspace: Workspace; mutations: typeof mutations; operations: VideoBatchOperation[] }>();
 
-      // Execute pending mutations on server
-      console.log('[API /api/offline/sync] Processing mutations...', mutations?.length || 0);
+    for (const mutation of mutations) {
+      try {
+        const target = typeof mutation.workspace === 'string' ? resolveWorkspace(mutation.workspace) : workspace;
+        if (mutation.type !== 'UPDATE' && mutation.type !== 'DELETE') {
+          synced++;
+          continue;
+        }
 
-      if (!mutations || !Array.isArray(mutations)) {
-        return NextResponse.json({ synced: 0, errors: [] });
+        const batch = batches.get(target.id) ?? { workspace: target, mutations: [], operations: [] };
+        batch.mutations.push(mutation);
+        // Offline deletes follow the same soft-delete rule as DELETE /api/videos/[videoId].
+        batch.operations.push(
+          mutation.type === 'UPDATE'
+            ? {
+                op: 'update',
+                id: mutation.videoId,
+                data: (mutation.data ?? {}) as Partial<Video>,
+                expectedUpdatedAt: mutation.expectedUpdatedAt,
+              }
+            : deleteOperation(mutation.videoId),
+        );
+        batches.set(target.id, batch);
+      } catch (error) {
+        console.error(`[API /api/offline/sync] Failed to sync mutation:`, error);
+        errors.push({
+          mutationId: mutation.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
       }
+    }
 
-      const errors: Array<{ mutationId: string; error: string }> = [];
-      let synced = 0;
-
-      for (const mutation of mutations) {
-        try {
-          if (mutation.type === 'UPDATE') {
-            await updateVideo(mutation.videoId, mutation.data);
-          } else if (mutation.type === 'DELETE') {
-            await deleteVideo(mutation.videoId);
+    for (const batch of Array.from(batches.values())) {
+      try {
+        const results = await batchMutateVideos(batch.operations, workspaceMutationOverrides(batch.workspace), {
+          actor: getRequestActor(request, 'offline-sync'),
+        });
+        results.forEach((result) => {
+          if (result.success) {
+            synced++;
+          } else {
+            // Conflicts are reported as such so the client parks them instead of retrying forever.
+            errors.push({
+              mutationId: batch.mutations[result.index].id,
+              error: result.error ?? 'Unknown error',
+              conflict: result.conflict,
+            });
           }
-          synced++;
-        } catch (error) {
-          console.error(`[API /api/offline/sync] Failed to sync mutation:`, error);
+        });
+      } catch (error) {
+        console.error(`[API /api/offline/sync] Failed to sync mutations for workspace ${batch.workspace.id}:`, error);
+        batch.mutations.forEach((mutation: { id: string }) => {
           errors.push({
             mutationId: mutation.id,
             error: error instanceof Error ? error.message : 'Unknown error',
           });
-        }
+        });
       }
+    }
 
-      console.log(`[API /api/offline/sync] Synced ${synced}/${mutations.length} mutations in ${Date.now() - startTime}ms`);
+    console.log(`[API /api/offline/sync] Synced ${synced}/${mutations.length} mutations in ${Date.now() - startTime}ms`);
 
-      return NextResponse.json({ synced, errors });
+    return NextResponse.json({ synced, errors });
 
-    } else {
-      console.error(`[API /api/offline/sync] Invalid action: ${action}`);
-      return NextResponse.json(
-        { error: 'Invalid action. Use: cache or mutations' },
-        { status: 400 }
-      );
-    }
-  } catch (error) {
-    console.error('[API /api/offline/sync] Error:', error);
-    console.error('[API /api/offline/sync] Error stack:', error instanceof Error ? error.stack : 'N/A');
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Sync failed' },
-      { status: 500 }
-    );
+  } else {
+    console.error(`[API /api/offline/sync] Invalid action: ${action}`);
+    throw new ApiError(400, 'Invalid action. Use: cache or mutations');
   }
-}
+}, 'Sync failed');
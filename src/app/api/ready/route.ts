@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { getReadinessReport, summarizeReadinessReport } from '@/features/videos/server/readiness';
+import { withApiErrors } from '@/shared/utils/api-errors';
+import { hasOperatorAccess } from '@/shared/utils/operator-access';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/ready
+ *
+ * Readiness: runs the dependency checks and answers `200` (`pass` / `warn`)
+ * or `503` (`fail`), so `curl -f` works as a Docker or systemd health check.
+ * Anonymous probes only get the overall status; the per-check details need a
+ * login or `Authorization: Bearer $METRICS_TOKEN`, like `/api/metrics`.
+ */
+export const GET = withApiErrors(async (request: NextRequest) => {
+  const report = await getReadinessReport();
+  return NextResponse.json(hasOperatorAccess(request) ? report : summarizeReadinessReport(report), {
+    status: report.status === 'fail' ? 503 : 200,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}, 'Readiness check failed');
@@ -2,22 +2,20 @@ import { NextRequest } from 'next/server';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 vi.mock('@/features/videos/api/nocodb', () => ({
-  fetchAllVideos: vi.fn(),
-  videoListItemSchema: {},
+  searchVideos: vi.fn(),
 }));
 
-import { fetchAllVideos } from '@/features/videos/api/nocodb';
+import { searchVideos } from '@/features/videos/api/nocodb';
 import { GET } from './route';
 
-const mockedFetchAllVideos = vi.mocked(fetchAllVideos);
+const mockedSearchVideos = vi.mocked(searchVideos);
 
 describe('/api/search', () => {
   beforeEach(() => {
-    mockedFetchAllVideos.mockReset();
+    mockedSearchVideos.mockReset();
   });
 
   it('should return empty results for empty query', async () => {
-    mockedFetchAllVideos.mockResolvedValue([] as never);
     const request = new NextRequest('http://localhost:3000/api/search?q=');
     const response = await GET(request);
     const data = await response.json();
@@ -26,21 +24,14 @@ describe('/api/search', () => {
     expect(data.videos).toEqual([]);
     expect(data.total).toBe(0);
     expect(data.query).toBe('');
+    expect(mockedSearchVideos).not.toHaveBeenCalled();
   });
 
   it('should handle search requests correctly', async () => {
-    mockedFetchAllVideos.mockResolvedValue([
-      {
-        Id: 1,
-        Title: 'Test Video',
-        Description: 'This is a test video',
-        Channel: 'Test Channel',
-        VideoID: 'test123',
-        Hashtags: ['test', 'video'],
-        Persons: [{ Title: 'John Doe' }],
-        CreatedAt: new Date('2023-01-01'),
-      },
-    ] as never);
+    mockedSearchVideos.mockResolvedValue({
+      videos: [{ Id: 1, Title: 'Test Video', VideoID: 'test123' }],
+      total: 1,
+    } as never);
 
     // Validate that the endpoint responds with the expected shape.
     const request = new NextRequest('http://localhost:3000/api/search?q=test&categories=title,description');
@@ -48,10 +39,26 @@ describe('/api/search', () => {
     const data = await response.json();
 
     expect(data.success).toBe(true);
-    expect(data).toHaveProperty('videos');
-    expect(data).toHaveProperty('total');
+    expect(data.videos).toEqual([{ Id: 1, Title: 'Test Video', VideoID: 'test123' }]);
+    expect(data.total).toBe(1);
     expect(data).toHaveProperty('query');
-    expect(data).toHaveProperty('categories');
-    expect(data).toHaveProperty('availableCategories');
+    expect(data.categories).toEqual(['title', 'description']);
+    expect(data.availableCategories).toContain('tldr');
+    expect(mockedSearchVideos).toHaveBeenCalledWith(
+      expect.objectContaining({ query: 'test', categories: ['title', 'description'], limit: 35, offset: 0 }),
+    );
+  });
+
+  it('passes the normalised multi-key sort to break relevance ties', async () => {
+    mockedSearchVideos.mockResolvedValue({ videos: [], total: 0 } as never);
+
+    const request = new NextRequest(
+      'http://localhost:3000/api/search?q=test&sort=-ImportanceRating,-PublishedAt,Bogus',
+    );
+    await GET(request);
+
+    expect(mockedSearchVideos).toHaveBeenCalledWith(
+      expect.objectContaining({ sort: '-ImportanceRating,-PublishedAt' }),
+    );
   });
 });
@@ -1,151 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchAllVideos, videoListItemSchema, type VideoListItem } from '@/features/videos/api/nocodb';
-import { VIDEO_SEARCH_FIELDS } from '@/features/videos/api/fields';
+import { searchVideos } from '@/features/videos/api/nocodb';
+import { withApiErrors } from '@/shared/utils/api-errors';
+import { VIDEO_SEARCH_CATEGORIES } from '@/features/videos/api/field-registry';
+import { resolveWorkspace, WORKSPACE_PARAM, workspaceTableOverrides } from '@/features/videos/api/workspaces';
 import { normalizePagination } from '@/shared/utils/pagination';
+import { normalizeVideoSort } from '@/features/videos/utils/video-sort';
 
 /**
- * The search endpoint performs in-memory filtering. For small datasets this keeps
- * the code approachable: load the curated dataset, filter by the requested fields,
- * and respond with a paginated slice.
+ * Ranked full-text search. Results come from the per-table inverted index in
+ * `video-search.ts` (built on first use, refreshed on mutations) ordered by
+ * BM25 relevance; `sort` only orders results that score the same.
  */
 
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const query = searchParams.get('q') || '';
-    const categories = searchParams.get('categories')?.split(',').filter(Boolean) || [];
-    const rawLimit = searchParams.get('limit');
-    const rawOffset = searchParams.get('offset');
-    const sort = searchParams.get('sort') || '-CreatedAt';
-
-    const { limit, offset } = normalizePagination({
-      limit: rawLimit ? parseInt(rawLimit) : undefined,
-      offset: rawOffset ? parseInt(rawOffset) : undefined,
-    });
-
-    if (!query.trim()) {
-      return NextResponse.json({
-        videos: [],
-        total: 0,
-        success: true,
-        query: '',
-        categories: []
-      });
-    }
-
-    // Define searchable fields by category
-    const searchableFields: Record<string, string[]> = {
-      title: ['Title'],
-      description: ['Description'],
-      channel: ['Channel'],
-      speaker: ['Speaker'],
-      genre: ['VideoGenre'],
-      topic: ['MainTopic'],
-      hashtag: ['Hashtags'],
-      person: ['Persons'],
-      company: ['Companies'],
-      indicator: ['Indicators'],
-      trend: ['Trends'],
-      asset: ['InvestableAssets'],
-      institution: ['Institutions'],
-      event: ['EventsFairs'],
-      doi: ['DOIs'],
-      source: ['PrimarySources'],
-      technical: ['TechnicalTerms'],
-      ticker: ['TickerSymbol'],
-    };
-
-    // Get all videos from the database
-    const allVideos = await fetchAllVideos({
-      fields: [...VIDEO_SEARCH_FIELDS],
-      schema: videoListItemSchema,
-    });
-
-    // Build search terms from query
-    const searchTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
-
-    // Filter videos based on search terms and categories
-    const matchingVideos = allVideos.filter((video) => {
-      // If no categories specified, search all fields
-      const fieldsToSearch = categories.length > 0
-        ? categories.flatMap(category => searchableFields[category] || [])
-        : Object.values(searchableFields).flat();
-
-      // Remove duplicates
-      const uniqueFields = Array.from(new Set(fieldsToSearch));
-
-      return searchTerms.every(term =>
-        uniqueFields.some(field => {
-          const value = video[field as keyof VideoListItem];
-          if (value === null || value === undefined) return false;
-
-          // Handle arrays (linked records, tags, etc.)
-          if (Array.isArray(value)) {
-            return value.some(item => {
-              if (typeof item === 'string') {
-                return item.toLowerCase().includes(term);
-              }
-              if (typeof item === 'object' && item !== null) {
-                const title = item.Title || item.name;
-                if (typeof title === 'string') {
-                  return title.toLowerCase().includes(term);
-                }
-              }
-              return false;
-            });
-          }
-
-          // Handle strings
-          if (typeof value === 'string') {
-            return value.toLowerCase().includes(term);
-          }
-
-          // Handle numbers
-          if (typeof value === 'number') {
-            return value.toString().includes(term);
-          }
-
-          return false;
-        })
-      );
-    });
-
-    // Sort and limit results
-    const sortedVideos = matchingVideos.sort((a, b) => {
-      if (sort === '-CreatedAt') {
-        return new Date(b.CreatedAt || 0).getTime() - new Date(a.CreatedAt || 0).getTime();
-      }
-      if (sort === 'CreatedAt') {
-        return new Date(a.CreatedAt || 0).getTime() - new Date(b.CreatedAt || 0).getTime();
-      }
-      if (sort === 'Title') {
-        return (a.Title || '').localeCompare(b.Title || '');
-      }
-      if (sort === '-Title') {
-        return (b.Title || '').localeCompare(a.Title || '');
-      }
-      return 0;
-    });
-
-    const paginatedVideos = sortedVideos.slice(offset, offset + limit);
-
+export const GET = withApiErrors(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get('q') || '';
+  const categories = searchParams.get('categories')?.split(',').filter(Boolean) || [];
+  const rawLimit = searchParams.get('limit');
+  const rawOffset = searchParams.get('offset');
+  const sort = normalizeVideoSort(searchParams.get('sort'));
+  const workspace = resolveWorkspace(searchParams.get(WORKSPACE_PARAM));
+
+  const { limit, offset } = normalizePagination({
+    limit: rawLimit ? parseInt(rawLimit) : undefined,
+    offset: rawOffset ? parseInt(rawOffset) : undefined,
+  });
+
+  if (!query.trim()) {
     return NextResponse.json({
-      videos: paginatedVideos,
-      total: matchingVideos.length,
+      videos: [],
+      total: 0,
       success: true,
-      query,
-      categories,
-      availableCategories: Object.keys(searchableFields)
+      query: '',
+      categories: []
     });
-
-  } catch (error) {
-    return NextResponse.json(
-      {
-        error: 'Failed to search videos',
-        success: false,
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
   }
-}
+
+  const { videos, total } = await searchVideos({
+    query,
+    categories,
+    limit,
+    offset,
+    sort,
+    ...workspaceTableOverrides(workspace),
+  });
+
+  return NextResponse.json({
+    videos,
+    total,
+    success: true,
+    query,
+    categories,
+    availableCategories: VIDEO_SEARCH_CATEGORIES.map((category) => category.key)
+  });
+}, 'Failed to search videos');
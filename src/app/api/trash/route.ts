@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  emptyTrash,
+  listTrash,
+  purgeTrashedVideo,
+  restoreVideo,
+  scheduleTrashSweep,
+  NocoDBUnavailableError,
+} from '@/features/videos/api/nocodb';
+import { resolveWorkspace, WORKSPACE_PARAM } from '@/features/videos/api/workspaces';
+import { invalidRequestError, readJsonBody, withApiErrors } from '@/shared/utils/api-errors';
+import { getRequestActor } from '@/shared/utils/request-actor';
+
+const trashActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('restore'), videoIds: z.array(z.string().trim().min(1)).min(1).max(100) }),
+  z.object({ action: z.literal('purge'), videoIds: z.array(z.string().trim().min(1)).min(1).max(100) }),
+  z.object({ action: z.literal('empty') }),
+]);
+
+/**
+ * Trashed (soft-deleted) videos of the `?workspace=`, newest first, with the
+ * date each one will be purged. Also triggers the retention sweep.
+ */
+export const GET = withApiErrors(async (request: NextRequest) => {
+  const workspace = resolveWorkspace(request.nextUrl.searchParams.get(WORKSPACE_PARAM));
+  scheduleTrashSweep(workspace);
+
+  const listing = await listTrash(workspace);
+  return NextResponse.json({ success: true, ...listing });
+}, 'Failed to load trash');
+
+/**
+ * `{ action: 'restore' | 'purge', videoIds }` or `{ action: 'empty' }`.
+ * Purge only deletes videos that are in the trash; each id is reported on its
+ * own in `results`.
+ */
+export const POST = withApiErrors(async (request: NextRequest) => {
+  const workspace = resolveWorkspace(request.nextUrl.searchParams.get(WORKSPACE_PARAM));
+
+  const validationResult = trashActionSchema.safeParse(await readJsonBody(request));
+  if (!validationResult.success) {
+    throw invalidRequestError('Invalid trash action', validationResult.error);
+  }
+
+  const actor = getRequestActor(request, 'web');
+  const input = validationResult.data;
+
+  if (input.action === 'empty') {
+    const results = await emptyTrash(workspace, { actor });
+    const failed = results.filter((result) => !result.success).length;
+    return NextResponse.json({ success: failed === 0, purged: results.length - failed, failed, results });
+  }
+
+  const results: Array<{ videoId: string; success: boolean; error?: string }> = [];
+  for (const videoId of input.videoIds) {
+    try {
+      if (input.action === 'restore') {
+        await restoreVideo(videoId, workspace, { actor });
+      } else {
+        await purgeTrashedVideo(videoId, workspace, { actor });
+      }
+      results.push({ videoId, success: true });
+    } catch (error) {
+      // A broken connection fails the whole request instead of every item.
+      if (error instanceof NocoDBUnavailableError) {
+        throw error;
+      }
+      results.push({
+        videoId,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const failed = results.filter((result) => !result.success).length;
+  return NextResponse.json({ success: failed === 0, failed, results });
+}, 'Failed to update trash');
@@ -1,37 +1,38 @@
 import { NextResponse } from 'next/server';
 
-export const runtime = 'nodejs';
+import { ApiError, withApiErrors } from '@/shared/utils/api-errors';
+import { readServerEnv } from '@/shared/utils/env';
+import { secondsSince, ttsProxyDuration } from '@/shared/utils/metrics';
 
-const DEFAULT_TTS_API_URL = 'http://127.0.0.1:50000';
+export const runtime = 'nodejs';
 
-export async function POST(request: Request) {
-  const ttsBase = process.env.NEXT_PUBLIC_TTS_API_URL || DEFAULT_TTS_API_URL;
+export const POST = withApiErrors(async (request: Request) => {
+  const ttsBase = readServerEnv('NEXT_PUBLIC_TTS_API_URL');
   const url = new URL('/tts', ttsBase).toString();
+  const body = await request.text();
+  const startedAt = performance.now();
 
-  try {
-    const body = await request.text();
-
-    const upstream = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body,
-      // no caching for audio
-      cache: 'no-store',
-    });
+  const upstream = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    // no caching for audio
+    cache: 'no-store',
+  }).catch((error: unknown) => {
+    ttsProxyDuration.observe({ status: 'unreachable' }, secondsSince(startedAt));
+    throw new ApiError(502, 'TTS service is unreachable', error instanceof Error ? error.message : 'TTS proxy failed');
+  });
+  ttsProxyDuration.observe({ status: upstream.status }, secondsSince(startedAt));
 
-    const headers = new Headers();
-    // pass through content-type if the server sends one
-    const contentType = upstream.headers.get('content-type') || 'audio/wav';
-    headers.set('content-type', contentType);
-    headers.set('cache-control', 'no-store');
+  const headers = new Headers();
+  // pass through content-type if the server sends one
+  const contentType = upstream.headers.get('content-type') || 'audio/wav';
+  headers.set('content-type', contentType);
+  headers.set('cache-control', 'no-store');
 
-    // Stream the response to the browser
-    return new NextResponse(upstream.body, {
-      status: upstream.status,
-      headers,
-    });
-  } catch (err) {
-    const message = err instanceof Error ? err.message : 'TTS proxy failed';
-    return NextResponse.json({ error: message }, { status: 500 });
-  }
-}
+  // Stream the response to the browser
+  return new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers,
+  });
+}, 'TTS proxy failed');
@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchVideoByVideoId, getVideoNavigationData, getSimpleNavigationData } from '@/features/videos/api/nocodb';
+import {
+  fetchVideoByVideoId,
+  getVideoNavigationData,
+  getSimpleNavigationData,
+  videoETag,
+} from '@/features/videos/api/nocodb';
+import { resolveWorkspace, WORKSPACE_PARAM, workspaceTableOverrides } from '@/features/videos/api/workspaces';
+import { ApiError, withApiErrors } from '@/shared/utils/api-errors';
+import { normalizeVideoSort } from '@/features/videos/utils/video-sort';
 
 /**
  * GET /api/videos/[videoId]/details
@@ -7,72 +15,55 @@ import { fetchVideoByVideoId, getVideoNavigationData, getSimpleNavigationData }
  * Fetches a single video with navigation data (previous/next videos).
  * This route is intercepted by the Service Worker when offline to serve from IndexedDB.
  */
-export async function GET(
+export const GET = withApiErrors(async (
   request: NextRequest,
   { params }: { params: { videoId: string } }
-) {
-  try {
-    const resolvedParams = await Promise.resolve(params);
-    const { videoId } = resolvedParams;
-    const { searchParams } = request.nextUrl;
-    const sortParam = searchParams.get('sort') || '-CreatedAt';
+) => {
+  const resolvedParams = await Promise.resolve(params);
+  const { videoId } = resolvedParams;
+  const { searchParams } = request.nextUrl;
+  const sortParam = normalizeVideoSort(searchParams.get('sort'));
+  const overrides = workspaceTableOverrides(resolveWorkspace(searchParams.get(WORKSPACE_PARAM)));
 
-    if (!videoId) {
-      return NextResponse.json(
-        {
-          error: 'Missing videoId parameter',
-          success: false,
-        },
-        { status: 400 }
-      );
-    }
+  if (!videoId) {
+    throw new ApiError(400, 'Missing videoId parameter');
+  }
 
-    // Fetch the video
-    const video = await fetchVideoByVideoId(videoId);
+  // Fetch the video
+  const video = await fetchVideoByVideoId(videoId, overrides);
 
-    if (!video) {
-      return NextResponse.json(
-        {
-          error: 'Video not found',
-          success: false,
-        },
-        { status: 404 }
-      );
-    }
+  if (!video) {
+    throw new ApiError(404, 'Video not found');
+  }
 
-    // Get navigation data (previous/next videos)
-    let previousVideoData: { Id: string; Title: string | null } | null = null;
-    let nextVideoData: { Id: string; Title: string | null } | null = null;
+  // Get navigation data (previous/next videos)
+  let previousVideoData: { Id: string; Title: string | null } | null = null;
+  let nextVideoData: { Id: string; Title: string | null } | null = null;
 
-    try {
-      const navData = await getVideoNavigationData(video.VideoID || '', sortParam);
-      previousVideoData = navData.previousVideoData;
-      nextVideoData = navData.nextVideoData;
+  try {
+    const navData = await getVideoNavigationData(video.VideoID || '', sortParam, overrides);
+    previousVideoData = navData.previousVideoData;
+    nextVideoData = navData.nextVideoData;
 
-      if (!previousVideoData && !nextVideoData) {
-        const fallbackNavData = await getSimpleNavigationData(video.VideoID || '', sortParam);
-        previousVideoData = fallbackNavData.previousVideoData;
-        nextVideoData = fallbackNavData.nextVideoData;
-      }
-    } catch {
-      // Continue without navigation data if there's an error
+    if (!previousVideoData && !nextVideoData) {
+      const fallbackNavData = await getSimpleNavigationData(video.VideoID || '', sortParam, overrides);
+      previousVideoData = fallbackNavData.previousVideoData;
+      nextVideoData = fallbackNavData.nextVideoData;
     }
+  } catch {
+    // Continue without navigation data if there's an error
+  }
 
-    return NextResponse.json({
+  const etag = videoETag(video);
+
+  // The ETag lets clients make their next PATCH conditional (`If-Match`).
+  return NextResponse.json(
+    {
       success: true,
       video,
       previousVideo: previousVideoData,
       nextVideo: nextVideoData,
-    });
-  } catch (error) {
-    console.error('Error fetching video details:', error);
-    return NextResponse.json(
-      {
-        error: 'Failed to fetch video details',
-        success: false,
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
-  }
-}
+    },
+    { headers: etag ? { ETag: etag } : undefined },
+  );
+}, 'Failed to fetch video details');
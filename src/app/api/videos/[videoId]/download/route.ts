@@ -9,6 +9,9 @@ import {
   selectAudioFormat,
   selectVideoFormat,
 } from '@/features/videos/utils/download-format';
+import { YouTubeMetadataError } from '@/features/videos/api/errors';
+import { ApiError, withApiErrors } from '@/shared/utils/api-errors';
+import { downloadStreamBytesTotal } from '@/shared/utils/metrics';
 
 const buildVideoUrl = (videoId: string) => `https://www.youtube.com/watch?v=${videoId}`;
 
@@ -27,17 +30,14 @@ const getAttachmentFilename = (options: {
  * Stream a YouTube video or audio file to the client.
  * Uses ytdl-core to pick the best matching format and then streams it directly.
  */
-export async function GET(
+export const GET = withApiErrors(async (
   request: NextRequest,
   { params }: { params: { videoId: string } },
-) {
+) => {
   const { videoId } = params;
 
   if (!ytdl.validateID(videoId)) {
-    return NextResponse.json(
-      { success: false, error: 'Invalid video ID.' },
-      { status: 400 },
-    );
+    throw new ApiError(400, 'Invalid video ID.');
   }
 
   const searchParams = request.nextUrl.searchParams;
@@ -46,55 +46,50 @@ export async function GET(
     searchParams.get('quality') ??
     (type === 'audio' ? DEFAULT_AUDIO_QUALITY : DEFAULT_VIDEO_QUALITY);
 
-  try {
-    const info = await ytdl.getInfo(buildVideoUrl(videoId));
-    const formats = info.formats;
+  const info = await ytdl.getInfo(buildVideoUrl(videoId)).catch((error: unknown) => {
+    throw new YouTubeMetadataError(videoId, error instanceof Error ? error.message : String(error));
+  });
+  const formats = info.formats;
 
-    let selectedFormat: videoFormat | undefined;
+  let selectedFormat: videoFormat | undefined;
 
-    if (type === 'audio') {
-      const audioFormats = ytdl.filterFormats(formats, 'audioonly');
-      selectedFormat = selectAudioFormat(audioFormats, quality);
-    } else {
-      const videoFormats = ytdl.filterFormats(formats, 'videoandaudio');
-      selectedFormat = selectVideoFormat(videoFormats, quality);
-    }
-
-    if (!selectedFormat) {
-      return NextResponse.json(
-        { success: false, error: 'No matching format found.' },
-        { status: 404 },
-      );
-    }
+  if (type === 'audio') {
+    const audioFormats = ytdl.filterFormats(formats, 'audioonly');
+    selectedFormat = selectAudioFormat(audioFormats, quality);
+  } else {
+    const videoFormats = ytdl.filterFormats(formats, 'videoandaudio');
+    selectedFormat = selectVideoFormat(videoFormats, quality);
+  }
 
-    const mimeType = selectedFormat.mimeType?.split(';')[0] ?? 'application/octet-stream';
-    const filename = getAttachmentFilename({
-      videoId,
-      type,
-      quality,
-      container: selectedFormat.container,
-    });
-    const downloadStream = ytdl.downloadFromInfo(info, {
-      format: selectedFormat,
-    });
-    const webStream = Readable.toWeb(downloadStream) as ReadableStream<Uint8Array>;
+  if (!selectedFormat) {
+    throw new ApiError(404, 'No matching format found.');
+  }
 
-    return new NextResponse(webStream, {
-      headers: {
-        'Content-Type': mimeType,
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Cache-Control': 'no-store',
+  const mimeType = selectedFormat.mimeType?.split(';')[0] ?? 'application/octet-stream';
+  const filename = getAttachmentFilename({
+    videoId,
+    type,
+    quality,
+    container: selectedFormat.container,
+  });
+  const downloadStream = ytdl.downloadFromInfo(info, {
+    format: selectedFormat,
+  });
+  // Counts bytes as they reach the client, so aborted downloads report what was actually sent.
+  const webStream = (Readable.toWeb(downloadStream) as ReadableStream<Uint8Array>).pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        downloadStreamBytesTotal.inc({ type }, chunk.byteLength);
+        controller.enqueue(chunk);
       },
-    });
-  } catch (error) {
-    console.error('Download error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to start download.',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 },
-    );
-  }
-}
+    }),
+  );
+
+  return new NextResponse(webStream, {
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}, 'Failed to start download.');
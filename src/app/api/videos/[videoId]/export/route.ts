@@ -1,63 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchVideoByVideoId, type Video } from '@/features/videos/api/nocodb';
+import { fieldValueTexts, getVideoFieldLabel, VIDEO_EXPORT_FIELDS } from '@/features/videos/api/field-registry';
+import { resolveWorkspace, WORKSPACE_PARAM, workspaceTableOverrides } from '@/features/videos/api/workspaces';
+import { ApiError, withApiErrors } from '@/shared/utils/api-errors';
 
 /**
  * Export video data as markdown
  */
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const videoId = searchParams.get('videoId');
-
-    if (!videoId) {
-      return NextResponse.json(
-        {
-          error: 'Missing required field: videoId',
-          success: false
-        },
-        { status: 400 }
-      );
-    }
+export const GET = withApiErrors(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
 
-    console.log('Export request for videoId:', videoId);
+  if (!videoId) {
+    throw new ApiError(400, 'Missing required field: videoId');
+  }
 
-    const video = await fetchVideoByVideoId(videoId);
+  console.log('Export request for videoId:', videoId);
 
-    if (!video) {
-      return NextResponse.json(
-        {
-          error: 'Video not found',
-          success: false
-        },
-        { status: 404 }
-      );
-    }
+  const workspace = resolveWorkspace(searchParams.get(WORKSPACE_PARAM));
+  const video = await fetchVideoByVideoId(videoId, workspaceTableOverrides(workspace));
 
-    console.log('Exporting video:', video.Title, 'with ID:', video.VideoID);
+  if (!video) {
+    throw new ApiError(404, 'Video not found');
+  }
 
-    // Generate markdown content
-    const markdown = generateMarkdown(video);
+  console.log('Exporting video:', video.Title, 'with ID:', video.VideoID);
 
-    // Return as downloadable file
-    return new NextResponse(markdown, {
-      headers: {
-        'Content-Type': 'text/markdown',
-        'Content-Disposition': `attachment; filename="${video.Title || 'video'}.md"`
-      }
-    });
+  // Generate markdown content
+  const markdown = generateMarkdown(video);
 
-  } catch (error) {
-    console.error('Export error:', error);
-    return NextResponse.json(
-      {
-        error: 'Failed to export video',
-        success: false,
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
-  }
-}
+  // Return as downloadable file
+  return new NextResponse(markdown, {
+    headers: {
+      'Content-Type': 'text/markdown',
+      'Content-Disposition': `attachment; filename="${video.Title || 'video'}.md"`
+    }
+  });
+}, 'Failed to export video');
 
 function generateMarkdown(video: Video): string {
   try {
@@ -100,61 +79,19 @@ function generateMarkdown(video: Video): string {
       lines.push('');
     }
 
-    // Content sections
-    const contentSections = [
-      { key: 'TLDR', title: 'TL;DR' },
-      { key: 'MainSummary', title: 'Main Summary' },
-      { key: 'KeyExamples', title: 'Key Examples' },
-      { key: 'KeyNumbersData', title: 'Key Numbers & Data' },
-      { key: 'ActionableAdvice', title: 'Actionable Advice' },
-      { key: 'DetailedNarrativeFlow', title: 'Detailed Narrative Flow' },
-      { key: 'MemorableQuotes', title: 'Memorable Quotes' },
-      { key: 'MemorableTakeaways', title: 'Memorable Takeaways' },
-      { key: 'BookMediaRecommendations', title: 'Book/Media Recommendations' },
-      { key: 'Description', title: 'Description' },
-      { key: 'Transcript', title: 'Transcript' }
-    ];
-
-    contentSections.forEach(({ key, title }) => {
-      const value = video[key as keyof Video];
-      if (value && typeof value === 'string' && value.trim()) {
-        lines.push(`## ${title}`);
+    // One section per exportable field: text as-is, lists as bullets
+    VIDEO_EXPORT_FIELDS.forEach((field) => {
+      const value = video[field];
+      if (typeof value === 'string' && value.trim()) {
+        lines.push(`## ${getVideoFieldLabel(field)}`);
         lines.push(value);
         lines.push('');
-      }
-    });
-
-    // Array fields
-    const arrayFields = [
-      { key: 'RelatedURLs', title: 'Related URLs' },
-      { key: 'Persons', title: 'Persons' },
-      { key: 'Companies', title: 'Companies' },
-      { key: 'Indicators', title: 'Indicators' },
-      { key: 'Trends', title: 'Trends' },
-      { key: 'InvestableAssets', title: 'Investable Assets' },
-      { key: 'TickerSymbol', title: 'Ticker Symbols' },
-      { key: 'Institutions', title: 'Institutions' },
-      { key: 'EventsFairs', title: 'Events/Fairs' },
-      { key: 'DOIs', title: 'DOIs' },
-      { key: 'Hashtags', title: 'Hashtags' },
-      { key: 'PrimarySources', title: 'Primary Sources' },
-      { key: 'TechnicalTerms', title: 'Technical Terms' }
-    ];
-
-    arrayFields.forEach(({ key, title }) => {
-      const value = video[key as keyof Video];
-      if (value && Array.isArray(value) && value.length > 0) {
-        lines.push(`## ${title}`);
-        value.forEach((item: unknown) => {
-          if (typeof item === 'string') {
-            if (item.startsWith('http')) {
-              lines.push(`- [${item}](${item})`);
-            } else {
-              lines.push(`- ${item}`);
-            }
-          } else if (item && typeof item === 'object' && 'Title' in item && typeof (item as Record<string, unknown>).Title === 'string') {
-            lines.push(`- ${(item as Record<string, unknown>).Title}`);
-          }
+      } else if (Array.isArray(value)) {
+        const items = fieldValueTexts(value).filter((item) => item.trim());
+        if (items.length === 0) return;
+        lines.push(`## ${getVideoFieldLabel(field)}`);
+        items.forEach((item) => {
+          lines.push(item.startsWith('http') ? `- [${item}](${item})` : `- ${item}`);
         });
         lines.push('');
       }
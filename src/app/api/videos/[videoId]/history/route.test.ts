@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+
+import { POST } from './route';
+
+describe('/api/videos/[videoId]/history', () => {
+  it('answers malformed JSON with the shared invalid-body problem', async () => {
+    const response = await POST(
+      new NextRequest('http://localhost:3000/api/videos/a/history', { method: 'POST', body: '{"entryId":' }),
+      { params: { videoId: 'a' } },
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ title: 'Request body must be JSON' });
+  });
+});
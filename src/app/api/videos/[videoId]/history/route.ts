@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { updateVideo, videoUpdateSchema } from '@/features/videos/api/nocodb';
+import { findVideoAuditEntry, listVideoAudit, type VideoAuditEntry } from '@/features/videos/api/audit-log';
+import { resolveWorkspace, WORKSPACE_PARAM, workspaceMutationOverrides } from '@/features/videos/api/workspaces';
+import { ApiError, invalidRequestError, readJsonBody, withApiErrors } from '@/shared/utils/api-errors';
+import { getRequestActor } from '@/shared/utils/request-actor';
+
+const revertRequestSchema = z.object({
+  entryId: z.string().min(1),
+  field: z.string().min(1),
+});
+
+function toRecordId(videoId: string): number | null {
+  return /^\d+$/.test(videoId) ? Number(videoId) : null;
+}
+
+function belongsToVideo(entry: VideoAuditEntry, videoId: string, tableId: string | null): boolean {
+  return (
+    entry.tableId === tableId &&
+    (entry.videoId === videoId || (entry.recordId !== null && entry.recordId === toRecordId(videoId)))
+  );
+}
+
+/**
+ * GET /api/videos/[videoId]/history
+ *
+ * Audit entries for one video, newest first (`?limit=`, default 100).
+ */
+export const GET = withApiErrors(async (request: NextRequest, { params }: { params: { videoId: string } }) => {
+  const { videoId } = await Promise.resolve(params);
+  const { searchParams } = request.nextUrl;
+  const workspace = resolveWorkspace(searchParams.get(WORKSPACE_PARAM));
+  const limit = Number.parseInt(searchParams.get('limit') ?? '', 10);
+
+  const entries = await listVideoAudit({
+    tableId: workspaceMutationOverrides(workspace).tableId ?? null,
+    videoId,
+    recordId: toRecordId(videoId),
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, 500) : undefined,
+  });
+
+  return NextResponse.json({ success: true, entries });
+}, 'Failed to load video history');
+
+/**
+ * POST /api/videos/[videoId]/history
+ *
+ * Revert one field to the `before` value of an audit entry:
+ * `{ entryId, field }`. The revert is itself logged (action `revert`).
+ */
+export const POST = withApiErrors(async (request: NextRequest, { params }: { params: { videoId: string } }) => {
+  const { videoId } = await Promise.resolve(params);
+  const validationResult = revertRequestSchema.safeParse(await readJsonBody(request));
+
+  if (!validationResult.success) {
+    throw invalidRequestError('Invalid revert request', validationResult.error);
+  }
+
+  const { entryId, field } = validationResult.data;
+  const workspace = resolveWorkspace(request.nextUrl.searchParams.get(WORKSPACE_PARAM));
+  const overrides = workspaceMutationOverrides(workspace);
+  const entry = await findVideoAuditEntry(entryId);
+
+  if (!entry || !belongsToVideo(entry, videoId, overrides.tableId ?? null)) {
+    throw new ApiError(404, 'History entry not found');
+  }
+
+  const change = entry.changes.find((candidate) => candidate.field === field);
+  if (entry.action === 'delete' || entry.action === 'create' || !change) {
+    throw new ApiError(
+      400,
+      'This change cannot be reverted',
+      entry.action === 'delete'
+        ? 'The video was deleted'
+        : entry.action === 'create'
+          ? 'The entry records the video being added'
+          : `Field ${field} is not part of the entry`,
+    );
+  }
+
+  const revertData = videoUpdateSchema.safeParse({ [field]: change.before });
+  if (!revertData.success) {
+    throw invalidRequestError('Previous value is not editable', revertData.error);
+  }
+
+  const video = await updateVideo(entry.recordId ?? videoId, revertData.data, overrides, {
+    actor: getRequestActor(request, 'web'),
+    revertOf: entry.id,
+  });
+
+  return NextResponse.json({ success: true, video });
+}, 'Failed to revert field');
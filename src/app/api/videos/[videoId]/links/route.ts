@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchLinkedRecords } from '@/features/videos/api/nocodb';
+import { resolveWorkspace, WORKSPACE_PARAM, workspaceTableOverrides } from '@/features/videos/api/workspaces';
+import { ApiError, withApiErrors } from '@/shared/utils/api-errors';
+
+/**
+ * GET /api/videos/[videoId]/links
+ *
+ * Current Tags, Categories, Persons, Companies and Institutions of a video as
+ * `{ Id, Title }` lists. Record reads only carry counts for NocoDB link
+ * columns, so the tag editors load their values from here. Writes go through
+ * `PATCH /api/videos/[videoId]`.
+ */
+export const GET = withApiErrors(async (request: NextRequest, { params }: { params: { videoId: string } }) => {
+  const { videoId } = await Promise.resolve(params);
+  const workspace = resolveWorkspace(request.nextUrl.searchParams.get(WORKSPACE_PARAM));
+
+  const links = await fetchLinkedRecords(videoId, workspaceTableOverrides(workspace));
+  if (!links) {
+    throw new ApiError(404, 'Video not found');
+  }
+
+  return NextResponse.json({ success: true, links });
+}, 'Failed to load linked records');
@@ -0,0 +1,74 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+import { createLocalVideoRepository } from '@/features/videos/api/local-repository';
+import { setVideoRepository } from '@/features/videos/api/repository';
+import { DELETE, PATCH } from './route';
+
+describe('/api/videos/[videoId]', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'yt-viewer-video-route-'));
+    const filePath = join(dir, 'videos.json');
+    await writeFile(
+      filePath,
+      JSON.stringify([{ Id: 1, VideoID: 'a', Title: 'Alpha', UpdatedAt: '2026-10-01T00:00:00.000Z' }]),
+      'utf8',
+    );
+    setVideoRepository(createLocalVideoRepository({ filePath }));
+    vi.stubEnv('VIDEO_AUDIT_LOG_MAX_ENTRIES', '0');
+  });
+
+  afterEach(async () => {
+    setVideoRepository(null);
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const patch = (body: unknown, headers: Record<string, string> = {}) =>
+    PATCH(
+      new NextRequest('http://localhost:3000/api/videos/x', {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+        headers: { 'content-type': 'application/json', ...headers },
+      }),
+    );
+
+  it('answers 404 problems for unknown videos', async () => {
+    const updated = await patch({ videoId: 'missing', data: { Watched: true } });
+    expect(updated.status).toBe(404);
+    expect(updated.headers.get('content-type')).toContain('application/problem+json');
+    expect(await updated.json()).toMatchObject({ title: 'Video not found', videoId: 'missing' });
+
+    const deleted = await DELETE(new NextRequest('http://localhost:3000/api/videos/x?videoId=missing', { method: 'DELETE' }));
+    expect(deleted.status).toBe(404);
+  });
+
+  it('checks If-Match against the record version and id', async () => {
+    const version = Date.parse('2026-10-01T00:00:00.000Z');
+
+    const malformed = await patch({ videoId: 'a', data: { Watched: true } }, { 'if-match': '"not-an-etag"' });
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({ title: 'Invalid If-Match header' });
+
+    const otherRecord = await patch({ videoId: 'a', data: { Watched: true } }, { 'if-match': `W/"2-${version}"` });
+    expect(otherRecord.status).toBe(412);
+    expect(await otherRecord.json()).toMatchObject({ title: 'If-Match does not match this video', videoId: 'a' });
+
+    const stale = await patch({ videoId: 'a', data: { Watched: true } }, { 'if-match': `W/"1-${version - 1000}"` });
+    expect(stale.status).toBe(409);
+
+    const updated = await patch({ videoId: 'a', data: { Watched: true } }, { 'if-match': `W/"1-${version}"` });
+    expect(updated.status).toBe(200);
+    expect(updated.headers.get('etag')).toMatch(/^W\/"1-\d+"$/);
+  });
+});
@@ -1,131 +1,114 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { updateVideo, deleteVideo } from '@/features/videos/api/nocodb';
+import {
+  updateVideo,
+  deleteVideo,
+  getTrashConfig,
+  trashVideo,
+  videoUpdateSchema,
+  parseVideoETag,
+  videoETag,
+  type VideoETag,
+} from '@/features/videos/api/nocodb';
+import { resolveWorkspace, WORKSPACE_PARAM, workspaceMutationOverrides } from '@/features/videos/api/workspaces';
+import { ApiError, invalidRequestError, readJsonBody, withApiErrors } from '@/shared/utils/api-errors';
+import { getRequestActor } from '@/shared/utils/request-actor';
 import { z } from 'zod';
 
-const linkedRecordItemSchema = z
-  .object({
-    Id: z.union([z.number().int(), z.string()]).optional(),
-    Title: z.string().optional().nullable(),
-    name: z.string().optional().nullable(),
-  })
-  .passthrough();
-
-export const videoUpdateSchema = z
-  .object({
-    ImportanceRating: z.number().int().min(1).max(5).optional().nullable(),
-    PersonalComment: z.string().optional().nullable(),
-    Watched: z.boolean().optional().nullable(),
-    Notes: z.string().optional().nullable(),
-    Tags: z.array(linkedRecordItemSchema).optional().nullable(),
-    Categories: z.array(linkedRecordItemSchema).optional().nullable(),
-    CompletionDate: z.coerce.date().optional().nullable(),
-    ActionableAdvice: z.string().optional().nullable(),
-    TLDR: z.string().optional().nullable(),
-    MainSummary: z.string().optional().nullable(),
-    DetailedNarrativeFlow: z.string().optional().nullable(),
-    MemorableQuotes: z.array(z.string()).optional().nullable(),
-    MemorableTakeaways: z.array(z.string()).optional().nullable(),
-    KeyExamples: z.array(z.string()).optional().nullable(),
-    BookMediaRecommendations: z.array(z.string()).optional().nullable(),
-    RelatedURLs: z.array(z.string().url()).optional().nullable(),
-    TopicsDiscussed: z.array(z.string()).optional().nullable(),
-    Priority: z.string().optional().nullable(),
-    Status: z.string().optional().nullable(),
-    Hashtags: z.array(z.string()).optional().nullable(),
-  })
-  .strict();
+const expectedUpdatedAtSchema = z.coerce.date().optional().nullable();
+
+/** `If-Match` as a precondition; `*` and a missing header leave the update unconditional. */
+function readIfMatch(request: NextRequest): VideoETag | null {
+  const header = request.headers.get('if-match');
+  if (header === null || header.trim() === '*') {
+    return null;
+  }
+
+  const etag = parseVideoETag(header);
+  if (!etag) {
+    throw new ApiError(400, 'Invalid If-Match header', 'Expected an ETag from a previous response, e.g. W/"<Id>-<UpdatedAt>"');
+  }
+  return etag;
+}
 
 /**
  * API handlers in Next.js are simple async functions. We keep the logic tiny here
  * and delegate the heavy lifting to the NocoDB service layer so beginners can
  * trace the flow easily: validate input → call the service → return JSON.
+ * Both handlers honour `?workspace=` so edits land in the table the user is viewing.
+ * PATCH can be made conditional with `expectedUpdatedAt` in the body or an
+ * `If-Match` ETag; a stale write gets 409 with the current record. An
+ * `If-Match` that is not one of our ETags gets 400, one for another record 412.
+ * DELETE moves the video to the trash when `VIDEO_SOFT_DELETE=true`;
+ * permanent deletes of trashed videos go through `/api/trash`.
  */
 
-export async function PATCH(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { videoId, data } = body;
-
-    if (!videoId) {
-      return NextResponse.json(
-        {
-          error: 'Missing required field: videoId',
-          success: false,
-        },
-        { status: 400 },
-      );
-    }
-
-    if (!data) {
-      return NextResponse.json(
-        {
-          error: 'Missing required field: data',
-          success: false,
-        },
-        { status: 400 },
-      );
-    }
-
-    const validationResult = videoUpdateSchema.safeParse(data);
-
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Invalid update data',
-          success: false,
-          details: validationResult.error.errors,
-        },
-        { status: 400 },
-      );
-    }
-
-    const updatedVideo = await updateVideo(videoId, validationResult.data);
+export const PATCH = withApiErrors(async (request: NextRequest) => {
+  const body = (await readJsonBody(request)) as { videoId?: string | number; data?: unknown; expectedUpdatedAt?: unknown };
+  const { videoId, data } = body;
 
-    return NextResponse.json({
+  if (!videoId) {
+    throw new ApiError(400, 'Missing required field: videoId');
+  }
+
+  if (!data) {
+    throw new ApiError(400, 'Missing required field: data');
+  }
+
+  const validationResult = videoUpdateSchema.safeParse(data);
+
+  if (!validationResult.success) {
+    throw invalidRequestError('Invalid update data', validationResult.error);
+  }
+
+  const expectedResult = expectedUpdatedAtSchema.safeParse(body.expectedUpdatedAt);
+
+  if (!expectedResult.success) {
+    throw invalidRequestError('Invalid expectedUpdatedAt', expectedResult.error);
+  }
+
+  const ifMatch = readIfMatch(request);
+  const workspace = resolveWorkspace(request.nextUrl.searchParams.get(WORKSPACE_PARAM));
+  const updatedVideo = await updateVideo(videoId, validationResult.data, workspaceMutationOverrides(workspace), {
+    expectedUpdatedAt: expectedResult.data ?? ifMatch?.updatedAt,
+    expectedId: ifMatch?.id,
+    actor: getRequestActor(request, 'web'),
+  });
+  const etag = videoETag(updatedVideo);
+
+  return NextResponse.json(
+    {
       success: true,
       video: updatedVideo,
-    });
-  } catch (error) {
-    return NextResponse.json(
-      {
-        error: 'Failed to update video',
-        success: false,
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 },
-    );
-  }
-}
+    },
+    { headers: etag ? { ETag: etag } : undefined },
+  );
+}, 'Failed to update video');
 
-export async function DELETE(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const videoId = searchParams.get('videoId');
+export const DELETE = withApiErrors(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const videoId = searchParams.get('videoId');
 
-    if (!videoId) {
-      return NextResponse.json(
-        {
-          error: 'Missing required field: videoId',
-          success: false
-        },
-        { status: 400 }
-      );
-    }
+  if (!videoId) {
+    throw new ApiError(400, 'Missing required field: videoId');
+  }
 
-    await deleteVideo(videoId);
+  const workspace = resolveWorkspace(searchParams.get(WORKSPACE_PARAM));
+  const actor = getRequestActor(request, 'web');
 
+  if (getTrashConfig().enabled) {
+    await trashVideo(videoId, workspace, { actor });
     return NextResponse.json({
       success: true,
-      message: 'Video deleted successfully'
+      trashed: true,
+      message: 'Video moved to trash'
     });
-  } catch (error) {
-    return NextResponse.json(
-      {
-        error: 'Failed to delete video',
-        success: false,
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
   }
-}
+
+  await deleteVideo(videoId, workspaceMutationOverrides(workspace), { actor });
+
+  return NextResponse.json({
+    success: true,
+    trashed: false,
+    message: 'Video deleted successfully'
+  });
+}, 'Failed to delete video');
@@ -0,0 +1,85 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+import { createLocalVideoRepository } from '@/features/videos/api/local-repository';
+import { setVideoRepository } from '@/features/videos/api/repository';
+import { POST } from './route';
+
+describe('/api/videos/batch', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'yt-viewer-batch-route-'));
+    filePath = join(dir, 'videos.json');
+    await writeFile(
+      filePath,
+      JSON.stringify([
+        { Id: 1, VideoID: 'a', Title: 'Alpha', TrashedAt: null },
+        { Id: 2, VideoID: 'b', Title: 'Beta', TrashedAt: null },
+      ]),
+      'utf8',
+    );
+    setVideoRepository(createLocalVideoRepository({ filePath }));
+    vi.stubEnv('VIDEO_AUDIT_LOG_MAX_ENTRIES', '0');
+  });
+
+  afterEach(async () => {
+    setVideoRepository(null);
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const batch = (operations: unknown[]) =>
+    POST(
+      new NextRequest('http://localhost:3000/api/videos/batch', {
+        method: 'POST',
+        body: JSON.stringify({ operations }),
+        headers: { 'content-type': 'application/json' },
+      }),
+    );
+
+  const storedRecords = async () => JSON.parse(await readFile(filePath, 'utf8')) as Array<Record<string, unknown>>;
+
+  it('reports soft deletes as trashed deletes', async () => {
+    vi.stubEnv('VIDEO_SOFT_DELETE', 'true');
+
+    const response = await batch([
+      { op: 'update', videoId: 'a', data: { Watched: true } },
+      { op: 'delete', videoId: 'b' },
+    ]);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ success: true, succeeded: 2, failed: 0 });
+    expect(body.results[0]).toMatchObject({ index: 0, op: 'update', id: 'a', success: true });
+    expect(body.results[0].trashed).toBeUndefined();
+    expect(body.results[1]).toMatchObject({ index: 1, op: 'delete', id: 'b', success: true, trashed: true });
+
+    const stored = await storedRecords();
+    expect(stored.find((record) => record.VideoID === 'b')?.TrashedAt).not.toBeNull();
+  });
+
+  it('reports hard deletes without the trashed flag when soft delete is off', async () => {
+    const response = await batch([{ op: 'delete', videoId: 'b' }]);
+
+    const body = await response.json();
+    expect(body.results).toEqual([expect.objectContaining({ op: 'delete', id: 'b', success: true })]);
+    expect(body.results[0].trashed).toBeUndefined();
+    expect((await storedRecords()).map((record) => record.VideoID)).toEqual(['a']);
+  });
+
+  it('rejects invalid operations up front', async () => {
+    const response = await batch([{ op: 'archive', videoId: 'a' }]);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  batchMutateVideos,
+  deleteOperation,
+  videoUpdateSchema,
+  type VideoBatchItemResult,
+  type VideoBatchOperation,
+} from '@/features/videos/api/nocodb';
+import { resolveWorkspace, WORKSPACE_PARAM, workspaceMutationOverrides } from '@/features/videos/api/workspaces';
+import { invalidRequestError, readJsonBody, withApiErrors } from '@/shared/utils/api-errors';
+import { getRequestActor } from '@/shared/utils/request-actor';
+
+/** Upper bound per request; larger jobs should be split by the client. */
+const MAX_BATCH_OPERATIONS = 100;
+
+const videoIdSchema = z.union([z.number().int(), z.string().trim().min(1)]);
+
+const batchRequestSchema = z.object({
+  operations: z
+    .array(
+      z.discriminatedUnion('op', [
+        z.object({
+          op: z.literal('update'),
+          videoId: videoIdSchema,
+          data: videoUpdateSchema,
+          expectedUpdatedAt: z.coerce.date().optional().nullable(),
+        }),
+        z.object({ op: z.literal('delete'), videoId: videoIdSchema }),
+      ]),
+    )
+    .min(1)
+    .max(MAX_BATCH_OPERATIONS),
+});
+
+/**
+ * Apply many updates and deletes in one request:
+ * `{ operations: [{ op: 'update', videoId, data }, { op: 'delete', videoId }] }`.
+ * The whole body is validated up front; after that every operation succeeds or
+ * fails on its own and `results` reports each one in request order. Updates
+ * may carry `expectedUpdatedAt`; stale ones fail with `conflict: true`.
+ * Deletes move videos to the trash while soft delete is on, like
+ * `DELETE /api/videos/[videoId]`; their results still say `op: 'delete'`
+ * and carry `trashed: true`.
+ * Honours `?workspace=` like the single-record handlers.
+ */
+export const POST = withApiErrors(async (request: NextRequest) => {
+  const validationResult = batchRequestSchema.safeParse(await readJsonBody(request));
+
+  if (!validationResult.success) {
+    throw invalidRequestError('Invalid batch request', validationResult.error);
+  }
+
+  const workspace = resolveWorkspace(request.nextUrl.searchParams.get(WORKSPACE_PARAM));
+  const operations: VideoBatchOperation[] = validationResult.data.operations.map((operation) =>
+    operation.op === 'update'
+      ? { op: 'update', id: operation.videoId, data: operation.data, expectedUpdatedAt: operation.expectedUpdatedAt }
+      : deleteOperation(operation.videoId),
+  );
+
+  const results = (
+    await batchMutateVideos(operations, workspaceMutationOverrides(workspace), {
+      actor: getRequestActor(request, 'batch'),
+    })
+  ).map((result): VideoBatchItemResult =>
+    validationResult.data.operations[result.index].op === 'delete' && result.op === 'update'
+      ? { ...result, op: 'delete', trashed: true }
+      : result,
+  );
+  const failed = results.filter((result) => !result.success).length;
+
+  return NextResponse.json({
+    success: failed === 0,
+    succeeded: results.length - failed,
+    failed,
+    results,
+  });
+}, 'Failed to apply batch');
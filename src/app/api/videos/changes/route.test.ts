@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/features/videos/api/table-metadata', () => ({
+  resolveTableIdentifiers: vi.fn(async () => ({
+    identifiers: ['videos', 'm_videos'],
+    resolvedTableId: 'm_videos',
+    resolvedTableName: 'videos',
+  })),
+}));
+
+import { getChangeFeedCursor, recordVideoChanges, resetChangeFeed } from '@/features/videos/api/change-feed';
+import { GET } from './route';
+
+describe('/api/videos/changes', () => {
+  beforeEach(() => {
+    vi.stubEnv('NC_URL', 'http://noco');
+    vi.stubEnv('NC_TOKEN', 'token');
+    vi.stubEnv('NOCODB_PROJECT_ID', 'p1');
+    vi.stubEnv('NOCODB_TABLE_ID', 'videos');
+    vi.stubEnv('NOCODB_WORKSPACES', '');
+    resetChangeFeed();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('matches webhook changes by the resolved table id, not only the configured one', async () => {
+    const since = getChangeFeedCursor();
+    recordVideoChanges([
+      { type: 'update', id: 1, videoId: 'a', tableId: 'm_videos' },
+      { type: 'update', id: 2, videoId: 'b', tableId: 'm_other' },
+    ]);
+
+    const response = await GET(new NextRequest(`http://localhost:3000/api/videos/changes?since=${encodeURIComponent(since)}`));
+    const data = await response.json();
+
+    expect(data.changes.map((change: { videoId: string }) => change.videoId)).toEqual(['a']);
+  });
+});
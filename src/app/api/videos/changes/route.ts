@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getVideoChangesSince } from '@/features/videos/api/change-feed';
+import { getNocoDBConfig } from '@/features/videos/api/nocodb';
+import { resolveTableIdentifiers } from '@/features/videos/api/table-metadata';
+import { resolveWorkspace, WORKSPACE_PARAM } from '@/features/videos/api/workspaces';
+import { withApiErrors } from '@/shared/utils/api-errors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/videos/changes?since=<cursor>
+ *
+ * Records changed directly in NocoDB (reported by `/api/webhooks/nocodb`).
+ * Call without `since` to get the current cursor, then poll with it. A
+ * `reset: true` answer means changes were missed (server restart or the
+ * cursor fell out of the retained window) and the client should reload.
+ * Webhooks report the table's NocoDB id, which can differ from the
+ * configured `NOCODB_TABLE_ID` (a slug or name), so the feed is filtered by
+ * every identifier the table resolves to.
+ */
+export const GET = withApiErrors(async (request: NextRequest) => {
+  const { searchParams } = request.nextUrl;
+  const workspace = resolveWorkspace(searchParams.get(WORKSPACE_PARAM));
+  const config = getNocoDBConfig({
+    projectId: workspace.projectId,
+    tableId: workspace.tableId,
+    tableName: workspace.tableName,
+  });
+  const { identifiers } = await resolveTableIdentifiers(config);
+
+  return NextResponse.json({
+    success: true,
+    ...getVideoChangesSince(searchParams.get('since'), { tableIds: identifiers }),
+  });
+}, 'Failed to load changes');
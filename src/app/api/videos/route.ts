@@ -1,51 +1,92 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchVideos, videoListItemSchema } from '@/features/videos/api/nocodb';
+import { z } from 'zod';
+import {
+  fetchVideos,
+  importYouTubeVideo,
+  parseVideoFilter,
+  scheduleTrashSweep,
+  videoListItemSchema,
+} from '@/features/videos/api/nocodb';
+import { invalidRequestError, readJsonBody, withApiErrors } from '@/shared/utils/api-errors';
 import { VIDEO_LIST_FIELDS } from '@/features/videos/api/fields';
+import { resolveWorkspace, WORKSPACE_PARAM, workspaceTableOverrides } from '@/features/videos/api/workspaces';
+import { normalizeVideoSort } from '@/features/videos/utils/video-sort';
 import { normalizePagination } from '@/shared/utils/pagination';
+import { getRequestActor } from '@/shared/utils/request-actor';
+
+const addVideoSchema = z.object({ url: z.string().trim().min(1).max(2048) });
 
 /**
  * This route acts as a tiny proxy between the client and the data layer. It keeps
  * query parsing in one place and relies on the shared fetcher so the same
  * validation rules apply in API routes and server components alike.
+ *
+ * `filter` takes a JSON-encoded `VideoFilter`, e.g.
+ * `{"type":"and","filters":[{"type":"eq","field":"Channel","value":"Veritasium"},
+ * {"type":"range","field":"ImportanceRating","gte":4}]}`, which is compiled into
+ * a NocoDB `where` clause so filtering covers the whole table, not one page.
+ *
+ * `sort` is a NocoDB-style spec over `SORTABLE_VIDEO_FIELDS`, e.g.
+ * `-ImportanceRating,-PublishedAt`; unknown fields are dropped.
+ *
+ * `workspace` selects one of the configured NocoDB project/table pairs
+ * (`NOCODB_WORKSPACES`); omitted means the default table.
+ *
+ * Trashed videos are left out, and listing kicks off the (throttled) trash
+ * retention sweep for the workspace.
+ *
+ * POST `{ url }` adds a video: `url` is a YouTube URL or bare id, the metadata
+ * comes from `ytdl.getInfo`. A video already in the workspace answers 409 with
+ * the stored copy in `existing`.
  */
 
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const rawPage = searchParams.get('page');
-    const rawLimit = searchParams.get('limit');
-    const sort = searchParams.get('sort') || '-CreatedAt';
-
-    const { page, limit } = normalizePagination({
-      page: rawPage ? parseInt(rawPage) : undefined,
-      limit: rawLimit ? parseInt(rawLimit) : undefined,
-    });
-
-    const result = await fetchVideos({
-      sort,
-      limit,
-      page,
-      fields: [...VIDEO_LIST_FIELDS],
-      schema: videoListItemSchema,
-    });
-
-    const response = {
-      videos: result.videos,
-      pageInfo: {
-        ...result.pageInfo,
-        hasNextPage: !result.pageInfo.isLastPage,
-      },
-      success: true,
-    };
-    return NextResponse.json(response);
-  } catch (error) {
-    return NextResponse.json(
-      {
-        error: 'Failed to fetch videos',
-        success: false,
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
+export const GET = withApiErrors(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const rawPage = searchParams.get('page');
+  const rawLimit = searchParams.get('limit');
+  const sort = normalizeVideoSort(searchParams.get('sort'));
+  const rawFilter = searchParams.get('filter');
+  const filter = rawFilter ? parseVideoFilter(rawFilter) : undefined;
+  const workspace = resolveWorkspace(searchParams.get(WORKSPACE_PARAM));
+  scheduleTrashSweep(workspace);
+
+  const { page, limit } = normalizePagination({
+    page: rawPage ? parseInt(rawPage) : undefined,
+    limit: rawLimit ? parseInt(rawLimit) : undefined,
+  });
+
+  const result = await fetchVideos({
+    sort,
+    limit,
+    page,
+    fields: [...VIDEO_LIST_FIELDS],
+    schema: videoListItemSchema,
+    filter,
+    ...workspaceTableOverrides(workspace),
+  });
+
+  const response = {
+    videos: result.videos,
+    pageInfo: {
+      ...result.pageInfo,
+      hasNextPage: !result.pageInfo.isLastPage,
+    },
+    success: true,
+  };
+  return NextResponse.json(response);
+}, 'Failed to fetch videos');
+
+export const POST = withApiErrors(async (request: NextRequest) => {
+  const workspace = resolveWorkspace(request.nextUrl.searchParams.get(WORKSPACE_PARAM));
+
+  const validationResult = addVideoSchema.safeParse(await readJsonBody(request));
+  if (!validationResult.success) {
+    throw invalidRequestError('Missing required field: url', validationResult.error);
   }
-}
+
+  const video = await importYouTubeVideo(validationResult.data.url, workspace, {
+    actor: getRequestActor(request, 'web'),
+  });
+
+  return NextResponse.json({ success: true, video }, { status: 201 });
+}, 'Failed to add video');
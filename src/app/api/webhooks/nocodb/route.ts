@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  applyNocoDBWebhook,
+  isValidWebhookSecret,
+  parseNocoDBWebhook,
+  WEBHOOK_SECRET_HEADER,
+} from '@/features/videos/api/webhooks';
+import { ApiError, readJsonBody, withApiErrors } from '@/shared/utils/api-errors';
+import { readServerEnv } from '@/shared/utils/env';
+import { logDevEvent } from '@/shared/utils/server-logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/webhooks/nocodb
+ *
+ * Target for NocoDB "after insert/update/delete" hooks (single and bulk).
+ * NocoDB must send `NOCODB_WEBHOOK_SECRET` in the `x-webhook-secret` header;
+ * the route is exempt from cookie auth for that reason. Matching cache
+ * entries are purged and the change is appended to `/api/videos/changes`.
+ */
+export const POST = withApiErrors(async (request: NextRequest) => {
+  const secret = readServerEnv('NOCODB_WEBHOOK_SECRET');
+  if (!secret) {
+    throw new ApiError(503, 'Webhook receiver is not configured', 'Set NOCODB_WEBHOOK_SECRET to enable it.');
+  }
+
+  if (!isValidWebhookSecret(request.headers.get(WEBHOOK_SECRET_HEADER), secret)) {
+    throw new ApiError(401, 'Invalid webhook secret');
+  }
+
+  const event = parseNocoDBWebhook(await readJsonBody(request));
+  const changes = applyNocoDBWebhook(event);
+
+  void logDevEvent({
+    message: 'nocodb webhook: applied',
+    payload: { type: event.type, tableId: event.tableId, rows: event.rows.length, recorded: changes.length },
+  });
+
+  return NextResponse.json({ success: true, type: event.type, recorded: changes.length });
+}, 'Failed to process webhook');
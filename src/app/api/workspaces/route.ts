@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+
+import { listPublicWorkspaces } from '@/features/videos/api/workspaces';
+import { withApiErrors } from '@/shared/utils/api-errors';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Workspaces the header switcher can offer. Only ids and display names leave
+ * the server; project and table identifiers stay in the environment.
+ */
+export const GET = withApiErrors(async () => {
+  return NextResponse.json({ success: true, workspaces: listPublicWorkspaces() });
+}, 'Failed to load workspaces');
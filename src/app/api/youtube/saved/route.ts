@@ -3,8 +3,8 @@ import ytpl from '@distube/ytpl';
 
 import type { SavedVideo } from '@/features/saved/types';
 import { SAVED_CACHE_LIMIT_BYTES } from '@/features/saved/db/schema';
-
-const PLAYLIST_ID = process.env.YOUTUBE_SAVED_PLAYLIST_ID;
+import { ApiError, withApiErrors } from '@/shared/utils/api-errors';
+import { readServerEnv } from '@/shared/utils/env';
 
 const mapPlaylistItem = (item: {
   id: string;
@@ -32,36 +32,21 @@ const mapPlaylistItem = (item: {
  * Fetch the "Saved" YouTube playlist for the authenticated account.
  * The playlist ID must be provided via environment variable.
  */
-export async function GET() {
+export const GET = withApiErrors(async () => {
+  const PLAYLIST_ID = readServerEnv('YOUTUBE_SAVED_PLAYLIST_ID');
   if (!PLAYLIST_ID) {
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Missing YOUTUBE_SAVED_PLAYLIST_ID environment variable.',
-      },
-      { status: 500 },
-    );
+    throw new ApiError(500, 'Missing YOUTUBE_SAVED_PLAYLIST_ID environment variable.');
   }
 
-  try {
-    const playlist = await ytpl(PLAYLIST_ID, { limit: 200 });
-    const items = playlist.items.map(mapPlaylistItem);
+  const playlist = await ytpl(PLAYLIST_ID, { limit: 200 }).catch((error: unknown) => {
+    throw new ApiError(502, 'Failed to fetch saved playlist.', error instanceof Error ? error.message : 'Unknown error');
+  });
+  const items = playlist.items.map(mapPlaylistItem);
 
-    return NextResponse.json({
-      success: true,
-      items,
-      playlistTitle: playlist.title,
-      cacheLimitBytes: SAVED_CACHE_LIMIT_BYTES,
-    });
-  } catch (error) {
-    console.error('Failed to fetch saved playlist:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to fetch saved playlist.',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 },
-    );
-  }
-}
+  return NextResponse.json({
+    success: true,
+    items,
+    playlistTitle: playlist.title,
+    cacheLimitBytes: SAVED_CACHE_LIMIT_BYTES,
+  });
+});
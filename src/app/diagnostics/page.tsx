@@ -0,0 +1,248 @@
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+
+import { loadRecordDiagnostics, type RecordDiagnostics } from '@/features/videos/api/record-diagnostics';
+import { buildSchemaDriftReport, type SchemaDriftReport } from '@/features/videos/api/schema-drift';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Card, CardContent } from '@/shared/components/ui/card';
+import { describeServerEnv, type EnvSummaryEntry } from '@/shared/utils/env';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata = {
+  title: 'Diagnostics - YouTube Viewer',
+  description: 'Configuration, NocoDB table resolution, sample records and schema drift',
+};
+
+async function settle<T>(load: () => Promise<T>): Promise<{ value: T } | { error: string }> {
+  try {
+    return { value: await load() };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+function ConfigurationSection({ entries }: { entries: EnvSummaryEntry[] }) {
+  const invalid = entries.filter((entry) => entry.error);
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold mb-1">Configuration</h2>
+            <p className="text-sm text-muted-foreground">Effective environment; secrets are redacted.</p>
+          </div>
+          <Badge variant={invalid.length === 0 ? 'secondary' : 'destructive'}>
+            {invalid.length === 0 ? 'Valid' : `${invalid.length} invalid`}
+          </Badge>
+        </div>
+        <table className="w-full text-sm">
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.key} className="border-b last:border-0 align-top">
+                <td className="py-1 pr-4">
+                  <code>{entry.key}</code>
+                </td>
+                <td className="py-1 pr-4 break-all">
+                  {entry.value === null ? <span className="text-muted-foreground">unset</span> : <code>{entry.value}</code>}
+                  {entry.error && <div className="text-red-600">{entry.error}</div>}
+                </td>
+                <td className="py-1 text-right text-muted-foreground">{entry.source}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RecordsSection({ diagnostics }: { diagnostics: RecordDiagnostics }) {
+  const { table, samples } = diagnostics;
+  const failing = samples.filter((sample) => sample.detailIssues.length > 0 || sample.listIssues.length > 0);
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6 space-y-6">
+        <section>
+          <h2 className="text-xl font-semibold mb-2">Table Resolution</h2>
+          <p className="text-sm">
+            Resolved id <code>{table.resolvedTableId}</code>
+            {table.resolvedTableName && (
+              <>
+                {' '}
+                · name <code>{table.resolvedTableName}</code>
+              </>
+            )}
+          </p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {table.identifiers.map((identifier) => (
+              <Badge key={identifier} variant="outline">
+                {identifier}
+              </Badge>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <h3 className="font-medium">Sample records ({samples.length})</h3>
+            <Badge variant={failing.length === 0 ? 'secondary' : 'destructive'}>
+              {failing.length === 0 ? 'All parse' : `${failing.length} failing`}
+            </Badge>
+          </div>
+          {samples.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The table returned no records.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {samples.map((sample, index) => {
+                const issues = [
+                  ...sample.detailIssues.map((issue) => `videoSchema · ${issue}`),
+                  ...sample.listIssues.map((issue) => `videoListItemSchema · ${issue}`),
+                ];
+                return (
+                  <li key={`${sample.id ?? 'row'}-${index}`}>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <code>#{sample.id ?? '?'}</code>
+                      <span>{sample.title ?? <span className="text-muted-foreground">untitled</span>}</span>
+                      {issues.length === 0 && <Badge variant="secondary">ok</Badge>}
+                    </div>
+                    {issues.map((issue) => (
+                      <div key={issue} className="text-red-600 break-all">
+                        {issue}
+                      </div>
+                    ))}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </section>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ErrorCard({ title, message }: { title: string; message: string }) {
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6">
+        <h2 className="text-xl font-semibold mb-2">{title}</h2>
+        <p className="text-sm text-red-600 break-all">{message}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SchemaDriftSection({ report }: { report: SchemaDriftReport }) {
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-6 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold mb-1">Schema Drift</h2>
+            <p className="text-sm text-muted-foreground">
+              Table <code>{report.table.name ?? report.table.id}</code> · {report.columnCount} columns · checked{' '}
+              {new Date(report.generatedAt).toLocaleString()}
+            </p>
+          </div>
+          <Badge variant={report.ok ? 'secondary' : 'destructive'}>{report.ok ? 'In sync' : 'Drift detected'}</Badge>
+        </div>
+
+        <section>
+          <h3 className="font-medium mb-2">Missing columns ({report.missingColumns.length})</h3>
+          {report.missingColumns.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Every expected field exists in NocoDB.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {report.missingColumns.map((entry) => (
+                <li key={entry.field} className="flex flex-wrap items-center gap-2">
+                  <Badge variant={entry.severity === 'error' ? 'destructive' : 'outline'}>{entry.severity}</Badge>
+                  <code>{entry.field}</code>
+                  <span className="text-muted-foreground">used in {entry.usedIn.join(', ')}</span>
+                  {entry.similarColumn && (
+                    <span className="text-yellow-600">did you mean <code>{entry.similarColumn}</code>?</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h3 className="font-medium mb-2">Type mismatches ({report.typeMismatches.length})</h3>
+          {report.typeMismatches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Column types match the schema.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {report.typeMismatches.map((entry) => (
+                <li key={entry.field}>
+                  <code>{entry.field}</code>: schema expects <strong>{entry.expected}</strong>, NocoDB column is{' '}
+                  <strong>{entry.actual}</strong>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h3 className="font-medium mb-2">Unknown columns ({report.unknownColumns.length})</h3>
+          {report.unknownColumns.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No columns outside of <code>videoSchema</code>.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {report.unknownColumns.map((column) => (
+                <Badge key={column.title} variant="outline">
+                  {column.title} · {column.uidt}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </section>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Backend diagnostics. Like every page it sits behind the login middleware;
+ * secrets never reach the client (see `describeServerEnv`).
+ */
+export default async function DiagnosticsPage() {
+  const [records, drift] = await Promise.all([
+    settle(() => loadRecordDiagnostics()),
+    settle(() => buildSchemaDriftReport()),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-6 flex items-center gap-4">
+          <Link href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold">Diagnostics</h1>
+        </div>
+
+        <ConfigurationSection entries={describeServerEnv()} />
+
+        {'error' in records ? (
+          <ErrorCard title="Table Resolution" message={`Could not load sample records: ${records.error}`} />
+        ) : (
+          <RecordsSection diagnostics={records.value} />
+        )}
+
+        {'error' in drift ? (
+          <ErrorCard title="Schema Drift" message={`Could not load the table columns: ${drift.error}`} />
+        ) : (
+          <SchemaDriftSection report={drift.value} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -32,7 +32,7 @@ export default function LoginPage() {
         router.push('/');
         router.refresh();
       } else {
-        setError(data.message || 'Falsches Passwort');
+        setError(data.detail || 'Falsches Passwort');
       }
     } catch {
       setError('Fehler bei der Anmeldung');
@@ -1,5 +1,13 @@
+import { Suspense } from 'react';
+
 import { HomePageClient } from './HomePageClient';
 
 export default function HomePage() {
-  return <HomePageClient />;
+  // HomePageClient reads `?workspace=` via useSearchParams, which needs a
+  // Suspense boundary for the statically rendered shell.
+  return (
+    <Suspense>
+      <HomePageClient />
+    </Suspense>
+  );
 }
@@ -2,18 +2,22 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { ArrowLeft, RefreshCw, Trash2, WifiOff, Wifi, Database } from 'lucide-react';
+import { AlertTriangle, ArrowLeft, RefreshCw, Trash2, WifiOff, Wifi, Database } from 'lucide-react';
 import { Button } from '@/shared/components/ui/button';
 import { Card, CardContent } from '@/shared/components/ui/card';
 import { Switch } from '@/shared/components/ui/switch';
 import { useOfflineMode } from '@/features/offline/hooks/use-offline-mode';
 import { useOfflineStats } from '@/features/offline/hooks/use-offline-stats';
 import { clearAllVideos, setMetadata } from '@/features/offline/db/client';
+import { resolveMutationConflict } from '@/features/offline/offline-edits';
+import type { PendingMutation } from '@/features/offline/schemas';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
 
 export function SettingsPageClient() {
   const { isOfflineMode, isOnline, isSyncing, toggleOffline, syncNow } = useOfflineMode();
   const stats = useOfflineStats();
   const [isClearing, setIsClearing] = useState(false);
+  const { withWorkspace } = useWorkspace();
 
   const handleClearCache = async () => {
     if (!confirm('Are you sure you want to clear offline cache? This will remove all cached videos.')) {
@@ -35,6 +39,16 @@ export function SettingsPageClient() {
     }
   };
 
+  const handleResolveConflict = async (mutation: PendingMutation, choice: 'discard' | 'overwrite') => {
+    try {
+      await resolveMutationConflict(mutation, choice);
+      stats.refresh();
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      alert('Failed to resolve conflict');
+    }
+  };
+
   const handleSync = async () => {
     try {
       const result = await syncNow();
@@ -85,7 +99,7 @@ export function SettingsPageClient() {
       <div className="max-w-3xl mx-auto">
         {/* Header */}
         <div className="mb-6 flex items-center gap-4">
-          <Link href="/">
+          <Link href={withWorkspace('/')}>
             <Button variant="ghost" size="sm">
               <ArrowLeft className="w-4 h-4 mr-2" />
               Back
@@ -140,6 +154,44 @@ export function SettingsPageClient() {
           </CardContent>
         </Card>
 
+        {/* Sync Conflicts */}
+        {stats.conflicts.length > 0 && (
+          <Card className="mb-6 border-red-700">
+            <CardContent className="p-6">
+              <div className="flex items-center gap-3 mb-2">
+                <AlertTriangle className="w-5 h-5 text-red-500" />
+                <h2 className="text-xl font-semibold">Sync Conflicts</h2>
+              </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                These offline changes were not applied because the video changed on the server in the meantime.
+                They are not retried until you decide.
+              </p>
+
+              <ul className="space-y-3">
+                {stats.conflicts.map((mutation) => (
+                  <li key={mutation.id} className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        {mutation.type === 'DELETE' ? 'Delete' : 'Edit'} of video #{mutation.videoId}
+                        {mutation.type === 'UPDATE' && mutation.data ? ` (${Object.keys(mutation.data).join(', ')})` : ''}
+                      </p>
+                      {mutation.error && <p className="text-xs text-muted-foreground truncate">{mutation.error}</p>}
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => handleResolveConflict(mutation, 'discard')}>
+                        Discard
+                      </Button>
+                      <Button size="sm" variant="secondary" onClick={() => handleResolveConflict(mutation, 'overwrite')}>
+                        Keep mine
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Cache Stats */}
         <Card className="mb-6">
           <CardContent className="p-6">
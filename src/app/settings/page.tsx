@@ -1,3 +1,5 @@
+import { Suspense } from 'react';
+
 import { SettingsPageClient } from './SettingsPageClient';
 
 export const metadata = {
@@ -6,5 +8,9 @@ export const metadata = {
 };
 
 export default function SettingsPage() {
-  return <SettingsPageClient />;
+  return (
+    <Suspense>
+      <SettingsPageClient />
+    </Suspense>
+  );
 }
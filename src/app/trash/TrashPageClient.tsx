@@ -0,0 +1,193 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/shared/components/ui/button';
+import { Card, CardContent } from '@/shared/components/ui/card';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
+import type { TrashedVideo } from '@/features/videos/api/trash';
+
+interface TrashResponse {
+  success: boolean;
+  enabled?: boolean;
+  retentionDays?: number;
+  videos?: TrashedVideo[];
+  error?: string;
+  details?: string;
+}
+
+interface TrashActionResponse {
+  success: boolean;
+  error?: string;
+  results?: Array<{ videoId?: string; success: boolean; error?: string }>;
+}
+
+export function TrashPageClient() {
+  const { withWorkspace } = useWorkspace();
+  const [videos, setVideos] = useState<TrashedVideo[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [enabled, setEnabled] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(withWorkspace('/api/trash'), { cache: 'no-store' });
+      const result = (await response.json()) as TrashResponse;
+      if (!result.success) {
+        throw new Error(result.details || result.error || 'Failed to load trash');
+      }
+      setVideos(result.videos ?? []);
+      setRetentionDays(result.retentionDays ?? 0);
+      setEnabled(result.enabled ?? true);
+    } catch (loadError) {
+      console.error('Failed to load trash:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load trash');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [withWorkspace]);
+
+  useEffect(() => {
+    void loadTrash();
+  }, [loadTrash]);
+
+  const runAction = async (body: { action: 'restore' | 'purge'; videoIds: string[] } | { action: 'empty' }, busyKey: string) => {
+    setBusyId(busyKey);
+    setError(null);
+    try {
+      const response = await fetch(withWorkspace('/api/trash'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = (await response.json()) as TrashActionResponse;
+      if (!result.success) {
+        const failure = result.results?.find((item) => !item.success);
+        throw new Error(failure?.error || result.error || 'Trash action failed');
+      }
+    } catch (actionError) {
+      console.error('Trash action failed:', actionError);
+      setError(actionError instanceof Error ? actionError.message : 'Trash action failed');
+    } finally {
+      setBusyId(null);
+      await loadTrash();
+    }
+  };
+
+  const handlePurge = (video: TrashedVideo) => {
+    if (!video.VideoID) return;
+    if (!window.confirm(`Permanently delete "${video.Title ?? video.VideoID}"? This action cannot be undone.`)) {
+      return;
+    }
+    void runAction({ action: 'purge', videoIds: [video.VideoID] }, video.VideoID);
+  };
+
+  const handleEmpty = () => {
+    if (!window.confirm(`Permanently delete all ${videos.length} videos in the trash? This action cannot be undone.`)) {
+      return;
+    }
+    void runAction({ action: 'empty' }, 'empty');
+  };
+
+  const formatDate = (value: string | null) => {
+    if (!value) return 'Unknown';
+    return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium' }).format(new Date(value));
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="mb-6 flex items-center gap-4">
+          <Link href={withWorkspace('/')}>
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <Button
+            onClick={handleEmpty}
+            disabled={videos.length === 0 || busyId !== null}
+            variant="destructive"
+            size="sm"
+            className="ml-auto"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            {busyId === 'empty' ? 'Emptying...' : 'Empty trash'}
+          </Button>
+        </div>
+
+        <p className="mb-6 text-sm text-muted-foreground">
+          {!enabled
+            ? 'Soft delete is off (set VIDEO_SOFT_DELETE=true), so deleted videos are removed right away.'
+            : retentionDays > 0
+            ? `Deleted videos are removed for good after ${retentionDays} days.`
+            : 'Deleted videos stay here until you remove them.'}
+        </p>
+
+        {error && (
+          <div className="mb-6 rounded-md border border-red-700 bg-red-900/30 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        {isLoading && videos.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading trash...</p>
+        ) : videos.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-sm text-muted-foreground">The trash is empty.</CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {videos.map((video) => (
+              <Card key={video.Id}>
+                <CardContent className="flex items-center gap-4 p-4">
+                  {video.ThumbHigh && (
+                    <div className="relative h-16 w-28 flex-shrink-0 overflow-hidden rounded">
+                      <Image src={video.ThumbHigh} alt={`Thumbnail for ${video.Title}`} fill sizes="112px" className="object-cover" />
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{video.Title ?? video.VideoID ?? `#${video.Id}`}</p>
+                    {video.Channel && <p className="truncate text-sm text-muted-foreground">{video.Channel}</p>}
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {formatDate(video.trashedAt)}
+                      {video.purgeAt && ` · removed for good on ${formatDate(video.purgeAt)}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!video.VideoID || busyId !== null}
+                      onClick={() => video.VideoID && void runAction({ action: 'restore', videoIds: [video.VideoID] }, video.VideoID)}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={!video.VideoID || busyId !== null}
+                      onClick={() => handlePurge(video)}
+                      aria-label="Delete forever"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { Suspense } from 'react';
+
+import { TrashPageClient } from './TrashPageClient';
+
+export const metadata = {
+  title: 'Trash - YouTube Viewer',
+  description: 'Restore or permanently delete removed videos',
+};
+
+export default function TrashPage() {
+  return (
+    <Suspense>
+      <TrashPageClient />
+    </Suspense>
+  );
+}
@@ -3,6 +3,8 @@ import { useEffect, useState } from "react";
 import useSWR from "swr";
 import Link from "next/link";
 import type { Video, VideoListItem } from "@/features/videos/api/nocodb";
+import { getWorkspaceFromSearch, withWorkspace } from "@/features/videos/utils/workspace-url";
+import { DEFAULT_VIDEO_SORT, normalizeVideoSort } from "@/features/videos/utils/video-sort";
 import { VideoDetailPageContent } from "./VideoDetailPageContent";
 
 interface VideoDetailPageClientProps {
@@ -17,8 +19,10 @@ interface VideoDetailPageClientProps {
  * Fetcher function that calls the API route
  * Service Worker will intercept this when offline and serve from IndexedDB
  */
-const fetcher = async (videoId: string, sort: string = '-CreatedAt') => {
-  const response = await fetch(`/api/videos/${videoId}/details?videoId=${videoId}&sort=${sort}`);
+const fetcher = async (videoId: string, workspaceId: string | null, sort: string = DEFAULT_VIDEO_SORT) => {
+  const response = await fetch(
+    withWorkspace(`/api/videos/${videoId}/details?videoId=${videoId}&sort=${encodeURIComponent(sort)}`, workspaceId),
+  );
 
   if (!response.ok) {
     throw new Error(`Failed to fetch video: ${response.status}`);
@@ -46,6 +50,10 @@ export default function VideoDetailPageClient({
 }: VideoDetailPageClientProps) {
   // Extract videoId from browser URL to handle cached HTML pages correctly
   const [actualVideoId, setActualVideoId] = useState<string>(serverVideoId);
+  // `undefined` until the URL has been read, so the first request already targets the right workspace.
+  const [workspaceId, setWorkspaceId] = useState<string | null | undefined>(undefined);
+  // The list's sort (`?sort=`), so prev/next step through videos in the order the user saw them.
+  const [sort, setSort] = useState<string>(DEFAULT_VIDEO_SORT);
 
   useEffect(() => {
     // When offline, the Service Worker serves cached HTML with a stale videoId prop
@@ -57,12 +65,14 @@ export default function VideoDetailPageClient({
         console.log('[VideoDetailPageClient] Extracted videoId from URL:', urlVideoId, '(server prop was:', serverVideoId, ')');
         setActualVideoId(urlVideoId);
       }
+      setSort(normalizeVideoSort(new URLSearchParams(window.location.search).get('sort')));
+      setWorkspaceId(getWorkspaceFromSearch(window.location.search));
     }
   }, [serverVideoId, actualVideoId]);
 
   const { data, error, isLoading } = useSWR(
-    ["video-detail", actualVideoId],
-    () => fetcher(actualVideoId),
+    workspaceId === undefined ? null : ["video-detail", actualVideoId, workspaceId, sort],
+    () => fetcher(actualVideoId, workspaceId ?? null, sort),
     {
       fallbackData: initialVideo ? {
         video: initialVideo,
@@ -73,7 +83,7 @@ export default function VideoDetailPageClient({
     }
   );
 
-  if (isLoading && !data) {
+  if ((isLoading || workspaceId === undefined) && !data) {
     return (
       <div className="min-h-screen bg-neutral-900 text-neutral-50 flex items-center justify-center">
         <div className="text-center">
@@ -89,7 +99,7 @@ export default function VideoDetailPageClient({
       <div className="min-h-screen bg-neutral-900 text-neutral-50 flex items-center justify-center">
         <div className="text-center">
           <p className="text-xl text-red-400 mb-4">Error: {error.message}</p>
-          <Link href="/" className="text-blue-400 hover:text-blue-300 underline">
+          <Link href={withWorkspace('/', workspaceId)} className="text-blue-400 hover:text-blue-300 underline">
             Back to Video List
           </Link>
         </div>
@@ -102,7 +112,7 @@ export default function VideoDetailPageClient({
       <div className="min-h-screen bg-neutral-900 text-neutral-50 flex items-center justify-center">
         <div className="text-center">
           <p className="text-xl text-neutral-400">Video not found.</p>
-          <Link href="/" className="text-blue-400 hover:text-blue-300 underline">
+          <Link href={withWorkspace('/', workspaceId)} className="text-blue-400 hover:text-blue-300 underline">
             Back to Video List
           </Link>
         </div>
@@ -2,13 +2,22 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
 import Link from 'next/link';
 import Image from 'next/image';
 import { Edit3, ChevronDown, ChevronRight, ChevronLeft, ArrowLeft, AlertTriangle, Copy, Trash2, XCircle, Download, Check, Volume2, VolumeX, Loader2, Pause, Play } from 'lucide-react';
 import { useTextToSpeech, extractExpandedText } from '@/shared/hooks/use-text-to-speech';
 import type { Video, VideoListItem } from '@/features/videos/api/nocodb';
-import { StarRating } from '@/features/videos/components';
+import { LinkedRecordEditors, StarRating, VideoHistoryPanel } from '@/features/videos/components';
 import { SafeReactMarkdown } from '@/shared/components/safe-react-markdown';
+import { getOfflineMode, isOnline } from '@/features/offline/offline-mode';
+import { queueOfflineDelete, queueOfflineUpdate } from '@/features/offline/offline-edits';
+import {
+  getVideoFieldDefinition,
+  getVideoFieldLabel,
+  isMarkdownField,
+  VIDEO_DETAIL_FIELDS,
+} from '@/features/videos/api/field-registry';
 
 export type { Video, VideoListItem } from '@/features/videos/api/nocodb';
 
@@ -21,14 +30,6 @@ interface VideoDetailPageContentProps {
   nextVideo?: { Id: string; Title: string | null } | null;
 }
 
-const formatFieldName = (fieldName: string): string => {
-  return fieldName
-    .replace(/([A-Z])/g, ' $1')
-    .replace(/_/g, ' ')
-    .trim()
-    .replace(/^\w/, (c) => c.toUpperCase());
-};
-
 // Deterministic date formatting to avoid SSR/CSR hydration mismatch.
 const formatDateTimeUtc = (value: string | Date): string => {
   const date = value instanceof Date ? value : new Date(value);
@@ -37,22 +38,6 @@ const formatDateTimeUtc = (value: string | Date): string => {
   return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
 };
 
-const MARKDOWN_FIELDS = [
-  'ActionableAdvice',
-  'TLDR',
-  'MainSummary',
-  'KeyNumbersData',
-  'KeyExamples',
-  'DetailedNarrativeFlow',
-  'MemorableQuotes',
-  'MemorableTakeaways',
-  'Description',
-  'Notes',
-  'BookMediaRecommendations',
-  'RelatedURLs',
-  'SentimentReason',
-];
-
 interface DetailItemProps {
   label: string;
   value: FieldValue;
@@ -295,7 +280,7 @@ const DetailItem = React.memo<DetailItemProps>(({
         aria-expanded={!isCollapsed}
       >
         <span className="text-xs font-medium text-neutral-400 hover:text-neutral-300 transition-colors">
-          {formatFieldName(label)}
+          {getVideoFieldLabel(label)}
         </span>
         <div className="flex items-center space-x-2 text-neutral-500 hover:text-neutral-300 transition-colors">
           {isMarkdown && (
@@ -331,11 +316,14 @@ export function VideoDetailPageContent({
 }: VideoDetailPageContentProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { workspaceId, withWorkspace } = useWorkspace();
   const [currentVideo, setCurrentVideo] = useState<Video>(video);
   const [isEditingComment, setIsEditingComment] = useState(false);
   const [personalComment, setPersonalComment] = useState(video.PersonalComment || '');
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
+  // Server copy returned with a 409 when our edit was based on an outdated version.
+  const [conflict, setConflict] = useState<Video | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isDangerZoneOpen, setIsDangerZoneOpen] = useState(false);
   const [copiedMarkdown, setCopiedMarkdown] = useState(false);
@@ -368,23 +356,65 @@ export function VideoDetailPageContent({
     }
   }, [tts]);
 
+  // Without a connection (and offline mode on) edits are queued and replayed on
+  // the next sync; the queued mutation carries its own UpdatedAt precondition.
+  const shouldQueueOffline = async () => !isOnline() && (await getOfflineMode());
+
+  // Every edit is conditional on the UpdatedAt we rendered, so a change made on
+  // another device is reported instead of silently overwritten.
+  const patchCurrentVideo = async (data: Partial<Video>): Promise<Video> => {
+    if (await shouldQueueOffline()) {
+      await queueOfflineUpdate(currentVideo.Id, data, workspaceId);
+      return { ...currentVideo, ...data };
+    }
+
+    const response = await fetch(withWorkspace(`/api/videos/${currentVideo.VideoID}`), {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        videoId: currentVideo.VideoID,
+        data,
+        expectedUpdatedAt: currentVideo.UpdatedAt ?? null,
+      }),
+    });
+    const result = await response.json();
+
+    if (response.status === 409 && result.current) {
+      setConflict(result.current);
+      throw new Error('This video was changed elsewhere since you opened it');
+    }
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to update video');
+    }
+
+    return result.video;
+  };
+
+  const resolveConflict = (choice: 'theirs' | 'mine') => {
+    if (!conflict) return;
+
+    if (choice === 'theirs') {
+      setCurrentVideo(conflict);
+      setPersonalComment(conflict.PersonalComment || '');
+      setActiveImportanceRating(conflict.ImportanceRating || null);
+    } else {
+      // Keep the local values; the next save is based on the server version and wins.
+      setCurrentVideo(prev => ({ ...prev, UpdatedAt: conflict.UpdatedAt }));
+    }
+
+    setConflict(null);
+    setSaveError(null);
+  };
+
   // Handler to clear DetailedNarrativeFlow
   const handleClearNarrative = async () => {
     if (!currentVideo?.VideoID) return;
     setIsSaving(true);
     setSaveError(null);
     try {
-      const response = await fetch(`/api/videos/${currentVideo.VideoID}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ videoId: currentVideo.VideoID, data: { DetailedNarrativeFlow: null } })
-      });
-      const result = await response.json();
-      if (result.success) {
-        setCurrentVideo(prev => ({ ...prev!, DetailedNarrativeFlow: null })); // No alert, UI will update
-      } else {
-        throw new Error(result.error || 'Failed to clear narrative');
-      }
+      const updated = await patchCurrentVideo({ DetailedNarrativeFlow: null });
+      setCurrentVideo({ ...updated, DetailedNarrativeFlow: null }); // No alert, UI will update
     } catch (error) {
       console.error('Failed to clear narrative:', error);
       setSaveError(error instanceof Error ? error.message : 'Failed to clear narrative.');
@@ -394,21 +424,42 @@ export function VideoDetailPageContent({
     }
   };
 
+  const handleRestoreVideo = async () => {
+    if (!currentVideo?.VideoID) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const updated = await patchCurrentVideo({ TrashedAt: null });
+      setCurrentVideo(updated);
+    } catch (error) {
+      console.error('Failed to restore video:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to restore video.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleDeleteVideo = async () => {
     if (!currentVideo?.VideoID) return;
-    if (!window.confirm('Delete this video entry? This action cannot be undone.')) {
+    if (!window.confirm('Delete this video entry? It moves to the trash, where it can be restored until it is purged.')) {
       return;
     }
     setIsDeleting(true);
     setSaveError(null);
     try {
-      const response = await fetch(`/api/videos/${currentVideo.VideoID}?videoId=${currentVideo.VideoID}`, {
+      if (await shouldQueueOffline()) {
+        await queueOfflineDelete(currentVideo.Id, workspaceId);
+        router.push(withWorkspace('/'));
+        return;
+      }
+
+      const response = await fetch(withWorkspace(`/api/videos/${currentVideo.VideoID}?videoId=${currentVideo.VideoID}`), {
         method: 'DELETE'
       });
       const result = await response.json();
       if (result.success) {
         // No alert, will redirect
-        router.push('/');
+        router.push(withWorkspace('/'));
       } else {
         throw new Error(result.error || 'Failed to delete video');
       }
@@ -508,21 +559,8 @@ export function VideoDetailPageContent({
     setSaveError(null);
     try {
       const updatedFields = { [field]: newRating };
-      // Use the simplified update function for better reliability
-      const response = await fetch(`/api/videos/${currentVideo.VideoID}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ videoId: currentVideo.VideoID, data: updatedFields })
-      });
-      const result = await response.json();
-      if (result.success) {
-        setCurrentVideo(prev => ({ ...prev!, ...updatedFields as Partial<Video> }));
-
-        // Also update the state with the refreshed data from NocoDB
-        setCurrentVideo(result.video);
-      } else {
-        throw new Error(result.error || `Failed to save ${String(field)}`);
-      }
+      // Update the state with the refreshed data from NocoDB (incl. the new UpdatedAt)
+      setCurrentVideo(await patchCurrentVideo(updatedFields as Partial<Video>));
     } catch (error) {
       console.error(`Failed to save ${field}:`, error);
       const errorMessage = error instanceof Error ? error.message : `Failed to save ${String(field)}`;
@@ -557,18 +595,9 @@ export function VideoDetailPageContent({
     setSaveError(null);
     try {
       const updatedFields = { PersonalComment: personalComment };
-      const response = await fetch(`/api/videos/${currentVideo.VideoID}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ videoId: currentVideo.VideoID, data: updatedFields })
-      });
-      const result = await response.json();
-      if (result.success) {
-        setCurrentVideo(prev => ({ ...prev!, ...updatedFields }));
-        setIsEditingComment(false);
-      } else {
-        throw new Error(result.error || 'Failed to save note');
-      }
+      const updated = await patchCurrentVideo(updatedFields);
+      setCurrentVideo({ ...updated, ...updatedFields });
+      setIsEditingComment(false);
     } catch (error) {
       console.error('Failed to save comment:', error);
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
@@ -594,7 +623,7 @@ export function VideoDetailPageContent({
     if (!currentVideo?.VideoID) return;
 
     try {
-      const response = await fetch(`/api/videos/${currentVideo.VideoID}/export?videoId=${currentVideo.VideoID}`);
+      const response = await fetch(withWorkspace(`/api/videos/${currentVideo.VideoID}/export?videoId=${currentVideo.VideoID}`));
       if (!response.ok) {
         throw new Error('Failed to export video data');
       }
@@ -619,7 +648,7 @@ export function VideoDetailPageContent({
     if (!currentVideo?.VideoID) return;
 
     try {
-      const response = await fetch(`/api/videos/${currentVideo.VideoID}/export?videoId=${currentVideo.VideoID}`);
+      const response = await fetch(withWorkspace(`/api/videos/${currentVideo.VideoID}/export?videoId=${currentVideo.VideoID}`));
       if (!response.ok) {
         throw new Error('Failed to export video data');
       }
@@ -634,88 +663,6 @@ export function VideoDetailPageContent({
     }
   };
 
-  const DEFAULT_FIELD_ORDER: (keyof Video)[] = [
-    // Thumbnail & URL
-    'ThumbHigh',
-    'URL',
-
-    // Main Content
-    'MainTopic',
-    'TLDR',
-    'MainSummary',
-    'KeyExamples',
-    'KeyNumbersData',
-    'ActionableAdvice',
-    'DetailedNarrativeFlow',
-    'MemorableQuotes',
-    'MemorableTakeaways',
-    'BookMediaRecommendations',
-    'RelatedURLs',
-    'Description',
-
-    // Metadata
-    'Duration',
-    'Language',
-    'Source',
-    'VideoGenre',
-    'Speaker',
-
-    // Status & User Data
-    'Status',
-    'Priority',
-    'Watched',
-    'Archived',
-    'Private',
-    'Notes',
-    'Task',
-    'Project',
-    'AssignedTo',
-    'Prompt',
-
-    // Dates
-    'CompletionDate',
-    'DueDate',
-
-    // Entities
-    'Persons',
-    'Companies',
-    'Indicators',
-    'Trends',
-    'InvestableAssets',
-    'TickerSymbol',
-    'Institutions',
-    'EventsFairs',
-    'Locations',
-    'Events',
-    'Products',
-    'Speakers',
-    'DOIs',
-    'PrimarySources',
-    'TechnicalTerms',
-
-    // Categorization
-    'Hashtags',
-    'Tags',
-    'Categories',
-    'TopicsDiscussed',
-    'Mood',
-    'Sentiment',
-    'SentimentReason',
-
-    // Technical
-    'OriginalTitle',
-    'OriginalChannel',
-    'FileFormat',
-    'FileSize',
-    'Resolution',
-    'FrameRate',
-    'BitRate',
-    'Subtitles',
-
-    // Transcript
-    'Transcript'
-  ];
-
   const [fieldOrder, setFieldOrder] = useState<(keyof Video)[]>(() => {
     if (typeof window !== 'undefined') {
       const stored = sessionStorage.getItem('detailFieldOrder');
@@ -728,7 +675,7 @@ export function VideoDetailPageContent({
         } catch {}
       }
     }
-    return DEFAULT_FIELD_ORDER;
+    return VIDEO_DETAIL_FIELDS;
   });
 
   useEffect(() => {
@@ -784,7 +731,7 @@ export function VideoDetailPageContent({
 
     return fieldOrder.map((fieldKey: keyof Video) => {
       let value = currentVideo[fieldKey];
-      const label = formatFieldName(String(fieldKey));
+      const definition = getVideoFieldDefinition(String(fieldKey));
 
       // Guard: if value is an empty object, set to null
       if (typeof value === 'object' && value !== null && !Array.isArray(value) && Object.keys(value).length === 0 && value.constructor === Object) {
@@ -798,20 +745,15 @@ export function VideoDetailPageContent({
         return null;
       }
 
-      let isInitiallyCollapsed = true;
-      const initiallyExpandedFields = ['ThumbHigh', 'URL', 'ActionableAdvice', 'TLDR', 'MainSummary'];
-      if (initiallyExpandedFields.includes(String(fieldKey))) {
-        isInitiallyCollapsed = false;
-      }
-
-      const isImg = fieldKey === 'ThumbHigh';
-      const isLnk = fieldKey === 'URL' || (fieldKey === 'RelatedURLs' && Array.isArray(value) && value.every(item => typeof item === 'string' && item.startsWith('http')));
-      const isMd = MARKDOWN_FIELDS.includes(String(fieldKey)) || fieldKey === 'Description' || fieldKey === 'Transcript' || (typeof value === 'string' && String(value).length > 100 && !isLnk && !isImg);
+      const isInitiallyCollapsed = !definition?.detail?.expanded;
+      const isImg = definition?.detail?.image === true;
+      const isLnk = definition?.detail?.link === true;
+      const isMd = isMarkdownField(String(fieldKey)) || (typeof value === 'string' && String(value).length > 100 && !isLnk && !isImg);
 
       return (
         <DetailItem
           key={String(fieldKey)}
-          label={label}
+          label={String(fieldKey)}
           value={value as FieldValue}
           isInitiallyCollapsed={isInitiallyCollapsed}
           isMarkdown={isMd}
@@ -841,7 +783,7 @@ export function VideoDetailPageContent({
       <div className="container mx-auto max-w-5xl">
 
         <div className="mb-6 flex flex-wrap justify-between items-center gap-4">
-          <Link href={`/?sort=${searchParams.get('sort') || '-CreatedAt'}`} className="flex items-center text-blue-400 hover:text-blue-300 transition-colors group">
+          <Link href={withWorkspace(`/?sort=${searchParams.get('sort') || '-CreatedAt'}`)} className="flex items-center text-blue-400 hover:text-blue-300 transition-colors group">
             <ArrowLeft size={18} className="mr-2 group-hover:-translate-x-1 transition-transform duration-200" />
             Back to Video List
           </Link>
@@ -887,6 +829,50 @@ export function VideoDetailPageContent({
           </div>
         )}
 
+        {currentVideo.TrashedAt && (
+          <div className="mb-4 p-3 bg-neutral-800 border border-neutral-600 text-neutral-200 rounded-md flex items-center justify-between gap-4">
+            <div className="flex items-center">
+              <Trash2 size={20} className="mr-2" />
+              <span>This video is in the trash and hidden from lists and search.</span>
+            </div>
+            <button
+              onClick={handleRestoreVideo}
+              disabled={isSaving}
+              className="px-3 py-1 text-sm rounded bg-neutral-200 hover:bg-white text-neutral-900 disabled:opacity-60"
+            >
+              Restore
+            </button>
+          </div>
+        )}
+
+        {conflict && (
+          <div className="mb-4 p-3 bg-amber-700/20 border border-amber-600 text-amber-200 rounded-md space-y-2">
+            <div className="flex items-center">
+              <AlertTriangle size={20} className="mr-2" />
+              <span>This video was changed elsewhere. Current server values:</span>
+            </div>
+            <ul className="text-sm text-amber-100/90 list-disc pl-8">
+              <li>Importance rating: {conflict.ImportanceRating ?? 'not set'}</li>
+              <li>Personal note: {conflict.PersonalComment?.trim() || 'empty'}</li>
+              {conflict.UpdatedAt && <li>Updated: {formatDateTimeUtc(conflict.UpdatedAt)}</li>}
+            </ul>
+            <div className="flex gap-2">
+              <button
+                onClick={() => resolveConflict('theirs')}
+                className="px-3 py-1 text-sm rounded bg-amber-600 hover:bg-amber-500 text-neutral-900"
+              >
+                Load latest
+              </button>
+              <button
+                onClick={() => resolveConflict('mine')}
+                className="px-3 py-1 text-sm rounded border border-amber-600 hover:bg-amber-700/30"
+              >
+                Keep my changes
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {/* Main content area with memoized field processing */}
           <div className="md:col-span-2 space-y-4">
@@ -922,6 +908,31 @@ export function VideoDetailPageContent({
               />
             </div>
 
+            {/* Tags, Categories, Persons, Companies, Institutions */}
+            {currentVideo.VideoID && (
+              <LinkedRecordEditors
+                videoId={currentVideo.VideoID}
+                disabled={isSaving || isDeleting}
+                onSave={async (field, items) => {
+                  const updated = await patchCurrentVideo({ [field]: items });
+                  setCurrentVideo(updated);
+                }}
+              />
+            )}
+
+            {/* Change history with per-field revert */}
+            {currentVideo.VideoID && (
+              <VideoHistoryPanel
+                videoId={currentVideo.VideoID}
+                version={currentVideo.UpdatedAt ? String(currentVideo.UpdatedAt) : null}
+                onReverted={(reverted) => {
+                  setCurrentVideo(reverted);
+                  setPersonalComment(reverted.PersonalComment || '');
+                  setActiveImportanceRating(reverted.ImportanceRating || null);
+                }}
+              />
+            )}
+
             {/* Text-to-Speech Controls */}
             <div className="p-4 bg-neutral-800 rounded-lg shadow">
               <h3 className="text-lg font-semibold mb-3 text-neutral-300">Read Aloud</h3>
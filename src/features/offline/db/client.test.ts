@@ -0,0 +1,45 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { PendingMutation, VideoOffline } from '../schemas';
+import { addPendingMutation, clearAllPendingMutations, clearAllVideos, getAllPendingMutations, putVideo } from './client';
+
+const mutation = (id: string, timestamp: number, patch: Partial<PendingMutation> = {}): PendingMutation => ({
+  id,
+  type: 'UPDATE',
+  videoId: 1,
+  timestamp,
+  data: {},
+  retryCount: 0,
+  ...patch,
+});
+
+describe('addPendingMutation', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await clearAllPendingMutations();
+    await clearAllVideos();
+    await putVideo({ Id: 1, VideoID: 'a', UpdatedAt: new Date('2026-10-01T00:00:00.000Z') } as VideoOffline);
+  });
+
+  it("guards an edit with the cached video's UpdatedAt and merges follow-up edits into it", async () => {
+    await addPendingMutation(mutation('m1', 1, { data: { Watched: true } }));
+    await addPendingMutation(mutation('m2', 2, { data: { ImportanceRating: 4 } }));
+
+    expect(await getAllPendingMutations()).toEqual([
+      mutation('m1', 1, { data: { Watched: true, ImportanceRating: 4 }, expectedUpdatedAt: '2026-10-01T00:00:00.000Z' }),
+    ]);
+  });
+
+  it('leaves mutations behind another queued one unguarded', async () => {
+    await addPendingMutation(mutation('m1', 1, { type: 'DELETE', data: undefined }));
+    await addPendingMutation(mutation('m2', 2, { videoId: 2 }));
+    await addPendingMutation(mutation('m3', 3));
+
+    expect((await getAllPendingMutations()).map((queued) => [queued.id, queued.expectedUpdatedAt])).toEqual([
+      ['m1', '2026-10-01T00:00:00.000Z'],
+      ['m2', null],
+      ['m3', null],
+    ]);
+  });
+});
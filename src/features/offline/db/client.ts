@@ -133,9 +133,34 @@ export async function clearAllVideos(): Promise<void> {
  * Pending Mutations Store Operations
  */
 
+/**
+ * Queue an offline edit. Unless the caller sets `expectedUpdatedAt`, it is
+ * taken from the cached video, so the replay reports a conflict instead of
+ * overwriting a newer server version. Another edit of a video whose last
+ * queued mutation is an UPDATE is merged into it: replaying the first write
+ * changes `UpdatedAt`, so a second guarded mutation would always conflict.
+ */
 export async function addPendingMutation(mutation: PendingMutation): Promise<void> {
   const db = await openOfflineDB();
-  await db.add('pendingMutations', mutation);
+  const tx = db.transaction(['videos', 'pendingMutations'], 'readwrite');
+  const mutations = tx.objectStore('pendingMutations');
+
+  const queued = (await mutations.index('by-videoId').getAll(mutation.videoId)).sort((a, b) => a.timestamp - b.timestamp);
+  const last = queued[queued.length - 1];
+
+  if (mutation.type === 'UPDATE' && last?.type === 'UPDATE' && (last.workspace ?? null) === (mutation.workspace ?? null)) {
+    await mutations.put({ ...last, data: { ...last.data, ...mutation.data } });
+  } else {
+    let expectedUpdatedAt = mutation.expectedUpdatedAt;
+    if (expectedUpdatedAt === undefined) {
+      // Behind another queued mutation the server version is not known yet.
+      const cached = queued.length === 0 ? await tx.objectStore('videos').get(mutation.videoId) : undefined;
+      expectedUpdatedAt = cached?.UpdatedAt ? new Date(cached.UpdatedAt).toISOString() : null;
+    }
+    await mutations.add({ ...mutation, expectedUpdatedAt });
+  }
+
+  await tx.done;
 }
 
 export async function getPendingMutation(id: string): Promise<PendingMutation | undefined> {
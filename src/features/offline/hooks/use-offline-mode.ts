@@ -4,17 +4,27 @@ import { useState, useEffect, useCallback } from 'react';
 import { getOfflineMode, setOfflineMode as setOfflineModeDB, isOnline } from '../offline-mode';
 import {
   clearAllVideos,
+  deleteVideo,
+  putVideo,
   putVideos,
-  getAllPendingMutations,
-  deletePendingMutation,
   getMetadata,
   setMetadata,
   estimateCacheSize,
 } from '../db/client';
+import { applySyncErrors, getSyncableMutations, type SyncError } from '../offline-edits';
 import type { VideoOffline } from '../schemas';
+import { getWorkspaceFromSearch, withWorkspace } from '@/features/videos/utils/workspace-url';
 
 const OFFLINE_CACHE_PAYLOAD_VERSION = 2;
 
+/**
+ * The workspace in the current URL (`?workspace=`); `null` is the default one.
+ * The offline snapshot and queued mutations are always scoped to it.
+ */
+function currentWorkspace(): string | null {
+  return typeof window === 'undefined' ? null : getWorkspaceFromSearch(window.location.search);
+}
+
 /**
  * Sync cache - fetch videos from server and store in IndexedDB
  */
@@ -23,12 +33,13 @@ async function syncCache(): Promise<{ videosUpdated: number; timestamp: number }
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minute timeout
+  const workspace = currentWorkspace();
 
   try {
     const response = await fetch('/api/offline/sync', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ action: 'cache' }),
+      body: JSON.stringify({ action: 'cache', workspace }),
       signal: controller.signal,
     });
 
@@ -40,7 +51,7 @@ async function syncCache(): Promise<{ videosUpdated: number; timestamp: number }
       throw new Error(`Failed to fetch videos (status ${response.status}): ${errorText}`);
     }
 
-    const { videos, timestamp, totalAvailable } = await response.json();
+    const { videos, timestamp, totalAvailable, changeCursor } = await response.json();
     console.log(`[syncCache] Received ${videos.length} videos from server (${totalAvailable} total available)`);
 
     if (!videos || videos.length === 0) {
@@ -62,8 +73,10 @@ async function syncCache(): Promise<{ videosUpdated: number; timestamp: number }
     console.log('[syncCache] Storing new videos in IndexedDB...');
     await putVideos(videos as VideoOffline[]);
 
-    // Update metadata
+    // Update metadata (the service worker only serves the snapshot for this workspace)
     await setMetadata('lastSync', timestamp);
+    await setMetadata('offlineWorkspace', workspace);
+    await setMetadata('changeCursor', changeCursor ?? null);
     await setMetadata('offlineCachePayloadVersion', OFFLINE_CACHE_PAYLOAD_VERSION);
     const cacheSize = await estimateCacheSize();
     await setMetadata('totalCacheSize', cacheSize);
@@ -83,18 +96,74 @@ async function syncCache(): Promise<{ videosUpdated: number; timestamp: number }
   }
 }
 
-interface SyncError {
-  mutationId: string;
-  error: string;
+/**
+ * Apply records changed directly in NocoDB (webhook change feed) to the
+ * offline cache: deletes are dropped, inserts/updates are re-fetched. Falls
+ * back to a full cache sync when the server lost track of our cursor.
+ */
+async function syncChanges(): Promise<{ applied: number }> {
+  const cursor = await getMetadata<string | null>('changeCursor');
+  const workspace = currentWorkspace();
+  const offlineWorkspace = (await getMetadata<string | null>('offlineWorkspace')) ?? null;
+
+  if (!cursor || offlineWorkspace !== workspace) {
+    return { applied: 0 };
+  }
+
+  const response = await fetch(withWorkspace(`/api/videos/changes?since=${encodeURIComponent(cursor)}`, workspace));
+  if (!response.ok) {
+    throw new Error(`Failed to load changes (status ${response.status})`);
+  }
+
+  const { changes, cursor: nextCursor, reset } = await response.json();
+
+  if (reset) {
+    console.log('[syncChanges] Change feed was reset, running full cache sync...');
+    const { videosUpdated } = await syncCache();
+    return { applied: videosUpdated };
+  }
+
+  let applied = 0;
+  for (const change of changes as Array<{ type: string; id: number | null; videoId: string | null }>) {
+    if (change.type === 'delete') {
+      if (change.id !== null) {
+        await deleteVideo(change.id);
+        applied++;
+      }
+      continue;
+    }
+
+    if (!change.videoId) continue;
+
+    const detailResponse = await fetch(
+      withWorkspace(`/api/videos/${change.videoId}/details?videoId=${change.videoId}`, workspace),
+    );
+    if (!detailResponse.ok) continue;
+
+    const { video } = await detailResponse.json();
+    if (video && typeof video.Id === 'number') {
+      // Transcripts are never stored offline.
+      delete video.Transcript;
+      delete video.FullTranscript;
+      await putVideo(video as VideoOffline);
+      applied++;
+    }
+  }
+
+  await setMetadata('changeCursor', nextCursor);
+  console.log(`[syncChanges] Applied ${applied}/${changes.length} remote changes`);
+
+  return { applied };
 }
 
 /**
- * Sync mutations - send pending changes to server
+ * Sync mutations - send pending changes to server. Conflicted mutations are
+ * left out until the user settles them in the settings page.
  */
 async function syncMutations(): Promise<{ synced: number; errors: SyncError[] }> {
   console.log('[syncMutations] Fetching pending mutations...');
 
-  const mutations = await getAllPendingMutations();
+  const mutations = await getSyncableMutations();
   console.log(`[syncMutations] Found ${mutations.length} pending mutations`);
 
   if (mutations.length === 0) {
@@ -104,7 +173,7 @@ async function syncMutations(): Promise<{ synced: number; errors: SyncError[] }>
   const response = await fetch('/api/offline/sync', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ action: 'mutations', mutations }),
+    body: JSON.stringify({ action: 'mutations', mutations, workspace: currentWorkspace() }),
   });
 
   if (!response.ok) {
@@ -112,17 +181,11 @@ async function syncMutations(): Promise<{ synced: number; errors: SyncError[] }>
     throw new Error(`Failed to sync mutations: ${errorText}`);
   }
 
-  const { synced, errors } = await response.json();
+  const { synced, errors } = (await response.json()) as { synced: number; errors: SyncError[] };
   console.log(`[syncMutations] Synced ${synced}/${mutations.length} mutations`);
 
-  // Remove successfully synced mutations from queue
-  // (failures remain for retry)
-  for (const mutation of mutations) {
-    const failed = errors.some((e: SyncError) => e.mutationId === mutation.id);
-    if (!failed) {
-      await deletePendingMutation(mutation.id);
-    }
-  }
+  // Synced mutations leave the queue, conflicts are parked, other failures remain for retry
+  await applySyncErrors(mutations, errors);
 
   return { synced, errors };
 }
@@ -178,6 +241,13 @@ export function useOfflineMode() {
         } catch (error) {
           console.error('[useOfflineMode] Auto resync failed:', error);
         }
+        return;
+      }
+
+      try {
+        await syncChanges();
+      } catch (error) {
+        console.error('[useOfflineMode] Applying remote changes failed:', error);
       }
     };
 
@@ -199,6 +269,7 @@ export function useOfflineMode() {
         console.log('[useOfflineMode] Syncing pending mutations...');
         try {
           await syncMutations();
+          await syncChanges();
         } catch (error) {
           console.error('[useOfflineMode] Sync failed:', error);
         }
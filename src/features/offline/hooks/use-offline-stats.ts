@@ -2,12 +2,16 @@
 
 import { useState, useEffect } from 'react';
 import { getVideoCount, estimateCacheSize, getMetadata, getPendingMutationsCount } from '../db/client';
+import { getConflictedMutations } from '../offline-edits';
+import type { PendingMutation } from '../schemas';
 
 interface OfflineStats {
   cachedVideos: number;
   cacheSizeMB: number;
   lastSync: Date | null;
   pendingMutations: number;
+  /** Queued edits the server rejected as conflicts; they wait for the user. */
+  conflicts: PendingMutation[];
   isLoading: boolean;
 }
 
@@ -17,12 +21,13 @@ export function useOfflineStats() {
     cacheSizeMB: 0,
     lastSync: null,
     pendingMutations: 0,
+    conflicts: [],
     isLoading: true,
   });
 
   const loadStats = async () => {
     try {
-      const [cacheStats, pendingCount] = await Promise.all([
+      const [cacheStats, pendingCount, conflicts] = await Promise.all([
         (async () => {
           const count = await getVideoCount();
           const size = await estimateCacheSize();
@@ -35,6 +40,7 @@ export function useOfflineStats() {
           };
         })(),
         getPendingMutationsCount(),
+        getConflictedMutations(),
       ]);
 
       setStats({
@@ -42,6 +48,7 @@ export function useOfflineStats() {
         cacheSizeMB: cacheStats.cacheSizeMB,
         lastSync: cacheStats.lastSync,
         pendingMutations: pendingCount,
+        conflicts,
         isLoading: false,
       });
     } catch (error) {
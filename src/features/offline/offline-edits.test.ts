@@ -0,0 +1,58 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearAllPendingMutations, clearAllVideos, getAllPendingMutations, getAllVideos, putVideo } from './db/client';
+import {
+  applySyncErrors,
+  getConflictedMutations,
+  getSyncableMutations,
+  queueOfflineDelete,
+  queueOfflineUpdate,
+  resolveMutationConflict,
+} from './offline-edits';
+import type { VideoOffline } from './schemas';
+
+describe('offline edits', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await clearAllPendingMutations();
+    await clearAllVideos();
+    await putVideo({ Id: 1, VideoID: 'a', Watched: false, UpdatedAt: new Date('2026-10-01T00:00:00.000Z') } as VideoOffline);
+    await putVideo({ Id: 2, VideoID: 'b', UpdatedAt: new Date('2026-10-02T00:00:00.000Z') } as VideoOffline);
+  });
+
+  it('queues edits and deletes and applies them to the cache', async () => {
+    await queueOfflineUpdate(1, { Watched: true }, 'research');
+    await queueOfflineDelete(2, 'research');
+
+    expect(await getAllPendingMutations()).toMatchObject([
+      { type: 'UPDATE', videoId: 1, data: { Watched: true }, workspace: 'research', expectedUpdatedAt: '2026-10-01T00:00:00.000Z' },
+      { type: 'DELETE', videoId: 2, workspace: 'research', expectedUpdatedAt: '2026-10-02T00:00:00.000Z' },
+    ]);
+    expect(await getAllVideos()).toEqual([expect.objectContaining({ Id: 1, Watched: true })]);
+  });
+
+  it('parks conflicts instead of retrying them and lets the user settle them', async () => {
+    await queueOfflineUpdate(1, { Watched: true }, null);
+    await queueOfflineUpdate(2, { ImportanceRating: 3 }, null);
+    const [first, second] = await getSyncableMutations();
+
+    await applySyncErrors([first, second], [{ mutationId: first.id, error: 'Video a was modified', conflict: true }]);
+
+    expect(await getSyncableMutations()).toEqual([]);
+    const [conflicted] = await getConflictedMutations();
+    expect(conflicted).toMatchObject({ id: first.id, conflict: true, error: 'Video a was modified', retryCount: 0 });
+
+    await resolveMutationConflict(conflicted, 'overwrite');
+    expect(await getSyncableMutations()).toEqual([
+      expect.objectContaining({ id: first.id, conflict: false, error: null, expectedUpdatedAt: null }),
+    ]);
+
+    await applySyncErrors(await getSyncableMutations(), [{ mutationId: first.id, error: 'NocoDB unavailable' }]);
+    expect(await getSyncableMutations()).toEqual([expect.objectContaining({ id: first.id, retryCount: 1 })]);
+
+    await applySyncErrors(await getSyncableMutations(), [{ mutationId: first.id, error: 'stale', conflict: true }]);
+    await resolveMutationConflict((await getConflictedMutations())[0], 'discard');
+    expect(await getAllPendingMutations()).toEqual([]);
+  });
+});
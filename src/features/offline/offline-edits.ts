@@ -0,0 +1,96 @@
+import {
+  addPendingMutation,
+  deletePendingMutation,
+  deleteVideo,
+  getAllPendingMutations,
+  openOfflineDB,
+  putVideo,
+  updatePendingMutation,
+} from './db/client';
+import type { PendingMutation } from './schemas';
+import type { Video } from '@/features/videos/api/schemas';
+
+/**
+ * Offline edit path: edits made without a connection are queued as pending
+ * mutations and applied to the cached copy right away; the next sync replays
+ * them through `/api/offline/sync`.
+ */
+
+/** Per-mutation failure as reported by `/api/offline/sync`. */
+export interface SyncError {
+  mutationId: string;
+  error: string;
+  /** The video changed on the server since the edit was queued. */
+  conflict?: boolean;
+}
+
+function newMutation(type: PendingMutation['type'], videoId: number, workspace: string | null): PendingMutation {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    videoId,
+    timestamp: Date.now(),
+    retryCount: 0,
+    workspace,
+  };
+}
+
+/** Queue an update and show it in the cached video. */
+export async function queueOfflineUpdate(videoId: number, data: Partial<Video>, workspace: string | null): Promise<void> {
+  // Queued first: addPendingMutation reads the cached UpdatedAt as precondition.
+  await addPendingMutation({ ...newMutation('UPDATE', videoId, workspace), data });
+
+  const db = await openOfflineDB();
+  const cached = await db.get('videos', videoId);
+  if (cached) {
+    await putVideo({ ...cached, ...data });
+  }
+}
+
+/** Queue a delete and drop the video from the cache. */
+export async function queueOfflineDelete(videoId: number, workspace: string | null): Promise<void> {
+  await addPendingMutation(newMutation('DELETE', videoId, workspace));
+  await deleteVideo(videoId);
+}
+
+/** Mutations the next sync sends; conflicted ones wait for the user. */
+export async function getSyncableMutations(): Promise<PendingMutation[]> {
+  return (await getAllPendingMutations()).filter((mutation) => !mutation.conflict);
+}
+
+export async function getConflictedMutations(): Promise<PendingMutation[]> {
+  return (await getAllPendingMutations()).filter((mutation) => mutation.conflict);
+}
+
+/**
+ * Record the outcome of a sync: synced mutations leave the queue, conflicts
+ * are parked with `conflict: true` (and no longer sent), other failures stay
+ * queued for the next attempt with their error and retry count.
+ */
+export async function applySyncErrors(sent: PendingMutation[], errors: SyncError[]): Promise<void> {
+  const errorsById = new Map(errors.map((error) => [error.mutationId, error]));
+
+  for (const mutation of sent) {
+    const error = errorsById.get(mutation.id);
+    if (!error) {
+      await deletePendingMutation(mutation.id);
+    } else if (error.conflict) {
+      await updatePendingMutation({ ...mutation, conflict: true, error: error.error });
+    } else {
+      await updatePendingMutation({ ...mutation, retryCount: mutation.retryCount + 1, error: error.error });
+    }
+  }
+}
+
+/**
+ * Settle a conflicted mutation: `discard` drops the offline edit, `overwrite`
+ * sends it again without a precondition so it replaces the server version.
+ */
+export async function resolveMutationConflict(mutation: PendingMutation, choice: 'discard' | 'overwrite'): Promise<void> {
+  if (choice === 'discard') {
+    await deletePendingMutation(mutation.id);
+    return;
+  }
+
+  await updatePendingMutation({ ...mutation, conflict: false, error: null, expectedUpdatedAt: null });
+}
@@ -6,182 +6,107 @@
 
 import { getAllVideos } from './db/client';
 import type { VideoOffline } from './schemas';
+import { sortVideosBySpec } from '@/features/videos/utils/video-sort';
+import { searchFieldsForCategories } from '@/features/videos/api/field-registry';
+import { matchesSearchQuery, parseSearchQuery, positiveSearchTexts } from '@/features/videos/utils/search-query';
+import { foldSearchText } from '@/features/videos/utils/search-text';
 
 interface SearchOptions {
+  /** Query in the same syntax as `/api/search` (see `search-query.ts`). */
   query: string;
   categories?: string[];
   limit?: number;
   offset?: number;
+  /**
+   * Sort spec shared with the online list (`-ImportanceRating,-PublishedAt`).
+   * Without one, browsing is newest published first and searching is by relevance.
+   */
+  sort?: string;
 }
 
 /**
  * Perform offline search on cached videos
+ *
+ * Matching uses the same parser and evaluator as `/api/search`, typo
+ * tolerance included; malformed queries throw `SearchQuerySyntaxError`.
  */
 export async function searchOfflineVideos(
   options: SearchOptions
 ): Promise<{ videos: VideoOffline[]; total: number }> {
-  const { query, categories = [], limit = 35, offset = 0 } = options;
+  const { query, categories = [], limit = 35, offset = 0, sort } = options;
+
+  const parsed = parseSearchQuery(query);
 
   // Get all cached videos
   const videos = await getAllVideos();
 
-  // If no query, just return paginated results (sorted by PublishedAt DESC)
-  if (!query.trim()) {
-    // Sort by PublishedAt DESC (neueste zuerst)
-    videos.sort((a, b) => {
-      if (!a.PublishedAt || !b.PublishedAt) return 0;
-      return new Date(b.PublishedAt).getTime() - new Date(a.PublishedAt).getTime();
-    });
+  // If no query, just return paginated results (PublishedAt DESC unless a sort is given)
+  if (!parsed) {
+    const sorted = sortVideosBySpec(videos, sort || '-PublishedAt');
 
-    const total = videos.length;
-    const paginated = videos.slice(offset, offset + limit);
+    const total = sorted.length;
+    const paginated = sorted.slice(offset, offset + limit);
     return { videos: paginated, total };
   }
 
-  // Split query into search terms
-  const searchTerms = query.toLowerCase().trim().split(/\s+/);
-
-  // Filter videos based on search terms
-  const filteredVideos = videos.filter(video => {
-    // Check if ALL search terms match in at least one field
-    return searchTerms.every(term => {
-      return matchesInCategories(video, term, categories);
-    });
-  });
+  // Words without a `field:` prefix are matched in the selected categories
+  const fields = searchFieldsForCategories(categories);
+  const filteredVideos = videos.filter(video => matchesSearchQuery(parsed, video, { fields }));
 
-  // Sort by relevance (title matches first, then description, etc.)
-  filteredVideos.sort((a, b) => {
-    const scoreA = calculateRelevanceScore(a, searchTerms);
-    const scoreB = calculateRelevanceScore(b, searchTerms);
-    return scoreB - scoreA;
-  });
+  // Relevance only counts terms that are not negated
+  const searchTerms = positiveSearchTexts(parsed).map(node => foldSearchText(node.value));
 
-  const total = filteredVideos.length;
-  const paginated = filteredVideos.slice(offset, offset + limit);
+  // Sort by the requested spec, or by relevance (title matches first, then description, etc.)
+  const rank = (group: VideoOffline[]) =>
+    sort
+      ? sortVideosBySpec(group, sort)
+      : group.sort((a, b) => {
+          const scoreA = calculateRelevanceScore(a, searchTerms);
+          const scoreB = calculateRelevanceScore(b, searchTerms);
+          return scoreB - scoreA;
+        });
 
-  return { videos: paginated, total };
-}
+  // Exact hits first, then the ones found only through prefix or typo matches
+  const exact = filteredVideos.filter(video => matchesSearchQuery(parsed, video, { fields, fuzzy: false }));
+  const exactIds = new Set(exact.map(video => video.Id));
+  const sorted = [...rank(exact), ...rank(filteredVideos.filter(video => !exactIds.has(video.Id)))];
 
-/**
- * Check if search term matches in specified categories
- */
-function matchesInCategories(
-  video: VideoOffline,
-  term: string,
-  categories: string[]
-): boolean {
-  // If no categories specified, search all
-  if (categories.length === 0) {
-    return matchesInAllFields(video, term);
-  }
-
-  // Search only in specified categories
-  for (const category of categories) {
-    if (matchesInCategory(video, term, category)) {
-      return true;
-    }
-  }
+  const total = sorted.length;
+  const paginated = sorted.slice(offset, offset + limit);
 
-  return false;
-}
-
-/**
- * Match term in specific category
- */
-function matchesInCategory(
-  video: VideoOffline,
-  term: string,
-  category: string
-): boolean {
-  switch (category) {
-    case 'title':
-      return video.Title?.toLowerCase().includes(term) ?? false;
-
-    case 'description':
-      return video.Description?.toLowerCase().includes(term) ?? false;
-
-    case 'channel':
-      return video.Channel?.toLowerCase().includes(term) ?? false;
-
-    case 'speaker':
-      return video.Speaker?.toLowerCase().includes(term) ?? false;
-
-    case 'hashtag':
-      return video.Hashtags?.some(h => h.toLowerCase().includes(term)) ?? false;
-
-    case 'person':
-      return (
-        video.Persons?.some(
-          p => p.Title?.toLowerCase().includes(term) || p.name?.toLowerCase().includes(term)
-        ) ?? false
-      );
-
-    case 'company':
-      return (
-        video.Companies?.some(
-          c => c.Title?.toLowerCase().includes(term) || c.name?.toLowerCase().includes(term)
-        ) ?? false
-      );
-
-    case 'genre':
-      return video.VideoGenre?.toLowerCase().includes(term) ?? false;
-
-    case 'topic':
-      return video.MainTopic?.toLowerCase().includes(term) ?? false;
-
-    default:
-      return false;
-  }
-}
-
-/**
- * Match term in all searchable fields
- */
-function matchesInAllFields(video: VideoOffline, term: string): boolean {
-  const fields = [
-    video.Title,
-    video.Description,
-    video.Channel,
-    video.Speaker,
-    video.VideoGenre,
-    video.MainTopic,
-    ...(video.Hashtags || []),
-    ...(video.Persons?.map(p => p.Title || p.name) || []),
-    ...(video.Companies?.map(c => c.Title || c.name) || []),
-  ];
-
-  return fields.some(field => field?.toLowerCase().includes(term));
+  return { videos: paginated, total };
 }
 
 /**
- * Calculate relevance score for sorting
+ * Calculate relevance score for sorting (terms and fields compared folded,
+ * so "Muenchen" scores on "München")
  */
 function calculateRelevanceScore(video: VideoOffline, terms: string[]): number {
   let score = 0;
 
   for (const term of terms) {
     // Title matches: highest weight
-    if (video.Title?.toLowerCase().includes(term)) {
+    if (foldSearchText(video.Title ?? '').includes(term)) {
       score += 10;
     }
 
     // Channel matches
-    if (video.Channel?.toLowerCase().includes(term)) {
+    if (foldSearchText(video.Channel ?? '').includes(term)) {
       score += 5;
     }
 
     // Hashtag exact matches
-    if (video.Hashtags?.some(h => h.toLowerCase() === term)) {
+    if (video.Hashtags?.some(h => foldSearchText(h) === term)) {
       score += 8;
     }
 
     // Hashtag partial matches
-    if (video.Hashtags?.some(h => h.toLowerCase().includes(term))) {
+    if (video.Hashtags?.some(h => foldSearchText(h).includes(term))) {
       score += 3;
     }
 
     // Description matches
-    if (video.Description?.toLowerCase().includes(term)) {
+    if (foldSearchText(video.Description ?? '').includes(term)) {
       score += 2;
     }
   }
@@ -31,6 +31,9 @@ export const pendingMutationSchema = z.object({
   data: z.record(z.unknown()).optional(), // Partial<Video>
   retryCount: z.number().int().default(0),
   error: z.string().optional().nullable(),
+  workspace: z.string().optional().nullable(), // NocoDB-Workspace, null = Standard
+  expectedUpdatedAt: z.string().optional().nullable(), // UpdatedAt zum Zeitpunkt der Änderung (Konflikterkennung), setzt addPendingMutation
+  conflict: z.boolean().optional(), // Server meldete einen Konflikt; wird erst nach Entscheidung des Nutzers wieder gesendet
 });
 
 export type PendingMutation = z.infer<typeof pendingMutationSchema>;
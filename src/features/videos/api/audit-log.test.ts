@@ -0,0 +1,94 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+import { diffVideoFields, findVideoAuditEntry, listVideoAudit, recordVideoAudit, resetVideoAuditStore } from './audit-log';
+
+describe('video audit log', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'yt-viewer-audit-'));
+    filePath = join(dir, 'audit.json');
+    vi.stubEnv('VIDEO_AUDIT_LOG_PATH', filePath);
+    resetVideoAuditStore();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    resetVideoAuditStore();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('diffs only the fields that changed', () => {
+    const changes = diffVideoFields(
+      { ImportanceRating: 2, PersonalComment: 'same', CompletionDate: new Date('2026-10-19T00:00:00Z') },
+      { ImportanceRating: 5, PersonalComment: 'same', CompletionDate: null },
+      ['ImportanceRating', 'PersonalComment', 'CompletionDate'],
+    );
+
+    expect(changes).toEqual([
+      { field: 'ImportanceRating', before: 2, after: 5 },
+      { field: 'CompletionDate', before: '2026-10-19T00:00:00.000Z', after: null },
+    ]);
+  });
+
+  it('persists entries and lists them per video, newest first', async () => {
+    const first = await recordVideoAudit({
+      actor: 'web',
+      action: 'update',
+      tableId: null,
+      recordId: 1,
+      videoId: 'abc',
+      changes: [{ field: 'TLDR', before: 'old', after: 'new' }],
+    });
+    await recordVideoAudit({
+      actor: 'batch',
+      action: 'update',
+      tableId: null,
+      recordId: 2,
+      videoId: 'other',
+      changes: [{ field: 'Watched', before: false, after: true }],
+    });
+    await recordVideoAudit({
+      actor: 'web',
+      action: 'revert',
+      tableId: null,
+      recordId: 1,
+      videoId: 'abc',
+      changes: [{ field: 'TLDR', before: 'new', after: 'old' }],
+      revertOf: first!.id,
+    });
+
+    const history = await listVideoAudit({ videoId: 'abc' });
+    expect(history.map((entry) => entry.action)).toEqual(['revert', 'update']);
+    expect(await listVideoAudit({ videoId: 'abc', tableId: 'm_other' })).toEqual([]);
+
+    resetVideoAuditStore();
+    const stored = JSON.parse(await readFile(filePath, 'utf8')) as unknown[];
+    expect(stored).toHaveLength(3);
+    expect(await findVideoAuditEntry(first!.id)).toMatchObject({ actor: 'web', videoId: 'abc' });
+  });
+
+  it('skips empty updates, caps the file and can be disabled', async () => {
+    vi.stubEnv('VIDEO_AUDIT_LOG_MAX_ENTRIES', '2');
+    const entry = { actor: 'web', action: 'update' as const, tableId: null, recordId: 1, videoId: 'abc' };
+
+    expect(await recordVideoAudit({ ...entry, changes: [] })).toBeNull();
+    for (const value of [1, 2, 3]) {
+      await recordVideoAudit({ ...entry, changes: [{ field: 'ImportanceRating', before: null, after: value }] });
+    }
+    const history = await listVideoAudit({ videoId: 'abc' });
+    expect(history.map((item) => item.changes[0].after)).toEqual([3, 2]);
+
+    vi.stubEnv('VIDEO_AUDIT_LOG_MAX_ENTRIES', '0');
+    expect(await recordVideoAudit({ ...entry, changes: [{ field: 'TLDR', before: null, after: 'x' }] })).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { z } from 'zod';
+
+import { getAuditLogConfig } from './config';
+import { videoUpdateSchema, type Video } from './schemas';
+import { logDevError } from '@/shared/utils/server-logger';
+
+/** Fields whose before/after values are kept: everything the UI can edit. */
+export const AUDITED_VIDEO_FIELDS: string[] = Object.keys(videoUpdateSchema.shape);
+
+export type VideoAuditAction = 'create' | 'update' | 'delete' | 'revert';
+
+export interface VideoAuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface VideoAuditEntry {
+  id: string;
+  at: string;
+  /** Who made the change: an `x-actor` header, or the route that wrote it (`web`, `batch`, `offline-sync`). */
+  actor: string;
+  action: VideoAuditAction;
+  /** Workspace table override; `null` is the default table. */
+  tableId: string | null;
+  recordId: number | null;
+  videoId: string | null;
+  changes: VideoAuditFieldChange[];
+  /** For `revert`: the entry whose `before` value was restored. */
+  revertOf?: string;
+}
+
+export type NewVideoAuditEntry = Omit<VideoAuditEntry, 'id' | 'at'>;
+
+const auditEntrySchema = z.object({
+  id: z.string(),
+  at: z.string(),
+  actor: z.string(),
+  action: z.enum(['create', 'update', 'delete', 'revert']),
+  tableId: z.string().nullable(),
+  recordId: z.number().nullable(),
+  videoId: z.string().nullable(),
+  changes: z.array(z.object({ field: z.string(), before: z.unknown(), after: z.unknown() })),
+  revertOf: z.string().optional(),
+});
+
+interface AuditStore {
+  path: string;
+  entries: VideoAuditEntry[] | null;
+  writeQueue: Promise<void>;
+}
+
+let store: AuditStore | null = null;
+
+function getStore(path: string): AuditStore {
+  const absolutePath = resolve(process.cwd(), path);
+  if (!store || store.path !== absolutePath) {
+    store = { path: absolutePath, entries: null, writeQueue: Promise.resolve() };
+  }
+  return store;
+}
+
+async function loadEntries(current: AuditStore): Promise<VideoAuditEntry[]> {
+  if (current.entries) {
+    return current.entries;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(await readFile(current.path, 'utf8'));
+    current.entries = (Array.isArray(parsed) ? parsed : []).flatMap((entry) => {
+      const result = auditEntrySchema.safeParse(entry);
+      return result.success ? [result.data as VideoAuditEntry] : [];
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+      throw error;
+    }
+    current.entries = [];
+  }
+
+  return current.entries;
+}
+
+function persist(current: AuditStore): Promise<void> {
+  const snapshot = JSON.stringify(current.entries ?? [], null, 2);
+  const write = async () => {
+    await mkdir(dirname(current.path), { recursive: true });
+    const tempPath = `${current.path}.tmp`;
+    await writeFile(tempPath, snapshot, 'utf8');
+    await rename(tempPath, current.path);
+  };
+
+  // Same pattern as the local repository: serialise writes, rename atomically.
+  const next = current.writeQueue.catch(() => undefined).then(write);
+  current.writeQueue = next;
+  return next;
+}
+
+/** JSON-safe copy of a field value (dates as ISO strings, `undefined` as `null`). */
+function toAuditValue(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+/** Field-level diff of `fields` between two versions of a record; unchanged fields are skipped. */
+export function diffVideoFields(
+  before: Partial<Video> | Record<string, unknown>,
+  after: Partial<Video> | Record<string, unknown>,
+  fields: string[],
+): VideoAuditFieldChange[] {
+  return fields.flatMap((field) => {
+    const previous = toAuditValue((before as Record<string, unknown>)[field]);
+    const next = toAuditValue((after as Record<string, unknown>)[field]);
+    return JSON.stringify(previous) === JSON.stringify(next) ? [] : [{ field, before: previous, after: next }];
+  });
+}
+
+/**
+ * Append an entry to the audit log. Auditing must never break the mutation
+ * it describes, so failures are logged and `null` is returned.
+ */
+export async function recordVideoAudit(entry: NewVideoAuditEntry): Promise<VideoAuditEntry | null> {
+  const config = getAuditLogConfig();
+  if (config.maxEntries === 0 || (entry.action !== 'delete' && entry.changes.length === 0)) {
+    return null;
+  }
+
+  try {
+    const current = getStore(config.path);
+    const entries = await loadEntries(current);
+    const recorded: VideoAuditEntry = { ...entry, id: randomUUID(), at: new Date().toISOString() };
+
+    entries.push(recorded);
+    if (entries.length > config.maxEntries) {
+      entries.splice(0, entries.length - config.maxEntries);
+    }
+
+    await persist(current);
+    return recorded;
+  } catch (error) {
+    void logDevError('recordVideoAudit: failed to write audit entry', {
+      videoId: entry.videoId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+export interface ListVideoAuditOptions {
+  tableId?: string | null;
+  videoId?: string | null;
+  recordId?: number | null;
+  limit?: number;
+}
+
+/** Entries for one video (matched by `VideoID` or row id), newest first. */
+export async function listVideoAudit({
+  tableId = null,
+  videoId = null,
+  recordId = null,
+  limit = 100,
+}: ListVideoAuditOptions): Promise<VideoAuditEntry[]> {
+  const entries = await loadEntries(getStore(getAuditLogConfig().path));
+
+  return entries
+    .filter(
+      (entry) =>
+        entry.tableId === tableId &&
+        ((videoId !== null && entry.videoId === videoId) || (recordId !== null && entry.recordId === recordId)),
+    )
+    .reverse()
+    .slice(0, limit);
+}
+
+export async function findVideoAuditEntry(id: string): Promise<VideoAuditEntry | null> {
+  const entries = await loadEntries(getStore(getAuditLogConfig().path));
+  return entries.find((entry) => entry.id === id) ?? null;
+}
+
+/** Test helper: forget the in-memory copy so the next call re-reads the file. */
+export function resetVideoAuditStore() {
+  store = null;
+}
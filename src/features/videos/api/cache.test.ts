@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  clearAllCache,
+  DEFAULT_CACHE_MAX_ENTRIES,
+  DEFAULT_CACHE_TTL,
+  getCacheStats,
+  getFromCache,
+  getOrRevalidate,
+  invalidateCacheTag,
+  resetCacheStats,
+  setCacheMaxEntries,
+  setInCache,
+} from './cache';
+
+describe('video cache', () => {
+  beforeEach(() => {
+    clearAllCache();
+    resetCacheStats();
+    setCacheMaxEntries(DEFAULT_CACHE_MAX_ENTRIES);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    setCacheMaxEntries(2);
+    setInCache('a', 1);
+    setInCache('b', 2);
+    expect(getFromCache('a')).toBe(1);
+
+    setInCache('c', 3);
+
+    expect(getFromCache('b')).toBeNull();
+    expect(getFromCache('a')).toBe(1);
+    expect(getFromCache('c')).toBe(3);
+    expect(getCacheStats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  it('invalidates every entry carrying a tag', () => {
+    setInCache('page-1', ['x'], { tags: ['videos:list'] });
+    setInCache('page-2', ['y'], { tags: ['videos:list'] });
+    setInCache('video-x', { id: 'x' }, { tags: ['video:x'] });
+
+    expect(invalidateCacheTag('videos:list')).toBe(2);
+    expect(getFromCache('page-1')).toBeNull();
+    expect(getFromCache('video-x')).toEqual({ id: 'x' });
+  });
+
+  it('serves stale values while refreshing in the background', async () => {
+    vi.useFakeTimers();
+    const loader = vi.fn().mockResolvedValueOnce('v1').mockResolvedValueOnce('v2');
+
+    await expect(getOrRevalidate('list', loader)).resolves.toBe('v1');
+
+    vi.advanceTimersByTime(DEFAULT_CACHE_TTL + 1000);
+    await expect(getOrRevalidate('list', loader)).resolves.toBe('v1');
+    await vi.waitFor(() => expect(getFromCache('list')).toBe('v2'));
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(getCacheStats()).toMatchObject({ staleHits: 1, backgroundRefreshes: 1 });
+  });
+
+  it('does not write back refreshes that started before an invalidation', async () => {
+    let resolveLoader: (value: string) => void = () => undefined;
+    const pending = getOrRevalidate(
+      'list',
+      () => new Promise<string>((resolve) => {
+        resolveLoader = resolve;
+      }),
+      { tags: ['videos:list'] },
+    );
+
+    invalidateCacheTag('videos:list');
+    resolveLoader('old');
+
+    await expect(pending).resolves.toBe('old');
+    expect(getFromCache('list')).toBeNull();
+  });
+});
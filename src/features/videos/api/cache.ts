@@ -1,29 +1,266 @@
+import { createCounter, createGauge } from '@/shared/utils/metrics';
+
 export interface CacheEntry<T> {
   data: T;
   timestamp: number;
+  tags: string[];
+}
+
+export interface CacheSetOptions {
+  tags?: string[];
+}
+
+export interface CacheStats {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+  backgroundRefreshes: number;
+  hitRatio: number;
 }
 
-const globalCache = new Map<string, CacheEntry<unknown>>();
 export const DEFAULT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_STALE_TTL = 30 * 60 * 1000; // serve stale data up to 30 minutes past expiry
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+/** Tag shared by every cached list page / full-table scan. */
+export const VIDEO_LIST_CACHE_TAG = 'videos:list';
+
+export function videoCacheTag(identifier: string | number): string {
+  return `video:${identifier}`;
+}
+
+export function tableCacheTag(tableId: string): string {
+  return `table:${tableId}`;
+}
+
+function resolveMaxEntries(): number {
+  const configured = Number.parseInt(process.env.VIDEO_CACHE_MAX_ENTRIES ?? '', 10);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CACHE_MAX_ENTRIES;
+}
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used entry at the front and eviction is O(1).
+const globalCache = new Map<string, CacheEntry<unknown>>();
+const tagIndex = new Map<string, Set<string>>();
+const refreshing = new Set<string>();
+// Bumped on every invalidation so a background refresh that started before it
+// cannot write pre-invalidation data back into the cache.
+let generation = 0;
+let maxEntries = resolveMaxEntries();
+
+const stats = {
+  hits: 0,
+  staleHits: 0,
+  misses: 0,
+  evictions: 0,
+  invalidations: 0,
+  backgroundRefreshes: 0,
+};
+
+function unindex(key: string, entry: CacheEntry<unknown>) {
+  entry.tags.forEach((tag) => {
+    const keys = tagIndex.get(tag);
+    if (!keys) return;
+    keys.delete(key);
+    if (keys.size === 0) {
+      tagIndex.delete(tag);
+    }
+  });
+}
+
+function removeEntry(key: string): boolean {
+  const entry = globalCache.get(key);
+  if (!entry) return false;
+  globalCache.delete(key);
+  unindex(key, entry);
+  return true;
+}
+
+function touch(key: string, entry: CacheEntry<unknown>) {
+  globalCache.delete(key);
+  globalCache.set(key, entry);
+}
+
+function evictOverflow() {
+  while (globalCache.size > maxEntries) {
+    const oldestKey = globalCache.keys().next().value as string;
+    removeEntry(oldestKey);
+    stats.evictions += 1;
+  }
+}
 
 export function getFromCache<T>(key: string, ttl = DEFAULT_CACHE_TTL): T | null {
   const cached = globalCache.get(key);
-  if (!cached) return null;
+  if (!cached) {
+    stats.misses += 1;
+    return null;
+  }
   if (Date.now() - cached.timestamp > ttl) {
-    globalCache.delete(key);
+    // Keep the entry around for stale-while-revalidate readers; the LRU bound
+    // and tag invalidation take care of removing it eventually.
+    stats.misses += 1;
     return null;
   }
+  touch(key, cached);
+  stats.hits += 1;
   return cached.data as T;
 }
 
-export function setInCache<T>(key: string, data: T) {
-  globalCache.set(key, { data, timestamp: Date.now() });
+export function setInCache<T>(key: string, data: T, options: CacheSetOptions = {}) {
+  removeEntry(key);
+
+  const tags = Array.from(new Set(options.tags ?? []));
+  globalCache.set(key, { data, timestamp: Date.now(), tags });
+  tags.forEach((tag) => {
+    const keys = tagIndex.get(tag) ?? new Set<string>();
+    keys.add(key);
+    tagIndex.set(tag, keys);
+  });
+
+  evictOverflow();
 }
 
 export function deleteFromCache(key: string) {
-  globalCache.delete(key);
+  if (removeEntry(key)) {
+    generation += 1;
+  }
+}
+
+/** Drop every entry carrying one of the given tags. Returns the number removed. */
+export function invalidateCacheTags(tags: Array<string | null | undefined>): number {
+  let removed = 0;
+  tags.forEach((tag) => {
+    if (!tag) return;
+    const keys = tagIndex.get(tag);
+    if (!keys) return;
+    Array.from(keys).forEach((key) => {
+      if (removeEntry(key)) {
+        removed += 1;
+      }
+    });
+  });
+  // Bump even when nothing was removed: a cold load for a tagged key may be in
+  // flight and must not store data read before the invalidation.
+  generation += 1;
+  stats.invalidations += removed;
+  return removed;
+}
+
+export function invalidateCacheTag(tag: string): number {
+  return invalidateCacheTags([tag]);
+}
+
+interface StaleWhileRevalidateOptions {
+  ttl?: number;
+  staleTtl?: number;
+  tags?: string[];
+}
+
+/**
+ * Return the cached value when fresh. Once it expires (but is younger than
+ * `ttl + staleTtl`) the stale value is returned immediately and `loader` runs
+ * in the background to refresh it; only a cold or fully expired key waits.
+ */
+export async function getOrRevalidate<T>(
+  key: string,
+  loader: () => Promise<T>,
+  { ttl = DEFAULT_CACHE_TTL, staleTtl = DEFAULT_STALE_TTL, tags = [] }: StaleWhileRevalidateOptions = {},
+): Promise<T> {
+  const cached = globalCache.get(key) as CacheEntry<T> | undefined;
+  const age = cached ? Date.now() - cached.timestamp : Number.POSITIVE_INFINITY;
+
+  if (cached && age <= ttl) {
+    touch(key, cached);
+    stats.hits += 1;
+    return cached.data;
+  }
+
+  if (cached && age <= ttl + staleTtl) {
+    touch(key, cached);
+    stats.staleHits += 1;
+
+    if (!refreshing.has(key)) {
+      refreshing.add(key);
+      stats.backgroundRefreshes += 1;
+      const startedAt = generation;
+      loader()
+        .then((data) => {
+          if (generation === startedAt) {
+            setInCache(key, data, { tags });
+          }
+        })
+        .catch(() => {
+          // The stale value stays in place; the next read retries the refresh.
+        })
+        .finally(() => refreshing.delete(key));
+    }
+
+    return cached.data;
+  }
+
+  stats.misses += 1;
+  const startedAt = generation;
+  const data = await loader();
+  if (generation === startedAt) {
+    setInCache(key, data, { tags });
+  }
+  return data;
+}
+
+export function getCacheStats(): CacheStats {
+  const lookups = stats.hits + stats.staleHits + stats.misses;
+  return {
+    size: globalCache.size,
+    maxEntries,
+    ...stats,
+    hitRatio: lookups === 0 ? 0 : (stats.hits + stats.staleHits) / lookups,
+  };
+}
+
+export function resetCacheStats() {
+  stats.hits = 0;
+  stats.staleHits = 0;
+  stats.misses = 0;
+  stats.evictions = 0;
+  stats.invalidations = 0;
+  stats.backgroundRefreshes = 0;
+}
+
+/** Change the LRU bound at runtime (tests, diagnostics). Evicts immediately if needed. */
+export function setCacheMaxEntries(limit: number) {
+  maxEntries = Math.max(1, Math.floor(limit));
+  evictOverflow();
 }
 
 export function clearAllCache() {
+  generation += 1;
   globalCache.clear();
+  tagIndex.clear();
 }
+
+// Scraped by /api/metrics straight from `stats`, so lookups cost nothing extra.
+createCounter({
+  name: 'ytviewer_video_cache_lookups_total',
+  help: 'Video cache lookups by result (hit, stale, miss).',
+  collect: () => [
+    { labels: { result: 'hit' }, value: stats.hits },
+    { labels: { result: 'stale' }, value: stats.staleHits },
+    { labels: { result: 'miss' }, value: stats.misses },
+  ],
+});
+
+createGauge({
+  name: 'ytviewer_video_cache_hit_ratio',
+  help: 'Share of video cache lookups answered from the cache (fresh or stale).',
+  collect: () => [{ value: getCacheStats().hitRatio }],
+});
+
+createGauge({
+  name: 'ytviewer_video_cache_entries',
+  help: 'Entries currently held in the video cache.',
+  collect: () => [{ value: globalCache.size }],
+});
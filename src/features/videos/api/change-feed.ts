@@ -0,0 +1,96 @@
+import { randomUUID } from 'node:crypto';
+
+export type VideoChangeType = 'insert' | 'update' | 'delete';
+
+export interface VideoChange {
+  seq: number;
+  type: VideoChangeType;
+  /** NocoDB numeric row id, when the payload carried one. */
+  id: number | null;
+  videoId: string | null;
+  tableId: string | null;
+  at: string;
+}
+
+export interface VideoChangesResult {
+  cursor: string;
+  changes: VideoChange[];
+  /**
+   * `true` when the cursor is from another server process or older than the
+   * retained window: the caller missed changes and must do a full refresh.
+   */
+  reset: boolean;
+}
+
+export const DEFAULT_CHANGE_FEED_SIZE = 1000;
+
+// A fresh id per process: cursors handed out before a restart cannot be
+// resumed because the in-memory feed is gone.
+const bootId = randomUUID().slice(0, 8);
+let maxEntries = DEFAULT_CHANGE_FEED_SIZE;
+let nextSeq = 1;
+let entries: VideoChange[] = [];
+
+function formatCursor(seq: number): string {
+  return `${bootId}:${seq}`;
+}
+
+function parseCursor(cursor: string): { bootId: string; seq: number } | null {
+  const [id, rawSeq] = cursor.split(':');
+  const seq = Number.parseInt(rawSeq ?? '', 10);
+  return id && Number.isInteger(seq) && seq >= 0 ? { bootId: id, seq } : null;
+}
+
+/** Cursor pointing at "now": pass it to `getVideoChangesSince` later. */
+export function getChangeFeedCursor(): string {
+  return formatCursor(nextSeq - 1);
+}
+
+export function recordVideoChanges(
+  changes: Array<Omit<VideoChange, 'seq' | 'at'> & { at?: string }>,
+): VideoChange[] {
+  const at = new Date().toISOString();
+  const recorded = changes.map((change) => ({ ...change, at: change.at ?? at, seq: nextSeq++ }));
+
+  entries.push(...recorded);
+  if (entries.length > maxEntries) {
+    entries = entries.slice(entries.length - maxEntries);
+  }
+
+  return recorded;
+}
+
+/**
+ * Changes recorded after `cursor`. Without a cursor the caller only gets the
+ * current position, so first-time clients start from "now" instead of
+ * replaying history. `tableIds` narrows the feed to one workspace.
+ */
+export function getVideoChangesSince(
+  cursor: string | null | undefined,
+  { tableIds }: { tableIds?: string[] } = {},
+): VideoChangesResult {
+  const current = getChangeFeedCursor();
+  if (!cursor) {
+    return { cursor: current, changes: [], reset: false };
+  }
+
+  const parsed = parseCursor(cursor);
+  const oldestRetained = entries[0]?.seq ?? nextSeq;
+  if (!parsed || parsed.bootId !== bootId || parsed.seq > nextSeq - 1 || parsed.seq < oldestRetained - 1) {
+    return { cursor: current, changes: [], reset: true };
+  }
+
+  const changes = entries.filter(
+    (entry) =>
+      entry.seq > parsed.seq &&
+      (!tableIds || entry.tableId === null || tableIds.includes(entry.tableId)),
+  );
+
+  return { cursor: current, changes, reset: false };
+}
+
+/** Test helper: empty the feed and optionally shrink the retained window. */
+export function resetChangeFeed(size = DEFAULT_CHANGE_FEED_SIZE) {
+  maxEntries = Math.max(1, Math.floor(size));
+  entries = [];
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { createCircuitBreaker } from './circuit-breaker';
+
+describe('createCircuitBreaker', () => {
+  it('opens after the threshold and lets one probe through after the reset window', () => {
+    let now = 0;
+    const breaker = createCircuitBreaker(() => ({ failureThreshold: 2, resetMs: 1000 }), () => now);
+
+    breaker.recordFailure('HTTP 503');
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure('HTTP 503');
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', retryAfterMs: 1000 });
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getSnapshot().state).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('re-opens when the probe fails', () => {
+    let now = 0;
+    const breaker = createCircuitBreaker(() => ({ failureThreshold: 1, resetMs: 500 }), () => now);
+
+    breaker.recordFailure('ECONNRESET');
+    now = 600;
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure('ECONNRESET');
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', openedAt: 600, lastFailure: 'ECONNRESET' });
+  });
+
+  it('never opens when disabled', () => {
+    const breaker = createCircuitBreaker(() => ({ failureThreshold: 0, resetMs: 500 }));
+
+    breaker.recordFailure('HTTP 500');
+    breaker.recordFailure('HTTP 500');
+
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getSnapshot().state).toBe('closed');
+  });
+});
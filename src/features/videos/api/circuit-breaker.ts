@@ -0,0 +1,111 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. `0` disables the breaker. */
+  failureThreshold: number;
+  /** How long the circuit stays open before a single probe request is let through. */
+  resetMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  /** Milliseconds until the next probe is allowed; `0` unless the circuit is open. */
+  retryAfterMs: number;
+  lastFailure: string | null;
+}
+
+export interface CircuitBreaker {
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(reason: string): void;
+  /** Give back a half-open probe slot without judging the outcome (e.g. cancelled requests). */
+  releaseProbe(): void;
+  getSnapshot(): CircuitSnapshot;
+  reset(): void;
+}
+
+/**
+ * Classic three-state breaker. Options are resolved lazily so env changes
+ * apply without rebuilding the shared HTTP client.
+ */
+export function createCircuitBreaker(
+  resolveOptions: () => CircuitBreakerOptions,
+  now: () => number = Date.now,
+): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let probeInFlight = false;
+  let lastFailure: string | null = null;
+
+  function open() {
+    state = 'open';
+    openedAt = now();
+    probeInFlight = false;
+  }
+
+  return {
+    canRequest() {
+      const { failureThreshold, resetMs } = resolveOptions();
+      if (failureThreshold <= 0 || state === 'closed') {
+        return true;
+      }
+
+      if (state === 'open') {
+        if (openedAt !== null && now() - openedAt < resetMs) {
+          return false;
+        }
+        state = 'half-open';
+      }
+
+      if (probeInFlight) {
+        return false;
+      }
+      probeInFlight = true;
+      return true;
+    },
+
+    recordSuccess() {
+      state = 'closed';
+      consecutiveFailures = 0;
+      openedAt = null;
+      probeInFlight = false;
+    },
+
+    recordFailure(reason: string) {
+      const { failureThreshold } = resolveOptions();
+      consecutiveFailures += 1;
+      lastFailure = reason;
+
+      if (failureThreshold <= 0) {
+        return;
+      }
+
+      if (state === 'half-open' || consecutiveFailures >= failureThreshold) {
+        open();
+      }
+    },
+
+    releaseProbe() {
+      probeInFlight = false;
+    },
+
+    getSnapshot() {
+      const { resetMs } = resolveOptions();
+      const retryAfterMs =
+        state === 'open' && openedAt !== null ? Math.max(0, resetMs - (now() - openedAt)) : 0;
+
+      return { state, consecutiveFailures, openedAt, retryAfterMs, lastFailure };
+    },
+
+    reset() {
+      state = 'closed';
+      consecutiveFailures = 0;
+      openedAt = null;
+      probeInFlight = false;
+      lastFailure = null;
+    },
+  };
+}
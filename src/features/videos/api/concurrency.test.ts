@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { assertVideoVersion, parseVideoETag, videoETag } from './concurrency';
+import { VideoConflictError, VideoETagMismatchError } from './errors';
+import { videoSchema } from './schemas';
+
+const video = videoSchema.parse({
+  Id: 7,
+  VideoID: 'abc',
+  Title: 'Conflicted',
+  PersonalComment: 'from the other device',
+  UpdatedAt: '2026-10-19T10:00:00.000Z',
+});
+
+describe('video concurrency helpers', () => {
+  it('round-trips UpdatedAt through the ETag', () => {
+    const etag = videoETag(video);
+
+    expect(etag).toBe(`W/"7-${Date.parse('2026-10-19T10:00:00.000Z')}"`);
+    expect(parseVideoETag(etag)).toEqual({ id: 7, updatedAt: new Date('2026-10-19T10:00:00.000Z') });
+    expect(parseVideoETag('"7-1760868000000"')?.updatedAt.getTime()).toBe(1760868000000);
+    expect(parseVideoETag('*')).toBeNull();
+    expect(parseVideoETag('W/"abc"')).toBeNull();
+    expect(videoETag({ Id: 7, UpdatedAt: null })).toBeNull();
+  });
+
+  it('accepts writes based on the current version', () => {
+    expect(() => assertVideoVersion(video, '2026-10-19T10:00:00Z')).not.toThrow();
+    expect(() => assertVideoVersion(video, undefined)).not.toThrow();
+    expect(() => assertVideoVersion({ ...video, UpdatedAt: null }, '2020-01-01T00:00:00Z')).not.toThrow();
+  });
+
+  it('rejects stale writes with the current record', () => {
+    let caught: unknown;
+    try {
+      assertVideoVersion(video, new Date('2026-10-19T09:59:59.000Z'));
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(VideoConflictError);
+    expect((caught as VideoConflictError).current.PersonalComment).toBe('from the other device');
+  });
+
+  it('rejects ETags of another record', () => {
+    expect(() => assertVideoVersion(video, '2026-10-19T10:00:00Z', 7)).not.toThrow();
+    expect(() => assertVideoVersion(video, '2026-10-19T10:00:00Z', 8)).toThrow(VideoETagMismatchError);
+  });
+});
@@ -0,0 +1,66 @@
+import { VideoConflictError, VideoETagMismatchError } from './errors';
+import type { Video } from './schemas';
+
+type VersionedVideo = Pick<Video, 'Id' | 'UpdatedAt'>;
+
+function toTimestamp(value: Date | string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const time = (value instanceof Date ? value : new Date(value)).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Weak ETag for a record version: `W/"<Id>-<UpdatedAt in ms>"`. Returns
+ * `null` for tables without an `UpdatedAt` column, where writes cannot be
+ * made conditional.
+ */
+export function videoETag(video: VersionedVideo): string | null {
+  const updatedAt = toTimestamp(video.UpdatedAt);
+  return updatedAt === null ? null : `W/"${video.Id}-${updatedAt}"`;
+}
+
+export interface VideoETag {
+  id: number;
+  updatedAt: Date;
+}
+
+/**
+ * Read the record and `UpdatedAt` an `If-Match` header (as produced by
+ * `videoETag`) refers to; `null` when the header is not one of ours.
+ */
+export function parseVideoETag(header: string | null | undefined): VideoETag | null {
+  const match = header ? /^(?:W\/)?"(\d+)-(\d+)"$/.exec(header.trim()) : null;
+  return match ? { id: Number(match[1]), updatedAt: new Date(Number(match[2])) } : null;
+}
+
+/**
+ * Throw `VideoConflictError` when `current` was modified after the version
+ * the client based its edit on, and `VideoETagMismatchError` when the ETag
+ * the client sent belongs to another record (`expectedId`). Without an
+ * expectation, or when the table has no `UpdatedAt`, the write is
+ * unconditional.
+ */
+export function assertVideoVersion(
+  current: Video,
+  expectedUpdatedAt: Date | string | null | undefined,
+  expectedId?: number,
+): void {
+  if (expectedId !== undefined && expectedId !== current.Id) {
+    throw new VideoETagMismatchError(current.VideoID ?? String(current.Id), expectedId);
+  }
+
+  const expected = toTimestamp(expectedUpdatedAt);
+  const actual = toTimestamp(current.UpdatedAt);
+
+  if (expected === null || actual === null || expected === actual) {
+    return;
+  }
+
+  throw new VideoConflictError(
+    `Video ${current.VideoID ?? current.Id} was modified at ${new Date(actual).toISOString()} (expected ${new Date(expected).toISOString()})`,
+    current,
+  );
+}
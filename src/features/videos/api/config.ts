@@ -36,3 +36,99 @@ export function getNocoDBConfig(overrides: Partial<NocoDBConfig> = {}): NocoDBCo
 
   return { url, token, projectId, tableId, tableName };
 }
+
+export type VideoRepositoryKind = 'nocodb' | 'local';
+
+/**
+ * Selects which storage backend serves video reads and writes.
+ * `nocodb` (default) talks to the configured NocoDB table, `local` keeps the
+ * library in a JSON file so the app can run without any NocoDB instance.
+ */
+export interface VideoRepositoryConfig {
+  kind: VideoRepositoryKind;
+  localStorePath: string;
+}
+
+export const DEFAULT_LOCAL_STORE_PATH = 'data/videos.local.json';
+
+export function getVideoRepositoryConfig(
+  overrides: Partial<VideoRepositoryConfig> = {},
+): VideoRepositoryConfig {
+  const rawKind = overrides.kind ?? process.env.VIDEO_REPOSITORY ?? 'nocodb';
+  const kind = rawKind.trim().toLowerCase();
+
+  if (kind !== 'nocodb' && kind !== 'local') {
+    throw new Error(`Unknown VIDEO_REPOSITORY "${rawKind}". Use "nocodb" or "local".`);
+  }
+
+  const localStorePath =
+    overrides.localStorePath ?? process.env.VIDEO_LOCAL_STORE_PATH ?? DEFAULT_LOCAL_STORE_PATH;
+
+  return { kind, localStorePath };
+}
+
+/**
+ * Retry and circuit-breaker tuning for the shared NocoDB HTTP client. Read on
+ * every request so tests and long-running servers pick up env changes.
+ */
+export interface NocoDBResilienceConfig {
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  circuitFailureThreshold: number;
+  circuitResetMs: number;
+}
+
+function readNonNegativeInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+export function getNocoDBResilienceConfig(
+  overrides: Partial<NocoDBResilienceConfig> = {},
+): NocoDBResilienceConfig {
+  return {
+    maxRetries: overrides.maxRetries ?? readNonNegativeInt('NOCODB_MAX_RETRIES', 3),
+    retryBaseDelayMs: overrides.retryBaseDelayMs ?? readNonNegativeInt('NOCODB_RETRY_BASE_DELAY_MS', 300),
+    retryMaxDelayMs: overrides.retryMaxDelayMs ?? readNonNegativeInt('NOCODB_RETRY_MAX_DELAY_MS', 10000),
+    circuitFailureThreshold:
+      overrides.circuitFailureThreshold ?? readNonNegativeInt('NOCODB_CIRCUIT_FAILURE_THRESHOLD', 5),
+    circuitResetMs: overrides.circuitResetMs ?? readNonNegativeInt('NOCODB_CIRCUIT_RESET_MS', 30000),
+  };
+}
+
+/**
+ * Local JSON file that stores the per-video change history written by
+ * `mutations.ts`. `maxEntries` caps the file (oldest entries drop first);
+ * `0` disables auditing.
+ */
+export interface AuditLogConfig {
+  path: string;
+  maxEntries: number;
+}
+
+export const DEFAULT_AUDIT_LOG_PATH = 'data/video-audit.local.json';
+
+export function getAuditLogConfig(overrides: Partial<AuditLogConfig> = {}): AuditLogConfig {
+  return {
+    path: overrides.path ?? process.env.VIDEO_AUDIT_LOG_PATH ?? DEFAULT_AUDIT_LOG_PATH,
+    maxEntries: overrides.maxEntries ?? readNonNegativeInt('VIDEO_AUDIT_LOG_MAX_ENTRIES', 5000),
+  };
+}
+
+/**
+ * Soft delete: with `enabled` (opt-in, it needs a `TrashedAt` date column),
+ * deleting a video stamps `TrashedAt` instead of removing the row. With
+ * `retentionDays` above `0` the sweep purges videos trashed longer ago.
+ */
+export interface TrashConfig {
+  enabled: boolean;
+  retentionDays: number;
+}
+
+export function getTrashConfig(overrides: Partial<TrashConfig> = {}): TrashConfig {
+  return {
+    enabled: overrides.enabled ?? process.env.VIDEO_SOFT_DELETE?.trim().toLowerCase() === 'true',
+    retentionDays: overrides.retentionDays ?? readNonNegativeInt('VIDEO_TRASH_RETENTION_DAYS', 0),
+  };
+}
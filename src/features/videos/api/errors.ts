@@ -1,3 +1,5 @@
+import type { Video } from './schemas';
+
 export class NocoDBRequestError extends Error {
   status?: number;
   data?: unknown;
@@ -10,6 +12,14 @@ export class NocoDBRequestError extends Error {
   }
 }
 
+/** NocoDB did not answer within the client timeout. Routes answer 504. */
+export class NocoDBTimeoutError extends NocoDBRequestError {
+  constructor(message: string, status?: number, data?: unknown) {
+    super(message, status, data);
+    this.name = 'NocoDBTimeoutError';
+  }
+}
+
 export class NocoDBValidationError extends Error {
   issues: unknown[];
 
@@ -19,3 +29,147 @@ export class NocoDBValidationError extends Error {
     this.issues = issues;
   }
 }
+
+export class InvalidVideoFilterError extends Error {
+  issues: unknown[];
+
+  constructor(message: string, issues: unknown[] = []) {
+    super(message);
+    this.name = 'InvalidVideoFilterError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown without touching the network while the circuit breaker is open.
+ * API routes map it to `503 Service Unavailable`.
+ */
+export class NocoDBUnavailableError extends NocoDBRequestError {
+  retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message, 503);
+    this.name = 'NocoDBUnavailableError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The requested `?workspace=` is not listed in `NOCODB_WORKSPACES`. Routes answer 400. */
+export class UnknownWorkspaceError extends Error {
+  workspaceId: string;
+
+  constructor(workspaceId: string) {
+    super(`Unknown workspace "${workspaceId}"`);
+    this.name = 'UnknownWorkspaceError';
+    this.workspaceId = workspaceId;
+  }
+}
+
+export class InvalidWebhookPayloadError extends Error {
+  issues: unknown[];
+
+  constructor(message: string, issues: unknown[] = []) {
+    super(message);
+    this.name = 'InvalidWebhookPayloadError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A conditional update (`expectedUpdatedAt` / `If-Match`) hit a record that
+ * changed since the client read it. Carries the current server copy; routes
+ * answer 409.
+ */
+export class VideoConflictError extends Error {
+  current: Video;
+
+  constructor(message: string, current: Video) {
+    super(message);
+    this.name = 'VideoConflictError';
+    this.current = current;
+  }
+}
+
+/** No row matches the requested `Id` / `VideoID`. Routes answer 404. */
+export class VideoNotFoundError extends Error {
+  videoId: string;
+
+  constructor(videoId: string | number) {
+    super(`No video found matching identifier: ${videoId}`);
+    this.name = 'VideoNotFoundError';
+    this.videoId = String(videoId);
+  }
+}
+
+/** An `If-Match` ETag names a different record than the one being updated. Routes answer 412. */
+export class VideoETagMismatchError extends Error {
+  videoId: string;
+  etagId: number;
+
+  constructor(videoId: string, etagId: number) {
+    super(`If-Match refers to record ${etagId}, not to video ${videoId}`);
+    this.name = 'VideoETagMismatchError';
+    this.videoId = videoId;
+    this.etagId = etagId;
+  }
+}
+
+/** Purge was asked for a video that is not in the trash. Routes answer 409. */
+export class VideoNotInTrashError extends Error {
+  videoId: string;
+
+  constructor(videoId: string) {
+    super(`Video ${videoId} is not in the trash`);
+    this.name = 'VideoNotInTrashError';
+    this.videoId = videoId;
+  }
+}
+
+/** The input is neither a YouTube video id nor a URL containing one. Routes answer 400. */
+export class InvalidYouTubeVideoError extends Error {
+  input: string;
+
+  constructor(input: string) {
+    super(`"${input}" is not a YouTube video URL or id`);
+    this.name = 'InvalidYouTubeVideoError';
+    this.input = input;
+  }
+}
+
+/** A video with this `VideoID` is already in the table. Carries the stored copy; routes answer 409. */
+export class VideoAlreadyExistsError extends Error {
+  videoId: string;
+  existing: Video;
+
+  constructor(videoId: string, existing: Video) {
+    super(`Video ${videoId} is already in the library`);
+    this.name = 'VideoAlreadyExistsError';
+    this.videoId = videoId;
+    this.existing = existing;
+  }
+}
+
+/** The video with this `VideoID` is in the trash; restoring it brings it back. Routes answer 409. */
+export class VideoInTrashError extends VideoAlreadyExistsError {
+  constructor(videoId: string, existing: Video) {
+    super(videoId, existing);
+    this.message = `Video ${videoId} is in the trash`;
+    this.name = 'VideoInTrashError';
+  }
+}
+
+/** Pick the duplicate error for a `VideoID` that is already stored. */
+export function duplicateVideoError(videoId: string, existing: Video): VideoAlreadyExistsError {
+  return existing.TrashedAt ? new VideoInTrashError(videoId, existing) : new VideoAlreadyExistsError(videoId, existing);
+}
+
+/** `ytdl.getInfo` failed (private, removed, region-locked or YouTube unreachable). Routes answer 502. */
+export class YouTubeMetadataError extends Error {
+  videoId: string;
+
+  constructor(videoId: string, message: string) {
+    super(`Could not load YouTube video ${videoId}: ${message}`);
+    this.name = 'YouTubeMetadataError';
+    this.videoId = videoId;
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  fieldValueTexts,
+  getVideoFieldLabel,
+  searchFieldsForCategories,
+  VIDEO_DETAIL_FIELDS,
+  VIDEO_FIELD_REGISTRY,
+  VIDEO_SEARCH_CATEGORIES,
+} from './field-registry';
+import { VIDEO_LIST_FIELDS, VIDEO_OFFLINE_FIELDS, VIDEO_SEARCH_FIELDS } from './fields';
+import { getVideoFieldKind, videoSchema } from './schemas';
+
+const NOCODB_INTERNALS = new Set(['nc___', '__nc_evolve_to_text__', 'Created By', 'Updated By']);
+
+describe('video field registry', () => {
+  it('covers every videoSchema column once with a matching kind', () => {
+    const registered = VIDEO_FIELD_REGISTRY.map((definition) => definition.field);
+    const columns = Object.keys(videoSchema.shape).filter((field) => !NOCODB_INTERNALS.has(field));
+
+    expect(new Set(registered).size).toBe(registered.length);
+    expect([...registered].sort()).toEqual([...columns].sort());
+
+    VIDEO_FIELD_REGISTRY.forEach(({ field, kind }) => {
+      const schemaKind = getVideoFieldKind(field);
+      if (kind === 'date' || kind === 'boolean') {
+        expect(schemaKind, field).toBe(kind);
+      } else if (kind === 'number' || kind === 'rating') {
+        expect(schemaKind, field).toBe('number');
+      } else if (kind === 'text') {
+        expect(schemaKind, field).toBe('string');
+      }
+    });
+  });
+
+  it('derives fetch lists, search categories and detail order from the entries', () => {
+    expect(VIDEO_LIST_FIELDS).toEqual(expect.arrayContaining(['Id', 'Title', 'ThumbHigh', 'Persons', 'CreatedAt']));
+    expect(VIDEO_LIST_FIELDS).not.toContain('Transcript');
+    expect(VIDEO_SEARCH_FIELDS).toEqual(expect.arrayContaining(searchFieldsForCategories([])));
+    expect(VIDEO_OFFLINE_FIELDS).not.toContain('Transcript');
+    expect(VIDEO_OFFLINE_FIELDS).toContain('MainSummary');
+
+    expect(VIDEO_SEARCH_CATEGORIES.map((category) => category.key)).toContain('ticker');
+    expect(searchFieldsForCategories(['person', 'title'])).toEqual(['Title', 'Persons']);
+    expect(searchFieldsForCategories(['unknown'])).toEqual([]);
+
+    expect(VIDEO_DETAIL_FIELDS.slice(0, 3)).toEqual(['ThumbHigh', 'URL', 'MainTopic']);
+    expect(VIDEO_DETAIL_FIELDS).not.toContain('Title');
+    expect(getVideoFieldLabel('TLDR')).toBe('TL;DR');
+    expect(getVideoFieldLabel('SomeNewColumn')).toBe('Some New Column');
+  });
+
+  it('flattens values into searchable text', () => {
+    expect(fieldValueTexts(['AI', { Title: 'OpenAI' }, { name: 'Jane' }, { Id: 3 }])).toEqual(['AI', 'OpenAI', 'Jane']);
+    expect(fieldValueTexts(0.4)).toEqual(['0.4']);
+    expect(fieldValueTexts(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,470 @@
+import type { videoSchema } from './schemas';
+
+/**
+ * Field registry
+ *
+ * One entry per `videoSchema` column, in the order the detail page shows them
+ * by default. Fetch lists (`fields.ts`), search categories, list filters, the
+ * detail layout and the markdown export are all derived from here, so adding a
+ * column means adding the schema field and one entry below.
+ *
+ * The module only imports types and is safe to use from client components.
+ */
+
+export type VideoFieldName = Extract<keyof (typeof videoSchema)['shape'], string>;
+
+/** How a field's value is shaped and shown (not the zod type; see `getVideoFieldKind`). */
+export type FieldKind =
+  | 'text'
+  | 'markdown'
+  | 'list'
+  | 'linked'
+  | 'date'
+  | 'rating'
+  | 'number'
+  | 'boolean';
+
+export interface SearchCategoryHint {
+  /** Key sent as `categories=` to `/api/search`. */
+  key: string;
+  label: string;
+  icon: string;
+}
+
+export interface DetailHints {
+  /** Open on first visit; the user's own choice is remembered afterwards. */
+  expanded?: boolean;
+  image?: boolean;
+  link?: boolean;
+  /** Render through markdown even though the kind is not `markdown`. */
+  markdown?: boolean;
+}
+
+export interface VideoFieldDefinition {
+  field: VideoFieldName;
+  label: string;
+  kind: FieldKind;
+  /** Loaded for cards and list pages (`/api/videos`, the home page, search results). */
+  list?: boolean;
+  /** Matched by `/api/search` and offline search under this category. */
+  search?: SearchCategoryHint;
+  /** Relevance weight of a match in this field (default 1). */
+  searchBoost?: number;
+  /** Key for `key:value` search queries on a field that is not a search category (`rating:>=4`). */
+  query?: string;
+  /** Facet key offered by `VideoListClient`. */
+  filter?: string;
+  /** Kept in the offline cache. */
+  offline?: boolean;
+  /** Written as its own section by the markdown export. */
+  export?: boolean;
+  /** Shown as a card on the detail page; fields without it live in the page header. */
+  detail?: DetailHints;
+}
+
+export const VIDEO_FIELD_REGISTRY: readonly VideoFieldDefinition[] = [
+  // Identity and header (rendered by the page itself, not as detail cards)
+  { field: 'Id', label: 'Id', kind: 'number', list: true, offline: true },
+  { field: 'rowId', label: 'Row Id', kind: 'text', list: true, offline: true },
+  { field: 'RowId', label: 'Row Id', kind: 'text', offline: true },
+  { field: '_rowId', label: 'Row Id', kind: 'text', offline: true },
+  { field: 'VideoID', label: 'Video ID', kind: 'text', list: true, offline: true },
+  {
+    field: 'Title',
+    label: 'Title',
+    kind: 'text',
+    list: true,
+    offline: true,
+    search: { key: 'title', label: 'Title', icon: '📝' },
+    searchBoost: 5,
+  },
+  {
+    field: 'Channel',
+    label: 'Channel',
+    kind: 'text',
+    list: true,
+    offline: true,
+    search: { key: 'channel', label: 'Channel', icon: '📺' },
+    filter: 'channel',
+  },
+  { field: 'ImportanceRating', label: 'Importance Rating', kind: 'rating', offline: true, query: 'rating' },
+  { field: 'PersonalComment', label: 'Personal Note', kind: 'markdown', offline: true },
+  { field: 'CreatedAt', label: 'Date Added', kind: 'date', list: true, offline: true, query: 'added' },
+  { field: 'UpdatedAt', label: 'Date Updated', kind: 'date', offline: true, query: 'updated' },
+  { field: 'PublishedAt', label: 'Published', kind: 'date', offline: true, query: 'published' },
+
+  // Thumbnail & URL
+  { field: 'ThumbHigh', label: 'Thumbnail', kind: 'text', list: true, offline: true, detail: { expanded: true, image: true } },
+  { field: 'URL', label: 'URL', kind: 'text', offline: true, detail: { expanded: true, link: true } },
+
+  // Main content
+  {
+    field: 'MainTopic',
+    label: 'Main Topic',
+    kind: 'text',
+    list: true,
+    offline: true,
+    search: { key: 'topic', label: 'Topic', icon: '🏷️' },
+    detail: {},
+  },
+  {
+    field: 'TLDR',
+    label: 'TL;DR',
+    kind: 'markdown',
+    offline: true,
+    export: true,
+    search: { key: 'tldr', label: 'TL;DR', icon: '⚡' },
+    searchBoost: 3,
+    detail: { expanded: true },
+  },
+  { field: 'MainSummary', label: 'Main Summary', kind: 'markdown', offline: true, export: true, detail: { expanded: true } },
+  { field: 'KeyExamples', label: 'Key Examples', kind: 'markdown', offline: true, export: true, detail: {} },
+  { field: 'KeyNumbersData', label: 'Key Numbers & Data', kind: 'markdown', export: true, detail: {} },
+  {
+    field: 'ActionableAdvice',
+    label: 'Actionable Advice',
+    kind: 'markdown',
+    offline: true,
+    export: true,
+    detail: { expanded: true },
+  },
+  { field: 'DetailedNarrativeFlow', label: 'Detailed Narrative Flow', kind: 'markdown', offline: true, export: true, detail: {} },
+  { field: 'MemorableQuotes', label: 'Memorable Quotes', kind: 'markdown', offline: true, export: true, detail: {} },
+  { field: 'MemorableTakeaways', label: 'Memorable Takeaways', kind: 'markdown', offline: true, export: true, detail: {} },
+  {
+    field: 'BookMediaRecommendations',
+    label: 'Book/Media Recommendations',
+    kind: 'markdown',
+    offline: true,
+    export: true,
+    detail: {},
+  },
+  { field: 'RelatedURLs', label: 'Related URLs', kind: 'list', offline: true, export: true, detail: { markdown: true } },
+  {
+    field: 'Description',
+    label: 'Description',
+    kind: 'markdown',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'description', label: 'Description', icon: '📄' },
+    searchBoost: 1.5,
+    filter: 'description',
+    detail: {},
+  },
+
+  // Metadata
+  { field: 'Duration', label: 'Duration', kind: 'number', offline: true, query: 'duration', detail: {} },
+  { field: 'Language', label: 'Language', kind: 'text', offline: true, query: 'language', detail: {} },
+  { field: 'Source', label: 'Source', kind: 'text', detail: {} },
+  {
+    field: 'VideoGenre',
+    label: 'Genre',
+    kind: 'text',
+    list: true,
+    offline: true,
+    search: { key: 'genre', label: 'Genre', icon: '🎭' },
+    filter: 'genre',
+    detail: {},
+  },
+  {
+    field: 'Speaker',
+    label: 'Speaker',
+    kind: 'text',
+    list: true,
+    offline: true,
+    search: { key: 'speaker', label: 'Speaker', icon: '🎤' },
+    filter: 'speaker',
+    detail: {},
+  },
+
+  // Status & user data
+  { field: 'Status', label: 'Status', kind: 'text', offline: true, detail: {} },
+  { field: 'Priority', label: 'Priority', kind: 'text', offline: true, detail: {} },
+  { field: 'Watched', label: 'Watched', kind: 'boolean', offline: true, query: 'watched', detail: {} },
+  { field: 'Archived', label: 'Archived', kind: 'boolean', detail: {} },
+  { field: 'TrashedAt', label: 'Trashed At', kind: 'date', detail: {} },
+  { field: 'Private', label: 'Private', kind: 'boolean', detail: {} },
+  { field: 'Notes', label: 'Notes', kind: 'markdown', offline: true, detail: {} },
+  { field: 'Task', label: 'Task', kind: 'text', detail: {} },
+  { field: 'Project', label: 'Project', kind: 'text', detail: {} },
+  { field: 'AssignedTo', label: 'Assigned To', kind: 'linked', detail: {} },
+  { field: 'Prompt', label: 'Prompt', kind: 'text', detail: {} },
+
+  // Dates
+  { field: 'CompletionDate', label: 'Completion Date', kind: 'date', offline: true, detail: {} },
+  { field: 'DueDate', label: 'Due Date', kind: 'date', detail: {} },
+
+  // Entities
+  {
+    field: 'Persons',
+    label: 'Persons',
+    kind: 'linked',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'person', label: 'Person', icon: '👤' },
+    filter: 'person',
+    detail: {},
+  },
+  {
+    field: 'Companies',
+    label: 'Companies',
+    kind: 'linked',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'company', label: 'Company', icon: '🏢' },
+    filter: 'company',
+    detail: {},
+  },
+  {
+    field: 'Indicators',
+    label: 'Indicators',
+    kind: 'linked',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'indicator', label: 'Indicator', icon: '📊' },
+    filter: 'indicator',
+    detail: {},
+  },
+  {
+    field: 'Trends',
+    label: 'Trends',
+    kind: 'linked',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'trend', label: 'Trend', icon: '📈' },
+    filter: 'trend',
+    detail: {},
+  },
+  {
+    field: 'InvestableAssets',
+    label: 'Investable Assets',
+    kind: 'list',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'asset', label: 'Asset', icon: '💰' },
+    filter: 'asset',
+    detail: {},
+  },
+  {
+    field: 'TickerSymbol',
+    label: 'Ticker Symbols',
+    kind: 'text',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'ticker', label: 'Ticker', icon: '📊' },
+    detail: {},
+  },
+  {
+    field: 'Institutions',
+    label: 'Institutions',
+    kind: 'linked',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'institution', label: 'Institution', icon: '🏛️' },
+    filter: 'institution',
+    detail: {},
+  },
+  {
+    field: 'EventsFairs',
+    label: 'Events/Fairs',
+    kind: 'list',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'event', label: 'Event', icon: '📅' },
+    filter: 'event',
+    detail: {},
+  },
+  { field: 'Locations', label: 'Locations', kind: 'linked', detail: {} },
+  { field: 'Events', label: 'Events', kind: 'linked', detail: {} },
+  { field: 'Products', label: 'Products', kind: 'linked', detail: {} },
+  { field: 'Speakers', label: 'Speakers', kind: 'linked', offline: true, detail: {} },
+  {
+    field: 'DOIs',
+    label: 'DOIs',
+    kind: 'list',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'doi', label: 'DOI', icon: '🔗' },
+    filter: 'doi',
+    detail: {},
+  },
+  {
+    field: 'PrimarySources',
+    label: 'Primary Sources',
+    kind: 'list',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'source', label: 'Source', icon: '📚' },
+    filter: 'primarySource',
+    detail: {},
+  },
+  {
+    field: 'TechnicalTerms',
+    label: 'Technical Terms',
+    kind: 'list',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'technical', label: 'Technical', icon: '⚙️' },
+    filter: 'technicalTerm',
+    detail: {},
+  },
+
+  // Categorization
+  {
+    field: 'Hashtags',
+    label: 'Hashtags',
+    kind: 'list',
+    list: true,
+    offline: true,
+    export: true,
+    search: { key: 'hashtag', label: 'Hashtag', icon: '#' },
+    searchBoost: 2,
+    filter: 'hashtag',
+    detail: {},
+  },
+  { field: 'Tags', label: 'Tags', kind: 'linked', offline: true, detail: {} },
+  { field: 'Categories', label: 'Categories', kind: 'linked', offline: true, detail: {} },
+  { field: 'TopicsDiscussed', label: 'Topics Discussed', kind: 'list', offline: true, detail: {} },
+  { field: 'Mood', label: 'Mood', kind: 'list', detail: {} },
+  {
+    field: 'Sentiment',
+    label: 'Sentiment',
+    kind: 'number',
+    list: true,
+    offline: true,
+    filter: 'sentiment',
+    query: 'sentiment',
+    detail: {},
+  },
+  { field: 'SentimentReason', label: 'Sentiment Reason', kind: 'markdown', list: true, offline: true, detail: {} },
+
+  // Technical
+  { field: 'OriginalTitle', label: 'Original Title', kind: 'text', detail: {} },
+  { field: 'OriginalChannel', label: 'Original Channel', kind: 'text', detail: {} },
+  { field: 'FileFormat', label: 'File Format', kind: 'text', detail: {} },
+  { field: 'FileSize', label: 'File Size', kind: 'text', detail: {} },
+  { field: 'Resolution', label: 'Resolution', kind: 'text', detail: {} },
+  { field: 'FrameRate', label: 'Frame Rate', kind: 'number', detail: {} },
+  { field: 'BitRate', label: 'Bit Rate', kind: 'text', detail: {} },
+  { field: 'Subtitles', label: 'Subtitles', kind: 'list', offline: true, detail: {} },
+
+  // Transcript
+  { field: 'Transcript', label: 'Transcript', kind: 'markdown', export: true, detail: {} },
+  { field: 'FullTranscript', label: 'Full Transcript', kind: 'markdown' },
+];
+
+const DEFINITIONS_BY_FIELD = new Map<string, VideoFieldDefinition>(
+  VIDEO_FIELD_REGISTRY.map((definition) => [definition.field, definition]),
+);
+
+export function getVideoFieldDefinition(field: string): VideoFieldDefinition | undefined {
+  return DEFINITIONS_BY_FIELD.get(field);
+}
+
+/** Registered label, or the column name split into words for unregistered columns. */
+export function getVideoFieldLabel(field: string): string {
+  return (
+    DEFINITIONS_BY_FIELD.get(field)?.label ??
+    field
+      .replace(/([A-Z])/g, ' $1')
+      .replace(/_/g, ' ')
+      .trim()
+      .replace(/^\w/, (c) => c.toUpperCase())
+  );
+}
+
+/** Registered field names matching `predicate`, in registry order. */
+export function videoFieldsWhere(predicate: (definition: VideoFieldDefinition) => boolean): VideoFieldName[] {
+  return VIDEO_FIELD_REGISTRY.filter(predicate).map((definition) => definition.field);
+}
+
+export interface VideoSearchCategory extends SearchCategoryHint {
+  fields: VideoFieldName[];
+}
+
+/** Search categories in registry order; a category may span several fields. */
+export const VIDEO_SEARCH_CATEGORIES: VideoSearchCategory[] = VIDEO_FIELD_REGISTRY.reduce<VideoSearchCategory[]>(
+  (categories, { field, search }) => {
+    if (!search) return categories;
+    const existing = categories.find((category) => category.key === search.key);
+    if (existing) {
+      existing.fields.push(field);
+    } else {
+      categories.push({ ...search, fields: [field] });
+    }
+    return categories;
+  },
+  [],
+);
+
+/** Relevance weight per searchable field: Title > TLDR > Hashtags > Description > everything else. */
+export const VIDEO_SEARCH_BOOSTS: ReadonlyMap<VideoFieldName, number> = new Map(
+  VIDEO_FIELD_REGISTRY.flatMap(({ field, search, searchBoost }) => (search ? [[field, searchBoost ?? 1] as const] : [])),
+);
+
+export interface VideoQueryField {
+  /** Written before the colon in a search query (`channel:`, `rating:`). */
+  key: string;
+  label: string;
+  /** `text` for search categories; the field's own kind for `query` keys. */
+  kind: FieldKind;
+  fields: VideoFieldName[];
+}
+
+/** Keys accepted as `key:value` in search queries: every search category plus the `query` keys. */
+export const VIDEO_QUERY_FIELDS: VideoQueryField[] = [
+  ...VIDEO_SEARCH_CATEGORIES.map(({ key, label, fields }) => ({ key, label, kind: 'text' as const, fields })),
+  ...VIDEO_FIELD_REGISTRY.flatMap(({ field, label, kind, query }) => (query ? [{ key: query, label, kind, fields: [field] }] : [])),
+];
+
+/** Fields behind the given search categories, or every searchable field when none are given. */
+export function searchFieldsForCategories(categories: string[]): VideoFieldName[] {
+  const selected =
+    categories.length > 0
+      ? VIDEO_SEARCH_CATEGORIES.filter((category) => categories.includes(category.key))
+      : VIDEO_SEARCH_CATEGORIES;
+  return Array.from(new Set(selected.flatMap((category) => category.fields)));
+}
+
+export const VIDEO_FILTER_FIELDS: Array<{ type: string; field: VideoFieldName }> = VIDEO_FIELD_REGISTRY.flatMap(
+  ({ field, filter }) => (filter ? [{ type: filter, field }] : []),
+);
+
+/** Default card order on the detail page (users can drag to reorder). */
+export const VIDEO_DETAIL_FIELDS = videoFieldsWhere((definition) => definition.detail !== undefined);
+
+export const VIDEO_EXPORT_FIELDS = videoFieldsWhere((definition) => definition.export === true);
+
+export function isMarkdownField(field: string): boolean {
+  const definition = DEFINITIONS_BY_FIELD.get(field);
+  return definition?.kind === 'markdown' || definition?.detail?.markdown === true;
+}
+
+/**
+ * Plain strings held by a field value: text and numbers as-is, lists item by
+ * item, linked records by `Title` (or `name`). Used for matching and facets.
+ */
+export function fieldValueTexts(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  if (typeof value === 'string') return [value];
+  if (typeof value === 'number' || typeof value === 'boolean') return [String(value)];
+  if (Array.isArray(value)) return value.flatMap(fieldValueTexts);
+  if (typeof value === 'object') {
+    const { Title, name } = value as { Title?: unknown; name?: unknown };
+    const text = Title || name;
+    return typeof text === 'string' ? [text] : [];
+  }
+  return [];
+}
@@ -1,109 +1,11 @@
-export const VIDEO_LIST_FIELDS = [
-  'Id',
-  'rowId',
-  'Title',
-  'ThumbHigh',
-  'Channel',
-  'Description',
-  'VideoGenre',
-  'VideoID',
-  'Persons',
-  'Companies',
-  'Indicators',
-  'Trends',
-  'InvestableAssets',
-  'TickerSymbol',
-  'Institutions',
-  'EventsFairs',
-  'DOIs',
-  'Hashtags',
-  'MainTopic',
-  'PrimarySources',
-  'Sentiment',
-  'SentimentReason',
-  'TechnicalTerms',
-  'Speaker',
-] as const;
+import { videoFieldsWhere } from './field-registry';
 
-export const VIDEO_SEARCH_FIELDS = [
-  'Id',
-  'rowId',
-  'Title',
-  'ThumbHigh',
-  'Channel',
-  'Description',
-  'VideoGenre',
-  'VideoID',
-  'Persons',
-  'Companies',
-  'Indicators',
-  'Trends',
-  'InvestableAssets',
-  'TickerSymbol',
-  'Institutions',
-  'EventsFairs',
-  'DOIs',
-  'Hashtags',
-  'MainTopic',
-  'PrimarySources',
-  'Sentiment',
-  'SentimentReason',
-  'TechnicalTerms',
-  'Speaker',
-  'CreatedAt',
-] as const;
+/** Columns requested for cards and list pages; see `field-registry.ts`. */
+export const VIDEO_LIST_FIELDS: readonly string[] = videoFieldsWhere((definition) => definition.list === true);
 
-export const VIDEO_OFFLINE_FIELDS = [
-  'Id',
-  'rowId',
-  'RowId',
-  '_rowId',
-  'Title',
-  'ThumbHigh',
-  'URL',
-  'Channel',
-  'Description',
-  'VideoGenre',
-  'Persons',
-  'Companies',
-  'Indicators',
-  'Trends',
-  'InvestableAssets',
-  'TickerSymbol',
-  'Institutions',
-  'EventsFairs',
-  'DOIs',
-  'Hashtags',
-  'MainTopic',
-  'PrimarySources',
-  'Sentiment',
-  'SentimentReason',
-  'TechnicalTerms',
-  'Speaker',
-  'CreatedAt',
-  'UpdatedAt',
-  'PublishedAt',
-  'ImportanceRating',
-  'PersonalComment',
-  'Watched',
-  'Notes',
-  'Tags',
-  'Categories',
-  'CompletionDate',
-  'ActionableAdvice',
-  'TLDR',
-  'MainSummary',
-  'DetailedNarrativeFlow',
-  'MemorableQuotes',
-  'MemorableTakeaways',
-  'KeyExamples',
-  'BookMediaRecommendations',
-  'RelatedURLs',
-  'TopicsDiscussed',
-  'Speakers',
-  'Subtitles',
-  'Duration',
-  'Language',
-  'Priority',
-  'Status',
-] as const;
+/** List columns plus everything `/api/search` matches against. */
+export const VIDEO_SEARCH_FIELDS: readonly string[] = videoFieldsWhere(
+  (definition) => definition.list === true || definition.search !== undefined,
+);
+
+export const VIDEO_OFFLINE_FIELDS: readonly string[] = videoFieldsWhere((definition) => definition.offline === true);
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { compileWhere } from '@/__mocks__/nocodb/where';
+
+import { InvalidVideoFilterError } from './errors';
+import {
+  combineWhereClauses,
+  compileVideoFilter,
+  matchesVideoFilter,
+  parseVideoFilter,
+  withTrashFilter,
+  type VideoFilter,
+} from './filters';
+
+describe('compileVideoFilter', () => {
+  it('compiles leaves according to the field type', () => {
+    expect(compileVideoFilter({ type: 'eq', field: 'Channel', value: 'Veritasium' })).toBe(
+      '(Channel,eq,Veritasium)',
+    );
+    expect(compileVideoFilter({ type: 'eq', field: 'Watched', value: true })).toBe('(Watched,checked)');
+    expect(compileVideoFilter({ type: 'range', field: 'PublishedAt', gte: '2024-01-01' })).toBe(
+      '(PublishedAt,ge,exactDate,2024-01-01)',
+    );
+    expect(compileVideoFilter({ type: 'isNull', field: 'Language' })).toBe('(Language,blank)');
+  });
+
+  it('nests groups and pushes negation down to the leaves', () => {
+    const where = compileVideoFilter({
+      type: 'and',
+      filters: [
+        { type: 'in', field: 'Language', values: ['de', 'en'] },
+        { type: 'not', filter: { type: 'range', field: 'ImportanceRating', gte: 2, lte: 4 } },
+      ],
+    });
+
+    expect(where).toBe(
+      '((Language,eq,de)~or(Language,eq,en))~and((ImportanceRating,lt,2)~or(ImportanceRating,gt,4))',
+    );
+  });
+
+  it('rejects values that would break the where syntax', () => {
+    expect(() => compileVideoFilter({ type: 'eq', field: 'Title', value: 'a,b' })).toThrow(
+      InvalidVideoFilterError,
+    );
+    expect(compileVideoFilter({ type: 'contains', field: 'Title', value: 'a,b' })).toBe('(Title,like,%a%b%)');
+  });
+
+  it('combines with other where fragments', () => {
+    expect(combineWhereClauses('(Hashtags,ilike,%ai%)~and(Hashtags,ilike,%ml%)', '(Watched,notchecked)')).toBe(
+      '((Hashtags,ilike,%ai%)~and(Hashtags,ilike,%ml%))~and(Watched,notchecked)',
+    );
+    expect(combineWhereClauses(undefined, '(Watched,checked)')).toBe('(Watched,checked)');
+  });
+});
+
+describe('parseVideoFilter', () => {
+  it('accepts JSON strings and rejects unknown fields', () => {
+    expect(parseVideoFilter('{"type":"contains","field":"Title","value":"ai"}')).toEqual({
+      type: 'contains',
+      field: 'Title',
+      value: 'ai',
+    });
+    expect(() => parseVideoFilter({ type: 'eq', field: 'Nope', value: 1 })).toThrow(InvalidVideoFilterError);
+    expect(() => parseVideoFilter('not json')).toThrow('Filter must be valid JSON.');
+  });
+});
+
+describe('matchesVideoFilter', () => {
+  const record = {
+    Id: 1,
+    Channel: 'Veritasium',
+    ImportanceRating: 4,
+    PublishedAt: '2024-05-02T10:00:00.000Z',
+    Watched: null,
+    Hashtags: '#physics\n#science',
+  };
+
+  it('evaluates the same semantics in memory', () => {
+    expect(
+      matchesVideoFilter(record, {
+        type: 'and',
+        filters: [
+          { type: 'eq', field: 'Channel', value: 'Veritasium' },
+          { type: 'range', field: 'PublishedAt', gte: '2024-05-02', lt: '2024-06-01' },
+          { type: 'eq', field: 'Watched', value: false },
+          { type: 'eq', field: 'Hashtags', value: '#physics' },
+        ],
+      }),
+    ).toBe(true);
+    expect(matchesVideoFilter(record, { type: 'not', filter: { type: 'range', field: 'ImportanceRating', gte: 4 } })).toBe(
+      false,
+    );
+  });
+  it('agrees with the compiled where clause on blank values', () => {
+    const records = [
+      { Id: 1, Channel: 'A', ImportanceRating: 4, Language: 'de', Watched: true, Title: 'Alpha', PublishedAt: '2024-05-02T10:00:00.000Z', Hashtags: '#ai' },
+      { Id: 2, Channel: 'B', ImportanceRating: 1, Language: 'en', Watched: false, Title: 'Beta x', PublishedAt: '2025-01-01T00:00:00.000Z', Hashtags: null },
+      { Id: 3, Channel: null, ImportanceRating: null, Language: null, Watched: null, Title: null, PublishedAt: null, Hashtags: null },
+      { Id: 4, Channel: '', ImportanceRating: 3, Language: null, Watched: null, Title: 'x', PublishedAt: null, Hashtags: '' },
+    ];
+    const filters: VideoFilter[] = [
+      { type: 'neq', field: 'Channel', value: 'A' },
+      { type: 'not', filter: { type: 'eq', field: 'Channel', value: 'A' } },
+      { type: 'range', field: 'ImportanceRating', gte: 3 },
+      { type: 'not', filter: { type: 'range', field: 'ImportanceRating', gte: 2, lte: 4 } },
+      { type: 'not', filter: { type: 'in', field: 'Language', values: ['de'] } },
+      { type: 'neq', field: 'Watched', value: true },
+      { type: 'not', filter: { type: 'eq', field: 'Watched', value: false } },
+      { type: 'not', filter: { type: 'contains', field: 'Title', value: 'x' } },
+      { type: 'not', filter: { type: 'isNull', field: 'Language' } },
+      { type: 'neq', field: 'PublishedAt', value: '2024-05-02' },
+      { type: 'not', filter: { type: 'range', field: 'PublishedAt', lt: '2024-06-01' } },
+      { type: 'neq', field: 'Hashtags', value: '#ai' },
+      {
+        type: 'not',
+        filter: {
+          type: 'and',
+          filters: [
+            { type: 'eq', field: 'Channel', value: 'A' },
+            { type: 'or', filters: [{ type: 'range', field: 'ImportanceRating', gt: 3 }, { type: 'isNull', field: 'Title' }] },
+          ],
+        },
+      },
+    ];
+
+    for (const filter of filters) {
+      const nocodb = records.filter(compileWhere(compileVideoFilter(filter))).map((video) => video.Id);
+      const inMemory = records.filter((video) => matchesVideoFilter(video, filter)).map((video) => video.Id);
+      expect({ filter, ids: inMemory }).toEqual({ filter, ids: nocodb });
+    }
+  });
+});
+
+describe('withTrashFilter', () => {
+  beforeEach(() => {
+    vi.stubEnv('VIDEO_SOFT_DELETE', 'true');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('hides trashed rows unless asked for them, whatever their Archived flag', () => {
+    const channel = { type: 'eq', field: 'Channel', value: 'Veritasium' } as const;
+
+    expect(compileVideoFilter(withTrashFilter(channel))).toBe('(TrashedAt,blank)~and(Channel,eq,Veritasium)');
+    expect(compileVideoFilter(withTrashFilter(undefined, 'only'))).toBe('(TrashedAt,notblank)');
+    expect(withTrashFilter(channel, 'include')).toBe(channel);
+    expect(matchesVideoFilter({ Archived: true, TrashedAt: null }, withTrashFilter(undefined))).toBe(true);
+    expect(matchesVideoFilter({ TrashedAt: '2026-10-01T00:00:00.000Z' }, withTrashFilter(undefined))).toBe(false);
+  });
+
+  it('does not filter when soft delete is off (the default)', () => {
+    vi.unstubAllEnvs();
+
+    expect(withTrashFilter(undefined)).toBeUndefined();
+    expect(compileVideoFilter(withTrashFilter(undefined, 'only'))).toBe('(TrashedAt,notblank)');
+  });
+});
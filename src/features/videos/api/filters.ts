@@ -0,0 +1,398 @@
+import { z } from 'zod';
+
+import { getTrashConfig } from './config';
+import { InvalidVideoFilterError } from './errors';
+import { getVideoFieldKind, videoSchema } from './schemas';
+
+export type VideoFilterField = Extract<keyof typeof videoSchema.shape, string>;
+export type FilterScalar = string | number | boolean;
+export type FilterBound = string | number;
+
+/**
+ * Typed filter model over `videoSchema` fields. Leaves compare a single field,
+ * `and`/`or`/`not` nodes combine them. The same tree is compiled into a NocoDB
+ * `where` clause and evaluated in memory by the local repository.
+ */
+export type VideoFilter =
+  | { type: 'eq'; field: VideoFilterField; value: FilterScalar }
+  | { type: 'neq'; field: VideoFilterField; value: FilterScalar }
+  | { type: 'contains'; field: VideoFilterField; value: string }
+  | {
+      type: 'range';
+      field: VideoFilterField;
+      gt?: FilterBound;
+      gte?: FilterBound;
+      lt?: FilterBound;
+      lte?: FilterBound;
+    }
+  | { type: 'in'; field: VideoFilterField; values: FilterScalar[] }
+  | { type: 'isNull'; field: VideoFilterField }
+  | { type: 'and'; filters: VideoFilter[] }
+  | { type: 'or'; filters: VideoFilter[] }
+  | { type: 'not'; filter: VideoFilter };
+
+/** Which side of the trash (rows with a `TrashedAt` stamp) a list query reads. */
+export type TrashMode = 'exclude' | 'include' | 'only';
+
+/**
+ * Combine `filter` with the trash condition. The trash has its own column, so
+ * the user's `Archived` flag never hides a video. `exclude` turns into
+ * `include` when soft delete is switched off, so tables without the column
+ * are never filtered on it.
+ */
+export function withTrashFilter(filter: VideoFilter | undefined, mode: TrashMode = 'exclude'): VideoFilter | undefined {
+  if (mode === 'include' || (mode === 'exclude' && !getTrashConfig().enabled)) {
+    return filter;
+  }
+
+  const untrashed: VideoFilter = { type: 'isNull', field: 'TrashedAt' };
+  const trash: VideoFilter = mode === 'only' ? { type: 'not', filter: untrashed } : untrashed;
+  return filter ? { type: 'and', filters: [trash, filter] } : trash;
+}
+
+const videoFields = videoSchema.shape as Record<string, z.ZodTypeAny>;
+
+const MAX_FILTER_DEPTH = 8;
+
+export function isVideoFilterField(field: string): field is VideoFilterField {
+  return Object.prototype.hasOwnProperty.call(videoFields, field);
+}
+
+const fieldSchema = z
+  .string()
+  .refine(isVideoFilterField, (field) => ({ message: `Unknown filter field: ${field}` })) as z.ZodType<VideoFilterField>;
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+const boundSchema = z.union([z.string(), z.number()]);
+
+export const videoFilterSchema: z.ZodType<VideoFilter> = z.lazy(() =>
+  z.union([
+    z.object({ type: z.literal('eq'), field: fieldSchema, value: scalarSchema }),
+    z.object({ type: z.literal('neq'), field: fieldSchema, value: scalarSchema }),
+    z.object({ type: z.literal('contains'), field: fieldSchema, value: z.string().min(1) }),
+    z
+      .object({
+        type: z.literal('range'),
+        field: fieldSchema,
+        gt: boundSchema.optional(),
+        gte: boundSchema.optional(),
+        lt: boundSchema.optional(),
+        lte: boundSchema.optional(),
+      })
+      .refine(
+        (range) => [range.gt, range.gte, range.lt, range.lte].some((bound) => bound !== undefined),
+        { message: 'Range filters need at least one bound.' },
+      ),
+    z.object({ type: z.literal('in'), field: fieldSchema, values: z.array(scalarSchema).min(1) }),
+    z.object({ type: z.literal('isNull'), field: fieldSchema }),
+    z.object({ type: z.literal('and'), filters: z.array(videoFilterSchema) }),
+    z.object({ type: z.literal('or'), filters: z.array(videoFilterSchema) }),
+    z.object({ type: z.literal('not'), filter: videoFilterSchema }),
+  ]),
+);
+
+function filterDepth(filter: VideoFilter): number {
+  switch (filter.type) {
+    case 'and':
+    case 'or':
+      return 1 + Math.max(0, ...filter.filters.map(filterDepth));
+    case 'not':
+      return 1 + filterDepth(filter.filter);
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Validate untrusted input (e.g. the `filter` query parameter) and return a
+ * typed filter tree. Accepts either an object or its JSON string form.
+ */
+export function parseVideoFilter(input: unknown): VideoFilter {
+  let candidate = input;
+  if (typeof input === 'string') {
+    try {
+      candidate = JSON.parse(input);
+    } catch {
+      throw new InvalidVideoFilterError('Filter must be valid JSON.');
+    }
+  }
+
+  const parsed = videoFilterSchema.safeParse(candidate);
+  if (!parsed.success) {
+    throw new InvalidVideoFilterError('Invalid video filter.', parsed.error.issues);
+  }
+
+  if (filterDepth(parsed.data) > MAX_FILTER_DEPTH) {
+    throw new InvalidVideoFilterError(`Filters may be nested at most ${MAX_FILTER_DEPTH} levels deep.`);
+  }
+
+  return parsed.data;
+}
+
+// ---------------------------------------------------------------------------
+// NocoDB `where` compilation
+// ---------------------------------------------------------------------------
+
+// `,` separates arguments and parentheses delimit conditions in NocoDB's where
+// syntax; there is no escaping, so such values cannot be sent verbatim.
+const RESERVED_WHERE_CHARACTERS = /[(),~]/;
+
+function formatValue(field: string, value: FilterScalar): string {
+  const text = String(value);
+  if (RESERVED_WHERE_CHARACTERS.test(text)) {
+    throw new InvalidVideoFilterError(
+      `Filter value for ${field} contains characters NocoDB cannot filter on: ${text}`,
+    );
+  }
+  return text;
+}
+
+function formatDate(field: string, value: FilterScalar): string {
+  const date = new Date(typeof value === 'boolean' ? Number.NaN : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidVideoFilterError(`Filter value for ${field} is not a valid date: ${String(value)}`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+type Comparison = 'eq' | 'neq' | 'gt' | 'ge' | 'lt' | 'le';
+
+function comparisonClause(field: string, op: Comparison, value: FilterScalar): string {
+  const kind = getVideoFieldKind(field);
+
+  if (kind === 'boolean' && (op === 'eq' || op === 'neq')) {
+    const checked = value === true || value === 'true' || value === 1;
+    return `(${field},${checked === (op === 'eq') ? 'checked' : 'notchecked'})`;
+  }
+
+  if (kind === 'date') {
+    return `(${field},${op},exactDate,${formatDate(field, value)})`;
+  }
+
+  return `(${field},${op},${formatValue(field, value)})`;
+}
+
+function likeClause(field: string, value: string, negated: boolean): string {
+  // Reserved characters cannot be escaped, so they become wildcards; the match
+  // is slightly broader but the clause is never malformed.
+  const pattern = value.replace(/[(),~]/g, '%');
+  return `(${field},${negated ? 'nlike' : 'like'},%${pattern}%)`;
+}
+
+// Leaves never contain `~` (reserved characters are rejected above), so any
+// clause that does is a compound expression and needs its own parentheses.
+function wrapCompound(clause: string): string {
+  return clause.includes('~') ? `(${clause})` : clause;
+}
+
+function joinClauses(clauses: string[], operator: 'and' | 'or'): string | undefined {
+  if (clauses.length === 0) {
+    return undefined;
+  }
+  if (clauses.length === 1) {
+    return clauses[0];
+  }
+  return clauses.map(wrapCompound).join(`~${operator}`);
+}
+
+const NEGATED_BOUND: Record<'gt' | 'gte' | 'lt' | 'lte', Comparison> = {
+  gt: 'le',
+  gte: 'lt',
+  lt: 'ge',
+  lte: 'gt',
+};
+
+const BOUND: Record<'gt' | 'gte' | 'lt' | 'lte', Comparison> = {
+  gt: 'gt',
+  gte: 'ge',
+  lt: 'lt',
+  lte: 'le',
+};
+
+/**
+ * NOT is pushed down to the leaves (De Morgan) so the output only uses the
+ * negated operators NocoDB supports instead of the fragile `~not` prefix.
+ */
+function compile(filter: VideoFilter, negated: boolean): string | undefined {
+  switch (filter.type) {
+    case 'and':
+    case 'or': {
+      const operator = (filter.type === 'and') !== negated ? 'and' : 'or';
+      const clauses = filter.filters
+        .map((child) => compile(child, negated))
+        .filter((clause): clause is string => Boolean(clause));
+      return joinClauses(clauses, operator);
+    }
+    case 'not':
+      return compile(filter.filter, !negated);
+    case 'eq':
+    case 'neq': {
+      const isEq = (filter.type === 'eq') !== negated;
+      if (getVideoFieldKind(filter.field) === 'list') {
+        return likeClause(filter.field, String(filter.value), !isEq);
+      }
+      return comparisonClause(filter.field, isEq ? 'eq' : 'neq', filter.value);
+    }
+    case 'contains':
+      return likeClause(filter.field, filter.value, negated);
+    case 'range': {
+      const bounds = (['gt', 'gte', 'lt', 'lte'] as const).filter((key) => filter[key] !== undefined);
+      const clauses = bounds.map((key) =>
+        comparisonClause(filter.field, negated ? NEGATED_BOUND[key] : BOUND[key], filter[key]!),
+      );
+      return joinClauses(clauses, negated ? 'or' : 'and');
+    }
+    case 'in': {
+      const clauses = filter.values.map((value) =>
+        compile({ type: 'eq', field: filter.field, value }, negated),
+      ) as string[];
+      return joinClauses(clauses, negated ? 'and' : 'or');
+    }
+    case 'isNull':
+      return `(${filter.field},${negated ? 'notblank' : 'blank'})`;
+  }
+}
+
+/** Compile a filter tree into NocoDB's `where` syntax; `undefined` means "no filter". */
+export function compileVideoFilter(filter?: VideoFilter | null): string | undefined {
+  if (!filter) {
+    return undefined;
+  }
+
+  return compile(filter, false);
+}
+
+/** AND together independent `where` fragments (tag search, filters, ...). */
+export function combineWhereClauses(...clauses: Array<string | undefined>): string | undefined {
+  return joinClauses(
+    clauses.filter((clause): clause is string => Boolean(clause)),
+    'and',
+  );
+}
+
+// ---------------------------------------------------------------------------
+// In-memory evaluation (local repository, offline fallbacks)
+// ---------------------------------------------------------------------------
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function textOf(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(textOf).join('\n');
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>).map(textOf).join(' ');
+  }
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function toTimestamp(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' || typeof value === 'number') return new Date(value).getTime();
+  return Number.NaN;
+}
+
+function compareTo(field: string, actual: unknown, expected: FilterScalar): number | null {
+  if (isBlank(actual)) {
+    return null;
+  }
+
+  const kind = getVideoFieldKind(field);
+  if (kind === 'date') {
+    // NocoDB's exactDate compares calendar days, so do the same here.
+    const left = toTimestamp(actual);
+    const right = toTimestamp(typeof expected === 'boolean' ? Number.NaN : expected);
+    if (Number.isNaN(left) || Number.isNaN(right)) return null;
+    const day = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+    return day(left).localeCompare(day(right));
+  }
+
+  if (kind === 'number' || (typeof actual === 'number' && typeof expected === 'number')) {
+    const left = Number(actual);
+    const right = Number(expected);
+    return Number.isNaN(left) || Number.isNaN(right) ? null : left - right;
+  }
+
+  return textOf(actual).localeCompare(String(expected));
+}
+
+function equals(field: string, actual: unknown, expected: FilterScalar): boolean {
+  const kind = getVideoFieldKind(field);
+  if (kind === 'boolean') {
+    const checked = expected === true || expected === 'true' || expected === 1;
+    return Boolean(actual) === checked;
+  }
+  if (kind === 'list') {
+    return textOf(actual).toLowerCase().includes(String(expected).toLowerCase());
+  }
+  return compareTo(field, actual, expected) === 0;
+}
+
+function compares(field: string, actual: unknown, op: Comparison, expected: FilterScalar): boolean {
+  const result = compareTo(field, actual, expected);
+  // Ordered comparisons never match blank values, negated or not (SQL NULL).
+  if (result === null) return false;
+  switch (op) {
+    case 'eq':
+      return result === 0;
+    case 'neq':
+      return result !== 0;
+    case 'gt':
+      return result > 0;
+    case 'ge':
+      return result >= 0;
+    case 'lt':
+      return result < 0;
+    case 'le':
+      return result <= 0;
+  }
+}
+
+/**
+ * Mirrors `compile`: NOT is pushed down to the leaves the same way, so blank
+ * values behave as in NocoDB. `neq`, `nlike` and `notchecked` match them,
+ * while ordered comparisons (also a negated range) never do.
+ */
+function matches(record: Record<string, unknown>, filter: VideoFilter, negated: boolean): boolean {
+  switch (filter.type) {
+    case 'and':
+    case 'or': {
+      const every = (filter.type === 'and') !== negated;
+      return every
+        ? filter.filters.every((child) => matches(record, child, negated))
+        : filter.filters.length === 0 || filter.filters.some((child) => matches(record, child, negated));
+    }
+    case 'not':
+      return matches(record, filter.filter, !negated);
+    case 'eq':
+    case 'neq': {
+      const isEq = (filter.type === 'eq') !== negated;
+      return equals(filter.field, record[filter.field], filter.value) === isEq;
+    }
+    case 'contains':
+      return textOf(record[filter.field]).toLowerCase().includes(filter.value.toLowerCase()) !== negated;
+    case 'in':
+      return negated
+        ? filter.values.every((value) => !equals(filter.field, record[filter.field], value))
+        : filter.values.some((value) => equals(filter.field, record[filter.field], value));
+    case 'isNull':
+      return isBlank(record[filter.field]) !== negated;
+    case 'range': {
+      const bounds = (['gt', 'gte', 'lt', 'lte'] as const).filter((key) => filter[key] !== undefined);
+      const check = (key: (typeof bounds)[number]) =>
+        compares(filter.field, record[filter.field], negated ? NEGATED_BOUND[key] : BOUND[key], filter[key]!);
+      return bounds.length === 0 || (negated ? bounds.some(check) : bounds.every(check));
+    }
+  }
+}
+
+/** Evaluate a filter tree against a raw (NocoDB-shaped) or parsed record, matching the compiled `where`. */
+export function matchesVideoFilter(record: Record<string, unknown>, filter?: VideoFilter | null): boolean {
+  return filter ? matches(record, filter, false) : true;
+}
@@ -0,0 +1,130 @@
+import { AxiosError, AxiosHeaders, type AxiosAdapter, type InternalAxiosRequestConfig } from 'axios';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+import { NocoDBUnavailableError } from './errors';
+import {
+  apiClient,
+  computeBackoffDelay,
+  getNocoDBCircuitState,
+  nocodbOperation,
+  parseRetryAfter,
+  resetNocoDBCircuit,
+  toRequestError,
+} from './http-client';
+
+function respond(status: number, headers: Record<string, string> = {}) {
+  return (config: InternalAxiosRequestConfig) => {
+    const response = {
+      data: { status },
+      status,
+      statusText: String(status),
+      headers: new AxiosHeaders(headers),
+      config,
+    };
+    if (status >= 400) {
+      return Promise.reject(new AxiosError(`HTTP ${status}`, 'ERR_BAD_RESPONSE', config, null, response));
+    }
+    return Promise.resolve(response);
+  };
+}
+
+function sequenceAdapter(...steps: Array<(config: InternalAxiosRequestConfig) => Promise<unknown>>) {
+  let call = 0;
+  return vi.fn((config: InternalAxiosRequestConfig) => {
+    const step = steps[Math.min(call, steps.length - 1)];
+    call += 1;
+    return step(config);
+  }) as unknown as AxiosAdapter & ReturnType<typeof vi.fn>;
+}
+
+describe('retry helpers', () => {
+  it('parses Retry-After seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'))).toBe(
+      10000,
+    );
+    expect(parseRetryAfter(undefined)).toBeNull();
+  });
+
+  it('grows the backoff exponentially within the cap', () => {
+    for (let attempt = 0; attempt < 6; attempt += 1) {
+      const delay = computeBackoffDelay(attempt, 100, 1000);
+      const ceiling = Math.min(1000, 100 * 2 ** attempt);
+      expect(delay).toBeGreaterThanOrEqual(ceiling / 2);
+      expect(delay).toBeLessThanOrEqual(ceiling);
+    }
+  });
+
+  it('names NocoDB operations for metrics without record ids', () => {
+    expect(nocodbOperation('https://nocodb.local/api/v2/tables/m_videos/records?limit=25')).toBe('records');
+    expect(nocodbOperation('https://nocodb.local/api/v2/tables/m_videos/records/42')).toBe('record');
+    expect(nocodbOperation('https://nocodb.local/api/v2/tables/m_videos/links/c_tags/records/42')).toBe('links');
+    expect(nocodbOperation('https://nocodb.local/api/v2/meta/tables/m_videos')).toBe('meta');
+  });
+});
+
+describe('apiClient resilience', () => {
+  const OLD_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...OLD_ENV,
+      NOCODB_MAX_RETRIES: '2',
+      NOCODB_RETRY_BASE_DELAY_MS: '0',
+      NOCODB_CIRCUIT_FAILURE_THRESHOLD: '2',
+      NOCODB_CIRCUIT_RESET_MS: '60000',
+    };
+    resetNocoDBCircuit();
+  });
+
+  afterAll(() => {
+    process.env = OLD_ENV;
+  });
+
+  it('retries idempotent requests on 5xx and succeeds', async () => {
+    const adapter = sequenceAdapter(respond(502), respond(200));
+
+    const response = await apiClient.get('http://nocodb.test/records', { adapter });
+
+    expect(response.status).toBe(200);
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(getNocoDBCircuitState().state).toBe('closed');
+  });
+
+  it('does not retry writes or client errors', async () => {
+    const patchAdapter = sequenceAdapter(respond(503));
+    await expect(apiClient.patch('http://nocodb.test/records', {}, { adapter: patchAdapter })).rejects.toThrow();
+    expect(patchAdapter).toHaveBeenCalledTimes(1);
+
+    const notFoundAdapter = sequenceAdapter(respond(404));
+    await expect(apiClient.get('http://nocodb.test/records', { adapter: notFoundAdapter })).rejects.toThrow();
+    expect(notFoundAdapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up when Retry-After exceeds the maximum delay', async () => {
+    process.env.NOCODB_RETRY_MAX_DELAY_MS = '1000';
+    const adapter = sequenceAdapter(respond(429, { 'retry-after': '120' }));
+
+    await expect(apiClient.get('http://nocodb.test/records', { adapter })).rejects.toThrow();
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens the circuit after repeated outages and fails fast', async () => {
+    const adapter = sequenceAdapter(respond(503));
+
+    await expect(apiClient.get('http://nocodb.test/a', { adapter })).rejects.toThrow();
+    await expect(apiClient.get('http://nocodb.test/b', { adapter })).rejects.toThrow();
+    expect(adapter).toHaveBeenCalledTimes(6);
+    expect(getNocoDBCircuitState().state).toBe('open');
+
+    const error = await apiClient.get('http://nocodb.test/c', { adapter }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(NocoDBUnavailableError);
+    expect(adapter).toHaveBeenCalledTimes(6);
+    expect(toRequestError('fetchVideos', error)).toBe(error);
+  });
+});
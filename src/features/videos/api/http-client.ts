@@ -1,7 +1,10 @@
-import axios, { type AxiosError } from 'axios';
+import axios, { type AxiosError, type InternalAxiosRequestConfig } from 'axios';
 
-import { NocoDBRequestError } from './errors';
-import { logDevError } from '@/shared/utils/server-logger';
+import { createCircuitBreaker, type CircuitSnapshot } from './circuit-breaker';
+import { getNocoDBResilienceConfig } from './config';
+import { NocoDBRequestError, NocoDBTimeoutError, NocoDBUnavailableError } from './errors';
+import { nocodbRequestDuration, nocodbRequestsTotal, secondsSince } from '@/shared/utils/metrics';
+import { logDevError, logDevEvent } from '@/shared/utils/server-logger';
 
 /**
  * Shared Axios instance used for every NocoDB request.
@@ -12,6 +15,146 @@ export const apiClient = axios.create({
   timeout: 15000, // 15 second default timeout
 });
 
+type RetryableRequestConfig = InternalAxiosRequestConfig & { retryCount?: number; startedAt?: number };
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options']);
+
+const nocodbCircuit = createCircuitBreaker(() => {
+  const config = getNocoDBResilienceConfig();
+  return { failureThreshold: config.circuitFailureThreshold, resetMs: config.circuitResetMs };
+});
+
+/** Current breaker state, e.g. for API routes and health checks. */
+export function getNocoDBCircuitState(): CircuitSnapshot {
+  return nocodbCircuit.getSnapshot();
+}
+
+export function resetNocoDBCircuit() {
+  nocodbCircuit.reset();
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** `Retry-After` is either delta-seconds or an HTTP date. */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Exponential backoff with "equal jitter": half fixed, half random. */
+export function computeBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/** Low-cardinality operation name for metrics: `records`, `record`, `links`, `meta`. */
+export function nocodbOperation(url: string | undefined): string {
+  const path = (url ?? '').split('?')[0];
+  if (path.includes('/api/v2/meta/')) return 'meta';
+  if (/\/links\//.test(path)) return 'links';
+  if (/\/records\/[^/]+$/.test(path)) return 'record';
+  if (/\/records$/.test(path)) return 'records';
+  return 'other';
+}
+
+function recordAttempt(config: RetryableRequestConfig, outcome: string) {
+  if (config.startedAt === undefined) return;
+  const labels = { operation: nocodbOperation(config.url), method: (config.method ?? 'get').toUpperCase() };
+  nocodbRequestsTotal.inc({ ...labels, outcome });
+  nocodbRequestDuration.observe(labels, secondsSince(config.startedAt));
+}
+
+function isTransientFailure(error: AxiosError): boolean {
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+function countsAsOutage(error: AxiosError): boolean {
+  // 429 and 4xx prove NocoDB is reachable; only network errors, timeouts and
+  // 5xx responses move the breaker towards open.
+  const status = error.response?.status;
+  return status === undefined || status >= 500;
+}
+
+apiClient.interceptors.request.use((config: RetryableRequestConfig) => {
+  // Retries were already admitted by the breaker as part of the same request.
+  if (!config.retryCount && !nocodbCircuit.canRequest()) {
+    const { retryAfterMs } = nocodbCircuit.getSnapshot();
+    throw new NocoDBUnavailableError(
+      'NocoDB is unavailable (circuit breaker open). Please retry shortly.',
+      retryAfterMs,
+    );
+  }
+  config.startedAt = performance.now();
+  return config;
+});
+
+apiClient.interceptors.response.use(
+  (response) => {
+    recordAttempt(response.config as RetryableRequestConfig, String(response.status));
+    nocodbCircuit.recordSuccess();
+    return response;
+  },
+  async (error: unknown) => {
+    if (!isAxiosError(error)) {
+      throw error;
+    }
+
+    if (error.code === 'ERR_CANCELED' || !error.config) {
+      if (error.config) recordAttempt(error.config as RetryableRequestConfig, 'canceled');
+      nocodbCircuit.releaseProbe();
+      throw error;
+    }
+
+    const config = error.config as RetryableRequestConfig;
+    recordAttempt(config, error.response?.status ? String(error.response.status) : error.code ?? 'error');
+    const attempt = config.retryCount ?? 0;
+    const { maxRetries, retryBaseDelayMs, retryMaxDelayMs } = getNocoDBResilienceConfig();
+    const method = (config.method ?? 'get').toLowerCase();
+
+    if (IDEMPOTENT_METHODS.has(method) && isTransientFailure(error) && attempt < maxRetries && !config.signal?.aborted) {
+      const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+      const delay = retryAfter ?? computeBackoffDelay(attempt, retryBaseDelayMs, retryMaxDelayMs);
+
+      // A server asking us to wait longer than we are willing to is treated as a final answer.
+      if (delay <= retryMaxDelayMs) {
+        void logDevEvent({
+          message: 'apiClient: retrying NocoDB request',
+          payload: {
+            url: config.url,
+            status: error.response?.status ?? null,
+            code: error.code ?? null,
+            attempt: attempt + 1,
+            delay,
+          },
+        });
+
+        await wait(delay);
+        return apiClient.request({ ...config, retryCount: attempt + 1 } as RetryableRequestConfig);
+      }
+    }
+
+    if (countsAsOutage(error)) {
+      nocodbCircuit.recordFailure(error.response?.status ? `HTTP ${error.response.status}` : error.code ?? error.message);
+    } else {
+      nocodbCircuit.recordSuccess();
+    }
+
+    throw error;
+  },
+);
+
 /**
  * Convert an Axios error into our domain specific error type while logging
  * enough context for local debugging. Beginners often wonder why we do not
@@ -23,6 +166,10 @@ export function toRequestError(
   error: unknown,
   endpoint?: string,
 ): NocoDBRequestError {
+  if (error instanceof NocoDBUnavailableError) {
+    return error;
+  }
+
   if (isAxiosError(error)) {
     const status = error.response?.status;
     const data = error.response?.data;
@@ -35,7 +182,7 @@ export function toRequestError(
     });
 
     if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-      return new NocoDBRequestError(
+      return new NocoDBTimeoutError(
         `${context}: Request timed out. NocoDB may be slow or unavailable.`,
         status,
         data,
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+const { get, post, del } = vi.hoisted(() => ({ get: vi.fn(), post: vi.fn(), del: vi.fn() }));
+
+vi.mock('./http-client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./http-client')>()),
+  apiClient: { get, post, delete: del },
+}));
+
+vi.mock('./table-metadata', () => ({
+  getTableColumns: vi.fn(async (_config: unknown, tableId: string) =>
+    tableId === 'm_videos'
+      ? [
+          { title: 'Title', uidt: 'SingleLineText', system: false, primaryKey: false, primaryValue: true },
+          { title: 'Tags', uidt: 'Links', system: false, primaryKey: false, id: 'c_tags', relatedTableId: 'm_tags' },
+          { title: 'Persons', uidt: 'LongText', system: false, primaryKey: false },
+        ]
+      : [{ title: 'Name', uidt: 'SingleLineText', system: false, primaryKey: false, primaryValue: true }],
+  ),
+}));
+
+import { applyLinkedRecordChanges, splitLinkedRecordPayload } from './linked-records';
+
+const config = { url: 'http://noco', token: 'token' };
+
+describe('linked records', () => {
+  beforeEach(() => {
+    get.mockReset();
+    post.mockReset();
+    del.mockReset().mockResolvedValue({ data: true });
+  });
+
+  it('routes link columns to the link endpoints and joins text columns', async () => {
+    const { columns, links } = await splitLinkedRecordPayload(config, 'm_videos', {
+      Watched: true,
+      Tags: [{ Id: 1 }],
+      Persons: [{ Title: 'Ada Lovelace' }, { name: 'Alan Turing' }],
+    });
+
+    expect(columns).toEqual({ Watched: true, Persons: 'Ada Lovelace, Alan Turing' });
+    expect(links).toHaveLength(1);
+    expect(links[0].link).toMatchObject({ field: 'Tags', columnId: 'c_tags', relatedTableId: 'm_tags', displayColumn: 'Name' });
+  });
+
+  it('creates missing targets, links new ones and unlinks dropped ones', async () => {
+    get.mockImplementation(async (url: string) => {
+      if (url.includes('/links/')) {
+        return { data: { list: [{ Id: 1, Name: 'ai' }, { Id: 2, Name: 'news' }], pageInfo: { isLastPage: true } } };
+      }
+      // Title lookup in the tags table: only a near match exists.
+      return { data: { list: [{ Id: 7, Name: 'physics-history' }] } };
+    });
+    post.mockImplementation(async (url: string) =>
+      url.endsWith('/tables/m_tags/records') ? { data: { Id: 9 } } : { data: true },
+    );
+
+    const { links } = await splitLinkedRecordPayload(config, 'm_videos', {
+      Tags: [{ Id: 1, Title: 'ai' }, { Title: 'Physics' }, { Title: 'physics' }],
+    });
+    const changes = await applyLinkedRecordChanges(config, 'm_videos', 42, links);
+
+    const linksUrl = 'http://noco/api/v2/tables/m_videos/links/c_tags/records/42';
+    expect(post).toHaveBeenCalledWith('http://noco/api/v2/tables/m_tags/records', { Name: 'Physics' }, expect.anything());
+    expect(post).toHaveBeenCalledWith(linksUrl, [{ Id: 9 }], expect.anything());
+    expect(del).toHaveBeenCalledWith(linksUrl, expect.objectContaining({ data: [{ Id: 2 }] }));
+    expect(changes).toEqual([
+      {
+        field: 'Tags',
+        before: [{ Id: 1, Title: 'ai' }, { Id: 2, Title: 'news' }],
+        after: [{ Id: 1, Title: 'ai' }, { Id: 9, Title: 'Physics' }],
+      },
+    ]);
+  });
+
+  it('finds the exact title behind many partial matches and falls back to a case-insensitive match', async () => {
+    const partial = Array.from({ length: 30 }, (_, index) => ({ Id: 100 + index, Name: `ai-${index}` }));
+    get.mockImplementation(async (url: string, options: { params?: { where?: string; limit?: number } }) => {
+      if (url.includes('/links/')) return { data: { list: [], pageInfo: { isLastPage: true } } };
+      const where = options.params?.where ?? '';
+      if (where === '(Name,eq,ai)') return { data: { list: [{ Id: 3, Name: 'ai' }] } };
+      if (where.includes(',eq,')) return { data: { list: [] } };
+      const rows = [...partial, { Id: 4, Name: 'Quantum' }].filter((row) =>
+        row.Name.toLowerCase().includes(where.replace(/^\(Name,like,%|%\)$/g, '').toLowerCase()),
+      );
+      return { data: { list: rows.slice(0, options.params?.limit) } };
+    });
+    post.mockResolvedValue({ data: true });
+
+    const { links } = await splitLinkedRecordPayload(config, 'm_videos', { Tags: [{ Title: 'ai' }, { Title: 'quantum' }] });
+    await applyLinkedRecordChanges(config, 'm_videos', 42, links);
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post).toHaveBeenCalledWith(
+      'http://noco/api/v2/tables/m_videos/links/c_tags/records/42',
+      [{ Id: 3 }, { Id: 4 }],
+      expect.anything(),
+    );
+  });
+});
@@ -0,0 +1,368 @@
+import { apiClient, toRequestError } from './http-client';
+import type { NocoDBConfig } from './config';
+import { getTableColumns, type TableColumnMetadata } from './table-metadata';
+import { logDevEvent } from '@/shared/utils/server-logger';
+
+/** Video fields edited as lists of linked records (tag editors on the detail page). */
+export const LINKED_RECORD_FIELDS = ['Tags', 'Categories', 'Persons', 'Companies', 'Institutions'] as const;
+
+export type LinkedRecordField = (typeof LINKED_RECORD_FIELDS)[number];
+
+/** What clients send: an existing target by `Id`, or a new one by `Title`. */
+export interface LinkedRecordInput {
+  Id?: number | string;
+  Title?: string | null;
+  name?: string | null;
+}
+
+export interface LinkedRecordRef {
+  Id: number | null;
+  Title: string;
+}
+
+export interface LinkedRecordChange {
+  field: LinkedRecordField;
+  before: LinkedRecordRef[];
+  after: LinkedRecordRef[];
+}
+
+export type LinkedRecordValues = Partial<Record<LinkedRecordField, LinkedRecordRef[]>>;
+
+type LinkConfig = Pick<NocoDBConfig, 'url' | 'token'>;
+
+interface LinkColumn {
+  field: LinkedRecordField;
+  columnId: string;
+  relatedTableId: string;
+  /** Display column of the related table, used to find and create targets by title. */
+  displayColumn: string;
+}
+
+/** Link-column part of an update, produced by `splitLinkedRecordPayload`. */
+export interface LinkedRecordWrite {
+  link: LinkColumn;
+  items: LinkedRecordInput[];
+}
+
+const LINK_UIDTS = new Set(['Links', 'LinkToAnotherRecord']);
+const LINK_PAGE_SIZE = 100;
+const SUGGESTION_LIMIT = 10;
+const TITLE_LOOKUP_LIMIT = 100;
+
+export function isLinkedRecordField(field: string): field is LinkedRecordField {
+  return (LINKED_RECORD_FIELDS as readonly string[]).includes(field);
+}
+
+function toTitle(item: LinkedRecordInput | string): string {
+  const raw = typeof item === 'string' ? item : (item.Title ?? item.name ?? '');
+  return String(raw).trim();
+}
+
+function toNumericId(value: unknown): number | null {
+  const id = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Plain-text columns (a comma-separated list the read schema splits again)
+ * cannot be linked, so their values are written back as one string.
+ */
+export function joinLinkedTitles(items: Array<LinkedRecordInput | string> | null | undefined): string | null {
+  const titles = Array.from(new Set((items ?? []).map(toTitle).filter(Boolean)));
+  return titles.length > 0 ? titles.join(', ') : null;
+}
+
+function displayColumnOf(columns: TableColumnMetadata[]): string {
+  return columns.find((column) => column.primaryValue)?.title ?? 'Title';
+}
+
+async function resolveLinkColumns(config: LinkConfig, tableId: string): Promise<Map<string, LinkColumn | null>> {
+  const columns = await getTableColumns(config, tableId);
+  const resolved = new Map<string, LinkColumn | null>();
+
+  for (const field of LINKED_RECORD_FIELDS) {
+    const column = columns.find((candidate) => candidate.title === field);
+    if (!column) continue;
+
+    if (!LINK_UIDTS.has(column.uidt) || !column.id || !column.relatedTableId) {
+      resolved.set(field, null);
+      continue;
+    }
+
+    const related = await getTableColumns(config, column.relatedTableId);
+    resolved.set(field, {
+      field,
+      columnId: column.id,
+      relatedTableId: column.relatedTableId,
+      displayColumn: displayColumnOf(related),
+    });
+  }
+
+  return resolved;
+}
+
+function linksEndpoint(config: LinkConfig, tableId: string, link: LinkColumn, recordId: number): string {
+  return `${config.url}/api/v2/tables/${encodeURIComponent(tableId)}/links/${encodeURIComponent(link.columnId)}/records/${recordId}`;
+}
+
+function toRef(row: Record<string, unknown>, link: LinkColumn): LinkedRecordRef | null {
+  const Id = toNumericId(row.Id ?? row.id);
+  const title = row[link.displayColumn] ?? row.Title ?? row.name;
+  if (Id === null) return null;
+  return { Id, Title: title === null || title === undefined ? `#${Id}` : String(title) };
+}
+
+function readList(data: unknown): Array<Record<string, unknown>> {
+  const body = data as { list?: unknown; data?: unknown } | null;
+  const list = Array.isArray(body?.list) ? body.list : Array.isArray(body?.data) ? body.data : [];
+  return list.filter((row): row is Record<string, unknown> => typeof row === 'object' && row !== null);
+}
+
+async function listLinked(config: LinkConfig, tableId: string, link: LinkColumn, recordId: number) {
+  const endpoint = linksEndpoint(config, tableId, link, recordId);
+  const refs: LinkedRecordRef[] = [];
+
+  try {
+    for (let offset = 0; ; offset += LINK_PAGE_SIZE) {
+      const response = await apiClient.get(endpoint, {
+        headers: { 'xc-token': config.token },
+        params: { limit: LINK_PAGE_SIZE, offset },
+      });
+      const rows = readList(response.data);
+      rows.forEach((row) => {
+        const ref = toRef(row, link);
+        if (ref) refs.push(ref);
+      });
+
+      if (rows.length < LINK_PAGE_SIZE || response.data?.pageInfo?.isLastPage !== false) {
+        return refs;
+      }
+    }
+  } catch (error) {
+    throw toRequestError('listLinkedRecords', error, endpoint);
+  }
+}
+
+/** NocoDB `where` values cannot escape these characters. */
+const WHERE_SYNTAX = /[(),~]/g;
+
+async function queryTargets(config: LinkConfig, link: LinkColumn, where: string | undefined, limit: number) {
+  const endpoint = `${config.url}/api/v2/tables/${encodeURIComponent(link.relatedTableId)}/records`;
+
+  try {
+    const response = await apiClient.get(endpoint, {
+      headers: { 'xc-token': config.token },
+      params: {
+        where,
+        fields: `Id,${link.displayColumn}`,
+        sort: link.displayColumn,
+        limit,
+      },
+    });
+    return readList(response.data)
+      .map((row) => toRef(row, link))
+      .filter((ref): ref is LinkedRecordRef => ref !== null);
+  } catch (error) {
+    throw toRequestError('searchLinkedRecords', error, endpoint);
+  }
+}
+
+/** Targets whose display value contains `query`; `(),~` become single-character wildcards. */
+function searchTargets(config: LinkConfig, link: LinkColumn, query: string, limit: number) {
+  const pattern = query.replace(WHERE_SYNTAX, '_');
+  return queryTargets(config, link, pattern ? `(${link.displayColumn},like,%${pattern}%)` : undefined, limit);
+}
+
+/**
+ * The existing target titled `title`, if any. An `eq` lookup finds it however
+ * many rows merely contain the title; `eq` is case-sensitive on some
+ * databases, so a `like` search then catches titles that differ in case.
+ */
+async function findTarget(config: LinkConfig, link: LinkColumn, title: string): Promise<LinkedRecordRef | null> {
+  const key = title.toLowerCase();
+  const isMatch = (ref: LinkedRecordRef) => ref.Title.trim().toLowerCase() === key;
+
+  if (title.search(WHERE_SYNTAX) === -1) {
+    const exact = (await queryTargets(config, link, `(${link.displayColumn},eq,${title})`, 1)).find(isMatch);
+    if (exact) return exact;
+  }
+  return (await searchTargets(config, link, title, TITLE_LOOKUP_LIMIT)).find(isMatch) ?? null;
+}
+
+async function createTarget(config: LinkConfig, link: LinkColumn, title: string): Promise<LinkedRecordRef> {
+  const endpoint = `${config.url}/api/v2/tables/${encodeURIComponent(link.relatedTableId)}/records`;
+
+  try {
+    const response = await apiClient.post(endpoint, { [link.displayColumn]: title }, {
+      headers: { 'xc-token': config.token },
+    });
+    const created = Array.isArray(response.data) ? response.data[0] : response.data;
+    const Id = toNumericId(created?.Id ?? created?.id);
+    if (Id === null) {
+      throw new Error(`NocoDB did not return an Id for the new ${link.field} record "${title}"`);
+    }
+
+    void logDevEvent({
+      message: 'linkedRecords: created target record',
+      payload: { field: link.field, tableId: link.relatedTableId, Id, title },
+    });
+    return { Id, Title: title };
+  } catch (error) {
+    throw toRequestError('createLinkedRecord', error, endpoint);
+  }
+}
+
+/** Map inputs to target rows: `Id`s are kept, titles are looked up and created when missing. */
+async function resolveTargets(config: LinkConfig, link: LinkColumn, items: LinkedRecordInput[]) {
+  const targets = new Map<number, LinkedRecordRef>();
+  const byTitle = new Map<string, LinkedRecordRef>();
+
+  for (const item of items) {
+    const Id = toNumericId(item.Id);
+    if (Id !== null) {
+      targets.set(Id, { Id, Title: toTitle(item) || `#${Id}` });
+      continue;
+    }
+
+    const title = toTitle(item);
+    const key = title.toLowerCase();
+    if (!title) continue;
+
+    let target = byTitle.get(key);
+    if (!target) {
+      target = (await findTarget(config, link, title)) ?? (await createTarget(config, link, title));
+      byTitle.set(key, target);
+    }
+    targets.set(target.Id!, target);
+  }
+
+  return Array.from(targets.values());
+}
+
+async function sendLinkRequest(
+  method: 'link' | 'unlink',
+  config: LinkConfig,
+  endpoint: string,
+  refs: LinkedRecordRef[],
+) {
+  if (refs.length === 0) return;
+
+  const body = refs.map((ref) => ({ Id: ref.Id }));
+  try {
+    if (method === 'link') {
+      await apiClient.post(endpoint, body, { headers: { 'xc-token': config.token } });
+    } else {
+      await apiClient.delete(endpoint, { headers: { 'xc-token': config.token }, data: body });
+    }
+  } catch (error) {
+    throw toRequestError(method === 'link' ? 'linkRecords' : 'unlinkRecords', error, endpoint);
+  }
+}
+
+/**
+ * Split an update payload: link columns are written through NocoDB's
+ * link/unlink endpoints (a PATCH body ignores them), linked-record fields
+ * stored as plain text become a comma-separated string, everything else is
+ * left for the regular PATCH.
+ */
+export async function splitLinkedRecordPayload(
+  config: LinkConfig,
+  tableId: string,
+  payload: Record<string, unknown>,
+): Promise<{ columns: Record<string, unknown>; links: LinkedRecordWrite[] }> {
+  const linkedFields = Object.keys(payload).filter(isLinkedRecordField);
+  if (linkedFields.length === 0) {
+    return { columns: payload, links: [] };
+  }
+
+  const linkColumns = await resolveLinkColumns(config, tableId);
+  const columns = { ...payload };
+  const links: LinkedRecordWrite[] = [];
+
+  linkedFields.forEach((field) => {
+    const value = payload[field] as LinkedRecordInput[] | null | undefined;
+    const link = linkColumns.get(field);
+    if (link) {
+      delete columns[field];
+      links.push({ link, items: value ?? [] });
+    } else if (link === null) {
+      columns[field] = joinLinkedTitles(value);
+    }
+  });
+
+  return { columns, links };
+}
+
+/**
+ * Make the record's links match `items` exactly: missing targets are created,
+ * new ones linked and dropped ones unlinked. Returns the before/after lists
+ * of every field that changed.
+ */
+export async function applyLinkedRecordChanges(
+  config: LinkConfig,
+  tableId: string,
+  recordId: number,
+  links: LinkedRecordWrite[],
+): Promise<LinkedRecordChange[]> {
+  const changes: LinkedRecordChange[] = [];
+
+  for (const { link, items } of links) {
+    const endpoint = linksEndpoint(config, tableId, link, recordId);
+    const before = await listLinked(config, tableId, link, recordId);
+    const after = await resolveTargets(config, link, items);
+
+    const beforeIds = new Set(before.map((ref) => ref.Id));
+    const afterIds = new Set(after.map((ref) => ref.Id));
+    const toLink = after.filter((ref) => !beforeIds.has(ref.Id));
+    const toUnlink = before.filter((ref) => !afterIds.has(ref.Id));
+
+    await sendLinkRequest('unlink', config, endpoint, toUnlink);
+    await sendLinkRequest('link', config, endpoint, toLink);
+
+    if (toLink.length > 0 || toUnlink.length > 0) {
+      changes.push({ field: link.field, before, after });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Current linked records of a video. Link columns are read from the links
+ * endpoint (record reads only carry counts for them); text columns come from
+ * `record`, which already went through the read schema.
+ */
+export async function readLinkedRecords(
+  config: LinkConfig,
+  tableId: string,
+  record: Record<string, unknown> & { Id?: unknown },
+): Promise<LinkedRecordValues> {
+  const recordId = toNumericId(record.Id);
+  const linkColumns = await resolveLinkColumns(config, tableId);
+  const values: LinkedRecordValues = {};
+
+  for (const field of LINKED_RECORD_FIELDS) {
+    const link = linkColumns.get(field);
+    if (link && recordId !== null) {
+      values[field] = await listLinked(config, tableId, link, recordId);
+    } else if (link === null) {
+      const items = Array.isArray(record[field]) ? (record[field] as LinkedRecordInput[]) : [];
+      values[field] = items
+        .map((item) => ({ Id: toNumericId(item.Id), Title: toTitle(item) }))
+        .filter((ref) => ref.Title !== '');
+    }
+  }
+
+  return values;
+}
+
+/** Existing targets for the tag editor's suggestions; empty for text columns. */
+export async function searchLinkedRecordOptions(
+  config: LinkConfig,
+  tableId: string,
+  field: LinkedRecordField,
+  query: string,
+): Promise<LinkedRecordRef[]> {
+  const link = (await resolveLinkColumns(config, tableId)).get(field);
+  return link ? searchTargets(config, link, query.trim(), SUGGESTION_LIMIT) : [];
+}
@@ -0,0 +1,111 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+import { createLocalVideoRepository } from './local-repository';
+
+const records = [
+  { Id: 1, VideoID: 'a', Title: 'Alpha', Hashtags: '#ai\n#news', ImportanceRating: 3, CreatedAt: '2024-01-01T00:00:00.000Z' },
+  { Id: 2, VideoID: 'b', Title: 'Bravo', Hashtags: '#cooking', ImportanceRating: 5, CreatedAt: '2024-02-01T00:00:00.000Z' },
+  { Id: 3, VideoID: 'c', Title: 'Charlie', Hashtags: '#ai', ImportanceRating: null, CreatedAt: '2024-03-01T00:00:00.000Z' },
+];
+
+describe('createLocalVideoRepository', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'yt-viewer-local-'));
+    filePath = join(dir, 'videos.json');
+    await writeFile(filePath, JSON.stringify(records), 'utf8');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('pages and sorts records like the NocoDB adapter', async () => {
+    const repository = createLocalVideoRepository({ filePath });
+
+    const { videos, pageInfo } = await repository.fetchVideos({ sort: '-CreatedAt', limit: 2, page: 1 });
+
+    expect(videos.map((video) => video.VideoID)).toEqual(['c', 'b']);
+    expect(pageInfo).toMatchObject({ totalRows: 3, hasNextPage: true, isFirstPage: true });
+
+    const byRating = await repository.fetchAllVideos({ sort: '-ImportanceRating' });
+    expect(byRating.map((video) => video.VideoID)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('filters by hashtag words', async () => {
+    const repository = createLocalVideoRepository({ filePath });
+
+    const videos = await repository.fetchAllVideos({ tagSearchQuery: 'ai', sort: 'Id' });
+
+    expect(videos.map((video) => video.VideoID)).toEqual(['a', 'c']);
+  });
+
+  it('persists updates and deletes to disk', async () => {
+    const repository = createLocalVideoRepository({ filePath });
+
+    const updated = await repository.updateVideo('b', { PersonalComment: 'Great', ImportanceRating: 4 });
+    expect(updated.PersonalComment).toBe('Great');
+    expect(updated.ImportanceRating).toBe(4);
+
+    await repository.deleteVideo(1);
+
+    const stored = JSON.parse(await readFile(filePath, 'utf8')) as Array<Record<string, unknown>>;
+    expect(stored.map((record) => record.VideoID)).toEqual(['b', 'c']);
+    expect(stored[0]).toMatchObject({ PersonalComment: 'Great', ImportanceRating: 4 });
+  });
+
+  it('applies batches in order and writes them once', async () => {
+    const repository = createLocalVideoRepository({ filePath });
+
+    const results = await repository.batchMutateVideos([
+      { op: 'update', id: 'a', data: { Watched: true } },
+      { op: 'delete', id: 3 },
+      { op: 'update', id: 'zzz', data: { Watched: true } },
+    ]);
+
+    expect(results.map((result) => result.success)).toEqual([true, true, false]);
+    expect(results[2].error).toMatch('No video found');
+
+    const stored = JSON.parse(await readFile(filePath, 'utf8')) as Array<Record<string, unknown>>;
+    expect(stored.map((record) => record.VideoID)).toEqual(['a', 'b']);
+    expect(stored[0]).toMatchObject({ Watched: true });
+  });
+
+  it('rejects updates based on an outdated UpdatedAt', async () => {
+    const repository = createLocalVideoRepository({ filePath });
+    const first = await repository.updateVideo('a', { PersonalComment: 'first' });
+
+    await expect(
+      repository.updateVideo('a', { PersonalComment: 'stale' }, {}, { expectedUpdatedAt: '2000-01-01T00:00:00Z' }),
+    ).rejects.toThrow('was modified');
+    await expect(
+      repository.updateVideo('a', { PersonalComment: 'second' }, {}, { expectedUpdatedAt: first.UpdatedAt }),
+    ).resolves.toMatchObject({ PersonalComment: 'second' });
+  });
+
+  it('resolves navigation neighbours from the sorted list', async () => {
+    const repository = createLocalVideoRepository({ filePath });
+
+    const navigation = await repository.getVideoNavigationData('b', '-CreatedAt');
+
+    expect(navigation.previousVideoData?.Id).toBe('c');
+    expect(navigation.nextVideoData?.Id).toBe('a');
+  });
+
+  it('starts empty when the store file does not exist', async () => {
+    const repository = createLocalVideoRepository({ filePath: join(dir, 'missing.json') });
+
+    await expect(repository.fetchAllVideos()).resolves.toEqual([]);
+    await expect(repository.fetchVideoByVideoId('a')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,440 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { z } from 'zod';
+
+import { assertVideoVersion } from './concurrency';
+import { duplicateVideoError, NocoDBValidationError, VideoConflictError, VideoNotFoundError } from './errors';
+import { matchesVideoFilter, withTrashFilter, type TrashMode, type VideoFilter } from './filters';
+import {
+  isLinkedRecordField,
+  LINKED_RECORD_FIELDS,
+  type LinkedRecordInput,
+  type LinkedRecordRef,
+  type LinkedRecordValues,
+} from './linked-records';
+import { buildUpdatePayload } from './mutations';
+import type {
+  FetchAllVideosOptions,
+  FetchVideosOptions,
+  IterateVideosOptions,
+  VideoBatchItemResult,
+  VideoNavigationData,
+  VideoRepository,
+} from './repository';
+import type { VideoRecordWithRowMeta } from './record-utils';
+import { createNocoDBResponseSchema, videoSchema, type PageInfo, type Video } from './schemas';
+import { paginateVideos } from './video-stream';
+import { compareBySortKeys, parseSortSpec, type VideoSortKey } from '@/features/videos/utils/video-sort';
+import { logDevEvent } from '@/shared/utils/server-logger';
+
+const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Records are stored exactly as NocoDB would return them (attachments as
+ * arrays, lists as newline-separated strings, ...). That way the same Zod
+ * schemas and preprocessors run for both backends.
+ */
+type StoredRecord = Record<string, unknown> & { Id: number };
+
+export interface LocalVideoRepositoryOptions {
+  filePath: string;
+}
+
+function isStoredRecord(value: unknown): value is StoredRecord {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { Id?: unknown }).Id === 'number' &&
+    Number.isInteger((value as { Id: number }).Id)
+  );
+}
+
+/** Same key order as NocoDB gets; `Id` breaks ties so pages never overlap. */
+function compareRecords(a: StoredRecord, b: StoredRecord, keys: VideoSortKey[]): number {
+  return compareBySortKeys(a, b, keys) || a.Id - b.Id;
+}
+
+function hashtagText(record: StoredRecord): string {
+  const value = record.Hashtags;
+  if (Array.isArray(value)) {
+    return value.map(String).join('\n').toLowerCase();
+  }
+  return typeof value === 'string' ? value.toLowerCase() : '';
+}
+
+/** Same semantics as the NocoDB `(Hashtags,ilike,%word%)~and...` filter. */
+function matchesTagQuery(record: StoredRecord, query?: string): boolean {
+  if (!query) {
+    return true;
+  }
+
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return true;
+  }
+
+  const haystack = hashtagText(record);
+  return words.every((word) => haystack.includes(word));
+}
+
+function pickFields(record: StoredRecord, fields?: string[]): Record<string, unknown> {
+  if (!fields || fields.length === 0) {
+    return record;
+  }
+
+  const picked: Record<string, unknown> = {};
+  for (const field of ['Id', ...fields]) {
+    if (field in record) {
+      picked[field] = record[field];
+    }
+  }
+  return picked;
+}
+
+function toStorableValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// There are no target tables locally: linked records are kept as `{ Id?, Title }` lists on the video.
+function toLinkedRefs(value: unknown): LinkedRecordRef[] {
+  const items = Array.isArray(value) ? (value as LinkedRecordInput[]) : [];
+  const seen = new Set<string>();
+  return items.flatMap((item) => {
+    const title = String(item?.Title ?? item?.name ?? '').trim();
+    if (!title || seen.has(title.toLowerCase())) return [];
+    seen.add(title.toLowerCase());
+    const id = Number(item.Id);
+    return [{ Id: Number.isInteger(id) && id > 0 ? id : null, Title: title }];
+  });
+}
+
+function parseVideo(record: StoredRecord, context: string): VideoRecordWithRowMeta {
+  const parsed = videoSchema.safeParse(record);
+  if (!parsed.success) {
+    throw new NocoDBValidationError(`Failed to parse local video record (${context}).`, parsed.error.issues);
+  }
+  return parsed.data as VideoRecordWithRowMeta;
+}
+
+function toNavigationData(records: StoredRecord[], currentIndex: number): VideoNavigationData {
+  if (currentIndex === -1) {
+    return { previousVideoData: null, nextVideoData: null };
+  }
+
+  const toEntry = (record: StoredRecord | undefined) =>
+    record
+      ? {
+          Id: String(record.VideoID ?? record.Id),
+          Title: typeof record.Title === 'string' ? record.Title : null,
+        }
+      : null;
+
+  return {
+    previousVideoData: toEntry(records[currentIndex - 1]),
+    nextVideoData: toEntry(records[currentIndex + 1]),
+  };
+}
+
+/**
+ * File-backed repository used for offline development, E2E runs and as a
+ * migration target away from NocoDB. The whole library is kept in memory and
+ * written back atomically (temp file + rename) after every mutation.
+ */
+export function createLocalVideoRepository({ filePath }: LocalVideoRepositoryOptions): VideoRepository {
+  const absolutePath = resolve(process.cwd(), filePath);
+  let records: StoredRecord[] | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  async function load(): Promise<StoredRecord[]> {
+    if (records) {
+      return records;
+    }
+
+    try {
+      const raw = await readFile(absolutePath, 'utf8');
+      const parsed: unknown = JSON.parse(raw);
+      const list = Array.isArray(parsed)
+        ? parsed
+        : Array.isArray((parsed as { list?: unknown })?.list)
+          ? (parsed as { list: unknown[] }).list
+          : [];
+      records = list.filter(isStoredRecord);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to read local video store at ${absolutePath}: ${message}`);
+      }
+
+      void logDevEvent({
+        message: 'localVideoRepository: store file missing, starting empty',
+        payload: { path: absolutePath },
+      });
+      records = [];
+    }
+
+    return records;
+  }
+
+  function persist(): Promise<void> {
+    const snapshot = JSON.stringify(records ?? [], null, 2);
+    const write = async () => {
+      await mkdir(dirname(absolutePath), { recursive: true });
+      const tempPath = `${absolutePath}.tmp`;
+      await writeFile(tempPath, snapshot, 'utf8');
+      await rename(tempPath, absolutePath);
+    };
+
+    // Serialise writes so two quick mutations never interleave on disk.
+    const next = writeQueue.catch(() => undefined).then(write);
+    writeQueue = next;
+    return next;
+  }
+
+  async function query(options: {
+    sort?: string;
+    tagSearchQuery?: string;
+    filter?: VideoFilter;
+    trash?: TrashMode;
+  }): Promise<StoredRecord[]> {
+    const all = await load();
+    const keys = parseSortSpec(options.sort);
+    const filter = withTrashFilter(options.filter, options.trash);
+    return all
+      .filter((record) => matchesTagQuery(record, options.tagSearchQuery))
+      .filter((record) => matchesVideoFilter(record, filter))
+      .sort((a, b) => compareRecords(a, b, keys));
+  }
+
+  async function findRecord(identifier: number | string): Promise<{ record: StoredRecord; index: number }> {
+    const all = await load();
+    const numericCandidate =
+      typeof identifier === 'number'
+        ? identifier
+        : Number.isInteger(Number(identifier))
+          ? Number(identifier)
+          : null;
+
+    let index = numericCandidate !== null ? all.findIndex((record) => record.Id === numericCandidate) : -1;
+    if (index === -1) {
+      index = all.findIndex((record) => record.VideoID === String(identifier));
+    }
+
+    if (index === -1) {
+      throw new VideoNotFoundError(identifier);
+    }
+
+    return { record: all[index], index };
+  }
+
+  function applyUpdate(record: StoredRecord, data: Partial<Video>): StoredRecord {
+    const updated: StoredRecord = { ...record };
+    Object.entries(buildUpdatePayload(data)).forEach(([key, value]) => {
+      updated[key] = isLinkedRecordField(key) ? toLinkedRefs(value) : toStorableValue(value);
+    });
+    updated.Id = record.Id;
+    updated.UpdatedAt = new Date().toISOString();
+    return updated;
+  }
+
+  async function navigation(currentVideoId: string, sort: string = '-CreatedAt'): Promise<VideoNavigationData> {
+    const sorted = await query({ sort });
+    return toNavigationData(
+      sorted,
+      sorted.findIndex((record) => record.VideoID === currentVideoId),
+    );
+  }
+
+  const repository: VideoRepository = {
+    kind: 'local',
+
+    async fetchVideos<T extends z.ZodTypeAny = typeof videoSchema>(options: FetchVideosOptions<T> = {}) {
+      const limit = options.limit || DEFAULT_PAGE_SIZE;
+      const page = options.page || 1;
+      const offset = (page - 1) * limit;
+
+      const matches = await query(options);
+      const totalRows = matches.length;
+      const isLastPage = offset + limit >= totalRows;
+
+      const pageInfo: PageInfo = {
+        totalRows,
+        page,
+        pageSize: limit,
+        isFirstPage: page === 1,
+        isLastPage,
+        hasNextPage: !isLastPage,
+        hasPreviousPage: page > 1,
+      };
+
+      const schemaToUse = (options.schema || videoSchema) as z.ZodType;
+      const parsed = createNocoDBResponseSchema(schemaToUse).safeParse({
+        list: matches.slice(offset, offset + limit).map((record) => pickFields(record, options.fields)),
+        pageInfo,
+      });
+
+      if (!parsed.success) {
+        throw new NocoDBValidationError(
+          `Failed to parse local video store for page ${page}.`,
+          parsed.error.issues,
+        );
+      }
+
+      return {
+        videos: parsed.data.list as z.infer<T>[],
+        pageInfo: parsed.data.pageInfo,
+      };
+    },
+
+    async fetchAllVideos<T extends z.ZodTypeAny = typeof videoSchema>(options: FetchAllVideosOptions<T> = {}) {
+      const matches = await query(options);
+      const schemaToUse = (options.schema || videoSchema) as z.ZodType;
+      const parsed = z
+        .array(schemaToUse)
+        .safeParse(matches.map((record) => pickFields(record, options.fields)));
+
+      if (!parsed.success) {
+        throw new NocoDBValidationError('Failed to parse local video store.', parsed.error.issues);
+      }
+
+      return parsed.data as z.infer<T>[];
+    },
+
+    iterateVideos<T extends z.ZodTypeAny = typeof videoSchema>(options: IterateVideosOptions<T> = {}) {
+      const { pageSize, concurrency, signal, ...queryOptions } = options;
+      return paginateVideos<z.infer<T>>(
+        (page, limit) => repository.fetchVideos<T>({ ...queryOptions, page, limit }),
+        { pageSize, concurrency, signal },
+      );
+    },
+
+    async fetchVideoByVideoId(videoId: string): Promise<Video | null> {
+      const all = await load();
+      const record = all.find((candidate) => candidate.VideoID === videoId);
+      return record ? parseVideo(record, `VideoID=${videoId}`) : null;
+    },
+
+    getVideoNavigationData: navigation,
+    getSimpleNavigationData: navigation,
+
+    async createVideo(data) {
+      const all = await load();
+      const videoId = typeof data.VideoID === 'string' ? data.VideoID : null;
+      const duplicate = videoId ? all.find((record) => record.VideoID === videoId) : undefined;
+      if (videoId && duplicate) {
+        throw duplicateVideoError(videoId, parseVideo(duplicate, `VideoID=${videoId}`));
+      }
+
+      const now = new Date().toISOString();
+      const nextId = all.reduce((max, record) => Math.max(max, record.Id), 0) + 1;
+      const created = applyUpdate({ Id: nextId, CreatedAt: now }, data);
+
+      all.push(created);
+      await persist();
+
+      void logDevEvent({
+        message: 'localVideoRepository: create completed',
+        payload: { id: created.Id, videoId },
+      });
+
+      return parseVideo(created, `Id=${created.Id}`);
+    },
+
+    async updateVideo(recordIdOrVideoId, data, _overrides, options = {}) {
+      const { record, index } = await findRecord(recordIdOrVideoId);
+      assertVideoVersion(parseVideo(record, `Id=${record.Id}`), options.expectedUpdatedAt, options.expectedId);
+      const updated = applyUpdate(record, data);
+
+      records![index] = updated;
+      await persist();
+
+      void logDevEvent({
+        message: 'localVideoRepository: update completed',
+        payload: { identifier: recordIdOrVideoId, updatedFields: Object.keys(buildUpdatePayload(data)) },
+      });
+
+      return parseVideo(updated, `Id=${updated.Id}`);
+    },
+
+    async deleteVideo(recordIdOrVideoId) {
+      const { index } = await findRecord(recordIdOrVideoId);
+      records!.splice(index, 1);
+      await persist();
+
+      void logDevEvent({
+        message: 'localVideoRepository: delete completed',
+        payload: { identifier: recordIdOrVideoId },
+      });
+    },
+
+    async fetchLinkedRecords(videoId) {
+      const video = await repository.fetchVideoByVideoId(videoId);
+      if (!video) {
+        return null;
+      }
+
+      const values: LinkedRecordValues = {};
+      LINKED_RECORD_FIELDS.forEach((field) => {
+        values[field] = toLinkedRefs(video[field]);
+      });
+      return values;
+    },
+
+    async searchLinkedRecords(field, query) {
+      const needle = query.trim().toLowerCase();
+      const matches = new Map<string, LinkedRecordRef>();
+      (await load()).forEach((record) => {
+        const parsed = videoSchema.safeParse(record);
+        if (!parsed.success) return;
+        toLinkedRefs(parsed.data[field]).forEach((ref) => {
+          if (ref.Title.toLowerCase().includes(needle)) {
+            matches.set(ref.Title.toLowerCase(), ref);
+          }
+        });
+      });
+      return Array.from(matches.values())
+        .sort((a, b) => a.Title.localeCompare(b.Title))
+        .slice(0, 10);
+    },
+
+    // Applied in memory in request order and written to disk once.
+    async batchMutateVideos(operations) {
+      const results: VideoBatchItemResult[] = [];
+
+      for (let index = 0; index < operations.length; index += 1) {
+        const operation = operations[index];
+        const result: VideoBatchItemResult = { index, op: operation.op, id: operation.id, success: false };
+        try {
+          const { record, index: recordIndex } = await findRecord(operation.id);
+          result.recordId = record.Id;
+          if (operation.op === 'delete') {
+            records!.splice(recordIndex, 1);
+          } else {
+            assertVideoVersion(parseVideo(record, `Id=${record.Id}`), operation.expectedUpdatedAt, operation.expectedId);
+            records![recordIndex] = applyUpdate(record, operation.data);
+          }
+          result.success = true;
+        } catch (error) {
+          if (error instanceof VideoConflictError) {
+            result.conflict = true;
+            result.current = error.current;
+          }
+          result.error = error instanceof Error ? error.message : String(error);
+        }
+        results.push(result);
+      }
+
+      if (results.some((result) => result.success)) {
+        await persist();
+      }
+
+      void logDevEvent({
+        message: 'localVideoRepository: batch completed',
+        payload: { operations: operations.length, failed: results.filter((result) => !result.success).length },
+      });
+
+      return results;
+    },
+  };
+
+  return repository;
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+const { patch, del } = vi.hoisted(() => ({ patch: vi.fn(), del: vi.fn() }));
+
+vi.mock('./http-client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./http-client')>()),
+  apiClient: { patch, delete: del },
+}));
+
+vi.mock('./table-metadata', () => ({
+  resolveTableIdentifiers: vi.fn(async () => ({ resolvedTableId: 'm_videos' })),
+}));
+
+vi.mock('./record-utils', () => ({
+  cacheVideoRecord: vi.fn(),
+  fetchSingleVideo: vi.fn(),
+  purgeVideoFromCache: vi.fn(),
+  resolveRecordIdentifiers: vi.fn(async (id: number | string) => {
+    const numericId = { a: 1, b: 2, c: 3 }[String(id)];
+    if (!numericId) throw new Error(`No video found matching identifier: ${id}`);
+    return { numericId, rowId: null, video: { Id: numericId, VideoID: String(id) } };
+  }),
+}));
+
+import { clearAllCache, getFromCache, setInCache, VIDEO_LIST_CACHE_TAG } from './cache';
+import { batchMutateVideos } from './mutations';
+import { purgeVideoFromCache } from './record-utils';
+
+const overrides = { projectId: 'p', tableId: 'm_videos' };
+
+describe('batchMutateVideos', () => {
+  beforeEach(() => {
+    vi.stubEnv('NC_URL', 'http://noco');
+    vi.stubEnv('NC_TOKEN', 'token');
+    vi.stubEnv('VIDEO_AUDIT_LOG_MAX_ENTRIES', '0');
+    patch.mockReset().mockResolvedValue({ data: [] });
+    del.mockReset().mockResolvedValue({ data: [] });
+    vi.mocked(purgeVideoFromCache).mockClear();
+    clearAllCache();
+  });
+
+  it('sends one bulk request per kind and reports every item', async () => {
+    setInCache('list', [], { tags: [VIDEO_LIST_CACHE_TAG] });
+
+    const results = await batchMutateVideos(
+      [
+        { op: 'update', id: 'a', data: { Watched: true } },
+        { op: 'update', id: 'a', data: { ImportanceRating: 4 } },
+        { op: 'delete', id: 'b' },
+        { op: 'update', id: 'missing', data: { Watched: true } },
+        { op: 'update', id: 'b', data: { Watched: false } },
+      ],
+      overrides,
+    );
+
+    expect(patch).toHaveBeenCalledTimes(1);
+    expect(patch.mock.calls[0][1]).toEqual([{ Watched: true, ImportanceRating: 4, Id: 1 }]);
+    expect(del).toHaveBeenCalledTimes(1);
+    expect(del.mock.calls[0][1].data).toEqual([{ Id: 2 }]);
+
+    expect(results.map((result) => result.success)).toEqual([true, true, true, false, false]);
+    expect(results[3].error).toMatch('No video found');
+    expect(results[4].error).toMatch('deleted earlier');
+    expect(getFromCache('list')).toBeNull();
+    expect(purgeVideoFromCache).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to per-record requests when the bulk request fails', async () => {
+    patch.mockImplementation(async (_url: string, body: unknown) => {
+      if (Array.isArray(body) || (body as { Id: number }).Id === 3) {
+        throw new Error('Request failed with status code 400');
+      }
+      return { data: {} };
+    });
+
+    const results = await batchMutateVideos(
+      [
+        { op: 'update', id: 'a', data: { Watched: true } },
+        { op: 'update', id: 'c', data: { Watched: true } },
+      ],
+      overrides,
+    );
+
+    expect(patch).toHaveBeenCalledTimes(3);
+    expect(results[0]).toMatchObject({ success: true, recordId: 1 });
+    expect(results[1]).toMatchObject({ success: false, recordId: 3 });
+    expect(results[1].error).toMatch('status code 400');
+  });
+});
@@ -1,14 +1,37 @@
 import { apiClient, toRequestError } from './http-client';
 import { getNocoDBConfig, type NocoDBConfig } from './config';
-import { resolveTableIdentifiers } from './table-metadata';
+import { getTableColumns, resolveTableIdentifiers } from './table-metadata';
+import { invalidateCacheTag, VIDEO_LIST_CACHE_TAG } from './cache';
+import {
+  AUDITED_VIDEO_FIELDS,
+  diffVideoFields,
+  recordVideoAudit,
+  type NewVideoAuditEntry,
+} from './audit-log';
+import { assertVideoVersion } from './concurrency';
+import { duplicateVideoError, NocoDBUnavailableError, VideoConflictError, VideoNotFoundError } from './errors';
+import {
+  applyLinkedRecordChanges,
+  splitLinkedRecordPayload,
+  type LinkedRecordChange,
+  type LinkedRecordWrite,
+} from './linked-records';
 import {
   cacheVideoRecord,
   fetchSingleVideo,
   purgeVideoFromCache,
   resolveRecordIdentifiers,
+  type ResolvedRecordIdentifiers,
   type VideoRecordWithRowMeta,
 } from './record-utils';
 import type { Video } from './schemas';
+import type {
+  MutationOptions,
+  MutationOverrides,
+  UpdateVideoOptions,
+  VideoBatchItemResult,
+  VideoBatchOperation,
+} from './repository';
 import { logDevEvent, logDevError } from '@/shared/utils/server-logger';
 
 export function normalizeImportanceRating(value: unknown): number | null | undefined {
@@ -55,10 +78,32 @@ export function normalizePersonalComment(value: unknown): string | null | undefi
   return null;
 }
 
-interface MutationOverrides {
-  projectId?: string;
-  tableId?: string;
-  tableName?: string;
+/**
+ * Apply the field normalisers to an update payload. Every repository adapter
+ * runs updates through this so ratings and comments are stored identically.
+ */
+export function buildUpdatePayload(data: Partial<Video>): Record<string, unknown> {
+  const payload: Record<string, unknown> = { ...data };
+
+  if ('ImportanceRating' in payload) {
+    const normalized = normalizeImportanceRating(payload.ImportanceRating);
+    if (normalized === undefined) {
+      delete payload.ImportanceRating;
+    } else {
+      payload.ImportanceRating = normalized;
+    }
+  }
+
+  if ('PersonalComment' in payload) {
+    const normalizedComment = normalizePersonalComment(payload.PersonalComment);
+    if (normalizedComment === undefined) {
+      delete payload.PersonalComment;
+    } else {
+      payload.PersonalComment = normalizedComment;
+    }
+  }
+
+  return payload;
 }
 
 function buildMutationConfig(overrides: MutationOverrides): NocoDBConfig {
@@ -69,72 +114,232 @@ function buildMutationConfig(overrides: MutationOverrides): NocoDBConfig {
   });
 }
 
-export async function updateVideo(
-  recordIdOrVideoId: number | string,
+/**
+ * Re-read a record past the cache (for the audit log's before values) and
+ * check it against the client's `expectedUpdatedAt`. NocoDB has no
+ * conditional PATCH, so a write landing between this read and ours can still
+ * slip through; the window is one round trip instead of the whole editing
+ * session.
+ */
+async function readCurrentVersion(
+  numericId: number,
+  { expectedUpdatedAt, expectedId }: Pick<UpdateVideoOptions, 'expectedUpdatedAt' | 'expectedId'>,
+  configOverrides: Partial<NocoDBConfig>,
+): Promise<VideoRecordWithRowMeta> {
+  const latest = await fetchSingleVideo(numericId, 'id', { cache: false, configOverrides });
+  if (!latest) {
+    throw new VideoNotFoundError(numericId);
+  }
+
+  assertVideoVersion(latest, expectedUpdatedAt, expectedId);
+  return latest;
+}
+
+/** A delete keeps the last values of every audited field, so the history shows what was lost. */
+function deletionAudit(video: Video, overrides: MutationOverrides, options: MutationOptions): NewVideoAuditEntry {
+  return {
+    ...auditTarget(overrides, video),
+    actor: options.actor ?? 'server',
+    action: 'delete',
+    changes: diffVideoFields(video, {}, AUDITED_VIDEO_FIELDS),
+  };
+}
+
+function auditTarget(overrides: MutationOverrides, video: Partial<Video>) {
+  return {
+    tableId: overrides.tableId ?? null,
+    recordId: typeof video.Id === 'number' ? video.Id : null,
+    videoId: video.VideoID ?? null,
+  };
+}
+
+/**
+ * Record reads only carry link counts, so fields written through the link
+ * endpoints are filled in with the lists just written.
+ */
+function withLinkedValues(
+  video: VideoRecordWithRowMeta,
+  links: LinkedRecordWrite[],
+  changes: LinkedRecordChange[],
+): VideoRecordWithRowMeta {
+  links.forEach(({ link }) => {
+    const change = changes.find((candidate) => candidate.field === link.field);
+    if (change) {
+      (video as Record<string, unknown>)[link.field] = change.after;
+    }
+  });
+  return video;
+}
+
+/**
+ * The app reads attachments as plain URLs (`ThumbHigh`), but NocoDB only
+ * accepts attachment objects on insert, so URL strings aimed at an
+ * `Attachment` column are wrapped.
+ */
+async function toAttachmentColumns(
+  config: NocoDBConfig,
+  tableId: string,
+  columns: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const metadata = await getTableColumns(config, tableId);
+  const converted = { ...columns };
+
+  metadata
+    .filter((column) => column.uidt === 'Attachment' && typeof converted[column.title] === 'string')
+    .forEach((column) => {
+      const url = converted[column.title] as string;
+      converted[column.title] = [{ url, title: url.split('/').pop() || column.title }];
+    });
+
+  return converted;
+}
+
+/**
+ * Insert a row and read it back. Duplicates are refused by `VideoID` with an
+ * uncached lookup first; NocoDB has no unique constraint to lean on, so two
+ * concurrent inserts of the same video can still both land.
+ */
+export async function createVideo(
   data: Partial<Video>,
   overrides: MutationOverrides = {},
+  options: MutationOptions = {},
 ): Promise<VideoRecordWithRowMeta> {
   const config = buildMutationConfig(overrides);
   const { resolvedTableId } = await resolveTableIdentifiers(config);
-
-  const identifiers = await resolveRecordIdentifiers(recordIdOrVideoId, {
+  const recordConfig = {
     projectId: config.projectId,
     tableId: resolvedTableId,
     tableName: config.tableName,
-  });
-
-  const payload: Record<string, unknown> = { ...data };
+  };
 
-  if ('ImportanceRating' in payload) {
-    const normalized = normalizeImportanceRating(payload.ImportanceRating);
-    if (normalized === undefined) {
-      delete payload.ImportanceRating;
-    } else {
-      payload.ImportanceRating = normalized;
+  const payload = buildUpdatePayload(data);
+  if (typeof payload.VideoID === 'string') {
+    const existing = await fetchSingleVideo(payload.VideoID, 'videoId', { cache: false, configOverrides: recordConfig });
+    if (existing) {
+      throw duplicateVideoError(payload.VideoID, existing);
     }
   }
 
-  if ('PersonalComment' in payload) {
-    const normalizedComment = normalizePersonalComment(payload.PersonalComment);
-    if (normalizedComment === undefined) {
-      delete payload.PersonalComment;
-    } else {
-      payload.PersonalComment = normalizedComment;
+  const { columns, links } = await splitLinkedRecordPayload(config, resolvedTableId, payload);
+  const endpoint = `${config.url}/api/v2/tables/${encodeURIComponent(resolvedTableId)}/records`;
+
+  try {
+    const body = await toAttachmentColumns(config, resolvedTableId, columns);
+    const response = await apiClient.post(endpoint, body, {
+      headers: { 'xc-token': config.token },
+    });
+
+    const inserted = (Array.isArray(response.data) ? response.data[0] : response.data) as { Id?: unknown } | undefined;
+    const numericId = Number(inserted?.Id);
+    if (!Number.isInteger(numericId)) {
+      throw new Error('NocoDB did not return the id of the created video');
+    }
+
+    const linkChanges = await applyLinkedRecordChanges(config, resolvedTableId, numericId, links);
+
+    const created = await fetchSingleVideo(numericId, 'id', {
+      cache: false,
+      configOverrides: recordConfig,
+    });
+
+    if (!created) {
+      throw new Error('Created video could not be reloaded after insert');
     }
+    withLinkedValues(created, links, linkChanges);
+
+    invalidateCacheTag(VIDEO_LIST_CACHE_TAG);
+    cacheVideoRecord(
+      created,
+      [String(numericId), created.VideoID ?? undefined, created.__rowId ?? undefined],
+      resolvedTableId,
+    );
+
+    await recordVideoAudit({
+      ...auditTarget(overrides, created),
+      actor: options.actor ?? 'server',
+      action: 'create',
+      changes: [...diffVideoFields({}, created, Object.keys(columns)), ...linkChanges],
+    });
+
+    void logDevEvent({
+      message: 'createVideo: insert completed',
+      payload: { numericId, videoId: created.VideoID, fields: Object.keys(payload) },
+    });
+
+    return created;
+  } catch (error) {
+    void logDevError('createVideo: request failed', {
+      videoId: payload.VideoID,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    throw toRequestError('createVideo', error, endpoint);
   }
+}
+
+export async function updateVideo(
+  recordIdOrVideoId: number | string,
+  data: Partial<Video>,
+  overrides: MutationOverrides = {},
+  options: UpdateVideoOptions = {},
+): Promise<VideoRecordWithRowMeta> {
+  const config = buildMutationConfig(overrides);
+  const { resolvedTableId } = await resolveTableIdentifiers(config);
+  const recordConfig = {
+    projectId: config.projectId,
+    tableId: resolvedTableId,
+    tableName: config.tableName,
+  };
+
+  const identifiers = await resolveRecordIdentifiers(recordIdOrVideoId, recordConfig);
+  const before = await readCurrentVersion(identifiers.numericId, options, recordConfig);
+
+  const payload = buildUpdatePayload(data);
+  const { columns, links } = await splitLinkedRecordPayload(config, resolvedTableId, payload);
 
   const endpoint = `${config.url}/api/v2/tables/${encodeURIComponent(resolvedTableId)}/records`;
 
   try {
-    await apiClient.patch(
-      endpoint,
-      {
-        Id: identifiers.numericId,
-        ...payload,
-      },
-      {
-        headers: { 'xc-token': config.token },
-      },
-    );
+    if (Object.keys(columns).length > 0 || links.length === 0) {
+      await apiClient.patch(
+        endpoint,
+        {
+          Id: identifiers.numericId,
+          ...columns,
+        },
+        {
+          headers: { 'xc-token': config.token },
+        },
+      );
+    }
+
+    const linkChanges = await applyLinkedRecordChanges(config, resolvedTableId, identifiers.numericId, links);
 
     const refreshed = await fetchSingleVideo(identifiers.numericId, 'id', {
       cache: false,
-      configOverrides: {
-        projectId: config.projectId,
-        tableId: resolvedTableId,
-        tableName: config.tableName,
-      },
+      configOverrides: recordConfig,
     });
 
     if (!refreshed) {
       throw new Error('Updated video could not be reloaded after update');
     }
+    withLinkedValues(refreshed, links, linkChanges);
+
+    purgeVideoFromCache(identifiers.video, [], resolvedTableId);
+    invalidateCacheTag(VIDEO_LIST_CACHE_TAG);
+    cacheVideoRecord(
+      refreshed,
+      [String(identifiers.numericId), refreshed.VideoID ?? undefined, refreshed.__rowId ?? undefined],
+      resolvedTableId,
+    );
 
-    cacheVideoRecord(refreshed, [
-      String(identifiers.numericId),
-      refreshed.VideoID ?? undefined,
-      refreshed.__rowId ?? undefined,
-    ]);
+    await recordVideoAudit({
+      ...auditTarget(overrides, refreshed),
+      actor: options.actor ?? 'server',
+      action: options.revertOf ? 'revert' : 'update',
+      changes: [...diffVideoFields(before, refreshed, Object.keys(columns)), ...linkChanges],
+      ...(options.revertOf ? { revertOf: options.revertOf } : {}),
+    });
 
     void logDevEvent({
       message: 'updateVideo: update completed',
@@ -159,6 +364,7 @@ export async function updateVideo(
 export async function deleteVideo(
   recordIdOrVideoId: number | string,
   overrides: MutationOverrides = {},
+  options: MutationOptions = {},
 ): Promise<void> {
   const config = buildMutationConfig(overrides);
   const { resolvedTableId } = await resolveTableIdentifiers(config);
@@ -215,11 +421,13 @@ export async function deleteVideo(
     try {
       await attempt.run();
 
-      purgeVideoFromCache(identifiers.video, [
-        identifiers.numericId.toString(),
-        identifiers.rowId ?? undefined,
-        identifiers.video.VideoID ?? undefined,
-      ]);
+      purgeVideoFromCache(
+        identifiers.video,
+        [identifiers.numericId.toString(), identifiers.rowId ?? undefined, identifiers.video.VideoID ?? undefined],
+        resolvedTableId,
+      );
+      invalidateCacheTag(VIDEO_LIST_CACHE_TAG);
+      await recordVideoAudit(deletionAudit(identifiers.video, overrides, options));
 
       void logDevEvent({
         message: 'deleteVideo: completed',
@@ -242,3 +450,256 @@ export async function deleteVideo(
   throw toRequestError('deleteVideo', lastError, `${config.url}/api/v2/tables/${resolvedTableId}/records`);
 }
 
+
+// Identifier lookups hit NocoDB for uncached records; keep a batch from
+// opening dozens of connections at once.
+const BATCH_RESOLVE_CONCURRENCY = 10;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Send `entries` in one bulk request. NocoDB rejects the whole bulk request
+ * if a single row fails, so on error every entry is retried on its own to
+ * find out which ones actually fail.
+ */
+async function sendBulk<T>(
+  label: string,
+  entries: T[],
+  sendAll: (entries: T[]) => Promise<unknown>,
+  sendOne: (entry: T) => Promise<unknown>,
+): Promise<Array<{ entry: T; error: unknown }>> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  try {
+    await sendAll(entries);
+    return entries.map((entry) => ({ entry, error: null }));
+  } catch (bulkError) {
+    void logDevError(`batchMutateVideos: bulk ${label} failed, retrying per record`, {
+      count: entries.length,
+      error: errorMessage(bulkError),
+    });
+
+    const outcomes: Array<{ entry: T; error: unknown }> = [];
+    for (const entry of entries) {
+      try {
+        await sendOne(entry);
+        outcomes.push({ entry, error: null });
+      } catch (error) {
+        outcomes.push({ entry, error });
+      }
+    }
+    return outcomes;
+  }
+}
+
+/**
+ * Bulk variant of `updateVideo`/`deleteVideo` built on NocoDB's bulk record
+ * endpoints (`PATCH`/`DELETE /records` with an array body). Updates to the same
+ * record are merged in request order and sent before deletes; operations on a
+ * record after it was deleted in the same batch fail, as do updates whose
+ * `expectedUpdatedAt` is stale (`conflict: true`). Linked-record fields are
+ * written per record after the bulk PATCH. Updated rows are not reloaded,
+ * and the list cache is invalidated once for the whole batch.
+ */
+export async function batchMutateVideos(
+  operations: VideoBatchOperation[],
+  overrides: MutationOverrides = {},
+  options: MutationOptions = {},
+): Promise<VideoBatchItemResult[]> {
+  const results: VideoBatchItemResult[] = operations.map((operation, index) => ({
+    index,
+    op: operation.op,
+    id: operation.id,
+    success: false,
+  }));
+
+  if (operations.length === 0) {
+    return results;
+  }
+
+  const config = buildMutationConfig(overrides);
+  const { resolvedTableId } = await resolveTableIdentifiers(config);
+  const endpoint = `${config.url}/api/v2/tables/${encodeURIComponent(resolvedTableId)}/records`;
+  const headers = { 'xc-token': config.token };
+
+  const recordConfig = {
+    projectId: config.projectId,
+    tableId: resolvedTableId,
+    tableName: config.tableName,
+  };
+
+  const resolved: Array<ResolvedRecordIdentifiers | null> = operations.map(() => null);
+  for (let start = 0; start < operations.length; start += BATCH_RESOLVE_CONCURRENCY) {
+    const slice = operations.slice(start, start + BATCH_RESOLVE_CONCURRENCY);
+    const settled = await Promise.allSettled(
+      slice.map(async (operation, offset) => {
+        const identifiers = await resolveRecordIdentifiers(operation.id, recordConfig);
+        results[start + offset].recordId = identifiers.numericId;
+        // Only conditional updates pay for a fresh read; the others audit
+        // against the (possibly cached) copy the identifiers came with.
+        if (operation.op === 'update' && (operation.expectedUpdatedAt || operation.expectedId !== undefined)) {
+          const latest = await readCurrentVersion(identifiers.numericId, operation, recordConfig);
+          return { ...identifiers, video: latest };
+        }
+        return identifiers;
+      }),
+    );
+
+    settled.forEach((outcome, offset) => {
+      const index = start + offset;
+      if (outcome.status === 'fulfilled') {
+        resolved[index] = outcome.value;
+        return;
+      }
+
+      // Nothing was written yet: let the route answer 503 for the whole batch.
+      if (outcome.reason instanceof NocoDBUnavailableError) {
+        throw outcome.reason;
+      }
+      if (outcome.reason instanceof VideoConflictError) {
+        results[index].conflict = true;
+        results[index].current = outcome.reason.current;
+      }
+      results[index].error = errorMessage(outcome.reason);
+    });
+  }
+
+  const updates = new Map<
+    number,
+    {
+      payload: Record<string, unknown>;
+      indexes: number[];
+      links: LinkedRecordWrite[];
+      linkChanges: LinkedRecordChange[];
+    }
+  >();
+  const deletes = new Map<number, number[]>();
+
+  operations.forEach((operation, index) => {
+    const identifiers = resolved[index];
+    if (!identifiers) return;
+
+    const { numericId } = identifiers;
+    if (deletes.has(numericId)) {
+      results[index].error = `Video ${operation.id} is deleted earlier in this batch`;
+      return;
+    }
+
+    if (operation.op === 'delete') {
+      deletes.set(numericId, [index]);
+      return;
+    }
+
+    const entry = updates.get(numericId) ?? { payload: {}, indexes: [], links: [], linkChanges: [] };
+    Object.assign(entry.payload, buildUpdatePayload(operation.data));
+    entry.indexes.push(index);
+    updates.set(numericId, entry);
+  });
+
+  const settle = (indexes: number[], error: unknown) => {
+    indexes.forEach((index) => {
+      results[index].success = error === null;
+      if (error !== null) {
+        results[index].error = toRequestError('batchMutateVideos', error, endpoint).message;
+      }
+    });
+  };
+
+  // Link fields cannot ride along in the bulk PATCH: they are written per
+  // record through the link endpoints once the column updates went through.
+  for (const entry of Array.from(updates.values())) {
+    const { columns, links } = await splitLinkedRecordPayload(config, resolvedTableId, entry.payload);
+    entry.payload = columns;
+    entry.links = links;
+  }
+
+  const updateOutcomes = await sendBulk(
+    'update',
+    Array.from(updates.entries()).filter(
+      ([, { payload, links }]) => Object.keys(payload).length > 0 || links.length === 0,
+    ),
+    (entries) =>
+      apiClient.patch(
+        endpoint,
+        entries.map(([Id, { payload }]) => ({ ...payload, Id })),
+        { headers },
+      ),
+    ([Id, { payload }]) => apiClient.patch(endpoint, { ...payload, Id }, { headers }),
+  );
+  const failedUpdates = new Set<number>();
+  updateOutcomes.forEach(({ entry: [Id, { indexes }], error }) => {
+    settle(indexes, error);
+    if (error !== null) failedUpdates.add(Id);
+  });
+
+  for (const [Id, entry] of Array.from(updates.entries())) {
+    if (entry.links.length === 0 || failedUpdates.has(Id)) continue;
+    try {
+      entry.linkChanges = await applyLinkedRecordChanges(config, resolvedTableId, Id, entry.links);
+      settle(entry.indexes, null);
+    } catch (error) {
+      failedUpdates.add(Id);
+      settle(entry.indexes, error);
+    }
+  }
+
+  const deleteOutcomes = await sendBulk(
+    'delete',
+    Array.from(deletes.entries()),
+    (entries) => apiClient.delete(endpoint, { headers, data: entries.map(([Id]) => ({ Id })) }),
+    ([Id]) => apiClient.delete(`${endpoint}/${Id}`, { headers }),
+  );
+  deleteOutcomes.forEach(({ entry: [, indexes], error }) => settle(indexes, error));
+
+  // Purge every record we sent, even failed ones: after a partial failure the
+  // cached copy may no longer match NocoDB.
+  const sentIds = new Set(Array.from(updates.keys()).concat(Array.from(deletes.keys())));
+  const purged = new Set<number>();
+  resolved.forEach((identifiers) => {
+    if (!identifiers || !sentIds.has(identifiers.numericId) || purged.has(identifiers.numericId)) return;
+    purged.add(identifiers.numericId);
+    purgeVideoFromCache(
+      identifiers.video,
+      [String(identifiers.numericId), identifiers.rowId ?? undefined],
+      resolvedTableId,
+    );
+  });
+
+  if (sentIds.size > 0) {
+    invalidateCacheTag(VIDEO_LIST_CACHE_TAG);
+  }
+
+  const actor = options.actor ?? 'server';
+  const videoFor = (indexes: number[]) => resolved[indexes[0]]!.video;
+  for (const [Id, { payload, indexes, linkChanges }] of Array.from(updates.entries())) {
+    if (failedUpdates.has(Id)) continue;
+    const before = videoFor(indexes);
+    await recordVideoAudit({
+      ...auditTarget(overrides, before),
+      actor,
+      action: 'update',
+      changes: [...diffVideoFields(before, { ...before, ...payload }, Object.keys(payload)), ...linkChanges],
+    });
+  }
+  for (const { entry: [, indexes], error } of deleteOutcomes) {
+    if (error === null) {
+      await recordVideoAudit(deletionAudit(videoFor(indexes), overrides, options));
+    }
+  }
+
+  void logDevEvent({
+    message: 'batchMutateVideos: completed',
+    payload: {
+      operations: operations.length,
+      updatedRecords: updates.size,
+      deletedRecords: deletes.size,
+      failed: results.filter((result) => !result.success).length,
+    },
+  });
+
+  return results;
+}
@@ -0,0 +1,33 @@
+import { batchMutateVideos, createVideo, deleteVideo, updateVideo } from './mutations';
+import type { VideoRepository } from './repository';
+import {
+  fetchAllVideos,
+  fetchLinkedRecords,
+  fetchVideoByVideoId,
+  fetchVideos,
+  iterateVideos,
+  getSimpleNavigationData,
+  getVideoNavigationData,
+  searchLinkedRecords,
+} from './video-service';
+
+/**
+ * Adapter that serves the repository contract straight from NocoDB's v2 REST
+ * API. All the heavy lifting (retries, field fallbacks, caching) lives in the
+ * service and mutation modules; this object only wires them together.
+ */
+export const nocodbVideoRepository: VideoRepository = {
+  kind: 'nocodb',
+  fetchVideos,
+  fetchAllVideos,
+  iterateVideos,
+  fetchVideoByVideoId,
+  getVideoNavigationData,
+  getSimpleNavigationData,
+  createVideo,
+  updateVideo,
+  deleteVideo,
+  batchMutateVideos,
+  fetchLinkedRecords,
+  searchLinkedRecords,
+};
@@ -1,31 +1,115 @@
-export type { NocoDBConfig } from './config';
-export { getNocoDBConfig } from './config';
+export type { NocoDBConfig, VideoRepositoryConfig, VideoRepositoryKind } from './config';
+export { getNocoDBConfig, getVideoRepositoryConfig } from './config';
 
 export {
   videoSchema,
   videoOfflineCacheItemSchema,
   videoListItemSchema,
+  videoSearchItemSchema,
+  videoUpdateSchema,
   pageInfoSchema,
   createNocoDBResponseSchema,
   type Video,
   type VideoOfflineCacheItem,
   type VideoListItem,
+  type VideoSearchItem,
   type PageInfo,
 } from './schemas';
 
+// Reads and writes go through the configured repository (NocoDB or local file).
 export {
   fetchVideos,
   fetchAllVideos,
+  iterateVideos,
   fetchVideoByVideoId,
   getSimpleNavigationData,
   getVideoNavigationData,
-} from './video-service';
-
-export {
+  createVideo,
   updateVideo,
   deleteVideo,
-  normalizeImportanceRating,
-  normalizePersonalComment,
-} from './mutations';
+  batchMutateVideos,
+  fetchLinkedRecords,
+  searchLinkedRecords,
+  getVideoRepository,
+  setVideoRepository,
+  type VideoRepository,
+  type FetchVideosOptions,
+  type FetchAllVideosOptions,
+  type IterateVideosOptions,
+  type VideoPage,
+  type VideoNavigationData,
+  type VideoBatchOperation,
+  type VideoBatchItemResult,
+  type UpdateVideoOptions,
+} from './repository';
+
+export {
+  compileVideoFilter,
+  matchesVideoFilter,
+  parseVideoFilter,
+  videoFilterSchema,
+  type VideoFilter,
+  type VideoFilterField,
+} from './filters';
+export {
+  InvalidVideoFilterError,
+  InvalidWebhookPayloadError,
+  InvalidYouTubeVideoError,
+  NocoDBRequestError,
+  NocoDBTimeoutError,
+  NocoDBUnavailableError,
+  NocoDBValidationError,
+  UnknownWorkspaceError,
+  VideoAlreadyExistsError,
+  VideoConflictError,
+  VideoETagMismatchError,
+  VideoInTrashError,
+  VideoNotFoundError,
+  VideoNotInTrashError,
+  YouTubeMetadataError,
+} from './errors';
+export { getNocoDBCircuitState, resetNocoDBCircuit } from './http-client';
+
+export { searchVideos, type SearchVideosOptions, type SearchVideosResult } from './video-search';
+
+export {
+  DEFAULT_WORKSPACE_ID,
+  WORKSPACE_PARAM,
+  getWorkspaces,
+  listPublicWorkspaces,
+  resolveWorkspace,
+  workspaceMutationOverrides,
+  workspaceTableOverrides,
+  type PublicWorkspace,
+  type Workspace,
+} from './workspaces';
+
+export {
+  LINKED_RECORD_FIELDS,
+  isLinkedRecordField,
+  type LinkedRecordField,
+  type LinkedRecordInput,
+  type LinkedRecordRef,
+  type LinkedRecordValues,
+} from './linked-records';
+
+export { normalizeImportanceRating, normalizePersonalComment } from './mutations';
+
+export { assertVideoVersion, parseVideoETag, videoETag, type VideoETag } from './concurrency';
 
 export { resolveNumericId } from './record-utils';
+
+export {
+  deleteOperation,
+  emptyTrash,
+  listTrash,
+  purgeTrashedVideo,
+  restoreVideo,
+  scheduleTrashSweep,
+  trashVideo,
+  type TrashedVideo,
+  type TrashListing,
+} from './trash';
+export { getTrashConfig } from './config';
+
+export { importYouTubeVideo, parseYouTubeVideoId } from './youtube-import';
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseSampleRecords } from './record-diagnostics';
+
+describe('parseSampleRecords', () => {
+  it('reports schema issues per row without failing the batch', () => {
+    const [valid, broken] = parseSampleRecords([
+      { Id: 1, Title: 'Good video', VideoID: 'abc123', CreatedAt: '2025-01-01T00:00:00.000Z' },
+      { Id: 'oops', Title: 42 },
+    ]);
+
+    expect(valid).toMatchObject({ id: 1, title: 'Good video', detailIssues: [], listIssues: [] });
+    expect(broken.id).toBe('oops');
+    expect(broken.title).toBeNull();
+    expect(broken.detailIssues.some((issue) => issue.startsWith('Id:'))).toBe(true);
+  });
+});
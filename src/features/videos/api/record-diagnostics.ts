@@ -0,0 +1,66 @@
+import type { SafeParseReturnType } from 'zod';
+
+import { getNocoDBConfig, type NocoDBConfig } from './config';
+import { apiClient, toRequestError } from './http-client';
+import { videoListItemSchema, videoSchema } from './schemas';
+import { resolveTableIdentifiers, type ResolvedTableIdentifiers } from './table-metadata';
+
+export interface SampleRecordResult {
+  id: number | string | null;
+  title: string | null;
+  /** `videoSchema` (detail page) and `videoListItemSchema` (cards) results. */
+  detailIssues: string[];
+  listIssues: string[];
+}
+
+export interface RecordDiagnostics {
+  table: ResolvedTableIdentifiers;
+  samples: SampleRecordResult[];
+}
+
+export const DEFAULT_SAMPLE_SIZE = 5;
+
+function describeIssues(result: SafeParseReturnType<unknown, unknown>): string[] {
+  return result.success
+    ? []
+    : result.error.issues.map((issue) => `${issue.path.join('.') || '(record)'}: ${issue.message}`);
+}
+
+/** Parse raw NocoDB rows with the app's schemas and collect the issues per row. */
+export function parseSampleRecords(rows: unknown[]): SampleRecordResult[] {
+  return rows.map((row) => {
+    const record = row && typeof row === 'object' ? (row as Record<string, unknown>) : {};
+    const id = typeof record.Id === 'number' || typeof record.Id === 'string' ? record.Id : null;
+    return {
+      id,
+      title: typeof record.Title === 'string' ? record.Title : null,
+      detailIssues: describeIssues(videoSchema.safeParse(row)),
+      listIssues: describeIssues(videoListItemSchema.safeParse(row)),
+    };
+  });
+}
+
+/**
+ * Resolve the configured table and parse the newest raw rows, for the
+ * diagnostics page. Rows are read unvalidated so one bad record shows up as
+ * issues instead of failing the whole request.
+ */
+export async function loadRecordDiagnostics(
+  limit = DEFAULT_SAMPLE_SIZE,
+  overrides: Partial<NocoDBConfig> = {},
+): Promise<RecordDiagnostics> {
+  const config = getNocoDBConfig(overrides);
+  const table = await resolveTableIdentifiers(config);
+  const endpoint = `${config.url}/api/v2/tables/${encodeURIComponent(table.resolvedTableId)}/records`;
+
+  try {
+    const response = await apiClient.get(endpoint, {
+      headers: { 'xc-token': config.token },
+      params: { limit, sort: '-CreatedAt' },
+    });
+    const rows: unknown[] = Array.isArray(response.data?.list) ? response.data.list : [];
+    return { table, samples: parseSampleRecords(rows) };
+  } catch (error) {
+    throw toRequestError('loadRecordDiagnostics', error, endpoint);
+  }
+}
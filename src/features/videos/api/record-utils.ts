@@ -1,9 +1,10 @@
 import { getNocoDBConfig, type NocoDBConfig } from './config';
 import { apiClient, toRequestError } from './http-client';
 import { resolveTableIdentifiers } from './table-metadata';
-import { getFromCache, setInCache, deleteFromCache } from './cache';
+import { deleteFromCache, getFromCache, invalidateCacheTags, setInCache, videoCacheTag } from './cache';
 import { logDevEvent, logDevError } from '@/shared/utils/server-logger';
-import { NocoDBValidationError } from './errors';
+import { NocoDBValidationError, VideoNotFoundError } from './errors';
+import { singleFlight } from './single-flight';
 import { videoSchema, type Video } from './schemas';
 
 export type VideoRecordWithRowMeta = Video & {
@@ -46,7 +47,20 @@ function safeTrim(value: unknown): string | null {
   return null;
 }
 
-export function cacheVideoRecord(video: VideoRecordWithRowMeta, extraKeys: Array<string | null | undefined> = []) {
+/**
+ * Record ids are only unique per table, so single-record cache keys carry the
+ * table they were read from. Tags stay unscoped: purging a record may drop a
+ * same-id entry of another workspace, which only costs a cache miss.
+ */
+function scopeRecordKey(tableId: string | undefined, key: string): string {
+  return tableId ? `record:${tableId}:${key}` : key;
+}
+
+export function cacheVideoRecord(
+  video: VideoRecordWithRowMeta,
+  extraKeys: Array<string | null | undefined> = [],
+  tableId?: string,
+) {
   const keys = new Set<string>();
   extraKeys.forEach((key) => {
     if (typeof key === 'string' && key.trim().length > 0) {
@@ -76,10 +90,26 @@ export function cacheVideoRecord(video: VideoRecordWithRowMeta, extraKeys: Array
     }
   }
 
-  keys.forEach((key) => setInCache(key, video));
+  const tags = videoTags(video);
+  keys.forEach((key) => setInCache(scopeRecordKey(tableId, key), video, { tags }));
 }
 
-export function purgeVideoFromCache(video: VideoRecordWithRowMeta, extraKeys: Array<string | null | undefined> = []) {
+function videoTags(video: VideoRecordWithRowMeta): string[] {
+  const tags: string[] = [];
+  if (video.VideoID) {
+    tags.push(videoCacheTag(video.VideoID));
+  }
+  if (video.Id !== undefined && video.Id !== null) {
+    tags.push(videoCacheTag(String(video.Id)));
+  }
+  return tags;
+}
+
+export function purgeVideoFromCache(
+  video: VideoRecordWithRowMeta,
+  extraKeys: Array<string | null | undefined> = [],
+  tableId?: string,
+) {
   const keys = new Set<string>();
   extraKeys.forEach((key) => {
     if (typeof key === 'string' && key.trim().length > 0) {
@@ -110,7 +140,10 @@ export function purgeVideoFromCache(video: VideoRecordWithRowMeta, extraKeys: Ar
     keys.add(rowIdKey);
   }
 
-  keys.forEach((key) => deleteFromCache(key));
+  // Tags catch every alias the record was cached under, including identifiers
+  // we cannot reconstruct here; the explicit keys cover entries cached without tags.
+  invalidateCacheTags(videoTags(video));
+  keys.forEach((key) => deleteFromCache(scopeRecordKey(tableId, key)));
 }
 
 interface FetchSingleVideoRecordOptions {
@@ -118,6 +151,8 @@ interface FetchSingleVideoRecordOptions {
   cacheKeys?: string[];
   logLabel: string;
   configOverrides?: Partial<NocoDBConfig>;
+  /** Share an identical in-flight request. Disable for reads that must observe a write that just happened. */
+  coalesce?: boolean;
 }
 
 export async function fetchSingleVideoRecord({
@@ -125,15 +160,35 @@ export async function fetchSingleVideoRecord({
   cacheKeys = [],
   logLabel,
   configOverrides = {},
+  coalesce = true,
 }: FetchSingleVideoRecordOptions): Promise<VideoRecordWithRowMeta | null> {
+  const config = getNocoDBConfig(configOverrides);
+
   for (const key of cacheKeys) {
-    const cached = getFromCache<VideoRecordWithRowMeta>(key);
+    const cached = getFromCache<VideoRecordWithRowMeta>(scopeRecordKey(config.tableId, key));
     if (cached) {
       return cached;
     }
   }
 
-  const config = getNocoDBConfig(configOverrides);
+  const flightKey = `fetchSingleVideoRecord:${config.url}:${config.projectId}:${config.tableId}:${where}`;
+  const video = coalesce
+    ? await singleFlight(flightKey, () => requestSingleVideoRecord(config, where, logLabel))
+    : await requestSingleVideoRecord(config, where, logLabel);
+
+  if (video) {
+    // Each caller caches under its own aliases, even when the request was shared.
+    cacheVideoRecord(video, cacheKeys, config.tableId);
+  }
+
+  return video;
+}
+
+async function requestSingleVideoRecord(
+  config: NocoDBConfig,
+  where: string,
+  logLabel: string,
+): Promise<VideoRecordWithRowMeta | null> {
   const { resolvedTableId } = await resolveTableIdentifiers(config);
   const endpointUrl = `${config.url}/api/v2/tables/${encodeURIComponent(resolvedTableId)}/records`;
 
@@ -186,7 +241,6 @@ export async function fetchSingleVideoRecord({
       enrichedVideo.__rowId = responseRowId;
     }
 
-    cacheVideoRecord(enrichedVideo, cacheKeys);
     return enrichedVideo;
   } catch (error) {
     if (error instanceof NocoDBValidationError) {
@@ -220,6 +274,7 @@ export async function fetchSingleVideo(
     cacheKeys,
     logLabel: `fetchSingleVideo - ${identifier}`,
     configOverrides: options.configOverrides,
+    coalesce: options.cache !== false,
   });
 }
 
@@ -260,7 +315,7 @@ export async function resolveRecordIdentifiers(
     void logDevError('resolveRecordIdentifiers: video not found', {
       identifier: idOrVideoId,
     });
-    throw new Error(`No video found matching identifier: ${idOrVideoId}`);
+    throw new VideoNotFoundError(idOrVideoId);
   }
 
   const numericId = typeof video.Id === 'number' ? video.Id : Number(video.Id);
@@ -274,7 +329,11 @@ export async function resolveRecordIdentifiers(
     video.__rowId ??
     extractRowIdFromRecord(video as unknown as Record<string, unknown>);
 
-  cacheVideoRecord(video, [String(numericId), rowId ?? undefined, typeof idOrVideoId === 'string' ? idOrVideoId : null]);
+  cacheVideoRecord(
+    video,
+    [String(numericId), rowId ?? undefined, typeof idOrVideoId === 'string' ? idOrVideoId : null],
+    getNocoDBConfig(overrides).tableId,
+  );
 
   return {
     numericId,
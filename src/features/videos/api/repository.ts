@@ -0,0 +1,319 @@
+import type { z } from 'zod';
+
+import { getVideoRepositoryConfig, type VideoRepositoryKind } from './config';
+import type { TrashMode, VideoFilter } from './filters';
+import type { LinkedRecordField, LinkedRecordRef, LinkedRecordValues } from './linked-records';
+import { createLocalVideoRepository } from './local-repository';
+import { nocodbVideoRepository } from './nocodb-repository';
+import type { VideoRecordWithRowMeta } from './record-utils';
+import type { PageInfo, Video, videoSchema } from './schemas';
+import { noteSearchIndexChanges } from './search-index';
+
+/**
+ * Options shared by every list query. The `nc*` overrides only matter for the
+ * NocoDB adapter; other adapters ignore them.
+ */
+export interface FetchVideosOptions<T extends z.ZodTypeAny = typeof videoSchema> {
+  sort?: string;
+  limit?: number;
+  page?: number;
+  fields?: string[];
+  schema?: T;
+  ncProjectId?: string;
+  ncTableId?: string;
+  ncTableName?: string;
+  tagSearchQuery?: string;
+  /** Typed filter tree, compiled to a NocoDB `where` clause server-side. */
+  filter?: VideoFilter;
+  /** Trashed rows (`TrashedAt` set) are hidden unless asked for (default `exclude`). */
+  trash?: TrashMode;
+}
+
+export type FetchAllVideosOptions<T extends z.ZodTypeAny = typeof videoSchema> = Omit<
+  FetchVideosOptions<T>,
+  'limit' | 'page'
+>;
+
+/**
+ * Options for `iterateVideos`. Pages are read straight from the backend (no
+ * list cache) so long walks neither flood nor depend on the LRU.
+ */
+export interface IterateVideosOptions<T extends z.ZodTypeAny = typeof videoSchema>
+  extends FetchAllVideosOptions<T> {
+  /** Rows per request (default 50). */
+  pageSize?: number;
+  /** Pages requested ahead of the consumer (default 3). */
+  concurrency?: number;
+  /** Cancels the walk and every request still in flight. */
+  signal?: AbortSignal;
+}
+
+export interface VideoPage<T> {
+  videos: T[];
+  pageInfo: PageInfo;
+}
+
+export interface TableOverrides {
+  ncProjectId?: string;
+  ncTableId?: string;
+  ncTableName?: string;
+}
+
+export interface MutationOverrides {
+  projectId?: string;
+  tableId?: string;
+  tableName?: string;
+}
+
+export interface MutationOptions {
+  /** Written to the audit log; defaults to `server`. */
+  actor?: string;
+}
+
+export interface UpdateVideoOptions extends MutationOptions {
+  /**
+   * Precondition: the `UpdatedAt` the client last saw. If the record changed
+   * since, the update is rejected with `VideoConflictError`.
+   */
+  expectedUpdatedAt?: Date | string | null;
+  /**
+   * Record `Id` taken from an `If-Match` ETag. If it is not the record being
+   * updated, the update is rejected with `VideoETagMismatchError`.
+   */
+  expectedId?: number;
+  /** Audit entry whose `before` value this update restores (logged as `revert`). */
+  revertOf?: string;
+}
+
+export type VideoBatchOperation =
+  | ({ op: 'update'; id: number | string; data: Partial<Video> } & UpdateVideoOptions)
+  | { op: 'delete'; id: number | string };
+
+export interface VideoBatchItemResult {
+  /** Position of the operation in the request. */
+  index: number;
+  op: VideoBatchOperation['op'];
+  id: number | string;
+  success: boolean;
+  /** Numeric row id the identifier resolved to. */
+  recordId?: number;
+  error?: string;
+  /** Set when `expectedUpdatedAt` did not match; `current` is the server copy. */
+  conflict?: boolean;
+  current?: Video;
+  /** Set on a `delete` that moved the video to the trash instead of removing it. */
+  trashed?: boolean;
+}
+
+export interface NavigationVideo {
+  Id: string;
+  Title: string | null;
+}
+
+export interface VideoNavigationData {
+  previousVideoData: NavigationVideo | null;
+  nextVideoData: NavigationVideo | null;
+}
+
+/**
+ * Storage-agnostic contract for everything the app does with videos.
+ * Route handlers and scripts talk to this interface (through the exports in
+ * `nocodb.ts`) so the backend can be swapped via `VIDEO_REPOSITORY`.
+ */
+export interface VideoRepository {
+  readonly kind: VideoRepositoryKind;
+  fetchVideos<T extends z.ZodTypeAny = typeof videoSchema>(
+    options?: FetchVideosOptions<T>,
+  ): Promise<VideoPage<z.infer<T>>>;
+  fetchAllVideos<T extends z.ZodTypeAny = typeof videoSchema>(
+    options?: FetchAllVideosOptions<T>,
+  ): Promise<z.infer<T>[]>;
+  iterateVideos<T extends z.ZodTypeAny = typeof videoSchema>(
+    options?: IterateVideosOptions<T>,
+  ): AsyncIterable<VideoPage<z.infer<T>>>;
+  fetchVideoByVideoId(videoId: string, overrides?: TableOverrides): Promise<Video | null>;
+  getVideoNavigationData(
+    currentVideoId: string,
+    sort?: string,
+    overrides?: TableOverrides,
+  ): Promise<VideoNavigationData>;
+  getSimpleNavigationData(
+    currentVideoId: string,
+    sort?: string,
+    overrides?: TableOverrides,
+  ): Promise<VideoNavigationData>;
+  /** Insert a new row; throws `VideoAlreadyExistsError` (`VideoInTrashError` for a trashed copy) when its `VideoID` is taken. */
+  createVideo(
+    data: Partial<Video>,
+    overrides?: MutationOverrides,
+    options?: MutationOptions,
+  ): Promise<VideoRecordWithRowMeta>;
+  updateVideo(
+    recordIdOrVideoId: number | string,
+    data: Partial<Video>,
+    overrides?: MutationOverrides,
+    options?: UpdateVideoOptions,
+  ): Promise<VideoRecordWithRowMeta>;
+  deleteVideo(
+    recordIdOrVideoId: number | string,
+    overrides?: MutationOverrides,
+    options?: MutationOptions,
+  ): Promise<void>;
+  /**
+   * Apply many updates/deletes at once. Never throws for a single bad item:
+   * each operation gets its own result, in request order.
+   */
+  batchMutateVideos(
+    operations: VideoBatchOperation[],
+    overrides?: MutationOverrides,
+    options?: MutationOptions,
+  ): Promise<VideoBatchItemResult[]>;
+  /** Current linked records (Tags, Categories, Persons, ...) of a video; `null` if it does not exist. */
+  fetchLinkedRecords(videoId: string, overrides?: TableOverrides): Promise<LinkedRecordValues | null>;
+  /** Existing link targets whose title contains `query`, for editor suggestions. */
+  searchLinkedRecords(field: LinkedRecordField, query: string, overrides?: TableOverrides): Promise<LinkedRecordRef[]>;
+}
+
+let manualRepository: VideoRepository | null = null;
+let activeRepository: VideoRepository | null = null;
+let activeRepositoryKey: string | null = null;
+
+/**
+ * Return the repository selected by configuration. The instance is memoised per
+ * config so the local adapter keeps its in-memory copy between requests.
+ */
+export function getVideoRepository(): VideoRepository {
+  if (manualRepository) {
+    return manualRepository;
+  }
+
+  const config = getVideoRepositoryConfig();
+  const key = `${config.kind}:${config.localStorePath}`;
+
+  if (activeRepository && activeRepositoryKey === key) {
+    return activeRepository;
+  }
+
+  activeRepository =
+    config.kind === 'local'
+      ? createLocalVideoRepository({ filePath: config.localStorePath })
+      : nocodbVideoRepository;
+  activeRepositoryKey = key;
+
+  return activeRepository;
+}
+
+/**
+ * Replace the active repository (tests, scripts). Passing `null` falls back to
+ * the configured adapter on the next call.
+ */
+export function setVideoRepository(repository: VideoRepository | null) {
+  manualRepository = repository;
+}
+
+export function fetchVideos<T extends z.ZodTypeAny = typeof videoSchema>(
+  options: FetchVideosOptions<T> = {},
+): Promise<VideoPage<z.infer<T>>> {
+  return getVideoRepository().fetchVideos(options);
+}
+
+export function fetchAllVideos<T extends z.ZodTypeAny = typeof videoSchema>(
+  options: FetchAllVideosOptions<T> = {},
+): Promise<z.infer<T>[]> {
+  return getVideoRepository().fetchAllVideos(options);
+}
+
+/**
+ * Stream the matching rows page by page, e.g.
+ * `for await (const { videos } of iterateVideos({ signal })) { ... }`.
+ */
+export function iterateVideos<T extends z.ZodTypeAny = typeof videoSchema>(
+  options: IterateVideosOptions<T> = {},
+): AsyncIterable<VideoPage<z.infer<T>>> {
+  return getVideoRepository().iterateVideos(options);
+}
+
+export function fetchVideoByVideoId(videoId: string, overrides?: TableOverrides): Promise<Video | null> {
+  return getVideoRepository().fetchVideoByVideoId(videoId, overrides);
+}
+
+export function getVideoNavigationData(
+  currentVideoId: string,
+  sort: string = '-CreatedAt',
+  overrides?: TableOverrides,
+): Promise<VideoNavigationData> {
+  return getVideoRepository().getVideoNavigationData(currentVideoId, sort, overrides);
+}
+
+export function getSimpleNavigationData(
+  currentVideoId: string,
+  sort: string = '-CreatedAt',
+  overrides?: TableOverrides,
+): Promise<VideoNavigationData> {
+  return getVideoRepository().getSimpleNavigationData(currentVideoId, sort, overrides);
+}
+
+// Mutations report the rows they touched to the search index, whichever adapter ran them.
+
+function identifierChange(recordIdOrVideoId: number | string) {
+  const numeric = Number(recordIdOrVideoId);
+  return Number.isInteger(numeric) && String(recordIdOrVideoId).trim() !== ''
+    ? { id: numeric }
+    : { videoId: String(recordIdOrVideoId) };
+}
+
+export async function createVideo(
+  data: Partial<Video>,
+  overrides: MutationOverrides = {},
+  options: MutationOptions = {},
+): Promise<VideoRecordWithRowMeta> {
+  const created = await getVideoRepository().createVideo(data, overrides, options);
+  noteSearchIndexChanges([{ id: created.Id, videoId: created.VideoID }]);
+  return created;
+}
+
+export async function updateVideo(
+  recordIdOrVideoId: number | string,
+  data: Partial<Video>,
+  overrides: MutationOverrides = {},
+  options: UpdateVideoOptions = {},
+): Promise<VideoRecordWithRowMeta> {
+  const updated = await getVideoRepository().updateVideo(recordIdOrVideoId, data, overrides, options);
+  noteSearchIndexChanges([{ id: updated.Id, videoId: updated.VideoID }]);
+  return updated;
+}
+
+export async function deleteVideo(
+  recordIdOrVideoId: number | string,
+  overrides: MutationOverrides = {},
+  options: MutationOptions = {},
+): Promise<void> {
+  await getVideoRepository().deleteVideo(recordIdOrVideoId, overrides, options);
+  noteSearchIndexChanges([identifierChange(recordIdOrVideoId)]);
+}
+
+export async function batchMutateVideos(
+  operations: VideoBatchOperation[],
+  overrides: MutationOverrides = {},
+  options: MutationOptions = {},
+): Promise<VideoBatchItemResult[]> {
+  const results = await getVideoRepository().batchMutateVideos(operations, overrides, options);
+  noteSearchIndexChanges(
+    results
+      .filter((result) => result.success)
+      .map((result) => (result.recordId !== undefined ? { id: result.recordId } : identifierChange(result.id))),
+  );
+  return results;
+}
+
+export function fetchLinkedRecords(videoId: string, overrides?: TableOverrides): Promise<LinkedRecordValues | null> {
+  return getVideoRepository().fetchLinkedRecords(videoId, overrides);
+}
+
+export function searchLinkedRecords(
+  field: LinkedRecordField,
+  query: string,
+  overrides?: TableOverrides,
+): Promise<LinkedRecordRef[]> {
+  return getVideoRepository().searchLinkedRecords(field, query, overrides);
+}
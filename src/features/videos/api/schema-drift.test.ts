@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { compareColumnsWithSchema } from './schema-drift';
+import { videoSchema } from './schemas';
+import type { TableColumnMetadata } from './table-metadata';
+
+const UIDT_BY_FIELD: Record<string, string> = {
+  Id: 'ID',
+  ImportanceRating: 'Rating',
+  CreatedAt: 'CreatedTime',
+  UpdatedAt: 'LastModifiedTime',
+  PublishedAt: 'DateTime',
+  CompletionDate: 'Date',
+  DueDate: 'Date',
+  Watched: 'Checkbox',
+  Archived: 'Checkbox',
+  TrashedAt: 'DateTime',
+  Private: 'Checkbox',
+  Duration: 'Number',
+  FrameRate: 'Decimal',
+  ThumbHigh: 'Attachment',
+  Tags: 'Links',
+  Sentiment: 'Number',
+};
+
+function column(title: string, uidt = UIDT_BY_FIELD[title] ?? 'LongText'): TableColumnMetadata {
+  return { title, columnName: title, uidt, system: false, primaryKey: title === 'Id' };
+}
+
+function liveColumns(): TableColumnMetadata[] {
+  const metaFields = new Set(['rowId', 'RowId', '_rowId', 'nc___', '__nc_evolve_to_text__', 'Created By', 'Updated By']);
+  return Object.keys(videoSchema.shape)
+    .filter((field) => !metaFields.has(field))
+    .map((field) => column(field));
+}
+
+const table = { id: 'm1', name: 'youtubeTranscripts' };
+
+describe('compareColumnsWithSchema', () => {
+  it('reports a table that matches the schema as in sync', () => {
+    const report = compareColumnsWithSchema(liveColumns(), table);
+
+    expect(report.ok).toBe(true);
+    expect(report.missingColumns).toEqual([]);
+    expect(report.typeMismatches).toEqual([]);
+    expect(report.unknownColumns).toEqual([]);
+  });
+
+  it('flags missing, unknown and mistyped columns', () => {
+    const columns = liveColumns()
+      .filter((entry) => entry.title !== 'Channel' && entry.title !== 'Prompt' && entry.title !== 'TechnicalTerms')
+      .map((entry) => (entry.title === 'Watched' ? column('Watched', 'SingleLineText') : entry));
+    columns.push(column('technical_terms', 'LongText'), column('LegacyScore', 'Number'));
+
+    const report = compareColumnsWithSchema(columns, table);
+
+    expect(report.ok).toBe(false);
+    expect(report.missingColumns).toEqual([
+      expect.objectContaining({
+        field: 'Channel',
+        severity: 'error',
+        usedIn: ['videoSchema', 'VIDEO_LIST_FIELDS', 'VIDEO_SEARCH_FIELDS', 'VIDEO_OFFLINE_FIELDS'],
+      }),
+      expect.objectContaining({ field: 'TechnicalTerms', severity: 'error', similarColumn: 'technical_terms' }),
+      expect.objectContaining({ field: 'Prompt', severity: 'warning', usedIn: ['videoSchema'] }),
+    ]);
+    expect(report.typeMismatches).toEqual([
+      expect.objectContaining({ field: 'Watched', expected: 'boolean', actual: 'SingleLineText' }),
+    ]);
+    expect(report.unknownColumns).toEqual([
+      { title: 'technical_terms', uidt: 'LongText' },
+      { title: 'LegacyScore', uidt: 'Number' },
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+
+import { getNocoDBConfig, type NocoDBConfig } from './config';
+import { VIDEO_LIST_FIELDS, VIDEO_OFFLINE_FIELDS, VIDEO_SEARCH_FIELDS } from './fields';
+import { getVideoFieldKind, videoSchema, type VideoFieldKind } from './schemas';
+import { fetchTableColumns, type TableColumnMetadata } from './table-metadata';
+
+export type FieldSource = 'videoSchema' | 'VIDEO_LIST_FIELDS' | 'VIDEO_SEARCH_FIELDS' | 'VIDEO_OFFLINE_FIELDS';
+
+export interface MissingColumn {
+  field: string;
+  usedIn: FieldSource[];
+  /** `error` when a request field list asks for it (NocoDB answers FIELD_NOT_FOUND). */
+  severity: 'error' | 'warning';
+  /** A column whose name only differs in case/spacing, if any. */
+  similarColumn: string | null;
+}
+
+export interface UnknownColumn {
+  title: string;
+  uidt: string;
+}
+
+export interface TypeMismatch {
+  field: string;
+  expected: VideoFieldKind;
+  actual: string;
+  allowed: string[];
+}
+
+export interface SchemaDriftReport {
+  generatedAt: string;
+  table: { id: string; name: string | null };
+  columnCount: number;
+  missingColumns: MissingColumn[];
+  unknownColumns: UnknownColumn[];
+  typeMismatches: TypeMismatch[];
+  ok: boolean;
+}
+
+/**
+ * Keys that `videoSchema` accepts for row metadata; NocoDB does not list them
+ * as regular table columns, so their absence is not drift.
+ */
+const ROW_META_FIELDS = new Set([
+  'rowId',
+  'RowId',
+  '_rowId',
+  'nc___',
+  '__nc_evolve_to_text__',
+  'Created By',
+  'Updated By',
+]);
+
+const DERIVED_UIDTS = ['Formula', 'Lookup'];
+
+const COMPATIBLE_UIDTS: Record<Exclude<VideoFieldKind, 'unknown'>, string[]> = {
+  string: ['SingleLineText', 'LongText', 'RichText', 'URL', 'Email', 'PhoneNumber', 'SingleSelect', 'User', 'CreatedBy', 'LastModifiedBy'],
+  number: ['Number', 'Decimal', 'Currency', 'Percent', 'Rating', 'Duration', 'Year', 'AutoNumber', 'ID', 'Rollup', 'Count'],
+  boolean: ['Checkbox'],
+  date: ['Date', 'DateTime', 'CreatedTime', 'LastModifiedTime', 'CreateTime'],
+  list: ['LongText', 'SingleLineText', 'MultiSelect', 'Links', 'LinkToAnotherRecord', 'JSON', 'Attachment'],
+};
+
+// Fields behind a `z.preprocess` are normalised from strings, arrays or
+// attachment objects, so any of those storage shapes is acceptable.
+const PREPROCESSED_UIDTS = ['SingleLineText', 'LongText', 'JSON', 'Attachment', 'MultiSelect', 'Links', 'LinkToAnotherRecord'];
+
+const FIELD_LISTS: Array<[FieldSource, readonly string[]]> = [
+  ['VIDEO_LIST_FIELDS', VIDEO_LIST_FIELDS],
+  ['VIDEO_SEARCH_FIELDS', VIDEO_SEARCH_FIELDS],
+  ['VIDEO_OFFLINE_FIELDS', VIDEO_OFFLINE_FIELDS],
+];
+
+function normalizeColumnName(value: string): string {
+  return value.replace(/[^a-z0-9]/gi, '').toLowerCase();
+}
+
+function isPreprocessed(schema: z.ZodTypeAny): boolean {
+  let current = schema;
+  while (current instanceof z.ZodOptional || current instanceof z.ZodNullable || current instanceof z.ZodDefault) {
+    current = current instanceof z.ZodDefault ? current.removeDefault() : current.unwrap();
+  }
+  return current instanceof z.ZodEffects;
+}
+
+function allowedUidts(field: string): string[] | null {
+  const kind = getVideoFieldKind(field);
+  if (kind === 'unknown') {
+    return null;
+  }
+
+  const schema = (videoSchema.shape as Record<string, z.ZodTypeAny>)[field];
+  const allowed = new Set([...COMPATIBLE_UIDTS[kind], ...DERIVED_UIDTS]);
+  if (schema && isPreprocessed(schema)) {
+    PREPROCESSED_UIDTS.forEach((uidt) => allowed.add(uidt));
+  }
+  return Array.from(allowed);
+}
+
+/**
+ * Pure comparison between a live column list and the app's expectations.
+ * Split from the network call so it can be tested and reused offline.
+ */
+export function compareColumnsWithSchema(
+  columns: TableColumnMetadata[],
+  table: { id: string; name: string | null },
+): SchemaDriftReport {
+  const byTitle = new Map(columns.map((column) => [column.title, column]));
+  const byNormalizedTitle = new Map(columns.map((column) => [normalizeColumnName(column.title), column.title]));
+  const schemaFields = Object.keys(videoSchema.shape);
+
+  const usage = new Map<string, FieldSource[]>();
+  const addUsage = (field: string, source: FieldSource) => {
+    if (ROW_META_FIELDS.has(field)) return;
+    usage.set(field, [...(usage.get(field) ?? []), source]);
+  };
+  schemaFields.forEach((field) => addUsage(field, 'videoSchema'));
+  FIELD_LISTS.forEach(([source, fields]) => fields.forEach((field) => addUsage(field, source)));
+
+  const missingColumns: MissingColumn[] = [];
+  const typeMismatches: TypeMismatch[] = [];
+
+  usage.forEach((usedIn, field) => {
+    const column = byTitle.get(field);
+    if (!column) {
+      const similar = byNormalizedTitle.get(normalizeColumnName(field));
+      missingColumns.push({
+        field,
+        usedIn,
+        severity: usedIn.some((source) => source !== 'videoSchema') ? 'error' : 'warning',
+        similarColumn: similar && similar !== field ? similar : null,
+      });
+      return;
+    }
+
+    const allowed = allowedUidts(field);
+    if (allowed && !allowed.includes(column.uidt)) {
+      typeMismatches.push({ field, expected: getVideoFieldKind(field), actual: column.uidt, allowed });
+    }
+  });
+
+  const knownFields = new Set(schemaFields);
+  const unknownColumns = columns
+    .filter((column) => !column.system && !column.primaryKey && !knownFields.has(column.title))
+    .map((column) => ({ title: column.title, uidt: column.uidt }));
+
+  const severityOrder = (entry: MissingColumn) => (entry.severity === 'error' ? 0 : 1);
+  missingColumns.sort((a, b) => severityOrder(a) - severityOrder(b) || a.field.localeCompare(b.field));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    table,
+    columnCount: columns.length,
+    missingColumns,
+    unknownColumns,
+    typeMismatches,
+    ok:
+      missingColumns.every((entry) => entry.severity !== 'error') && typeMismatches.length === 0,
+  };
+}
+
+/** Fetch the live table columns and compare them with `videoSchema` and the field lists. */
+export async function buildSchemaDriftReport(overrides: Partial<NocoDBConfig> = {}): Promise<SchemaDriftReport> {
+  const config = getNocoDBConfig(overrides);
+  const { table, columns } = await fetchTableColumns(config);
+
+  return compareColumnsWithSchema(columns, {
+    id: table.resolvedTableId,
+    name: table.resolvedTableName,
+  });
+}
@@ -94,6 +94,8 @@ export const videoSchema = z
     FullTranscript: z.string().optional().nullable().default(null),
     ActionableAdvice: z.string().optional().nullable().default(null),
     Archived: z.boolean().optional().nullable().default(null),
+    /** Set when the video is moved to the trash; the retention sweep measures from it (see `trash.ts`). */
+    TrashedAt: z.coerce.date().optional().nullable().default(null),
     AssignedTo: z.union([linkedRecordItemSchema, z.string()]).optional().nullable().default(null),
     BitRate: z.string().optional().nullable().default(null),
     TLDR: z.string().optional().nullable().default(null),
@@ -382,6 +384,29 @@ export const videoListItemSchema = z
 
 export type VideoListItem = z.infer<typeof videoListItemSchema>;
 
+/**
+ * Documents of the `/api/search` index: a list item plus the remaining search
+ * fields, the language used for stemming and the columns results can be
+ * sorted by.
+ */
+export const videoSearchItemSchema = videoListItemSchema
+  .extend(
+    videoSchema.pick({
+      TLDR: true,
+      MainTopic: true,
+      TickerSymbol: true,
+      Language: true,
+      ImportanceRating: true,
+      PublishedAt: true,
+      UpdatedAt: true,
+      Duration: true,
+      Watched: true,
+    }).shape,
+  )
+  .describe('videoSearchItemSchema');
+
+export type VideoSearchItem = z.infer<typeof videoSearchItemSchema>;
+
 export const pageInfoSchema = z.object({
   totalRows: z.number().int(),
   page: z.number().int(),
@@ -394,8 +419,77 @@ export const pageInfoSchema = z.object({
 
 export type PageInfo = z.infer<typeof pageInfoSchema>;
 
+/** Fields the UI may edit through `PATCH /api/videos/[videoId]` and `POST /api/videos/batch`. */
+export const videoUpdateSchema = z
+  .object({
+    ImportanceRating: z.number().int().min(1).max(5).optional().nullable(),
+    PersonalComment: z.string().optional().nullable(),
+    Watched: z.boolean().optional().nullable(),
+    Notes: z.string().optional().nullable(),
+    // Linked records: `{ Id }` links an existing row, `{ Title }` finds or creates one.
+    Tags: z.array(linkedRecordItemSchema).optional().nullable(),
+    Categories: z.array(linkedRecordItemSchema).optional().nullable(),
+    Persons: z.array(linkedRecordItemSchema).optional().nullable(),
+    Companies: z.array(linkedRecordItemSchema).optional().nullable(),
+    Institutions: z.array(linkedRecordItemSchema).optional().nullable(),
+    CompletionDate: z.coerce.date().optional().nullable(),
+    ActionableAdvice: z.string().optional().nullable(),
+    TLDR: z.string().optional().nullable(),
+    MainSummary: z.string().optional().nullable(),
+    DetailedNarrativeFlow: z.string().optional().nullable(),
+    MemorableQuotes: z.array(z.string()).optional().nullable(),
+    MemorableTakeaways: z.array(z.string()).optional().nullable(),
+    KeyExamples: z.array(z.string()).optional().nullable(),
+    BookMediaRecommendations: z.array(z.string()).optional().nullable(),
+    RelatedURLs: z.array(z.string().url()).optional().nullable(),
+    TopicsDiscussed: z.array(z.string()).optional().nullable(),
+    Priority: z.string().optional().nullable(),
+    Status: z.string().optional().nullable(),
+    Hashtags: z.array(z.string()).optional().nullable(),
+    /** Trash flag and time; see `trash.ts`. */
+    Archived: z.boolean().optional().nullable(),
+    TrashedAt: z.coerce.date().optional().nullable(),
+  })
+  .strict();
+
 export const createNocoDBResponseSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
   z.object({
     list: z.array(itemSchema),
     pageInfo: pageInfoSchema,
   });
+
+export type VideoFieldKind = 'string' | 'number' | 'boolean' | 'date' | 'list' | 'unknown';
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      current = current.removeDefault();
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * Derive the value kind of a `videoSchema` field from its Zod definition
+ * (optional/nullable/default/preprocess wrappers are looked through).
+ */
+export function getVideoFieldKind(field: string): VideoFieldKind {
+  const schema = (videoSchema.shape as Record<string, z.ZodTypeAny>)[field];
+  if (!schema) {
+    return 'unknown';
+  }
+
+  const inner = unwrapSchema(schema);
+  if (inner instanceof z.ZodDate) return 'date';
+  if (inner instanceof z.ZodNumber) return 'number';
+  if (inner instanceof z.ZodBoolean) return 'boolean';
+  if (inner instanceof z.ZodString) return 'string';
+  if (inner instanceof z.ZodArray) return 'list';
+  return 'unknown';
+}
@@ -0,0 +1,271 @@
+import { VIDEO_SEARCH_BOOSTS } from './field-registry';
+import { documentFieldText, documentLanguage } from '@/features/videos/utils/search-query';
+import { analyzeText, matchTerm } from '@/features/videos/utils/search-text';
+
+/**
+ * In-memory inverted index behind `/api/search`, scored with BM25F: term
+ * frequencies are normalised per field, weighted by the field's boost from
+ * the registry (Title > TLDR > Hashtags > Description > the rest) and summed
+ * before saturation. Query terms also hit index terms they prefix or are a
+ * typo away from (`matchTerm`), scaled down by the match weight; finding
+ * those scans the vocabulary once per query term and is cached until the
+ * vocabulary changes. Scoring only touches the postings of the matched terms.
+ *
+ * `video-search.ts` builds one index per table and keeps it current; this
+ * module only holds the data structure and the per-table change queue, so
+ * the repository can report mutations without importing the search service.
+ */
+
+export interface SearchableDocument {
+  Id: number;
+  VideoID?: string | null;
+  Language?: string | null;
+  [field: string]: unknown;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+}
+
+export interface SearchIndex<T extends SearchableDocument> {
+  readonly size: number;
+  /** Add a document or replace the one with the same `Id`. */
+  upsert(item: T): void;
+  remove(id: number): void;
+  has(id: number): boolean;
+  get(id: number): T | undefined;
+  /** Every indexed document, in insertion order. */
+  items(): T[];
+  /** Row id of the indexed document with this `VideoID`. */
+  idForVideoId(videoId: string): number | undefined;
+  /**
+   * Documents matching every query word (each word lists its alternative
+   * terms, see `analyzeQuery`) in at least one of `fields`, unordered.
+   * Prefix and typo matches count unless `fuzzy` is false.
+   */
+  search(words: string[][], fields?: readonly string[], options?: { fuzzy?: boolean }): SearchHit<T>[];
+}
+
+// Standard BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+// Distinct query terms whose vocabulary matches are kept.
+const MAX_CACHED_EXPANSIONS = 1000;
+
+interface IndexedDocument<T> {
+  item: T;
+  lengths: Map<string, number>;
+  terms: string[];
+}
+
+export function createSearchIndex<T extends SearchableDocument>(
+  boosts: ReadonlyMap<string, number> = VIDEO_SEARCH_BOOSTS,
+): SearchIndex<T> {
+  const documents = new Map<number, IndexedDocument<T>>();
+  const idsByVideoId = new Map<string, number>();
+  // term -> document id -> field -> term frequency
+  const postings = new Map<string, Map<number, Map<string, number>>>();
+  const lengthTotals = new Map<string, number>();
+  // query term -> [index term, match weight]; valid until a term is added or dropped
+  const expansions = new Map<string, Array<[string, number]>>();
+
+  function remove(id: number) {
+    const document = documents.get(id);
+    if (!document) return;
+
+    document.terms.forEach((term) => {
+      const posting = postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) {
+        postings.delete(term);
+        expansions.clear();
+      }
+    });
+    document.lengths.forEach((length, field) => {
+      lengthTotals.set(field, (lengthTotals.get(field) ?? 0) - length);
+    });
+    if (document.item.VideoID && idsByVideoId.get(document.item.VideoID) === id) {
+      idsByVideoId.delete(document.item.VideoID);
+    }
+    documents.delete(id);
+  }
+
+  function upsert(item: T) {
+    remove(item.Id);
+
+    const language = documentLanguage(item);
+    const lengths = new Map<string, number>();
+    const terms = new Set<string>();
+
+    boosts.forEach((_, field) => {
+      const fieldTerms = analyzeText(documentFieldText(item, field), language);
+      if (fieldTerms.length === 0) return;
+
+      lengths.set(field, fieldTerms.length);
+      lengthTotals.set(field, (lengthTotals.get(field) ?? 0) + fieldTerms.length);
+      fieldTerms.forEach((term) => {
+        let posting = postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          postings.set(term, posting);
+          expansions.clear();
+        }
+        let frequencies = posting.get(item.Id);
+        if (!frequencies) {
+          frequencies = new Map();
+          posting.set(item.Id, frequencies);
+        }
+        frequencies.set(field, (frequencies.get(field) ?? 0) + 1);
+        terms.add(term);
+      });
+    });
+
+    documents.set(item.Id, { item, lengths, terms: Array.from(terms) });
+    if (item.VideoID) idsByVideoId.set(item.VideoID, item.Id);
+  }
+
+  function expand(queryTerm: string, fuzzy: boolean): Array<[string, number]> {
+    if (!fuzzy) return postings.has(queryTerm) ? [[queryTerm, 1]] : [];
+
+    let matches = expansions.get(queryTerm);
+    if (!matches) {
+      const found: Array<[string, number]> = [];
+      postings.forEach((_, term) => {
+        const weight = matchTerm(queryTerm, term);
+        if (weight > 0) found.push([term, weight]);
+      });
+      if (expansions.size >= MAX_CACHED_EXPANSIONS) expansions.clear();
+      expansions.set(queryTerm, found);
+      matches = found;
+    }
+    return matches;
+  }
+
+  /** Index terms a word may hit, with the best weight among its alternatives. */
+  function wordTerms(alternatives: string[], fuzzy: boolean): Map<string, number> {
+    const terms = new Map<string, number>();
+    alternatives.forEach((alternative) => {
+      expand(alternative, fuzzy).forEach(([term, weight]) => {
+        terms.set(term, Math.max(terms.get(term) ?? 0, weight));
+      });
+    });
+    return terms;
+  }
+
+  function search(words: string[][], fields?: readonly string[], { fuzzy = true } = {}): SearchHit<T>[] {
+    if (words.length === 0 || documents.size === 0) return [];
+
+    const selected = new Set(fields ?? Array.from(boosts.keys()));
+    const averageLength = (field: string) => (lengthTotals.get(field) ?? 0) / documents.size || 1;
+    let scores = new Map<number, number>();
+
+    // Rarest word first, so later words only check the shrinking candidate set.
+    const ordered = words
+      .map((alternatives) => {
+        const terms = wordTerms(alternatives, fuzzy);
+        const df = Math.max(0, ...Array.from(terms.keys()).map((term) => postings.get(term)?.size ?? 0));
+        return { terms, df };
+      })
+      .sort((a, b) => a.df - b.df);
+
+    ordered.forEach(({ terms }, position) => {
+      const candidates = position === 0 ? null : scores;
+      const wordScores = new Map<number, number>();
+
+      terms.forEach((matchWeight, term) => {
+        const posting = postings.get(term);
+        if (!posting) return;
+        const idf = Math.log(1 + (documents.size - posting.size + 0.5) / (posting.size + 0.5));
+
+        posting.forEach((frequencies, id) => {
+          if (candidates && !candidates.has(id)) return;
+          const document = documents.get(id)!;
+          let weighted = 0;
+          frequencies.forEach((frequency, field) => {
+            if (!selected.has(field)) return;
+            const norm = 1 - B + (B * (document.lengths.get(field) ?? 0)) / averageLength(field);
+            weighted += ((boosts.get(field) ?? 1) * frequency) / norm;
+          });
+          if (weighted === 0) return;
+          const score = (matchWeight * idf * weighted * (K1 + 1)) / (K1 + weighted);
+          // Several terms of a word (stems, typo matches) can hit the same document; count the best.
+          wordScores.set(id, Math.max(wordScores.get(id) ?? 0, score));
+        });
+      });
+
+      wordScores.forEach((score, id) => wordScores.set(id, score + (candidates?.get(id) ?? 0)));
+      scores = wordScores;
+    });
+
+    return Array.from(scores.entries()).map(([id, score]) => ({
+      item: documents.get(id)!.item,
+      score,
+    }));
+  }
+
+  return {
+    get size() {
+      return documents.size;
+    },
+    upsert,
+    remove,
+    has: (id) => documents.has(id),
+    get: (id) => documents.get(id)?.item,
+    items: () => Array.from(documents.values()).map((document) => document.item),
+    idForVideoId: (videoId) => idsByVideoId.get(videoId),
+    search,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Change queue
+// ---------------------------------------------------------------------------
+
+/** A row that was created, updated or deleted; either identifier is enough. */
+export interface SearchIndexChange {
+  id?: number | null;
+  videoId?: string | null;
+}
+
+const pendingChanges = new Map<string, SearchIndexChange[]>();
+
+/** Start collecting changes for the index `key` (called when it is first built). */
+export function trackSearchIndexChanges(key: string) {
+  if (!pendingChanges.has(key)) {
+    pendingChanges.set(key, []);
+  }
+}
+
+export function untrackSearchIndexChanges(key: string) {
+  pendingChanges.delete(key);
+}
+
+/**
+ * Queue changed rows for every index. Re-reading a row by id is harmless even
+ * for an index of another table, and webhook table ids do not always match the
+ * configured table name, so changes are not narrowed per table.
+ */
+export function noteSearchIndexChanges(changes: SearchIndexChange[]) {
+  const relevant = changes.filter((change) => change.id != null || Boolean(change.videoId));
+  if (relevant.length === 0) return;
+  pendingChanges.forEach((queue) => queue.push(...relevant));
+}
+
+/** Take and clear the queued changes of `key`. */
+export function takeSearchIndexChanges(key: string): SearchIndexChange[] {
+  const queue = pendingChanges.get(key);
+  return queue ? queue.splice(0, queue.length) : [];
+}
+
+/** Put changes back at the front of `key`'s queue after a failed refresh. */
+export function requeueSearchIndexChanges(key: string, changes: SearchIndexChange[]) {
+  const queue = pendingChanges.get(key);
+  if (queue) queue.unshift(...changes);
+}
+
+/** Forget every queue (tests). */
+export function resetSearchIndexChanges() {
+  pendingChanges.clear();
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { getInFlightRequestCount, singleFlight } from './single-flight';
+
+describe('singleFlight', () => {
+  it('shares one in-flight promise between concurrent callers', async () => {
+    const task = vi.fn(async () => 'result');
+
+    const [first, second] = await Promise.all([singleFlight('key', task), singleFlight('key', task)]);
+
+    expect(first).toBe('result');
+    expect(second).toBe('result');
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(getInFlightRequestCount()).toBe(0);
+  });
+
+  it('starts a new request once the previous one settled', async () => {
+    const task = vi.fn(async () => 'result');
+
+    await singleFlight('key', task);
+    await singleFlight('key', task);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('propagates failures to every waiter and forgets the key', async () => {
+    const task = vi.fn(async () => {
+      throw new Error('boom');
+    });
+
+    const results = await Promise.allSettled([singleFlight('fail', task), singleFlight('fail', task)]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(getInFlightRequestCount()).toBe(0);
+  });
+
+  it('keeps different keys independent', async () => {
+    const task = vi.fn(async () => 'result');
+
+    await Promise.all([singleFlight('a', task), singleFlight('b', task)]);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
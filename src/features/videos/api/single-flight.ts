@@ -0,0 +1,29 @@
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `task` once per key at a time. Callers that arrive while a request for
+ * the same key is still pending share its promise instead of hitting NocoDB
+ * again; the entry is dropped as soon as the promise settles, so this never
+ * serves old data — that is the cache's job.
+ */
+export function singleFlight<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const promise = (async () => {
+    try {
+      return await task();
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+export function getInFlightRequestCount(): number {
+  return inFlight.size;
+}
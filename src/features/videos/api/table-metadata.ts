@@ -2,6 +2,7 @@ import axios from 'axios';
 
 import { apiClient, toRequestError } from './http-client';
 import type { NocoDBConfig } from './config';
+import { singleFlight } from './single-flight';
 import { logDevError, logDevEvent } from '@/shared/utils/server-logger';
 
 interface NocoDBTableMetadata {
@@ -12,6 +13,22 @@ interface NocoDBTableMetadata {
   slug?: string;
 }
 
+export interface TableColumnMetadata {
+  /** Column title, i.e. the key NocoDB uses in record payloads. */
+  title: string;
+  columnName: string | null;
+  /** NocoDB UI data type (`SingleLineText`, `Checkbox`, `Links`, ...). */
+  uidt: string;
+  system: boolean;
+  primaryKey: boolean;
+  /** NocoDB column id; link endpoints address columns by it. */
+  id?: string;
+  /** Display ("primary value") column of its table. */
+  primaryValue?: boolean;
+  /** For link columns: the table on the other side. */
+  relatedTableId?: string;
+}
+
 export interface ResolvedTableIdentifiers {
   identifiers: string[];
   resolvedTableName: string | null;
@@ -21,10 +38,14 @@ export interface ResolvedTableIdentifiers {
 const projectTablesMetaCache = new Map<string, NocoDBTableMetadata[]>();
 const tableDetailCache = new Map<string, NocoDBTableMetadata>();
 const tableIdentifiersCache = new Map<string, ResolvedTableIdentifiers>();
+const tableColumnsCache = new Map<string, TableColumnMetadata[]>();
 
 const METADATA_ENDPOINT = (config: Pick<NocoDBConfig, 'url' | 'projectId'>) =>
   `${config.url}/api/v2/meta/projects/${encodeURIComponent(config.projectId)}/tables`;
 
+const TABLE_COLUMNS_ENDPOINT = (config: Pick<NocoDBConfig, 'url'>, tableId: string) =>
+  `${config.url}/api/v2/meta/tables/${encodeURIComponent(tableId)}`;
+
 const TABLE_DETAIL_ENDPOINT = (config: Pick<NocoDBConfig, 'url'>, tableId: string) =>
   `${config.url}/api/v2/tables/${encodeURIComponent(tableId)}`;
 
@@ -146,6 +167,16 @@ export async function resolveTableIdentifiers(
     return tableIdentifiersCache.get(cacheKey)!;
   }
 
+  // Every cold request resolves the table first; only one of them needs to ask NocoDB.
+  return singleFlight(`resolveTableIdentifiers:${config.url}:${cacheKey}`, () =>
+    loadTableIdentifiers(config, cacheKey),
+  );
+}
+
+async function loadTableIdentifiers(
+  config: Pick<NocoDBConfig, 'url' | 'token' | 'projectId' | 'tableId' | 'tableName'>,
+  cacheKey: string,
+): Promise<ResolvedTableIdentifiers> {
   const identifiers = uniqueIdentifiers([config.tableId, config.tableName]);
   const normalizedTargets = identifiers.map(normalizeIdentifier);
 
@@ -207,8 +238,93 @@ export async function resolveTableIdentifiers(
   return result;
 }
 
+function toColumnMetadata(raw: unknown): TableColumnMetadata | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const column = raw as Record<string, unknown>;
+  const title = typeof column.title === 'string' ? column.title : typeof column.column_name === 'string' ? column.column_name : null;
+  if (!title) {
+    return null;
+  }
+
+  const options = column.colOptions && typeof column.colOptions === 'object' ? (column.colOptions as Record<string, unknown>) : null;
+
+  return {
+    title,
+    columnName: typeof column.column_name === 'string' ? column.column_name : null,
+    uidt: typeof column.uidt === 'string' ? column.uidt : 'Unknown',
+    system: column.system === true || column.system === 1,
+    primaryKey: column.pk === true || column.pk === 1,
+    id: typeof column.id === 'string' ? column.id : undefined,
+    primaryValue: column.pv === true || column.pv === 1,
+    relatedTableId: typeof options?.fk_related_model_id === 'string' ? options.fk_related_model_id : undefined,
+  };
+}
+
+async function requestTableColumns(
+  label: string,
+  config: Pick<NocoDBConfig, 'url' | 'token'>,
+  tableId: string,
+): Promise<TableColumnMetadata[]> {
+  const endpoint = TABLE_COLUMNS_ENDPOINT(config, tableId);
+
+  try {
+    const response = await apiClient.get(endpoint, {
+      headers: { 'xc-token': config.token },
+    });
+
+    const rawColumns: unknown[] = Array.isArray(response.data?.columns) ? response.data.columns : [];
+    return rawColumns
+      .map(toColumnMetadata)
+      .filter((column): column is TableColumnMetadata => column !== null);
+  } catch (error) {
+    void logDevError(`${label}: request failed`, {
+      tableId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw toRequestError(label, error, endpoint);
+  }
+}
+
+/**
+ * Load the live column list of the configured table. Not cached: callers are
+ * diagnostics that want to see the current state of the table.
+ */
+export async function fetchTableColumns(
+  config: Pick<NocoDBConfig, 'url' | 'token' | 'projectId' | 'tableId' | 'tableName'>,
+): Promise<{ table: ResolvedTableIdentifiers; columns: TableColumnMetadata[] }> {
+  const table = await resolveTableIdentifiers(config);
+  const columns = await requestTableColumns('fetchTableColumns', config, table.resolvedTableId);
+  return { table, columns };
+}
+
+/**
+ * Columns of any table by its resolved id, cached per process. Linked-record
+ * writes need link column ids and the related tables' display columns on
+ * every save; call `resetTableMetadataCaches` after changing the schema.
+ */
+export async function getTableColumns(
+  config: Pick<NocoDBConfig, 'url' | 'token'>,
+  tableId: string,
+): Promise<TableColumnMetadata[]> {
+  const cacheKey = `${config.url}:${tableId}`;
+  const cached = tableColumnsCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  return singleFlight(`getTableColumns:${cacheKey}`, async () => {
+    const columns = await requestTableColumns('getTableColumns', config, tableId);
+    tableColumnsCache.set(cacheKey, columns);
+    return columns;
+  });
+}
+
 export function resetTableMetadataCaches() {
   projectTablesMetaCache.clear();
   tableDetailCache.clear();
   tableIdentifiersCache.clear();
+  tableColumnsCache.clear();
 }
@@ -0,0 +1,90 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+import { VideoNotInTrashError } from './errors';
+import { createLocalVideoRepository } from './local-repository';
+import { fetchAllVideos, setVideoRepository } from './repository';
+import { deleteOperation, emptyTrash, listTrash, purgeTrashedVideo, restoreVideo, trashVideo } from './trash';
+import { resolveWorkspace } from './workspaces';
+
+const records = [
+  { Id: 1, VideoID: 'a', Title: 'Alpha', Archived: false, UpdatedAt: '2026-10-01T00:00:00.000Z' },
+  { Id: 2, VideoID: 'b', Title: 'Bravo', UpdatedAt: '2026-10-16T00:00:00.000Z', TrashedAt: '2026-09-01T00:00:00.000Z' },
+  { Id: 3, VideoID: 'c', Title: 'Charlie', UpdatedAt: '2026-10-15T00:00:00.000Z', TrashedAt: '2026-10-15T00:00:00.000Z' },
+  // Archived by the user: stays listed and is never part of the trash.
+  { Id: 4, VideoID: 'd', Title: 'Delta', Archived: true, UpdatedAt: '2025-01-01T00:00:00.000Z' },
+];
+
+describe('trash', () => {
+  let dir: string;
+  let filePath: string;
+  const workspace = resolveWorkspace();
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'yt-viewer-trash-'));
+    filePath = join(dir, 'videos.json');
+    await writeFile(filePath, JSON.stringify(records), 'utf8');
+    setVideoRepository(createLocalVideoRepository({ filePath }));
+    vi.stubEnv('VIDEO_SOFT_DELETE', 'true');
+    vi.stubEnv('VIDEO_TRASH_RETENTION_DAYS', '30');
+  });
+
+  afterEach(async () => {
+    setVideoRepository(null);
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('moves videos between the list and the trash', async () => {
+    expect((await fetchAllVideos({ sort: 'Id' })).map((video) => video.VideoID)).toEqual(['a', 'd']);
+
+    await trashVideo('a', workspace);
+    await restoreVideo('b', workspace);
+
+    expect((await fetchAllVideos({ sort: 'Id' })).map((video) => video.VideoID)).toEqual(['b', 'd']);
+
+    const { videos, retentionDays } = await listTrash(workspace);
+    expect(retentionDays).toBe(30);
+    expect(videos.map((video) => video.VideoID)).toEqual(['a', 'c']);
+    expect(videos[0].purgeAt).not.toBeNull();
+    expect(videos[1]).toMatchObject({ trashedAt: '2026-10-15T00:00:00.000Z', purgeAt: '2026-11-14T00:00:00.000Z' });
+
+    const stored = JSON.parse(await readFile(filePath, 'utf8')) as Array<Record<string, unknown>>;
+    expect(stored.find((record) => record.VideoID === 'a')?.Archived).toBe(false);
+    expect(stored.find((record) => record.VideoID === 'b')?.TrashedAt ?? null).toBeNull();
+  });
+
+  it('only purges trashed videos and empties expired ones after the retention period', async () => {
+    await expect(purgeTrashedVideo('a', workspace)).rejects.toBeInstanceOf(VideoNotInTrashError);
+    await expect(purgeTrashedVideo('d', workspace)).rejects.toBeInstanceOf(VideoNotInTrashError);
+
+    const results = await emptyTrash(workspace, { expiredOnly: true, now: new Date('2026-10-19T00:00:00.000Z') });
+    expect(results).toMatchObject([{ success: true, recordId: 2 }]);
+
+    await purgeTrashedVideo('c', workspace);
+
+    const stored = JSON.parse(await readFile(filePath, 'utf8')) as Array<Record<string, unknown>>;
+    expect(stored.map((record) => record.VideoID)).toEqual(['a', 'd']);
+  });
+
+  it('turns batch deletes into trash updates while soft delete is on', () => {
+    expect(deleteOperation(5)).toEqual({ op: 'update', id: 5, data: { TrashedAt: expect.any(Date) } });
+
+    vi.stubEnv('VIDEO_SOFT_DELETE', 'false');
+    expect(deleteOperation(5)).toEqual({ op: 'delete', id: 5 });
+  });
+
+  it('reports an empty trash without touching TrashedAt while soft delete is off', async () => {
+    vi.stubEnv('VIDEO_SOFT_DELETE', 'false');
+
+    expect(await listTrash(workspace)).toEqual({ enabled: false, retentionDays: 30, videos: [] });
+    expect(await emptyTrash(workspace)).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import { getTrashConfig } from './config';
+import { VideoNotFoundError, VideoNotInTrashError } from './errors';
+import {
+  batchMutateVideos,
+  deleteVideo,
+  fetchAllVideos,
+  fetchVideoByVideoId,
+  updateVideo,
+  type MutationOptions,
+  type VideoBatchItemResult,
+  type VideoBatchOperation,
+} from './repository';
+import { videoSchema, type Video } from './schemas';
+import { workspaceMutationOverrides, workspaceTableOverrides, type Workspace } from './workspaces';
+import { logDevError, logDevEvent } from '@/shared/utils/server-logger';
+
+/**
+ * Soft delete on a dedicated `TrashedAt` date column: trashing stamps it,
+ * restoring clears it. Trashed rows stay in the table but are hidden from
+ * lists, search and navigation (see `withTrashFilter`). The user's own
+ * `Archived` flag is left alone, so archived videos never end up in the trash.
+ *
+ * Soft delete is opt-in (`VIDEO_SOFT_DELETE=true`) because the column must
+ * exist first; `scripts/add-trash-column.ts` adds it. Automatic purging is a
+ * second opt-in (`VIDEO_TRASH_RETENTION_DAYS`) measured from `TrashedAt`.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const trashItemSchema = videoSchema.pick({
+  Id: true,
+  VideoID: true,
+  Title: true,
+  Channel: true,
+  ThumbHigh: true,
+  TrashedAt: true,
+});
+
+const trashItemFields = Object.keys(trashItemSchema.shape);
+
+/** Fields that move a video into the trash. */
+export function trashUpdate(now = new Date()): Partial<Video> {
+  return { TrashedAt: now };
+}
+
+const restoreUpdate: Partial<Video> = { TrashedAt: null };
+
+/**
+ * Batch operation for deleting `id`: a trash update while soft delete is on
+ * (`POST /api/videos/batch`, offline sync), a permanent delete otherwise.
+ */
+export function deleteOperation(id: number | string): VideoBatchOperation {
+  return getTrashConfig().enabled ? { op: 'update', id, data: trashUpdate() } : { op: 'delete', id };
+}
+
+export interface TrashedVideo {
+  Id: number;
+  VideoID: string | null;
+  Title: string | null;
+  Channel: string | null;
+  ThumbHigh: string | null;
+  trashedAt: string | null;
+  /** When the sweep will purge it; `null` when retention is disabled. */
+  purgeAt: string | null;
+}
+
+export interface TrashListing {
+  /** `false` when soft delete is off; the listing is then always empty. */
+  enabled: boolean;
+  retentionDays: number;
+  videos: TrashedVideo[];
+}
+
+export async function trashVideo(videoId: string, workspace: Workspace, options: MutationOptions = {}) {
+  await updateVideo(videoId, trashUpdate(), workspaceMutationOverrides(workspace), options);
+}
+
+export async function restoreVideo(videoId: string, workspace: Workspace, options: MutationOptions = {}) {
+  await updateVideo(videoId, restoreUpdate, workspaceMutationOverrides(workspace), options);
+}
+
+/** Permanently delete a video, refusing rows that are not in the trash. */
+export async function purgeTrashedVideo(videoId: string, workspace: Workspace, options: MutationOptions = {}) {
+  const video = await fetchVideoByVideoId(videoId, workspaceTableOverrides(workspace));
+  if (!video) {
+    throw new VideoNotFoundError(videoId);
+  }
+  if (!video.TrashedAt) {
+    throw new VideoNotInTrashError(videoId);
+  }
+
+  await deleteVideo(videoId, workspaceMutationOverrides(workspace), options);
+}
+
+export async function listTrash(workspace: Workspace): Promise<TrashListing> {
+  const { enabled, retentionDays } = getTrashConfig();
+  if (!enabled) {
+    return { enabled, retentionDays, videos: [] };
+  }
+
+  const videos = await fetchAllVideos({
+    ...workspaceTableOverrides(workspace),
+    schema: trashItemSchema,
+    fields: trashItemFields,
+    sort: '-TrashedAt',
+    trash: 'only',
+  });
+
+  return {
+    enabled,
+    retentionDays,
+    videos: videos.map((video) => {
+      return {
+        Id: video.Id,
+        VideoID: video.VideoID ?? null,
+        Title: video.Title ?? null,
+        Channel: video.Channel ?? null,
+        ThumbHigh: video.ThumbHigh ?? null,
+        trashedAt: video.TrashedAt ? video.TrashedAt.toISOString() : null,
+        purgeAt:
+          retentionDays > 0 && video.TrashedAt
+            ? new Date(video.TrashedAt.getTime() + retentionDays * DAY_MS).toISOString()
+            : null,
+      };
+    }),
+  };
+}
+
+/**
+ * Permanently delete trashed videos; with `expiredOnly` just the ones whose
+ * `TrashedAt` is past the retention period. Returns one result per purged row.
+ */
+export async function emptyTrash(
+  workspace: Workspace,
+  { expiredOnly = false, now = new Date(), actor }: { expiredOnly?: boolean; now?: Date; actor?: string } = {},
+): Promise<VideoBatchItemResult[]> {
+  const { enabled, retentionDays } = getTrashConfig();
+  if (!enabled || (expiredOnly && retentionDays === 0)) {
+    return [];
+  }
+
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS).toISOString();
+  const videos = await fetchAllVideos({
+    ...workspaceTableOverrides(workspace),
+    schema: trashItemSchema,
+    fields: trashItemFields,
+    trash: 'only',
+    filter: expiredOnly ? { type: 'range', field: 'TrashedAt', lt: cutoff } : undefined,
+  });
+
+  if (videos.length === 0) {
+    return [];
+  }
+
+  return batchMutateVideos(
+    videos.map((video) => ({ op: 'delete' as const, id: video.Id })),
+    workspaceMutationOverrides(workspace),
+    { actor: actor ?? 'trash-retention' },
+  );
+}
+
+const lastSweepAt = new Map<string, number>();
+
+/**
+ * Fire-and-forget retention sweep, at most once an hour per workspace and
+ * process. Called from list routes so no separate scheduler is needed.
+ */
+export function scheduleTrashSweep(workspace: Workspace, now = Date.now()) {
+  const { enabled, retentionDays } = getTrashConfig();
+  if (!enabled || retentionDays === 0) {
+    return;
+  }
+
+  const last = lastSweepAt.get(workspace.id);
+  if (last !== undefined && now - last < SWEEP_INTERVAL_MS) {
+    return;
+  }
+  lastSweepAt.set(workspace.id, now);
+
+  emptyTrash(workspace, { expiredOnly: true, now: new Date(now) })
+    .then((results) => {
+      if (results.length > 0) {
+        logDevEvent({
+          message: 'Purged expired videos from trash',
+          payload: { workspace: workspace.id, purged: results.filter((result) => result.success).length },
+        });
+      }
+    })
+    .catch((error) => {
+      logDevError('Trash retention sweep failed', {
+        workspace: workspace.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+}
+
+/** Test helper: forget when each workspace was last swept. */
+export function resetTrashSweeps() {
+  lastSweepAt.clear();
+}
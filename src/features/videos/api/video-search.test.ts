@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { setVideoRepository, updateVideo, type VideoRepository } from './repository';
+import type { VideoSearchItem } from './schemas';
+import { createSearchIndex } from './search-index';
+import { SearchQuerySyntaxError } from '@/features/videos/utils/search-query';
+import { resetSearchIndexes, searchVideos } from './video-search';
+import {
+  analyzeQuery,
+  editDistance,
+  foldSearchText,
+  matchTerm,
+  stemEnglish,
+  stemGerman,
+} from '@/features/videos/utils/search-text';
+
+function video(overrides: Partial<VideoSearchItem> & { Id: number }): VideoSearchItem {
+  return { Title: null, ThumbHigh: null, VideoID: `v${overrides.Id}`, ...overrides } as VideoSearchItem;
+}
+
+describe('search text analysis', () => {
+  it('stems German and English word forms to shared terms', () => {
+    expect(stemGerman('zinsen')).toBe(stemGerman('zins'));
+    expect(stemGerman('zinssenkungen')).toBe(stemGerman('zinssenkung'));
+    expect(stemGerman('künstliche')).toBe(stemGerman('künstlich'));
+    expect(stemEnglish('rates')).toBe(stemEnglish('rate'));
+    expect(stemEnglish('investing')).toBe(stemEnglish('invest'));
+    expect(stemEnglish('policies')).toBe(stemEnglish('policy'));
+  });
+
+  it('drops stopwords and offers both stems per query word', () => {
+    expect(analyzeQuery('the Zinsen')).toEqual([['zin', 'zinsen']]);
+    expect(analyzeQuery('und')).toEqual([]);
+    expect(analyzeQuery('Für')).toEqual([]);
+  });
+
+  it('folds umlauts and accents', () => {
+    expect(foldSearchText('Münchner Straße')).toBe('muenchner strasse');
+    expect(foldSearchText('Café Señor')).toBe('cafe senor');
+    expect(analyzeQuery('München')).toEqual(analyzeQuery('Muenchen'));
+  });
+
+  it('matches prefixes and typos within a length-bounded edit distance', () => {
+    expect(editDistance('powel', 'powell')).toBe(1);
+    expect(editDistance('recieve', 'receive')).toBe(1);
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+    expect(matchTerm('powel', 'powell')).toBe(0.6);
+    expect(matchTerm('recieve', 'receive')).toBe(0.5);
+    expect(matchTerm('zinssenkungen', 'zinssenkung')).toBe(0.3);
+    expect(matchTerm('infl', 'inflat')).toBe(0.6);
+    expect(matchTerm('fed', 'red')).toBe(0);
+    expect(matchTerm('2024', '2025')).toBe(0);
+    expect(matchTerm('powel', 'powell', false)).toBe(0);
+  });
+});
+
+describe('createSearchIndex', () => {
+  const index = createSearchIndex<VideoSearchItem>();
+  index.upsert(video({ Id: 1, Title: 'Markets today', Description: 'Interest rates and inflation explained.' }));
+  index.upsert(video({ Id: 2, Title: 'Interest rates explained', Language: 'en' }));
+  index.upsert(video({ Id: 3, Title: 'Cooking pasta', TLDR: 'Rates do not matter here' }));
+  index.upsert(video({ Id: 4, Title: 'Die Zinsen steigen', Language: 'de', Hashtags: ['#zinsen'] }));
+
+  const ranked = (query: string, fields?: string[]) =>
+    index
+      .search(analyzeQuery(query), fields)
+      .sort((a, b) => b.score - a.score)
+      .map((hit) => hit.item.Id);
+
+  it('ranks title matches above TLDR above description', () => {
+    expect(ranked('rate')).toEqual([2, 3, 1]);
+  });
+
+  it('requires every word and honours the selected fields', () => {
+    expect(ranked('interest rates')).toEqual([2, 1]);
+    expect(ranked('interest', ['Description'])).toEqual([1]);
+    expect(ranked('Zins')).toEqual([4]);
+  });
+
+  it('finds typos and prefixes, scored below exact matches', () => {
+    const fuzzyIndex = createSearchIndex<VideoSearchItem>();
+    fuzzyIndex.upsert(video({ Id: 1, Title: 'Jerome Powell speaks', Language: 'en' }));
+    fuzzyIndex.upsert(video({ Id: 2, Title: 'Powel family recipes', Language: 'en' }));
+    fuzzyIndex.upsert(video({ Id: 3, Title: 'Inflation outlook', Language: 'en' }));
+
+    const hits = fuzzyIndex.search(analyzeQuery('Powel')).sort((a, b) => b.score - a.score);
+    expect(hits.map((hit) => hit.item.Id)).toEqual([2, 1]);
+    expect(fuzzyIndex.search(analyzeQuery('Powel'), undefined, { fuzzy: false }).map((hit) => hit.item.Id)).toEqual([2]);
+    expect(fuzzyIndex.search(analyzeQuery('infl')).map((hit) => hit.item.Id)).toEqual([3]);
+  });
+
+  it('forgets removed and replaced documents', () => {
+    index.upsert(video({ Id: 2, Title: 'Bond markets' }));
+    index.remove(4);
+
+    expect(ranked('interest')).toEqual([1]);
+    expect(ranked('zinsen')).toEqual([]);
+    expect(index.idForVideoId('v2')).toBe(2);
+  });
+});
+
+describe('searchVideos', () => {
+  let rows: VideoSearchItem[];
+  let walks: number;
+
+  beforeEach(() => {
+    resetSearchIndexes();
+    walks = 0;
+    rows = [
+      video({ Id: 1, Title: 'Startup funding', CreatedAt: new Date('2024-01-01') }),
+      video({ Id: 2, Title: 'Funding rounds', CreatedAt: new Date('2024-02-01') }),
+      video({ Id: 3, Title: 'Pasta', Description: 'No money talk' }),
+    ];
+
+    setVideoRepository({
+      kind: 'local',
+      async *iterateVideos(options: { filter?: { filters: Array<{ field: string; values: unknown[] }> } } = {}) {
+        walks += 1;
+        const ids = options.filter?.filters.find((filter) => filter.field === 'Id')?.values;
+        yield {
+          videos: ids ? rows.filter((row) => ids.includes(row.Id)) : rows,
+          pageInfo: { totalRows: rows.length, page: 1, pageSize: 100, isLastPage: true },
+        };
+      },
+      async updateVideo(id: number, data: Partial<VideoSearchItem>) {
+        const row = rows.find((candidate) => candidate.Id === id)!;
+        Object.assign(row, data);
+        return row;
+      },
+    } as unknown as VideoRepository);
+  });
+
+  afterEach(() => {
+    setVideoRepository(null);
+  });
+
+  it('builds the index once and breaks relevance ties with the sort spec', async () => {
+    const first = await searchVideos({ query: 'funding', limit: 10, offset: 0, sort: '-CreatedAt' });
+    const second = await searchVideos({ query: 'funding', limit: 1, offset: 1, sort: 'CreatedAt' });
+
+    expect(first).toEqual({ videos: [rows[1], rows[0]], total: 2 });
+    expect(second.videos.map((item) => item.Id)).toEqual([2]);
+    expect(walks).toBe(1);
+  });
+
+  it('evaluates the query language over the index', async () => {
+    const ids = async (query: string) =>
+      (await searchVideos({ query, limit: 10, offset: 0 })).videos.map((item) => item.Id);
+
+    expect(await ids('funding -startup')).toEqual([2]);
+    expect((await ids('pasta OR startup')).sort()).toEqual([1, 3]);
+    expect(await ids('-funding')).toEqual([3]);
+    expect(await ids('added:2024-02')).toEqual([2]);
+    await expect(searchVideos({ query: 'title:"funding', limit: 10, offset: 0 })).rejects.toBeInstanceOf(
+      SearchQuerySyntaxError,
+    );
+  });
+
+  it('ranks exact hits above typo hits', async () => {
+    rows.push(video({ Id: 4, Title: 'Startp is a typo' }));
+
+    const result = await searchVideos({ query: 'startp', limit: 10, offset: 0 });
+
+    expect(result.videos.map((item) => item.Id)).toEqual([4, 1]);
+  });
+
+  it('re-reads rows changed through the repository before the next search', async () => {
+    await searchVideos({ query: 'pasta', limit: 10, offset: 0 });
+
+    await updateVideo(3, { Title: 'Funding a pasta restaurant' } as never);
+    const result = await searchVideos({ query: 'funding', limit: 10, offset: 0 });
+
+    expect(result.videos.map((item) => item.Id)).toContain(3);
+    expect(walks).toBe(2);
+  });
+});
@@ -0,0 +1,287 @@
+import { searchFieldsForCategories, VIDEO_QUERY_FIELDS, VIDEO_SEARCH_BOOSTS } from './field-registry';
+import { VIDEO_SEARCH_FIELDS } from './fields';
+import { iterateVideos, type TableOverrides } from './repository';
+import { videoSearchItemSchema, type VideoSearchItem } from './schemas';
+import {
+  createSearchIndex,
+  requeueSearchIndexChanges,
+  resetSearchIndexChanges,
+  takeSearchIndexChanges,
+  trackSearchIndexChanges,
+  untrackSearchIndexChanges,
+  type SearchIndex,
+  type SearchIndexChange,
+} from './search-index';
+import { singleFlight } from './single-flight';
+import {
+  matchesSearchQuery,
+  parseSearchQuery,
+  positiveSearchTexts,
+  searchTextFields,
+  type SearchQueryNode,
+} from '@/features/videos/utils/search-query';
+import { analyzeQuery } from '@/features/videos/utils/search-text';
+import { compareBySortKeys, parseSortSpec, SORTABLE_VIDEO_FIELDS } from '@/features/videos/utils/video-sort';
+import { logDevError, logDevEvent } from '@/shared/utils/server-logger';
+
+/**
+ * Ranked full-text search over one table.
+ *
+ * The first search of a table reads it page by page into a `search-index.ts`
+ * index; afterwards only rows reported through `noteSearchIndexChanges`
+ * (mutations through the repository, NocoDB webhooks) are re-read before the
+ * next lookup. Edits made in NocoDB without a webhook are picked up by a full
+ * rebuild every `SEARCH_INDEX_REBUILD_MS`, which runs in the background while
+ * the previous index keeps answering.
+ */
+
+export const SEARCH_INDEX_REBUILD_MS = 30 * 60 * 1000;
+const SEARCH_INDEX_PAGE_SIZE = 100;
+const REFRESH_CHUNK_SIZE = 100;
+
+// Everything a query can test (`rating:`, `published:`, ...) or results can be sorted by.
+const SEARCH_INDEX_FIELDS = Array.from(
+  new Set([
+    ...VIDEO_SEARCH_FIELDS,
+    ...SORTABLE_VIDEO_FIELDS,
+    ...VIDEO_QUERY_FIELDS.flatMap((field) => field.fields),
+    'Language',
+  ]),
+);
+
+// Fields with postings in the index; text in other fields is only checked by `matchesSearchQuery`.
+const INDEXED_FIELDS = new Set<string>(Array.from(VIDEO_SEARCH_BOOSTS.keys()));
+
+interface IndexState {
+  index: SearchIndex<VideoSearchItem>;
+  builtAt: number;
+}
+
+const indexes = new Map<string, IndexState>();
+
+export interface SearchVideosOptions extends TableOverrides {
+  /** Query in the `search-query.ts` syntax. */
+  query: string;
+  /** Search categories (`title`, `person`, ...) for words without `field:`; all when empty. */
+  categories?: string[];
+  limit: number;
+  offset: number;
+  /** Orders results with equal relevance, e.g. `-CreatedAt`. */
+  sort?: string;
+}
+
+export interface SearchVideosResult {
+  videos: VideoSearchItem[];
+  total: number;
+}
+
+function indexKey(overrides: TableOverrides): string {
+  return [overrides.ncProjectId, overrides.ncTableId, overrides.ncTableName].map((part) => part ?? '').join(':');
+}
+
+function tableOverrides({ ncProjectId, ncTableId, ncTableName }: TableOverrides): TableOverrides {
+  return { ncProjectId, ncTableId, ncTableName };
+}
+
+async function buildIndex(key: string, overrides: TableOverrides): Promise<SearchIndex<VideoSearchItem>> {
+  trackSearchIndexChanges(key);
+  // Rows changed while the walk runs may have been read before the change;
+  // they are queued separately and re-read before the new index goes live.
+  const walkKey = `${key}:walk`;
+  trackSearchIndexChanges(walkKey);
+  const startedAt = Date.now();
+  const index = createSearchIndex<VideoSearchItem>();
+
+  try {
+    for await (const page of iterateVideos({
+      fields: SEARCH_INDEX_FIELDS,
+      schema: videoSearchItemSchema,
+      pageSize: SEARCH_INDEX_PAGE_SIZE,
+      concurrency: 2,
+      ...overrides,
+    })) {
+      page.videos.forEach((video) => index.upsert(video));
+    }
+    await applyChanges(index, takeSearchIndexChanges(walkKey), overrides);
+  } finally {
+    untrackSearchIndexChanges(walkKey);
+  }
+
+  indexes.set(key, { index, builtAt: Date.now() });
+  void logDevEvent({
+    message: 'searchVideos: index built',
+    payload: { key, documents: index.size, durationMs: Date.now() - startedAt },
+  });
+  return index;
+}
+
+/** Re-read the queued rows; rows that are gone (or trashed) leave the index. */
+async function applyChanges(
+  index: SearchIndex<VideoSearchItem>,
+  changes: SearchIndexChange[],
+  overrides: TableOverrides,
+) {
+  if (changes.length === 0) return;
+
+  const ids = new Set<number>();
+  const videoIds = new Set<string>();
+  changes.forEach(({ id, videoId }) => {
+    const known = id ?? (videoId ? index.idForVideoId(videoId) : undefined);
+    if (known != null) ids.add(known);
+    else if (videoId) videoIds.add(videoId);
+  });
+
+  const idList = Array.from(ids);
+  const videoIdList = Array.from(videoIds);
+  for (let start = 0; start < Math.max(idList.length, videoIdList.length); start += REFRESH_CHUNK_SIZE) {
+    const idChunk = idList.slice(start, start + REFRESH_CHUNK_SIZE);
+    const videoIdChunk = videoIdList.slice(start, start + REFRESH_CHUNK_SIZE);
+    const found = new Set<number>();
+
+    for await (const page of iterateVideos({
+      fields: SEARCH_INDEX_FIELDS,
+      schema: videoSearchItemSchema,
+      pageSize: REFRESH_CHUNK_SIZE * 2,
+      filter: {
+        type: 'or',
+        filters: [
+          ...(idChunk.length > 0 ? [{ type: 'in' as const, field: 'Id' as const, values: idChunk }] : []),
+          ...(videoIdChunk.length > 0 ? [{ type: 'in' as const, field: 'VideoID' as const, values: videoIdChunk }] : []),
+        ],
+      },
+      ...overrides,
+    })) {
+      page.videos.forEach((video) => {
+        found.add(video.Id);
+        index.upsert(video);
+      });
+    }
+
+    idChunk.filter((id) => !found.has(id)).forEach((id) => index.remove(id));
+  }
+}
+
+async function getIndex(overrides: TableOverrides): Promise<SearchIndex<VideoSearchItem>> {
+  const key = indexKey(overrides);
+  const state = indexes.get(key);
+  const flightKey = `searchIndex:${key}`;
+
+  if (!state) {
+    return singleFlight(`${flightKey}:build`, () => buildIndex(key, overrides));
+  }
+
+  if (Date.now() - state.builtAt > SEARCH_INDEX_REBUILD_MS) {
+    void singleFlight(`${flightKey}:build`, () => buildIndex(key, overrides)).catch((error) => {
+      void logDevError('searchVideos: background rebuild failed', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  const index = state.index;
+  await singleFlight(`${flightKey}:refresh`, async () => {
+    const changes = takeSearchIndexChanges(key);
+    try {
+      await applyChanges(index, changes, overrides);
+    } catch (error) {
+      // Answer from the slightly stale index and retry with the next search.
+      void logDevError('searchVideos: applying changes failed', {
+        key,
+        changes: changes.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      requeueSearchIndexChanges(key, changes);
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Document ids the query can match, from the index postings; `null` when the
+ * index cannot narrow it (negations, ranges, fields outside the index).
+ */
+function candidateIds(
+  index: SearchIndex<VideoSearchItem>,
+  node: SearchQueryNode,
+  fields: readonly string[],
+): Set<number> | null {
+  switch (node.type) {
+    case 'text': {
+      const words = analyzeQuery(node.value);
+      const targets = searchTextFields(node, fields);
+      if (words.length === 0 || !targets.every((field) => INDEXED_FIELDS.has(field))) return null;
+      return new Set(index.search(words, targets).map((hit) => hit.item.Id));
+    }
+    case 'and': {
+      const sets = node.nodes.map((child) => candidateIds(index, child, fields)).filter((set): set is Set<number> => !!set);
+      if (sets.length === 0) return null;
+      return new Set(Array.from(sets[0]).filter((id) => sets.every((set) => set.has(id))));
+    }
+    case 'or': {
+      const sets = node.nodes.map((child) => candidateIds(index, child, fields));
+      if (sets.some((set) => set === null)) return null;
+      return new Set(sets.flatMap((set) => Array.from(set!)));
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Search results for a `search-query.ts` query. Matching is decided by
+ * `matchesSearchQuery`, exactly as offline search does; the index only narrows
+ * the candidates and scores the words that are not negated (BM25F, see
+ * `search-index.ts`). Exact hits rank above prefix and typo hits, and equal
+ * scores follow `sort`.
+ *
+ * Throws `SearchQuerySyntaxError` for malformed queries.
+ */
+export async function searchVideos(options: SearchVideosOptions): Promise<SearchVideosResult> {
+  const query = parseSearchQuery(options.query);
+  if (!query) {
+    return { videos: [], total: 0 };
+  }
+
+  const index = await getIndex(tableOverrides(options));
+  const fields = searchFieldsForCategories(options.categories ?? []);
+
+  const scores = new Map<number, number>();
+  positiveSearchTexts(query).forEach((node) => {
+    analyzeQuery(node.value).forEach((word) => {
+      index.search([word], searchTextFields(node, fields)).forEach(({ item, score }) => {
+        scores.set(item.Id, (scores.get(item.Id) ?? 0) + score);
+      });
+    });
+  });
+
+  const candidates = candidateIds(index, query, fields);
+  const items = candidates ? Array.from(candidates).map((id) => index.get(id)!) : index.items();
+  const sortKeys = parseSortSpec(options.sort);
+  const matches = items
+    .filter((item) => matchesSearchQuery(query, item, { fields }))
+    .map((item) => ({
+      item,
+      exact: matchesSearchQuery(query, item, { fields, fuzzy: false }),
+      score: scores.get(item.Id) ?? 0,
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.exact) - Number(a.exact) ||
+        b.score - a.score ||
+        compareBySortKeys(a.item as Record<string, unknown>, b.item as Record<string, unknown>, sortKeys) ||
+        a.item.Id - b.item.Id,
+    );
+
+  return {
+    videos: matches.slice(options.offset, options.offset + options.limit).map((match) => match.item),
+    total: matches.length,
+  };
+}
+
+/** Drop every index and change queue (tests). */
+export function resetSearchIndexes() {
+  indexes.clear();
+  resetSearchIndexChanges();
+}
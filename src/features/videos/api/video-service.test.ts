@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { startMockNocoDB, type MockNocoDBServer } from '@/__mocks__/nocodb/server';
+
+import { clearAllCache, invalidateCacheTag, tableCacheTag } from './cache';
+import { resetTableMetadataCaches } from './table-metadata';
+import { fetchAllVideos, fetchVideos } from './video-service';
+
+describe('video list cache', () => {
+  let server: MockNocoDBServer;
+
+  beforeAll(async () => {
+    server = await startMockNocoDB();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    clearAllCache();
+    resetTableMetadataCaches();
+    vi.stubEnv('NC_URL', server.url);
+    vi.stubEnv('NC_TOKEN', server.token);
+    vi.stubEnv('NOCODB_PROJECT_ID', server.projectId);
+    // Addressed by title; webhooks report the table id.
+    vi.stubEnv('NOCODB_TABLE_ID', 'youtubeTranscripts');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const renameOutsideTheApp = async (id: number, Title: string) => {
+    const response = await fetch(`${server.url}/api/v2/tables/${server.tableId}/records`, {
+      method: 'PATCH',
+      headers: { 'xc-token': server.token, 'content-type': 'application/json' },
+      body: JSON.stringify({ Id: id, Title }),
+    });
+    expect(response.ok).toBe(true);
+  };
+
+  const titleOf = (videos: Array<{ Id: number; Title?: string | null }>, id: number) =>
+    videos.find((video) => video.Id === id)?.Title;
+
+  it('shares entries between table aliases and drops them with the resolved table tag', async () => {
+    const byTitle = await fetchVideos({ limit: 25, sort: 'Id' });
+    const all = await fetchAllVideos({ sort: 'Id' });
+    await renameOutsideTheApp(1, 'Renamed in NocoDB');
+
+    const byId = await fetchVideos({ limit: 25, sort: 'Id', ncTableId: server.tableId });
+    expect(titleOf(byId.videos, 1)).toBe(titleOf(byTitle.videos, 1));
+    expect(titleOf(await fetchAllVideos({ sort: 'Id' }), 1)).toBe(titleOf(all, 1));
+
+    invalidateCacheTag(tableCacheTag(server.tableId));
+
+    expect(titleOf((await fetchVideos({ limit: 25, sort: 'Id' })).videos, 1)).toBe('Renamed in NocoDB');
+    expect(titleOf(await fetchAllVideos({ sort: 'Id' }), 1)).toBe('Renamed in NocoDB');
+  });
+
+  it('keeps rows parsed with different schemas apart', async () => {
+    const plain = z.object({ Id: z.number(), Title: z.string().nullable() });
+    const shouted = plain.transform((video) => ({ ...video, Title: video.Title?.toUpperCase() ?? null }));
+    const fields = ['Id', 'Title'];
+
+    const first = await fetchAllVideos({ sort: 'Id', fields, schema: plain });
+    const second = await fetchAllVideos({ sort: 'Id', fields, schema: shouted });
+
+    expect(second[0].Title).toBe(first[0].Title?.toUpperCase());
+    expect(second[0].Title).not.toBe(first[0].Title);
+  });
+});
@@ -1,9 +1,15 @@
 import { z } from 'zod';
 
 import { apiClient, toRequestError } from './http-client';
-import { getNocoDBConfig } from './config';
+import { getNocoDBConfig, getTrashConfig, type NocoDBConfig } from './config';
 import { resolveTableIdentifiers } from './table-metadata';
-import { getFromCache, setInCache } from './cache';
+import {
+  getFromCache,
+  getOrRevalidate,
+  setInCache,
+  tableCacheTag,
+  VIDEO_LIST_CACHE_TAG,
+} from './cache';
 import {
   createNocoDBResponseSchema,
   videoSchema,
@@ -11,7 +17,26 @@ import {
   type Video,
 } from './schemas';
 import { fetchSingleVideo } from './record-utils';
+import { singleFlight } from './single-flight';
 import { NocoDBValidationError } from './errors';
+import { combineWhereClauses, compileVideoFilter, withTrashFilter } from './filters';
+import type {
+  FetchAllVideosOptions,
+  FetchVideosOptions,
+  IterateVideosOptions,
+  TableOverrides,
+  VideoNavigationData,
+  VideoPage,
+} from './repository';
+import { paginateVideos } from './video-stream';
+import {
+  readLinkedRecords,
+  searchLinkedRecordOptions,
+  type LinkedRecordField,
+  type LinkedRecordRef,
+  type LinkedRecordValues,
+} from './linked-records';
+import { formatSortSpec, parseSortSpec } from '@/features/videos/utils/video-sort';
 import { logDevEvent } from '@/shared/utils/server-logger';
 
 const DEFAULT_PAGE_SIZE = 25;
@@ -66,40 +91,83 @@ function buildTagFilter(query?: string): string | undefined {
   return searchWords.map((word) => `(Hashtags,ilike,%${word}%)`).join('~and');
 }
 
+/**
+ * Sort param for NocoDB: the caller's spec with `Id` appended as a
+ * tiebreaker, so list pages and prev/next agree on rows with equal keys (the
+ * local repository breaks ties the same way).
+ */
+function toNocoDBSort(sort?: string): string | undefined {
+  const keys = parseSortSpec(sort);
+  if (keys.length === 0) {
+    return undefined;
+  }
+
+  if (!keys.some(({ field }) => field === 'Id')) {
+    keys.push({ field: 'Id', direction: 'asc' });
+  }
+  return formatSortSpec(keys);
+}
+
+const schemaCacheIds = new WeakMap<z.ZodTypeAny, number>();
+let nextSchemaCacheId = 0;
+
+/** Stable per-schema token for cache keys: rows parsed with different schemas must not share an entry. */
+function schemaCacheId(schema: z.ZodTypeAny | undefined): number {
+  const key = schema ?? videoSchema;
+  let id = schemaCacheIds.get(key);
+  if (id === undefined) {
+    id = ++nextSchemaCacheId;
+    schemaCacheIds.set(key, id);
+  }
+  return id;
+}
+
+/**
+ * Cache scope of a list read: the resolved table id (so a table addressed by
+ * title or id shares entries) and its tag, which webhooks invalidate with the
+ * same id.
+ */
+async function listCacheScope(config: NocoDBConfig) {
+  const { resolvedTableId } = await resolveTableIdentifiers(config);
+  return {
+    key: { url: config.url, project: config.projectId, table: resolvedTableId },
+    tags: [VIDEO_LIST_CACHE_TAG, tableCacheTag(resolvedTableId)],
+  };
+}
+
 export async function fetchVideos<T extends z.ZodTypeAny>(
-  options: {
-    sort?: string;
-    limit?: number;
-    page?: number;
-    fields?: string[];
-    schema?: T;
-    ncProjectId?: string;
-    ncTableId?: string;
-    ncTableName?: string;
-    tagSearchQuery?: string;
-  } = {},
+  options: FetchVideosOptions<T> = {},
 ): Promise<{ videos: z.infer<T>[]; pageInfo: PageInfo }> {
+  const config = getNocoDBConfig(toConfigOverrides(options));
+  const scope = await listCacheScope(config);
   const cacheKey = JSON.stringify({
     sort: options.sort,
     limit: options.limit || DEFAULT_PAGE_SIZE,
     page: options.page || 1,
     fields: options.fields,
     tagSearchQuery: options.tagSearchQuery,
-    project: options.ncProjectId,
-    table: options.ncTableId,
+    filter: options.filter,
+    trash: options.trash,
+    schema: schemaCacheId(options.schema),
+    ...scope.key,
   });
 
-  const cached = getFromCache<{ videos: z.infer<T>[]; pageInfo: PageInfo }>(cacheKey);
-  if (cached) {
-    return cached;
-  }
-
-  const config = getNocoDBConfig({
-    projectId: options.ncProjectId,
-    tableId: options.ncTableId,
-    tableName: options.ncTableName,
-  });
+  // List pages are served stale-while-revalidate: a few minutes of lag on a
+  // list is fine, and mutations invalidate the list tag right away anyway.
+  // Concurrent identical reads (home page, autocomplete, /api/search) share
+  // one in-flight request, including background refreshes.
+  return getOrRevalidate(
+    cacheKey,
+    () => singleFlight(`fetchVideos:${cacheKey}`, () => loadVideoPage<T>(config, options)),
+    { tags: scope.tags },
+  );
+}
 
+async function loadVideoPage<T extends z.ZodTypeAny>(
+  config: NocoDBConfig,
+  options: FetchVideosOptions<T>,
+  signal?: AbortSignal,
+): Promise<{ videos: z.infer<T>[]; pageInfo: PageInfo }> {
   const { resolvedTableId } = await resolveTableIdentifiers(config);
 
   const limit = options.limit || DEFAULT_PAGE_SIZE;
@@ -112,10 +180,13 @@ export async function fetchVideos<T extends z.ZodTypeAny>(
   const params: Record<string, string | number | undefined> = {
     limit,
     offset,
-    sort: options.sort,
+    sort: toNocoDBSort(options.sort),
   };
 
-  const where = buildTagFilter(options.tagSearchQuery);
+  const where = combineWhereClauses(
+    buildTagFilter(options.tagSearchQuery),
+    compileVideoFilter(withTrashFilter(options.filter, options.trash)),
+  );
   if (where) {
     params.where = where;
   }
@@ -138,6 +209,7 @@ export async function fetchVideos<T extends z.ZodTypeAny>(
         {
           headers: { 'xc-token': config.token },
           params: requestParams,
+          signal,
         },
       );
 
@@ -149,13 +221,10 @@ export async function fetchVideos<T extends z.ZodTypeAny>(
         );
       }
 
-      const result = {
+      return {
         videos: parsedResponse.data.list as z.infer<T>[],
         pageInfo: parsedResponse.data.pageInfo,
       };
-
-      setInCache(cacheKey, result);
-      return result;
     } catch (error) {
       lastError = error;
 
@@ -163,6 +232,10 @@ export async function fetchVideos<T extends z.ZodTypeAny>(
         throw error;
       }
 
+      if (signal?.aborted) {
+        throw signal.reason ?? error;
+      }
+
       const isAxiosError = (candidate: unknown): candidate is { response?: { status?: number; data?: unknown } } =>
         typeof candidate === 'object' && candidate !== null;
 
@@ -194,7 +267,7 @@ export async function fetchVideos<T extends z.ZodTypeAny>(
           continue;
         }
 
-        const emptyResult = {
+        return {
           videos: [],
           pageInfo: {
             totalRows: 0,
@@ -206,9 +279,6 @@ export async function fetchVideos<T extends z.ZodTypeAny>(
             hasPreviousPage: page > 1,
           },
         } satisfies { videos: z.infer<T>[]; pageInfo: PageInfo };
-
-        setInCache(cacheKey, emptyResult);
-        return emptyResult;
       }
 
       break;
@@ -223,21 +293,17 @@ export async function fetchVideos<T extends z.ZodTypeAny>(
 }
 
 export async function fetchAllVideos<T extends z.ZodTypeAny = typeof videoSchema>(
-  options: {
-    sort?: string;
-    fields?: string[];
-    schema?: T;
-    ncProjectId?: string;
-    ncTableId?: string;
-    ncTableName?: string;
-    tagSearchQuery?: string;
-  } = {},
+  options: FetchAllVideosOptions<T> = {},
 ): Promise<z.infer<T>[]> {
+  const scope = await listCacheScope(getNocoDBConfig(toConfigOverrides(options)));
   const cacheKey = JSON.stringify({
     sort: options.sort,
     fields: options.fields,
-    project: options.ncProjectId,
-    table: options.ncTableId,
+    tagSearchQuery: options.tagSearchQuery,
+    filter: options.filter,
+    trash: options.trash,
+    schema: schemaCacheId(options.schema),
+    ...scope.key,
   });
 
   const cached = getFromCache<z.infer<T>[]>(cacheKey);
@@ -245,85 +311,108 @@ export async function fetchAllVideos<T extends z.ZodTypeAny = typeof videoSchema
     return cached;
   }
 
+  return singleFlight(`fetchAllVideos:${cacheKey}`, () => loadAllVideos<T>(cacheKey, scope.tags, options));
+}
+
+async function loadAllVideos<T extends z.ZodTypeAny>(
+  cacheKey: string,
+  tags: string[],
+  options: FetchAllVideosOptions<T>,
+): Promise<z.infer<T>[]> {
   const pageSize = options.fields ? 50 : DEFAULT_PAGE_SIZE;
   const schemaToUse = (options.schema || videoSchema) as T;
 
-  const fetchOptions: Omit<{
-    sort?: string;
-    limit?: number;
-    page?: number;
-    fields?: string[];
-    schema?: T;
-    ncProjectId?: string;
-    ncTableId?: string;
-    ncTableName?: string;
-    tagSearchQuery?: string;
-  }, 'schema'> = {
-    sort: options.sort,
-    limit: pageSize,
-    fields: options.fields,
-    ncProjectId: options.ncProjectId,
-    ncTableId: options.ncTableId,
-    ncTableName: options.ncTableName,
-    tagSearchQuery: options.tagSearchQuery,
-  };
-
-  const { videos: firstPage, pageInfo } = await fetchVideos<T>({
-    ...fetchOptions,
-    schema: schemaToUse,
-    page: 1,
-    limit: pageSize,
-  });
-
-  const allItems: z.infer<T>[] = [...firstPage];
-  const totalPages = Math.ceil(pageInfo.totalRows / pageSize);
+  // Pages go through the cached `fetchVideos` so a full scan also warms the
+  // list cache for the home page and autocomplete.
+  const pages = paginateVideos<z.infer<T>>(
+    (page, limit) =>
+      fetchVideos<T>({
+        sort: options.sort,
+        fields: options.fields,
+        ncProjectId: options.ncProjectId,
+        ncTableId: options.ncTableId,
+        ncTableName: options.ncTableName,
+        tagSearchQuery: options.tagSearchQuery,
+        filter: options.filter,
+        trash: options.trash,
+        schema: schemaToUse,
+        page,
+        limit,
+      }),
+    { pageSize, concurrency: 5 },
+  );
 
-  if (totalPages <= 1) {
-    setInCache(cacheKey, allItems);
-    return allItems;
+  const allItems: z.infer<T>[] = [];
+  for await (const { videos } of pages) {
+    allItems.push(...videos);
   }
 
-  const pages: number[] = [];
-  for (let p = 2; p <= totalPages; p += 1) {
-    pages.push(p);
-  }
+  setInCache(cacheKey, allItems, { tags });
+  return allItems;
+}
 
-  const concurrency = 5;
-  for (let i = 0; i < pages.length; i += concurrency) {
-    const batch = pages.slice(i, i + concurrency);
-    const results = await Promise.all(
-      batch.map((pageNum) =>
-        fetchVideos<T>({
-          ...fetchOptions,
-          schema: schemaToUse,
-          page: pageNum,
-          limit: pageSize,
-        }).then((r) => r.videos),
-      ),
-    );
-    results.forEach((list) => allItems.push(...list));
-  }
+/**
+ * Stream every matching row page by page without loading the whole table.
+ * Requests bypass the list cache and request coalescing so `signal` only
+ * ever cancels this caller's requests.
+ */
+export async function* iterateVideos<T extends z.ZodTypeAny = typeof videoSchema>(
+  options: IterateVideosOptions<T> = {},
+): AsyncGenerator<VideoPage<z.infer<T>>, void, undefined> {
+  const { pageSize, concurrency, signal, ...queryOptions } = options;
+  const config = getNocoDBConfig({
+    projectId: options.ncProjectId,
+    tableId: options.ncTableId,
+    tableName: options.ncTableName,
+  });
 
-  setInCache(cacheKey, allItems);
-  return allItems;
+  yield* paginateVideos<z.infer<T>>(
+    (page, limit, pageSignal) => loadVideoPage<T>(config, { ...queryOptions, page, limit }, pageSignal),
+    { pageSize, concurrency, signal },
+  );
+}
+
+function toConfigOverrides(overrides?: TableOverrides) {
+  return {
+    projectId: overrides?.ncProjectId,
+    tableId: overrides?.ncTableId,
+    tableName: overrides?.ncTableName,
+  };
 }
 
 export async function fetchVideoByVideoId(
   videoId: string,
-  overrides?: { ncProjectId?: string; ncTableId?: string; ncTableName?: string },
+  overrides?: TableOverrides,
 ): Promise<Video | null> {
   const record = await fetchSingleVideo(videoId, 'videoId', {
     cache: true,
-    configOverrides: {
-      projectId: overrides?.ncProjectId,
-      tableId: overrides?.ncTableId,
-      tableName: overrides?.ncTableName,
-    },
+    configOverrides: toConfigOverrides(overrides),
   });
 
   return record ?? null;
 }
 
+/** Linked records of a video, read from the link endpoints; `null` when the video does not exist. */
+export async function fetchLinkedRecords(
+  videoId: string,
+  overrides?: TableOverrides,
+): Promise<LinkedRecordValues | null> {
+  const config = getNocoDBConfig(toConfigOverrides(overrides));
+  const { resolvedTableId } = await resolveTableIdentifiers(config);
+  const record = await fetchVideoByVideoId(videoId, overrides);
+  return record ? readLinkedRecords(config, resolvedTableId, record) : null;
+}
+
+export async function searchLinkedRecords(
+  field: LinkedRecordField,
+  query: string,
+  overrides?: TableOverrides,
+): Promise<LinkedRecordRef[]> {
+  const config = getNocoDBConfig(toConfigOverrides(overrides));
+  const { resolvedTableId } = await resolveTableIdentifiers(config);
+  return searchLinkedRecordOptions(config, resolvedTableId, field, query);
+}
+
 interface NavigationRecord {
   Id: string | number;
   VideoID?: string | null;
@@ -344,8 +433,10 @@ async function fetchNavigationRecords(
       headers: { 'xc-token': config.token },
       params: {
         fields: 'Id,VideoID,Title',
-        sort,
+        sort: toNocoDBSort(sort),
         limit,
+        // Trashed videos are skipped when stepping through the list.
+        where: getTrashConfig().enabled ? '(TrashedAt,blank)' : undefined,
       },
     },
   );
@@ -362,11 +453,9 @@ async function fetchNavigationRecords(
 export async function getSimpleNavigationData(
   currentVideoId: string,
   sort: string = '-CreatedAt',
-): Promise<{
-  previousVideoData: { Id: string; Title: string | null } | null;
-  nextVideoData: { Id: string; Title: string | null } | null;
-}> {
-  const records = await fetchNavigationRecords({}, sort, 50);
+  overrides?: TableOverrides,
+): Promise<VideoNavigationData> {
+  const records = await fetchNavigationRecords(toConfigOverrides(overrides), sort, 50);
   const currentIndex = records.findIndex((record) => record.VideoID === currentVideoId);
 
   if (currentIndex === -1) {
@@ -395,27 +484,24 @@ export async function getSimpleNavigationData(
 export async function getVideoNavigationData(
   currentVideoId: string,
   sort: string = '-CreatedAt',
-): Promise<{
-  previousVideoData: { Id: string; Title: string | null } | null;
-  nextVideoData: { Id: string; Title: string | null } | null;
-}> {
-  const cacheKey = `nav_${currentVideoId}_${sort}`;
-  const cached = getFromCache<{
-    previousVideoData: { Id: string; Title: string | null } | null;
-    nextVideoData: { Id: string; Title: string | null } | null;
-  }>(cacheKey);
+  overrides?: TableOverrides,
+): Promise<VideoNavigationData> {
+  const configOverrides = toConfigOverrides(overrides);
+  const scope = await listCacheScope(getNocoDBConfig(configOverrides));
+  const cacheKey = JSON.stringify({ nav: currentVideoId, sort, ...scope.key });
+  const cached = getFromCache<VideoNavigationData>(cacheKey);
 
   if (cached) {
     return cached;
   }
 
-  const currentVideo = await fetchSingleVideo(currentVideoId, 'videoId', { cache: true });
+  const currentVideo = await fetchSingleVideo(currentVideoId, 'videoId', { cache: true, configOverrides });
   if (!currentVideo) {
-    setInCache(cacheKey, { previousVideoData: null, nextVideoData: null });
+    setInCache(cacheKey, { previousVideoData: null, nextVideoData: null }, { tags: scope.tags });
     return { previousVideoData: null, nextVideoData: null };
   }
 
-  const records = await fetchNavigationRecords({}, sort, 1000);
+  const records = await fetchNavigationRecords(configOverrides, sort, 1000);
   const currentIndex = records.findIndex((record) => {
     if (typeof record.Id === 'number') {
       return record.Id === currentVideo.Id;
@@ -424,7 +510,7 @@ export async function getVideoNavigationData(
   });
 
   if (currentIndex === -1) {
-    setInCache(cacheKey, { previousVideoData: null, nextVideoData: null });
+    setInCache(cacheKey, { previousVideoData: null, nextVideoData: null }, { tags: scope.tags });
     return { previousVideoData: null, nextVideoData: null };
   }
 
@@ -445,6 +531,6 @@ export async function getVideoNavigationData(
       : null;
 
   const result = { previousVideoData, nextVideoData };
-  setInCache(cacheKey, result);
+  setInCache(cacheKey, result, { tags: scope.tags });
   return result;
 }
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import type { VideoPage } from './repository';
+import { paginateVideos } from './video-stream';
+
+function pageOf(page: number, pageSize: number, totalRows: number): VideoPage<number> {
+  const start = (page - 1) * pageSize;
+  const videos = Array.from({ length: Math.max(0, Math.min(pageSize, totalRows - start)) }, (_, i) => start + i);
+  const isLastPage = start + pageSize >= totalRows;
+  return {
+    videos,
+    pageInfo: {
+      totalRows,
+      page,
+      pageSize,
+      isFirstPage: page === 1,
+      isLastPage,
+      hasNextPage: !isLastPage,
+      hasPreviousPage: page > 1,
+    },
+  };
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('paginateVideos', () => {
+  it('yields every page in order while limiting requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const requested: number[] = [];
+
+    const pages = paginateVideos<number>(
+      async (page, pageSize) => {
+        requested.push(page);
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // Later pages resolve first to prove the output stays ordered.
+        await new Promise((resolve) => setTimeout(resolve, page === 2 ? 10 : 1));
+        inFlight -= 1;
+        return pageOf(page, pageSize, 23);
+      },
+      { pageSize: 5, concurrency: 2 },
+    );
+
+    const rows: number[] = [];
+    for await (const { videos } of pages) {
+      rows.push(...videos);
+    }
+
+    expect(rows).toEqual(Array.from({ length: 23 }, (_, i) => i));
+    expect(requested).toEqual([1, 2, 3, 4, 5]);
+    expect(maxInFlight).toBeLessThanOrEqual(2);
+  });
+
+  it('cancels prefetched pages when the consumer stops early', async () => {
+    const signals: AbortSignal[] = [];
+    const pending = deferred<VideoPage<number>>();
+
+    const pages = paginateVideos<number>(
+      (page, pageSize, signal) => {
+        signals.push(signal);
+        return page === 1 ? Promise.resolve(pageOf(1, pageSize, 100)) : pending.promise;
+      },
+      { pageSize: 10, concurrency: 3 },
+    );
+
+    for await (const { pageInfo } of pages) {
+      expect(pageInfo.page).toBe(1);
+      break;
+    }
+
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it('stops with the abort reason once the caller aborts', async () => {
+    const controller = new AbortController();
+    const pages = paginateVideos<number>(async (page, pageSize) => pageOf(page, pageSize, 30), {
+      pageSize: 10,
+      signal: controller.signal,
+    });
+
+    const seen: number[] = [];
+    await expect(
+      (async () => {
+        for await (const { pageInfo } of pages) {
+          seen.push(pageInfo.page);
+          controller.abort(new Error('client went away'));
+        }
+      })(),
+    ).rejects.toThrow('client went away');
+    expect(seen).toEqual([1]);
+  });
+});
@@ -0,0 +1,89 @@
+import type { VideoPage } from './repository';
+
+export const DEFAULT_STREAM_PAGE_SIZE = 50;
+export const DEFAULT_STREAM_CONCURRENCY = 3;
+
+export interface VideoStreamOptions {
+  pageSize?: number;
+  concurrency?: number;
+  signal?: AbortSignal;
+}
+
+export type VideoPageLoader<T> = (page: number, pageSize: number, signal: AbortSignal) => Promise<VideoPage<T>>;
+
+function throwIfAborted(signal: AbortSignal) {
+  if (signal.aborted) {
+    throw signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+  }
+}
+
+/**
+ * Walk a paginated source page by page. Up to `concurrency` pages are
+ * requested ahead of the consumer, but pages are always yielded in order, so
+ * memory stays bounded by `pageSize * concurrency` rows.
+ *
+ * Aborting `signal` (or leaving a `for await` loop early) cancels every page
+ * still in flight through the signal handed to `loadPage`. Offsets are
+ * computed up front from the first page's `totalRows`; rows inserted while a
+ * long walk runs may shift between pages.
+ */
+export async function* paginateVideos<T>(
+  loadPage: VideoPageLoader<T>,
+  { pageSize = DEFAULT_STREAM_PAGE_SIZE, concurrency = DEFAULT_STREAM_CONCURRENCY, signal }: VideoStreamOptions = {},
+): AsyncGenerator<VideoPage<T>, void, undefined> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    forwardAbort();
+  } else {
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+  }
+
+  const size = Math.max(1, Math.floor(pageSize));
+  const ahead = Math.max(1, Math.floor(concurrency));
+  const inFlight = new Map<number, Promise<VideoPage<T>>>();
+
+  try {
+    throwIfAborted(controller.signal);
+    const first = await loadPage(1, size, controller.signal);
+    const totalPages = first.pageInfo.isLastPage ? 1 : Math.ceil(first.pageInfo.totalRows / size);
+
+    let nextToRequest = 2;
+    // Keep the window full before handing a page to the consumer, so the next
+    // pages download while the current one is processed.
+    const fillWindow = () => {
+      while (inFlight.size < ahead && nextToRequest <= totalPages && !controller.signal.aborted) {
+        const request = loadPage(nextToRequest, size, controller.signal);
+        // Prefetched pages may fail before we await them; the error still
+        // surfaces when their turn comes.
+        request.catch(() => undefined);
+        inFlight.set(nextToRequest, request);
+        nextToRequest += 1;
+      }
+    };
+
+    fillWindow();
+    yield first;
+
+    for (let page = 2; page <= totalPages; page += 1) {
+      throwIfAborted(controller.signal);
+      fillWindow();
+
+      const result = await inFlight.get(page)!;
+      inFlight.delete(page);
+
+      if (result.videos.length === 0) {
+        // The table shrank since the first page was read.
+        return;
+      }
+
+      fillWindow();
+      yield result;
+    }
+  } finally {
+    signal?.removeEventListener('abort', forwardAbort);
+    if (inFlight.size > 0) {
+      controller.abort();
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+import { clearAllCache, getFromCache, setInCache, VIDEO_LIST_CACHE_TAG, videoCacheTag } from './cache';
+import { getChangeFeedCursor, getVideoChangesSince, resetChangeFeed } from './change-feed';
+import { InvalidWebhookPayloadError } from './errors';
+import { applyNocoDBWebhook, isValidWebhookSecret, parseNocoDBWebhook } from './webhooks';
+
+describe('NocoDB webhooks', () => {
+  beforeEach(() => {
+    clearAllCache();
+    resetChangeFeed();
+  });
+
+  it('parses v2 single and bulk record events', () => {
+    const update = parseNocoDBWebhook({
+      type: 'records.after.update',
+      data: {
+        table_id: 'm_videos',
+        table_name: 'Videos',
+        previous_rows: [{ Id: 7, VideoID: 'old-id' }],
+        rows: [{ Id: 7, VideoID: 'new-id', Title: 'Edited' }],
+      },
+    });
+    expect(update).toMatchObject({ type: 'update', tableId: 'm_videos', rows: [{ Id: 7 }], previousRows: [{ VideoID: 'old-id' }] });
+
+    const bulkDelete = parseNocoDBWebhook({ type: 'records.after.bulkDelete', data: { table_id: 'm_videos', rows: [{ Id: 1 }, { Id: 2 }] } });
+    expect(bulkDelete.type).toBe('delete');
+    expect(bulkDelete.rows).toHaveLength(2);
+  });
+
+  it('accepts the legacy shape with the row directly in data', () => {
+    const insert = parseNocoDBWebhook({ type: 'records.after.insert', data: { Id: 3, VideoID: 'abc' } });
+    expect(insert.rows).toEqual([{ Id: 3, VideoID: 'abc' }]);
+  });
+
+  it('rejects unrelated events and malformed bodies', () => {
+    expect(() => parseNocoDBWebhook({ type: 'view.after.update', data: {} })).toThrow(InvalidWebhookPayloadError);
+    expect(() => parseNocoDBWebhook('nope')).toThrow(InvalidWebhookPayloadError);
+  });
+
+  it('compares secrets exactly', () => {
+    expect(isValidWebhookSecret('s3cret', 's3cret')).toBe(true);
+    expect(isValidWebhookSecret('s3cret-but-longer', 's3cret')).toBe(false);
+    expect(isValidWebhookSecret(null, 's3cret')).toBe(false);
+  });
+
+  it('purges the touched records and lists and records the change', () => {
+    setInCache('record:m_videos:old-id', { Id: 7 }, { tags: [videoCacheTag('old-id'), videoCacheTag('7')] });
+    setInCache('list-page', [{ Id: 7 }], { tags: [VIDEO_LIST_CACHE_TAG] });
+    setInCache('unrelated', { Id: 8 }, { tags: [videoCacheTag('8')] });
+    const cursor = getChangeFeedCursor();
+
+    const recorded = applyNocoDBWebhook(
+      parseNocoDBWebhook({
+        type: 'records.after.update',
+        data: {
+          table_id: 'm_videos',
+          previous_rows: [{ Id: 7, VideoID: 'old-id' }],
+          rows: [{ Id: 7, VideoID: 'new-id' }],
+        },
+      }),
+    );
+
+    expect(getFromCache('record:m_videos:old-id')).toBeNull();
+    expect(getFromCache('list-page')).toBeNull();
+    expect(getFromCache('unrelated')).not.toBeNull();
+    expect(recorded).toHaveLength(1);
+
+    const feed = getVideoChangesSince(cursor, { tableIds: ['m_videos'] });
+    expect(feed.reset).toBe(false);
+    expect(feed.changes).toMatchObject([{ type: 'update', id: 7, videoId: 'new-id', tableId: 'm_videos' }]);
+    expect(getVideoChangesSince(cursor, { tableIds: ['m_other'] }).changes).toEqual([]);
+    expect(getVideoChangesSince(feed.cursor).changes).toEqual([]);
+  });
+
+  it('asks clients to reload when their cursor is unknown or fell out of the window', () => {
+    resetChangeFeed(2);
+    const cursor = getChangeFeedCursor();
+    applyNocoDBWebhook(parseNocoDBWebhook({ type: 'records.after.bulkInsert', data: { rows: [{ Id: 1 }, { Id: 2 }, { Id: 3 }] } }));
+
+    expect(getVideoChangesSince(cursor).reset).toBe(true);
+    expect(getVideoChangesSince('other-process:1').reset).toBe(true);
+  });
+});
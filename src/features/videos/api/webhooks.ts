@@ -0,0 +1,114 @@
+import { timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+
+import { invalidateCacheTags, tableCacheTag, VIDEO_LIST_CACHE_TAG } from './cache';
+import { recordVideoChanges, type VideoChange, type VideoChangeType } from './change-feed';
+import { InvalidWebhookPayloadError } from './errors';
+import { purgeVideoFromCache, type VideoRecordWithRowMeta } from './record-utils';
+import { noteSearchIndexChanges } from './search-index';
+
+/** Header NocoDB sends the shared secret in (configured on the webhook). */
+export const WEBHOOK_SECRET_HEADER = 'x-webhook-secret';
+
+export interface NocoDBWebhookEvent {
+  type: VideoChangeType;
+  tableId: string | null;
+  tableName: string | null;
+  rows: Array<Record<string, unknown>>;
+  /** Rows before an update; their VideoID may differ from the new one. */
+  previousRows: Array<Record<string, unknown>>;
+}
+
+const rowSchema = z.record(z.unknown());
+const rowsSchema = z.preprocess(
+  (value) => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]),
+  z.array(rowSchema),
+);
+
+// NocoDB v2 hooks send `{ type, data: { table_id, table_name, rows, previous_rows } }`;
+// older releases put the single row directly in `data`.
+const webhookSchema = z.object({
+  type: z.string(),
+  data: z
+    .object({
+      table_id: z.string().optional(),
+      table_name: z.string().optional(),
+      rows: rowsSchema.optional(),
+      previous_rows: rowsSchema.optional(),
+    })
+    .passthrough(),
+});
+
+const EVENT_TYPE_PATTERN = /^records\.after\.(?:bulk)?(insert|update|delete)$/i;
+
+export function isValidWebhookSecret(provided: string | null, expected: string): boolean {
+  if (!provided) {
+    return false;
+  }
+
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  return providedBuffer.length === expectedBuffer.length && timingSafeEqual(providedBuffer, expectedBuffer);
+}
+
+export function parseNocoDBWebhook(body: unknown): NocoDBWebhookEvent {
+  const parsed = webhookSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new InvalidWebhookPayloadError('Webhook payload is not a NocoDB record event', parsed.error.issues);
+  }
+
+  const match = EVENT_TYPE_PATTERN.exec(parsed.data.type);
+  if (!match) {
+    throw new InvalidWebhookPayloadError(`Unsupported webhook event "${parsed.data.type}"`);
+  }
+
+  const { table_id: tableId, table_name: tableName, rows, previous_rows: previousRows, ...legacyRow } =
+    parsed.data.data;
+
+  return {
+    type: match[1].toLowerCase() as VideoChangeType,
+    tableId: tableId ?? null,
+    tableName: tableName ?? null,
+    rows: rows ?? (Object.keys(legacyRow).length > 0 ? [legacyRow] : []),
+    previousRows: previousRows ?? [],
+  };
+}
+
+function toRowIdentity(row: Record<string, unknown>): { id: number | null; videoId: string | null } {
+  const rawId = row.Id ?? row.id;
+  const id = typeof rawId === 'number' ? rawId : Number.isInteger(Number(rawId)) && rawId !== '' ? Number(rawId) : null;
+  const videoId = typeof row.VideoID === 'string' && row.VideoID.trim() ? row.VideoID.trim() : null;
+  return { id, videoId };
+}
+
+/**
+ * Drop every cache entry the event touches, queue the rows for the search
+ * index and append them to the change feed, where clients and offline sync
+ * pick them up. Returns the recorded changes.
+ */
+export function applyNocoDBWebhook(event: NocoDBWebhookEvent): VideoChange[] {
+  [...event.rows, ...event.previousRows].forEach((row) => {
+    const { id, videoId } = toRowIdentity(row);
+    if (id === null && videoId === null) return;
+
+    purgeVideoFromCache({ ...row, Id: id ?? undefined, VideoID: videoId } as VideoRecordWithRowMeta);
+  });
+
+  invalidateCacheTags([VIDEO_LIST_CACHE_TAG, event.tableId ? tableCacheTag(event.tableId) : null]);
+
+  // Some NocoDB releases only send `previous_rows` for deletes.
+  const changedRows = event.rows.length > 0 ? event.rows : event.previousRows;
+  const seen = new Set<string>();
+  const changes = changedRows
+    .map(toRowIdentity)
+    .filter(({ id, videoId }) => {
+      const key = `${id}:${videoId}`;
+      if ((id === null && videoId === null) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ id, videoId }) => ({ type: event.type, id, videoId, tableId: event.tableId }));
+
+  noteSearchIndexChanges(changes);
+  return recordVideoChanges(changes);
+}
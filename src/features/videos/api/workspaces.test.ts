@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { UnknownWorkspaceError } from './errors';
+import {
+  getWorkspaces,
+  listPublicWorkspaces,
+  resolveWorkspace,
+  workspaceMutationOverrides,
+  workspaceTableOverrides,
+} from './workspaces';
+
+const configured = [
+  { id: 'research', name: 'Research', projectId: 'p_research', tableId: 'm_research', tableName: 'research_videos' },
+  { id: 'archive', tableId: 'm_archive' },
+];
+
+describe('workspaces', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('always offers the default workspace first', () => {
+    vi.stubEnv('NOCODB_WORKSPACES', JSON.stringify(configured));
+
+    expect(getWorkspaces().map((workspace) => workspace.id)).toEqual(['default', 'research', 'archive']);
+    expect(resolveWorkspace(null)).toEqual({ id: 'default', name: 'Default' });
+    expect(resolveWorkspace('archive').name).toBe('archive');
+  });
+
+  it('maps a workspace to read and mutation overrides', () => {
+    vi.stubEnv('NOCODB_WORKSPACES', JSON.stringify(configured));
+    const workspace = resolveWorkspace('research');
+
+    expect(workspaceTableOverrides(workspace)).toEqual({
+      ncProjectId: 'p_research',
+      ncTableId: 'm_research',
+      ncTableName: 'research_videos',
+    });
+    expect(workspaceMutationOverrides(workspace)).toEqual({
+      projectId: 'p_research',
+      tableId: 'm_research',
+      tableName: 'research_videos',
+    });
+    // The default workspace leaves the env configuration untouched.
+    expect(workspaceTableOverrides(resolveWorkspace('default'))).toEqual({
+      ncProjectId: undefined,
+      ncTableId: undefined,
+      ncTableName: undefined,
+    });
+  });
+
+  it('rejects unknown ids instead of falling back to another table', () => {
+    vi.stubEnv('NOCODB_WORKSPACES', JSON.stringify(configured));
+
+    expect(() => resolveWorkspace('missing')).toThrow(UnknownWorkspaceError);
+  });
+
+  it('does not expose table identifiers to the browser', () => {
+    vi.stubEnv('NOCODB_WORKSPACES', JSON.stringify(configured));
+
+    expect(listPublicWorkspaces()).toEqual([
+      { id: 'default', name: 'Default', isDefault: true },
+      { id: 'research', name: 'Research', isDefault: false },
+      { id: 'archive', name: 'archive', isDefault: false },
+    ]);
+  });
+
+  it('fails loudly on malformed configuration', () => {
+    vi.stubEnv('NOCODB_WORKSPACES', '{not json');
+    expect(() => getWorkspaces()).toThrow(/JSON array/);
+
+    vi.stubEnv('NOCODB_WORKSPACES', JSON.stringify([{ id: 'a', tableId: 'm1' }, { id: 'a', tableId: 'm2' }]));
+    expect(() => getWorkspaces()).toThrow(/Duplicate workspace id "a"/);
+
+    vi.stubEnv('NOCODB_WORKSPACES', JSON.stringify([{ id: 'no spaces', tableId: 'm1' }]));
+    expect(() => getWorkspaces()).toThrow(/Invalid NOCODB_WORKSPACES entry at 0.id/);
+  });
+});
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+
+import { UnknownWorkspaceError } from './errors';
+import type { MutationOverrides, TableOverrides } from './repository';
+
+/** Query parameter (and offline-sync body field) that selects a workspace. */
+export const WORKSPACE_PARAM = 'workspace';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+/**
+ * A named NocoDB project/table pair the UI can switch between at runtime.
+ * The default workspace always exists and maps to `NOCODB_PROJECT_ID` /
+ * `NOCODB_TABLE_ID`, so single-table setups need no extra configuration.
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  projectId?: string;
+  tableId?: string;
+  tableName?: string;
+}
+
+/** What the browser gets to see: ids and labels, never table identifiers. */
+export interface PublicWorkspace {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
+const workspaceSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .min(1)
+    .regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Workspace ids may only contain letters, digits, "-" and "_"'),
+  name: z.string().trim().min(1).optional(),
+  projectId: z.string().trim().min(1).optional(),
+  tableId: z.string().trim().min(1),
+  tableName: z.string().trim().min(1).optional(),
+});
+
+/** Shape of `NOCODB_WORKSPACES`; also checked by the boot-time env validation. */
+export const workspaceListSchema = z.array(workspaceSchema);
+
+function parseConfiguredWorkspaces(raw: string): Workspace[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error('NOCODB_WORKSPACES must be a JSON array of { id, name, tableId, projectId?, tableName? }.');
+  }
+
+  const parsed = workspaceListSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid NOCODB_WORKSPACES entry at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+
+  return parsed.data.map((entry) => ({ ...entry, name: entry.name ?? entry.id }));
+}
+
+/**
+ * Resolve the configured workspaces. Read on every call so env changes apply
+ * without a rebuild; the default workspace is listed first unless
+ * `NOCODB_WORKSPACES` redefines the `default` id itself.
+ */
+export function getWorkspaces(): Workspace[] {
+  const raw = process.env.NOCODB_WORKSPACES?.trim();
+  const configured = raw ? parseConfiguredWorkspaces(raw) : [];
+
+  const seen = new Set<string>();
+  configured.forEach((workspace) => {
+    if (seen.has(workspace.id)) {
+      throw new Error(`Duplicate workspace id "${workspace.id}" in NOCODB_WORKSPACES.`);
+    }
+    seen.add(workspace.id);
+  });
+
+  if (seen.has(DEFAULT_WORKSPACE_ID)) {
+    return configured;
+  }
+
+  const defaultWorkspace: Workspace = {
+    id: DEFAULT_WORKSPACE_ID,
+    name: process.env.NOCODB_DEFAULT_WORKSPACE_NAME?.trim() || 'Default',
+  };
+
+  return [defaultWorkspace, ...configured];
+}
+
+export function listPublicWorkspaces(): PublicWorkspace[] {
+  return getWorkspaces().map((workspace) => ({
+    id: workspace.id,
+    name: workspace.name,
+    isDefault: workspace.id === DEFAULT_WORKSPACE_ID,
+  }));
+}
+
+/**
+ * Look up a workspace by id. A missing or empty id selects the default
+ * workspace; an id that is not configured throws `UnknownWorkspaceError`.
+ */
+export function resolveWorkspace(id?: string | null): Workspace {
+  const requested = id?.trim() || DEFAULT_WORKSPACE_ID;
+  const workspace = getWorkspaces().find((entry) => entry.id === requested);
+
+  if (!workspace) {
+    throw new UnknownWorkspaceError(requested);
+  }
+
+  return workspace;
+}
+
+/** Overrides for list/detail reads (`fetchVideos`, `fetchVideoByVideoId`, navigation). */
+export function workspaceTableOverrides(workspace: Workspace): TableOverrides {
+  return {
+    ncProjectId: workspace.projectId,
+    ncTableId: workspace.tableId,
+    ncTableName: workspace.tableName,
+  };
+}
+
+/** Overrides for `updateVideo` / `deleteVideo`. */
+export function workspaceMutationOverrides(workspace: Workspace): MutationOverrides {
+  return {
+    projectId: workspace.projectId,
+    tableId: workspace.tableId,
+    tableName: workspace.tableName,
+  };
+}
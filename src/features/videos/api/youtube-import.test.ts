@@ -0,0 +1,112 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+const { getInfo } = vi.hoisted(() => ({ getInfo: vi.fn() }));
+
+vi.mock('ytdl-core', async (importOriginal) => {
+  const { default: actual } = await importOriginal<{ default: typeof import('ytdl-core') }>();
+  return { default: { ...actual, getInfo } };
+});
+
+import { InvalidYouTubeVideoError, VideoAlreadyExistsError, VideoInTrashError, YouTubeMetadataError } from './errors';
+import { createLocalVideoRepository } from './local-repository';
+import { setVideoRepository } from './repository';
+import { importYouTubeVideo, parseYouTubeVideoId } from './youtube-import';
+import { resolveWorkspace } from './workspaces';
+
+describe('parseYouTubeVideoId', () => {
+  it('accepts bare ids and the common URL forms', () => {
+    expect(parseYouTubeVideoId(' dQw4w9WgXcQ ')).toBe('dQw4w9WgXcQ');
+    expect(parseYouTubeVideoId('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42')).toBe('dQw4w9WgXcQ');
+    expect(parseYouTubeVideoId('https://youtu.be/dQw4w9WgXcQ')).toBe('dQw4w9WgXcQ');
+    expect(() => parseYouTubeVideoId('https://vimeo.com/123')).toThrow(InvalidYouTubeVideoError);
+    expect(() => parseYouTubeVideoId('not a video')).toThrow(InvalidYouTubeVideoError);
+  });
+});
+
+describe('importYouTubeVideo', () => {
+  let dir: string;
+  let filePath: string;
+  const workspace = resolveWorkspace();
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'yt-viewer-import-'));
+    filePath = join(dir, 'videos.json');
+    await writeFile(
+      filePath,
+      JSON.stringify([
+        { Id: 3, VideoID: 'ccccccccccc', Title: 'Trashed', TrashedAt: '2026-10-01T00:00:00.000Z' },
+        { Id: 4, VideoID: 'aaaaaaaaaaa', Title: 'Known' },
+      ]),
+      'utf8',
+    );
+    setVideoRepository(createLocalVideoRepository({ filePath }));
+    getInfo.mockReset().mockResolvedValue({
+      videoDetails: {
+        videoId: 'dQw4w9WgXcQ',
+        title: 'Never Gonna Give You Up',
+        author: { name: 'Rick Astley' },
+        ownerChannelName: 'Rick Astley',
+        lengthSeconds: '213',
+        publishDate: '2009-10-25',
+        uploadDate: '2009-10-25',
+        thumbnails: [
+          { url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/default.jpg', width: 120, height: 90 },
+          { url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg', width: 1280, height: 720 },
+        ],
+      },
+    });
+  });
+
+  afterEach(async () => {
+    setVideoRepository(null);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores the YouTube metadata as a new row', async () => {
+    const video = await importYouTubeVideo('https://youtu.be/dQw4w9WgXcQ', workspace, { actor: 'test' });
+
+    expect(getInfo).toHaveBeenCalledWith('https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+    expect(video).toMatchObject({
+      Id: 5,
+      VideoID: 'dQw4w9WgXcQ',
+      URL: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      Title: 'Never Gonna Give You Up',
+      Channel: 'Rick Astley',
+      Duration: 213,
+      ThumbHigh: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/maxresdefault.jpg',
+    });
+    expect(video.PublishedAt?.toISOString()).toBe('2009-10-25T00:00:00.000Z');
+
+    const stored = JSON.parse(await readFile(filePath, 'utf8')) as Array<Record<string, unknown>>;
+    expect(stored.map((record) => record.VideoID)).toEqual(['ccccccccccc', 'aaaaaaaaaaa', 'dQw4w9WgXcQ']);
+  });
+
+  it('refuses duplicates before asking YouTube and reports lookup failures', async () => {
+    const duplicate = importYouTubeVideo('https://www.youtube.com/watch?v=aaaaaaaaaaa', workspace);
+    await expect(duplicate).rejects.toBeInstanceOf(VideoAlreadyExistsError);
+    await expect(duplicate).rejects.not.toBeInstanceOf(VideoInTrashError);
+    await expect(duplicate).rejects.toMatchObject({ existing: { Id: 4, Title: 'Known' } });
+    expect(getInfo).not.toHaveBeenCalled();
+
+    getInfo.mockRejectedValueOnce(new Error('Video unavailable'));
+    await expect(importYouTubeVideo('bbbbbbbbbbb', workspace)).rejects.toBeInstanceOf(YouTubeMetadataError);
+  });
+
+  it('reports a trashed copy as in the trash rather than in the library', async () => {
+    const trashed = importYouTubeVideo('https://youtu.be/ccccccccccc', workspace);
+    await expect(trashed).rejects.toBeInstanceOf(VideoInTrashError);
+    await expect(trashed).rejects.toMatchObject({
+      message: 'Video ccccccccccc is in the trash',
+      existing: { Id: 3, Title: 'Trashed' },
+    });
+    expect(getInfo).not.toHaveBeenCalled();
+  });
+});
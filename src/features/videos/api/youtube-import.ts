@@ -0,0 +1,83 @@
+import ytdl, { type videoInfo } from 'ytdl-core';
+
+import { duplicateVideoError, InvalidYouTubeVideoError, YouTubeMetadataError } from './errors';
+import { createVideo, fetchVideoByVideoId, type MutationOptions } from './repository';
+import type { VideoRecordWithRowMeta } from './record-utils';
+import type { Video } from './schemas';
+import { workspaceMutationOverrides, workspaceTableOverrides, type Workspace } from './workspaces';
+import { logDevEvent } from '@/shared/utils/server-logger';
+
+export const buildYouTubeVideoUrl = (videoId: string) => `https://www.youtube.com/watch?v=${videoId}`;
+
+/** Accepts a bare id or any URL form ytdl understands (watch, youtu.be, embed, shorts). */
+export function parseYouTubeVideoId(input: string): string {
+  const value = input.trim();
+  if (ytdl.validateID(value)) {
+    return value;
+  }
+
+  try {
+    const videoId = ytdl.getURLVideoID(value);
+    if (ytdl.validateID(videoId)) {
+      return videoId;
+    }
+  } catch {
+    // Not a YouTube URL; reported below.
+  }
+
+  throw new InvalidYouTubeVideoError(input);
+}
+
+/** Map `ytdl.getInfo` details onto the columns of a new library row. */
+export function toNewVideoRecord(info: videoInfo): Partial<Video> {
+  const details = info.videoDetails;
+  const videoId = details.videoId;
+  const largestThumbnail = [...details.thumbnails].sort((a, b) => b.width * b.height - a.width * a.height)[0];
+  const duration = Number.parseInt(details.lengthSeconds, 10);
+  const publishedAt = details.publishDate || details.uploadDate;
+
+  return {
+    VideoID: videoId,
+    URL: buildYouTubeVideoUrl(videoId),
+    Title: details.title,
+    Channel: details.author?.name || details.ownerChannelName || null,
+    Duration: Number.isFinite(duration) && duration > 0 ? duration : null,
+    PublishedAt: publishedAt ? new Date(publishedAt) : null,
+    ThumbHigh: largestThumbnail?.url ?? `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+  };
+}
+
+/**
+ * Add a YouTube video to the workspace's table. The id is checked against the
+ * library before YouTube is asked, so re-adding a known video is cheap; the
+ * repository checks again right before inserting. A trashed copy is reported
+ * as `VideoInTrashError` so the caller can offer a restore instead.
+ */
+export async function importYouTubeVideo(
+  input: string,
+  workspace: Workspace,
+  options: MutationOptions = {},
+): Promise<VideoRecordWithRowMeta> {
+  const videoId = parseYouTubeVideoId(input);
+
+  const existing = await fetchVideoByVideoId(videoId, workspaceTableOverrides(workspace));
+  if (existing) {
+    throw duplicateVideoError(videoId, existing);
+  }
+
+  let info: videoInfo;
+  try {
+    info = await ytdl.getInfo(buildYouTubeVideoUrl(videoId));
+  } catch (error) {
+    throw new YouTubeMetadataError(videoId, error instanceof Error ? error.message : String(error));
+  }
+
+  const video = await createVideo(toNewVideoRecord(info), workspaceMutationOverrides(workspace), options);
+
+  void logDevEvent({
+    message: 'importYouTubeVideo: video added',
+    payload: { videoId, workspace: workspace.id, recordId: video.Id },
+  });
+
+  return video;
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { Loader2, Plus, X } from 'lucide-react';
+
+import type { Video } from '@/features/videos/api/schemas';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+
+interface AddVideoDialogProps {
+  /** Called after the server stored the new video. */
+  onAdded?: (video: Video) => void;
+}
+
+const VIDEO_IN_TRASH_PROBLEM = 'urn:yt-viewer:problem:video-in-trash';
+
+type AddVideoStatus =
+  | { kind: 'idle' }
+  | { kind: 'error'; message: string }
+  | { kind: 'added' | 'duplicate' | 'trashed'; video: Video };
+
+/**
+ * "Add video" button plus the dialog behind it. Posts the pasted YouTube URL
+ * or id to `/api/videos`; the server fetches the metadata and refuses videos
+ * that are already in the workspace, pointing at the trash for trashed ones.
+ */
+export function AddVideoDialog({ onAdded }: AddVideoDialogProps) {
+  const { withWorkspace } = useWorkspace();
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [status, setStatus] = useState<AddVideoStatus>({ kind: 'idle' });
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    inputRef.current?.focus();
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open]);
+
+  const openDialog = () => {
+    setUrl('');
+    setStatus({ kind: 'idle' });
+    setOpen(true);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!url.trim() || submitting) return;
+
+    setSubmitting(true);
+    setStatus({ kind: 'idle' });
+    try {
+      const response = await fetch(withWorkspace('/api/videos'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: url.trim() }),
+      });
+      const result = await response.json();
+
+      if (response.status === 409 && result.existing) {
+        setStatus({ kind: result.type === VIDEO_IN_TRASH_PROBLEM ? 'trashed' : 'duplicate', video: result.existing });
+      } else if (!result.success) {
+        throw new Error(result.details || result.error || 'Failed to add video');
+      } else {
+        setUrl('');
+        setStatus({ kind: 'added', video: result.video });
+        onAdded?.(result.video);
+      }
+    } catch (error) {
+      setStatus({ kind: 'error', message: error instanceof Error ? error.message : 'Failed to add video' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button size="sm" variant="secondary" onClick={openDialog}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add video
+      </Button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+          onClick={() => setOpen(false)}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="add-video-title"
+            className="w-full max-w-md rounded-lg bg-neutral-800 p-5 shadow-xl"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <div className="mb-4 flex items-center justify-between">
+              <h2 id="add-video-title" className="text-lg font-semibold text-neutral-100">
+                Add video
+              </h2>
+              <button
+                onClick={() => setOpen(false)}
+                aria-label="Close"
+                className="p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-700"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <Input
+                ref={inputRef}
+                value={url}
+                onChange={(event) => setUrl(event.target.value)}
+                placeholder="https://www.youtube.com/watch?v=..."
+                disabled={submitting}
+                aria-label="YouTube URL or video ID"
+                className="text-neutral-100"
+              />
+
+              {status.kind === 'error' && <p className="text-sm text-red-400">{status.message}</p>}
+              {status.kind === 'duplicate' && (
+                <p className="text-sm text-amber-300">
+                  Already in the library:{' '}
+                  <Link href={withWorkspace(`/video/${status.video.VideoID}`)} className="underline">
+                    {status.video.Title || status.video.VideoID}
+                  </Link>
+                </p>
+              )}
+              {status.kind === 'trashed' && (
+                <p className="text-sm text-amber-300">
+                  {status.video.Title || status.video.VideoID} is in the trash.{' '}
+                  <Link href={withWorkspace('/trash')} className="underline">
+                    Restore it from the trash
+                  </Link>
+                </p>
+              )}
+              {status.kind === 'added' && (
+                <p className="text-sm text-green-400">
+                  Added{' '}
+                  <Link href={withWorkspace(`/video/${status.video.VideoID}`)} className="underline">
+                    {status.video.Title || status.video.VideoID}
+                  </Link>
+                </p>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" size="sm" variant="ghost" onClick={() => setOpen(false)}>
+                  Close
+                </Button>
+                <Button type="submit" size="sm" disabled={submitting || !url.trim()}>
+                  {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Add
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -2,3 +2,6 @@ export { VideoCard } from './video-card';
 export { VideoListClient } from './video-list-client';
 export { SortDropdown } from './sort-dropdown';
 export { StarRating } from './StarRating';
+export { VideoHistoryPanel } from './video-history-panel';
+export { LinkedRecordEditors } from './linked-record-editor';
+export { AddVideoDialog } from './add-video-dialog';
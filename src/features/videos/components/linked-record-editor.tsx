@@ -0,0 +1,204 @@
+'use client';
+
+import { useCallback, useEffect, useState, type KeyboardEvent } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+
+import type {
+  LinkedRecordField,
+  LinkedRecordInput,
+  LinkedRecordRef,
+  LinkedRecordValues,
+} from '@/features/videos/api/linked-records';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
+
+const EDITED_FIELDS: LinkedRecordField[] = ['Tags', 'Categories', 'Persons', 'Companies', 'Institutions'];
+
+interface LinkedRecordEditorsProps {
+  videoId: string;
+  /** Persist a field; the server links items by `Id` and finds or creates the rest by `Title`. */
+  onSave: (field: LinkedRecordField, items: LinkedRecordInput[]) => Promise<void>;
+  disabled?: boolean;
+}
+
+interface TagFieldEditorProps {
+  field: LinkedRecordField;
+  items: LinkedRecordRef[];
+  disabled: boolean;
+  onChange: (items: LinkedRecordRef[]) => void;
+}
+
+function TagFieldEditor({ field, items, disabled, onChange }: TagFieldEditorProps) {
+  const { withWorkspace } = useWorkspace();
+  const [draft, setDraft] = useState('');
+  const [suggestions, setSuggestions] = useState<LinkedRecordRef[]>([]);
+  const listId = `linked-${field}-options`;
+
+  useEffect(() => {
+    const query = draft.trim();
+    if (query.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          withWorkspace(`/api/linked-records?field=${field}&q=${encodeURIComponent(query)}`),
+          { signal: controller.signal },
+        );
+        const result = await response.json();
+        if (result.success) {
+          setSuggestions(result.options);
+        }
+      } catch {
+        // Suggestions are optional; typing a new title still works.
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [draft, field, withWorkspace]);
+
+  const addDraft = () => {
+    const title = draft.trim();
+    if (!title) return;
+    setDraft('');
+    if (items.some((item) => item.Title.toLowerCase() === title.toLowerCase())) return;
+
+    const existing = suggestions.find((option) => option.Title.toLowerCase() === title.toLowerCase());
+    onChange([...items, existing ?? { Id: null, Title: title }]);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault();
+      addDraft();
+    } else if (event.key === 'Backspace' && draft === '' && items.length > 0) {
+      onChange(items.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-neutral-400 mb-1">{field}</h4>
+      <div className="flex flex-wrap items-center gap-1.5 rounded-md bg-neutral-900/60 p-2">
+        {items.map((item) => (
+          <span
+            key={`${item.Id ?? 'new'}:${item.Title}`}
+            className="inline-flex items-center gap-1 rounded-full bg-neutral-700 px-2 py-0.5 text-xs text-neutral-100"
+          >
+            {item.Title}
+            <button
+              onClick={() => onChange(items.filter((candidate) => candidate !== item))}
+              disabled={disabled}
+              aria-label={`Remove ${item.Title}`}
+              className="text-neutral-400 hover:text-white disabled:opacity-50"
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        <input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={addDraft}
+          disabled={disabled}
+          list={listId}
+          placeholder={`Add ${field.toLowerCase()}...`}
+          className="min-w-[6rem] flex-1 bg-transparent text-sm text-neutral-100 placeholder:text-neutral-500 focus:outline-none"
+        />
+        <datalist id={listId}>
+          {suggestions.map((option) => (
+            <option key={`${option.Id}:${option.Title}`} value={option.Title} />
+          ))}
+        </datalist>
+        {draft.trim() && (
+          <button onClick={addDraft} disabled={disabled} aria-label={`Add ${field}`} className="text-neutral-400 hover:text-white">
+            <Plus size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Tag-style editors for the video's linked records. Values are loaded from
+ * `/api/videos/[videoId]/links`; every change is saved right away and rolled
+ * back if the save fails.
+ */
+export function LinkedRecordEditors({ videoId, onSave, disabled = false }: LinkedRecordEditorsProps) {
+  const { withWorkspace } = useWorkspace();
+  const [values, setValues] = useState<LinkedRecordValues | null>(null);
+  const [saving, setSaving] = useState<LinkedRecordField | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch(withWorkspace(`/api/videos/${encodeURIComponent(videoId)}/links`));
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.details || result.error || 'Failed to load linked records');
+      }
+      setValues(result.links);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load linked records');
+    }
+  }, [videoId, withWorkspace]);
+
+  useEffect(() => {
+    void loadLinks();
+  }, [loadLinks]);
+
+  const handleChange = async (field: LinkedRecordField, items: LinkedRecordRef[]) => {
+    const previous = values;
+    setValues((current) => ({ ...current, [field]: items }));
+    setSaving(field);
+    setError(null);
+    try {
+      await onSave(
+        field,
+        items.map(({ Id, Title }) => (Id === null ? { Title } : { Id, Title })),
+      );
+      // Reload so newly created records show up with their ids.
+      await loadLinks();
+    } catch (saveError) {
+      setValues(previous);
+      setError(saveError instanceof Error ? saveError.message : `Failed to save ${field}`);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const fields = EDITED_FIELDS.filter((field) => values?.[field] !== undefined);
+
+  return (
+    <div className="p-4 bg-neutral-800 rounded-lg shadow">
+      <h3 className="text-lg font-semibold mb-3 text-neutral-300 flex items-center gap-2">
+        Linked Records
+        {saving && <Loader2 size={16} className="animate-spin text-neutral-400" />}
+      </h3>
+      {error && <p className="mb-2 text-sm text-red-400">{error}</p>}
+      {!values && !error && <p className="text-sm text-neutral-500">Loading...</p>}
+      {values && fields.length === 0 && (
+        <p className="text-sm text-neutral-500 italic">This table has no linked-record fields.</p>
+      )}
+      <div className="space-y-3">
+        {fields.map((field) => (
+          <TagFieldEditor
+            key={field}
+            field={field}
+            items={values?.[field] ?? []}
+            disabled={disabled || saving !== null}
+            onChange={(items) => void handleChange(field, items)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
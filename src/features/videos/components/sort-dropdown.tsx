@@ -11,38 +11,24 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/shared/components/ui/select";
+import {
+  DEFAULT_VIDEO_SORT,
+  describeVideoSort,
+  normalizeVideoSort,
+  VIDEO_SORT_OPTIONS,
+} from "@/features/videos/utils/video-sort";
 
 const SORT_STORAGE_KEY = "yt-viewer-sort-preference";
 
-interface SortOption {
-  value: string;
-  label: string;
-}
-
-const sortOptions: SortOption[] = [
-  { value: "Title", label: "Title: A-Z" },
-  { value: "-Title", label: "Title: Z-A" },
-  { value: "Channel", label: "Channel: A-Z" },
-  { value: "-Channel", label: "Channel: Z-A" },
-  { value: "-ImportanceRating", label: "Importance: High to Low" },
-  { value: "ImportanceRating", label: "Importance: Low to High" },
-  { value: "-CreatedAt", label: "Date Added: Newest First" },
-  { value: "CreatedAt", label: "Date Added: Oldest First" },
-  { value: "-UpdatedAt", label: "Date Updated: Newest First" },
-  { value: "UpdatedAt", label: "Date Updated: Oldest First" },
-];
-
 export function SortDropdown() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const mounted = useMounted();
 
   const getInitialSort = () => {
-    if (typeof window === "undefined") return "-CreatedAt";
-    return (
-      searchParams.get("sort") ||
-      sessionStorage.getItem(SORT_STORAGE_KEY) ||
-      "-CreatedAt"
+    if (typeof window === "undefined") return DEFAULT_VIDEO_SORT;
+    return normalizeVideoSort(
+      searchParams.get("sort") || sessionStorage.getItem(SORT_STORAGE_KEY),
     );
   };
 
@@ -67,30 +53,33 @@ export function SortDropdown() {
       searchParams.get("sort") &&
       searchParams.get("sort") !== currentSort
     ) {
-      const sort = searchParams.get("sort");
-      if (sort) {
+      const sort = normalizeVideoSort(searchParams.get("sort"));
+      if (sort !== currentSort) {
         setCurrentSort(sort);
         sessionStorage.setItem(SORT_STORAGE_KEY, sort);
       }
     }
   }, [mounted, searchParams, currentSort]);
 
+  // Compound specs from a shared link may not be a preset; list them too so
+  // the trigger shows them and they can be picked again.
+  const options = VIDEO_SORT_OPTIONS.some((option) => option.value === currentSort)
+    ? VIDEO_SORT_OPTIONS
+    : [...VIDEO_SORT_OPTIONS, { value: currentSort, label: describeVideoSort(currentSort) }];
+
   return (
     <Select
-      value={mounted ? currentSort : "-CreatedAt"}
+      value={mounted ? currentSort : DEFAULT_VIDEO_SORT}
       onValueChange={handleSortChange}
       disabled={!mounted}
     >
       <SelectTrigger className="w-[280px]">
         <SelectValue placeholder="Sort by...">
-          {mounted
-            ? sortOptions.find((opt) => opt.value === currentSort)?.label ||
-              "Sort by..."
-            : "Loading..."}
+          {mounted ? describeVideoSort(currentSort) || "Sort by..." : "Loading..."}
         </SelectValue>
       </SelectTrigger>
       <SelectContent>
-        {sortOptions.map((option) => (
+        {options.map((option) => (
           <SelectItem key={option.value} value={option.value}>
             {option.label}
           </SelectItem>
@@ -5,20 +5,29 @@ import Link from 'next/link';
 
 import { DownloadControls } from './download-controls';
 import type { VideoListItem } from '@/features/videos/api/nocodb';
+import { DEFAULT_VIDEO_SORT } from '@/features/videos/utils/video-sort';
+import { withWorkspace } from '@/features/videos/utils/workspace-url';
 
 interface VideoCardProps {
   video: VideoListItem;
   priority?: boolean;
+  /** Non-default workspace the card belongs to; carried into the detail link. */
+  workspaceId?: string | null;
+  /** List sort spec; carried into the detail link so prev/next follow the same order. */
+  sort?: string;
 }
 
-export function VideoCard({ video, priority = false }: VideoCardProps) {
+export function VideoCard({ video, priority = false, workspaceId = null, sort }: VideoCardProps) {
   const thumbnailUrl =
     video.ThumbHigh && typeof video.ThumbHigh === 'string' ? video.ThumbHigh : null;
 
   return (
     <div className="flex h-full flex-col rounded-lg shadow-sm transition-shadow hover:shadow-md">
       <Link
-        href={`/video/${video.VideoID}`}
+        href={withWorkspace(
+          `/video/${video.VideoID}${sort && sort !== DEFAULT_VIDEO_SORT ? `?sort=${encodeURIComponent(sort)}` : ''}`,
+          workspaceId,
+        )}
         className="block h-full rounded-lg hover:shadow-lg transition-shadow duration-200"
       >
         <div
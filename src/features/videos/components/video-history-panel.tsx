@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, History, Loader2, Undo2 } from 'lucide-react';
+
+import type { VideoAuditEntry } from '@/features/videos/api/audit-log';
+import type { Video } from '@/features/videos/api/nocodb';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
+
+interface VideoHistoryPanelProps {
+  videoId: string;
+  /** Changes whenever the video was saved, so an open panel reloads. */
+  version?: string | number | null;
+  onReverted?: (video: Video) => void;
+}
+
+const ACTION_LABELS: Record<VideoAuditEntry['action'], string> = {
+  create: 'Added',
+  update: 'Updated',
+  delete: 'Deleted',
+  revert: 'Reverted',
+};
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return 'empty';
+  }
+
+  if (Array.isArray(value)) {
+    return value.length === 0 ? 'empty' : value.map(formatAuditValue).join(', ');
+  }
+
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return String(record.Title ?? record.name ?? JSON.stringify(value));
+  }
+
+  const text = String(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+/**
+ * Change history from the server-side audit log, with a per-field revert to
+ * the value before that change. Loaded lazily when the panel is opened.
+ */
+export function VideoHistoryPanel({ videoId, version, onReverted }: VideoHistoryPanelProps) {
+  const { withWorkspace } = useWorkspace();
+  const [isOpen, setIsOpen] = useState(false);
+  const [entries, setEntries] = useState<VideoAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reverting, setReverting] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(withWorkspace(`/api/videos/${encodeURIComponent(videoId)}/history`));
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load history');
+      }
+      setEntries(result.entries);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [videoId, withWorkspace]);
+
+  useEffect(() => {
+    if (isOpen) {
+      void loadHistory();
+    }
+  }, [isOpen, loadHistory, version]);
+
+  const handleRevert = async (entry: VideoAuditEntry, field: string) => {
+    const key = `${entry.id}:${field}`;
+    setReverting(key);
+    setError(null);
+    try {
+      const response = await fetch(withWorkspace(`/api/videos/${encodeURIComponent(videoId)}/history`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entryId: entry.id, field }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.details || result.error || 'Failed to revert');
+      }
+      onReverted?.(result.video);
+      await loadHistory();
+    } catch (revertError) {
+      setError(revertError instanceof Error ? revertError.message : 'Failed to revert');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-neutral-800 rounded-lg shadow">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between text-lg font-semibold text-neutral-300"
+      >
+        <span className="flex items-center gap-2">
+          <History size={18} />
+          History
+        </span>
+        {isOpen ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3 text-sm">
+          {isLoading && entries.length === 0 && (
+            <div className="flex items-center text-neutral-400">
+              <Loader2 size={16} className="mr-2 animate-spin" />
+              Loading history...
+            </div>
+          )}
+          {error && <p className="text-red-400">{error}</p>}
+          {!isLoading && !error && entries.length === 0 && (
+            <p className="text-neutral-500 italic">No changes recorded yet.</p>
+          )}
+
+          {entries.map((entry) => (
+            <div key={entry.id} className="border-l-2 border-neutral-600 pl-3">
+              <div className="text-neutral-400">
+                <span className="text-neutral-200">{ACTION_LABELS[entry.action]}</span> by {entry.actor}
+                <span className="block text-xs">{new Date(entry.at).toLocaleString()}</span>
+              </div>
+              <ul className="mt-1 space-y-1">
+                {entry.changes.map((change) => {
+                  const key = `${entry.id}:${change.field}`;
+                  return (
+                    <li key={key} className="flex items-start justify-between gap-2">
+                      <span className="text-neutral-300 break-words min-w-0">
+                        <span className="font-medium">{change.field}</span>:{' '}
+                        <span className="text-neutral-500 line-through">{formatAuditValue(change.before)}</span>
+                        {' → '}
+                        <span>{formatAuditValue(change.after)}</span>
+                      </span>
+                      {(entry.action === 'update' || entry.action === 'revert') && (
+                        <button
+                          onClick={() => handleRevert(entry, change.field)}
+                          disabled={reverting !== null}
+                          title={`Restore previous ${change.field}`}
+                          className="shrink-0 p-1 rounded text-neutral-400 hover:text-white hover:bg-neutral-700 disabled:opacity-50"
+                        >
+                          {reverting === key ? <Loader2 size={14} className="animate-spin" /> : <Undo2 size={14} />}
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
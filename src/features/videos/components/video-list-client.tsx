@@ -3,52 +3,12 @@
 import { useMemo, useState, useCallback, useEffect, useRef } from 'react';
 import { SortDropdown } from './sort-dropdown';
 import { VideoCard } from './video-card';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
 import { Badge } from '@/shared/components/ui/badge';
 import type { VideoListItem, PageInfo } from '@/features/videos/api/nocodb';
+import { fieldValueTexts, VIDEO_FILTER_FIELDS } from '@/features/videos/api/field-registry';
 import { X, Loader2 } from 'lucide-react';
 
-/**
- * Utility functions for extracting filterable data from videos
- */
-
-// Extract titles from arrays of strings or objects
-function extractTitles(
-  items?: (string | { Title?: string | null; name?: string | null })[] | null
-): string[] {
-  if (!items) return [];
-  return items.map((i) => {
-    if (typeof i === "string") return i;
-    if (typeof i === "object" && i !== null) {
-      return ("Title" in i && i.Title) ? i.Title : ("name" in i && i.name) ? i.name ?? "" : "";
-    }
-    return "";
-  });
-}
-
-// Generic getter for linked record fields
-function linkedGetter(key: keyof VideoListItem) {
-  return (v: VideoListItem): string[] => {
-    const value = v[key] as unknown;
-    if (Array.isArray(value)) {
-      return extractTitles(value as (string | { Title?: string | null; name?: string | null })[]);
-    }
-    if (typeof value === "string") {
-      return [value];
-    }
-    return [];
-  };
-}
-
-// Generic getter for simple string/number fields
-function simpleGetter<T>(key: keyof VideoListItem, transform?: (value: T) => string) {
-  return (v: VideoListItem): string[] => {
-    const value = v[key];
-    if (value == null) return [];
-    const transformed = transform ? transform(value as T) : String(value);
-    return [transformed];
-  };
-}
-
 interface VideoListClientProps {
   videos: (VideoListItem & {
     Persons?:
@@ -71,24 +31,8 @@ interface VideoListClientProps {
   initialSort?: string;
 }
 
-// Simplified filter type definitions - only using fields available in VideoListItem
-type FilterType =
-  | "person"
-  | "company"
-  | "genre"
-  | "indicator"
-  | "trend"
-  | "asset"
-  | "institution"
-  | "event"
-  | "doi"
-  | "hashtag"
-  | "primarySource"
-  | "sentiment"
-  | "channel"
-  | "description"
-  | "technicalTerm"
-  | "speaker";
+// Facet keys come from the `filter` entries of the field registry
+type FilterType = string;
 
 interface FilterOption {
   label: string;
@@ -96,28 +40,12 @@ interface FilterOption {
   type: FilterType;
 }
 
-// Configuration-driven filter getters - only using fields available in VideoListItem schema
-const FILTER_CONFIG: Record<FilterType, (v: VideoListItem) => string[]> = {
-  person: linkedGetter("Persons"),
-  company: linkedGetter("Companies"),
-  genre: simpleGetter("VideoGenre"),
-  indicator: linkedGetter("Indicators"),
-  trend: linkedGetter("Trends"),
-  asset: (v: VideoListItem) => v.InvestableAssets ?? [],
-  institution: linkedGetter("Institutions"),
-  event: (v: VideoListItem) => v.EventsFairs ?? [],
-  doi: (v: VideoListItem) => v.DOIs ?? [],
-  hashtag: (v: VideoListItem) => v.Hashtags ?? [],
-  primarySource: (v: VideoListItem) => v.PrimarySources ?? [],
-  sentiment: (v: VideoListItem) =>
-    v.Sentiment !== null && v.Sentiment !== undefined
-      ? [String(v.Sentiment)]
-      : [],
-  channel: simpleGetter("Channel"),
-  description: simpleGetter("Description"),
-  technicalTerm: (v: VideoListItem) => v.TechnicalTerms ?? [],
-  speaker: simpleGetter("Speaker"),
-};
+const FILTER_CONFIG: Record<FilterType, (v: VideoListItem) => string[]> = Object.fromEntries(
+  VIDEO_FILTER_FIELDS.map(({ type, field }) => [
+    type,
+    (v: VideoListItem) => fieldValueTexts(v[field as keyof VideoListItem]),
+  ]),
+);
 
 export function VideoListClient({ videos, pageInfo, initialSort }: VideoListClientProps) {
   const [selectedFilters, setSelectedFilters] = useState<FilterOption[]>([]);
@@ -128,6 +56,7 @@ export function VideoListClient({ videos, pageInfo, initialSort }: VideoListClie
   const [totalRows, setTotalRows] = useState(pageInfo?.totalRows || 0);
   const loadingRef = useRef<HTMLDivElement>(null);
   const isLoadingRef = useRef(false);
+  const { workspaceId, withWorkspace } = useWorkspace();
 
   // Calculate if there might be more pages based on loaded videos vs total rows
   const mightHaveMorePages = totalRows > 0 && allVideos.length < totalRows;
@@ -202,7 +131,7 @@ export function VideoListClient({ videos, pageInfo, initialSort }: VideoListClie
     isLoadingRef.current = true;
 
     try {
-      const response = await fetch(`/api/videos?page=${currentPage}&limit=25&sort=${initialSort || '-CreatedAt'}`);
+      const response = await fetch(withWorkspace(`/api/videos?page=${currentPage}&limit=25&sort=${initialSort || '-CreatedAt'}`));
       const data = await response.json();
 
       // Check if we're in offline mode
@@ -233,7 +162,7 @@ export function VideoListClient({ videos, pageInfo, initialSort }: VideoListClie
     } finally {
       isLoadingRef.current = false;
     }
-  }, [currentPage, initialSort]);
+  }, [currentPage, initialSort, withWorkspace]);
 
   // Infinite scroll implementation
   useEffect(() => {
@@ -321,7 +250,7 @@ export function VideoListClient({ videos, pageInfo, initialSort }: VideoListClie
 
       <div className="grid grid-cols-[repeat(auto-fill,minmax(200px,1fr))] gap-4">
         {filteredVideos.map((video, index) => (
-          <VideoCard key={video.Id} video={video} priority={index === 0} />
+          <VideoCard key={video.Id} video={video} priority={index === 0} workspaceId={workspaceId} />
         ))}
       </div>
 
@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { Database } from 'lucide-react';
+
+import { DEFAULT_WORKSPACE_ID } from '@/features/videos/api/workspaces';
+import { withWorkspace } from '@/features/videos/utils/workspace-url';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/shared/components/ui/select';
+
+interface WorkspaceOption {
+  id: string;
+  name: string;
+}
+
+/**
+ * Header control for switching between the NocoDB workspaces configured in
+ * `NOCODB_WORKSPACES`. Hidden when only the default workspace exists.
+ */
+export function WorkspaceSwitcher() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { workspaceId } = useWorkspace();
+  const [workspaces, setWorkspaces] = useState<WorkspaceOption[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/workspaces')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.success && Array.isArray(data.workspaces)) {
+          setWorkspaces(data.workspaces);
+        }
+      })
+      .catch((error) => {
+        console.error('[WorkspaceSwitcher] Failed to load workspaces:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (workspaces.length < 2) {
+    return null;
+  }
+
+  const handleChange = (value: string) => {
+    const query = searchParams?.toString() ?? '';
+    router.push(withWorkspace(`${pathname ?? '/'}${query ? `?${query}` : ''}`, value));
+  };
+
+  return (
+    <Select value={workspaceId ?? DEFAULT_WORKSPACE_ID} onValueChange={handleChange}>
+      <SelectTrigger className="w-[200px]" aria-label="Workspace">
+        <Database className="w-4 h-4 text-neutral-400" />
+        <SelectValue placeholder="Workspace" />
+      </SelectTrigger>
+      <SelectContent>
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { withWorkspace } from '@/features/videos/utils/workspace-url';
+
+const POLL_INTERVAL_MS = 30_000;
+
+/**
+ * Poll `/api/videos/changes` while the tab is visible and report whether
+ * records changed in NocoDB since the list was loaded. `acknowledge` resets
+ * the flag once the caller has refreshed.
+ */
+export function useVideoChanges(workspaceId: string | null) {
+  const [changedCount, setChangedCount] = useState(0);
+  const cursorRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    cursorRef.current = null;
+    setChangedCount(0);
+
+    const poll = async () => {
+      if (document.visibilityState !== 'visible' || !navigator.onLine) return;
+
+      try {
+        const since = cursorRef.current ? `?since=${encodeURIComponent(cursorRef.current)}` : '';
+        const response = await fetch(withWorkspace(`/api/videos/changes${since}`, workspaceId));
+        if (!response.ok || cancelled) return;
+
+        const data = await response.json();
+        if (!data.success || cancelled) return;
+
+        const missed = cursorRef.current !== null && data.reset;
+        cursorRef.current = data.cursor;
+        if (missed || data.changes.length > 0) {
+          setChangedCount((count) => count + Math.max(1, data.changes.length));
+        }
+      } catch {
+        // Offline or server restarting; the next poll tries again.
+      }
+    };
+
+    void poll();
+    const intervalId = window.setInterval(poll, POLL_INTERVAL_MS);
+    document.addEventListener('visibilitychange', poll);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', poll);
+    };
+  }, [workspaceId]);
+
+  const acknowledge = useCallback(() => setChangedCount(0), []);
+
+  return { changedCount, acknowledge };
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+import { getWorkspaceFromSearch, withWorkspace } from '@/features/videos/utils/workspace-url';
+
+/**
+ * The active NocoDB workspace lives in the URL (`?workspace=`) so it survives
+ * reloads, shared links and the offline service worker. `workspaceId` is
+ * `null` for the default workspace.
+ */
+export function useWorkspace() {
+  const searchParams = useSearchParams();
+  const workspaceId = getWorkspaceFromSearch(searchParams?.toString() ?? '');
+
+  const scoped = useCallback((path: string) => withWorkspace(path, workspaceId), [workspaceId]);
+
+  return { workspaceId, withWorkspace: scoped };
+}
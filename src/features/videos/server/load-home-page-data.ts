@@ -4,6 +4,8 @@ import {
   type PageInfo,
   type VideoListItem,
 } from '@/features/videos/api/nocodb';
+import { VIDEO_LIST_FIELDS } from '@/features/videos/api/fields';
+import { normalizeVideoSort } from '@/features/videos/utils/video-sort';
 
 export interface HomePageData {
   videos: VideoListItem[];
@@ -12,14 +14,6 @@ export interface HomePageData {
   error: string | null;
 }
 
-function resolveSortParam(rawSort: string | string[] | undefined): string {
-  if (Array.isArray(rawSort)) {
-    return rawSort[0] ?? '-CreatedAt';
-  }
-
-  return typeof rawSort === 'string' && rawSort.length > 0 ? rawSort : '-CreatedAt';
-}
-
 /**
  * Fetches the initial list of videos for the home page. The app only needs the
  * first page during the initial render because infinite scrolling loads the rest
@@ -29,39 +23,13 @@ function resolveSortParam(rawSort: string | string[] | undefined): string {
 export async function loadHomePageData(
   searchParams: Record<string, string | string[] | undefined>,
 ): Promise<HomePageData> {
-  const sort = resolveSortParam(searchParams.sort);
+  const sort = normalizeVideoSort(searchParams.sort);
 
   try {
     const { videos, pageInfo } = await fetchVideos({
       sort,
       limit: 35,
-      fields: [
-        'Id',
-        'rowId',
-        'Title',
-        'ThumbHigh',
-        'Channel',
-        'Description',
-        'VideoGenre',
-        'VideoID',
-        'Persons',
-        'Companies',
-        'Indicators',
-        'Trends',
-        'InvestableAssets',
-        'TickerSymbol',
-        'Institutions',
-        'EventsFairs',
-        'DOIs',
-        'Hashtags',
-        'MainTopic',
-        'PrimarySources',
-        'Sentiment',
-        'SentimentReason',
-        'TechnicalTerms',
-        'Speaker',
-        'CreatedAt',
-      ],
+      fields: [...VIDEO_LIST_FIELDS],
       schema: videoListItemSchema,
     });
 
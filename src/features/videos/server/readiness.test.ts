@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  axiosGet: vi.fn(),
+  resolveTableIdentifiers: vi.fn(),
+}));
+
+vi.mock('axios', () => ({ default: { get: mocks.axiosGet } }));
+vi.mock('@/features/videos/api/table-metadata', () => ({
+  resolveTableIdentifiers: mocks.resolveTableIdentifiers,
+}));
+
+import {
+  buildReadinessReport,
+  getReadinessReport,
+  READINESS_CACHE_MS,
+  resetReadinessCache,
+  summarizeReadinessReport,
+} from './readiness';
+
+const fetchMock = vi.fn();
+
+describe('buildReadinessReport', () => {
+  beforeEach(() => {
+    vi.stubEnv('VIDEO_REPOSITORY', 'nocodb');
+    vi.stubEnv('NC_URL', 'http://noco');
+    vi.stubEnv('NC_TOKEN', 'token');
+    vi.stubEnv('NOCODB_PROJECT_ID', 'p1');
+    vi.stubEnv('NOCODB_TABLE_ID', 'videos');
+    vi.stubEnv('NOCODB_WORKSPACES', '');
+    vi.stubEnv('APP_PASSWORD', 'secret');
+    vi.stubEnv('YOUTUBE_SAVED_PLAYLIST_ID', 'PL123');
+    vi.stubGlobal('fetch', fetchMock);
+    mocks.axiosGet.mockReset().mockResolvedValue({ status: 200, data: { list: [{ id: 'm1' }] } });
+    mocks.resolveTableIdentifiers.mockReset().mockResolvedValue({
+      identifiers: ['videos', 'm1'],
+      resolvedTableId: 'm1',
+      resolvedTableName: 'videos',
+    });
+    fetchMock.mockReset().mockResolvedValue(new Response('ok'));
+  });
+
+  afterEach(() => {
+    resetReadinessCache();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('passes when every dependency answers', async () => {
+    const report = await buildReadinessReport();
+
+    expect(report.status).toBe('pass');
+    expect(report.checks.map((check) => [check.name, check.status])).toEqual([
+      ['config', 'pass'],
+      ['nocodb', 'pass'],
+      ['nocodb-table', 'pass'],
+      ['tts', 'pass'],
+      ['youtube-playlist', 'pass'],
+    ]);
+    expect(report.checks[2].observed).toMatchObject({ resolvedTableId: 'm1' });
+    report.checks.forEach((check) => expect(check.latencyMs).toBeGreaterThanOrEqual(0));
+  });
+
+  it('only warns for optional dependencies but fails when NocoDB is down', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+    vi.stubEnv('YOUTUBE_SAVED_PLAYLIST_ID', '');
+
+    const degraded = await buildReadinessReport();
+    expect(degraded.status).toBe('warn');
+    expect(degraded.checks.find((check) => check.name === 'tts')).toMatchObject({ status: 'warn', detail: 'ECONNREFUSED' });
+
+    mocks.axiosGet.mockRejectedValue(new Error('timeout of 3000ms exceeded'));
+    const down = await buildReadinessReport();
+    expect(down.status).toBe('fail');
+    expect(down.checks.find((check) => check.name === 'nocodb')).toMatchObject({ status: 'fail', critical: true });
+  });
+
+  it('fails on missing configuration and skips the NocoDB probes', async () => {
+    vi.stubEnv('NC_TOKEN', '');
+
+    const report = await buildReadinessReport();
+
+    expect(report.status).toBe('fail');
+    expect(report.checks[0]).toMatchObject({ name: 'config', status: 'fail' });
+    expect(report.checks[1]).toMatchObject({ name: 'nocodb', status: 'skip' });
+    expect(mocks.axiosGet).not.toHaveBeenCalled();
+  });
+
+  it('reuses a report for a few seconds and summarizes it without details', async () => {
+    const first = await getReadinessReport(1000);
+    expect(await getReadinessReport(1000 + READINESS_CACHE_MS - 1)).toBe(first);
+    expect(mocks.axiosGet).toHaveBeenCalledTimes(1);
+
+    await getReadinessReport(1000 + READINESS_CACHE_MS);
+    expect(mocks.axiosGet).toHaveBeenCalledTimes(2);
+
+    expect(summarizeReadinessReport(first)).toEqual({ status: 'pass', timestamp: first.timestamp });
+  });
+});
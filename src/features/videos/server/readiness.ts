@@ -0,0 +1,176 @@
+import axios from 'axios';
+
+import { getNocoDBConfig, getVideoRepositoryConfig, type NocoDBConfig } from '@/features/videos/api/config';
+import { resolveTableIdentifiers } from '@/features/videos/api/table-metadata';
+import { getWorkspaces } from '@/features/videos/api/workspaces';
+import { assertServerEnv, readServerEnv } from '@/shared/utils/env';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface ReadinessCheck {
+  name: string;
+  status: CheckStatus;
+  /** A failing critical check makes the whole report fail (`503`). */
+  critical: boolean;
+  latencyMs: number;
+  detail?: string;
+  observed?: Record<string, unknown>;
+}
+
+export interface ReadinessReport {
+  status: 'pass' | 'warn' | 'fail';
+  checks: ReadinessCheck[];
+  timestamp: string;
+}
+
+interface CheckOutcome {
+  status?: CheckStatus;
+  detail?: string;
+  observed?: Record<string, unknown>;
+}
+
+export const READINESS_CHECK_TIMEOUT_MS = 3000;
+/** Probes hitting `/api/ready` in a tight loop share one report per window. */
+export const READINESS_CACHE_MS = 5000;
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runCheck(
+  name: string,
+  critical: boolean,
+  check: () => Promise<CheckOutcome>,
+): Promise<ReadinessCheck> {
+  const startedAt = performance.now();
+  let outcome: CheckOutcome;
+
+  try {
+    outcome = await withTimeout(check(), READINESS_CHECK_TIMEOUT_MS);
+  } catch (error) {
+    outcome = { status: 'fail', detail: error instanceof Error ? error.message : String(error) };
+  }
+
+  const status = outcome.status ?? 'pass';
+  return {
+    name,
+    // Optional dependencies degrade the app but do not take it out of rotation.
+    status: status === 'fail' && !critical ? 'warn' : status,
+    critical,
+    latencyMs: Math.round(performance.now() - startedAt),
+    ...(outcome.detail ? { detail: outcome.detail } : {}),
+    ...(outcome.observed ? { observed: outcome.observed } : {}),
+  };
+}
+
+function skipped(name: string, detail: string): ReadinessCheck {
+  return { name, status: 'skip', critical: true, latencyMs: 0, detail };
+}
+
+/**
+ * Probe NocoDB directly, bypassing the shared client's retries and circuit
+ * breaker, so one readiness call costs at most one request and its result
+ * reflects the current state.
+ */
+async function probeNocoDB(config: NocoDBConfig): Promise<CheckOutcome> {
+  const response = await axios.get(
+    `${config.url}/api/v2/meta/projects/${encodeURIComponent(config.projectId)}/tables`,
+    { headers: { 'xc-token': config.token }, timeout: READINESS_CHECK_TIMEOUT_MS },
+  );
+  const tables = Array.isArray(response.data?.list) ? response.data.list.length : null;
+  return { observed: { httpStatus: response.status, tables } };
+}
+
+async function probeTts(): Promise<CheckOutcome> {
+  const base = readServerEnv('NEXT_PUBLIC_TTS_API_URL');
+  // Any HTTP answer proves the server is up; the proxy only forwards to `/tts`.
+  const response = await fetch(new URL('/', base), {
+    cache: 'no-store',
+    signal: AbortSignal.timeout(READINESS_CHECK_TIMEOUT_MS),
+  });
+  return { observed: { url: base, httpStatus: response.status } };
+}
+
+/**
+ * Dependency checks behind `/api/ready`: configuration, NocoDB reachability,
+ * table resolution, the TTS server and the saved-videos playlist id. TTS and
+ * the playlist are optional, so their failures only yield `warn`.
+ */
+export async function buildReadinessReport(): Promise<ReadinessReport> {
+  const setup: { usesNocoDB: boolean; nocodb: NocoDBConfig | null } = { usesNocoDB: true, nocodb: null };
+
+  const config = await runCheck('config', true, async () => {
+    assertServerEnv();
+    const repository = getVideoRepositoryConfig();
+    setup.usesNocoDB = repository.kind === 'nocodb';
+    const workspaces = getWorkspaces();
+    if (setup.usesNocoDB) {
+      setup.nocodb = getNocoDBConfig();
+    }
+    return { observed: { repository: repository.kind, workspaces: workspaces.length } };
+  });
+
+  const nocodbConfig = setup.nocodb;
+  const dependencyChecks: Array<Promise<ReadinessCheck>> = [];
+
+  if (!setup.usesNocoDB) {
+    dependencyChecks.push(
+      Promise.resolve(skipped('nocodb', 'VIDEO_REPOSITORY=local')),
+      Promise.resolve(skipped('nocodb-table', 'VIDEO_REPOSITORY=local')),
+    );
+  } else if (!nocodbConfig) {
+    dependencyChecks.push(
+      Promise.resolve(skipped('nocodb', 'Configuration is invalid')),
+      Promise.resolve(skipped('nocodb-table', 'Configuration is invalid')),
+    );
+  } else {
+    dependencyChecks.push(
+      runCheck('nocodb', true, () => probeNocoDB(nocodbConfig)),
+      runCheck('nocodb-table', true, async () => {
+        const table = await resolveTableIdentifiers(nocodbConfig);
+        return { observed: { resolvedTableId: table.resolvedTableId, resolvedTableName: table.resolvedTableName } };
+      }),
+    );
+  }
+
+  dependencyChecks.push(
+    runCheck('tts', false, probeTts),
+    runCheck('youtube-playlist', false, async () =>
+      readServerEnv('YOUTUBE_SAVED_PLAYLIST_ID')
+        ? {}
+        : { status: 'fail', detail: 'YOUTUBE_SAVED_PLAYLIST_ID is not set; /api/youtube/saved is disabled.' },
+    ),
+  );
+
+  const checks = [config, ...(await Promise.all(dependencyChecks))];
+  const status = checks.some((check) => check.critical && check.status === 'fail')
+    ? 'fail'
+    : checks.some((check) => check.status === 'warn' || check.status === 'fail')
+      ? 'warn'
+      : 'pass';
+
+  return { status, checks, timestamp: new Date().toISOString() };
+}
+
+let cachedReport: { promise: Promise<ReadinessReport>; expiresAt: number } | null = null;
+
+/** `buildReadinessReport`, reused for `READINESS_CACHE_MS` (including while it runs). */
+export function getReadinessReport(now = Date.now()): Promise<ReadinessReport> {
+  if (!cachedReport || cachedReport.expiresAt <= now) {
+    cachedReport = { promise: buildReadinessReport(), expiresAt: now + READINESS_CACHE_MS };
+  }
+  return cachedReport.promise;
+}
+
+export function resetReadinessCache(): void {
+  cachedReport = null;
+}
+
+/** What unauthenticated probes see: the overall status, no per-check details. */
+export function summarizeReadinessReport(report: ReadinessReport): Pick<ReadinessReport, 'status' | 'timestamp'> {
+  return { status: report.status, timestamp: report.timestamp };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+
+import { matchesSearchQuery, parseSearchQuery, positiveSearchTexts, SearchQuerySyntaxError } from './search-query';
+
+const video = {
+  Id: 1,
+  Title: 'Die Zinsen steigen weiter',
+  Channel: 'Lex Fridman',
+  Description: 'Interest rates, inflation and the Fed.',
+  TickerSymbol: 'NVDA, AAPL',
+  ImportanceRating: 4,
+  PublishedAt: new Date('2024-06-15T12:00:00Z'),
+  Watched: null,
+  Language: 'de',
+};
+
+const matches = (query: string, fields?: string[]) => matchesSearchQuery(parseSearchQuery(query)!, video, { fields });
+
+function syntaxError(query: string): SearchQuerySyntaxError {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof SearchQuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`"${query}" parsed without error`);
+}
+
+describe('parseSearchQuery', () => {
+  it('parses fields, phrases, negation and OR binding tighter than AND', () => {
+    expect(parseSearchQuery('channel:"Lex Fridman" -"bond yields" fed OR ecb')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'text', field: 'channel', value: 'Lex Fridman', phrase: true },
+        { type: 'not', node: { type: 'text', value: 'bond yields', phrase: true } },
+        {
+          type: 'or',
+          nodes: [
+            { type: 'text', value: 'fed', phrase: false },
+            { type: 'text', value: 'ecb', phrase: false },
+          ],
+        },
+      ],
+    });
+    expect(parseSearchQuery('  ')).toBeNull();
+  });
+
+  it('reads unknown prefixes such as URLs as plain text', () => {
+    expect(parseSearchQuery('https://youtu.be/abc')).toEqual({ type: 'text', value: 'https://youtu.be/abc', phrase: false });
+    expect(parseSearchQuery('Re: Fed')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'text', value: 'Re:', phrase: false },
+        { type: 'text', value: 'Fed', phrase: false },
+      ],
+    });
+    expect(parseSearchQuery('chanel:lex')).toEqual({ type: 'text', value: 'chanel:lex', phrase: false });
+  });
+
+  it('turns numbers and dates into ranges', () => {
+    expect(parseSearchQuery('rating:>=4')).toEqual({ type: 'range', field: 'rating', min: 4 });
+    expect(parseSearchQuery('rating:2..3')).toEqual({ type: 'range', field: 'rating', min: 2, max: 3 });
+    expect(parseSearchQuery('published:2024..2025')).toEqual({
+      type: 'range',
+      field: 'published',
+      min: Date.UTC(2024, 0, 1),
+      max: Date.UTC(2026, 0, 1),
+      exclusiveMax: true,
+    });
+    expect(parseSearchQuery('published:>2024-06')).toEqual({ type: 'range', field: 'published', min: Date.UTC(2024, 6, 1) });
+  });
+
+  it('reports errors with their position', () => {
+    expect(syntaxError('rates "inflation')).toMatchObject({ message: 'Missing closing quote', position: 6 });
+    expect(syntaxError('fed OR')).toMatchObject({ position: 4 });
+    expect(syntaxError('(fed ecb')).toMatchObject({ message: 'Missing closing parenthesis', position: 0 });
+    expect(syntaxError('rating:high').message).toContain('expects a number');
+    expect(syntaxError('published:2024-13').message).toContain('expects a date');
+    expect(syntaxError('rating:5..1').message).toContain('starts after it ends');
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  it('matches stemmed words, phrases and fields', () => {
+    expect(matches('zins rate')).toBe(true);
+    expect(matches('"interest rates"')).toBe(true);
+    expect(matches('"rates interest"')).toBe(false);
+    expect(matches('channel:"Lex Fridman" ticker:nvda')).toBe(true);
+    expect(matches('channel:zinsen')).toBe(false);
+    expect(matches('zinsen', ['Description'])).toBe(false);
+  });
+
+  it('applies negation, OR and grouping', () => {
+    expect(matches('-crypto zinsen')).toBe(true);
+    expect(matches('-fed')).toBe(false);
+    expect(matches('crypto OR inflation')).toBe(true);
+    expect(matches('(crypto OR bitcoin) inflation')).toBe(false);
+  });
+
+  it('tolerates typos and prefixes, but not in negations and phrases', () => {
+    expect(matches('inflaton steign')).toBe(true);
+    expect(matchesSearchQuery(parseSearchQuery('inflaton')!, video, { fuzzy: false })).toBe(false);
+    expect(matches('Zinssenkung')).toBe(false);
+    expect(matches('infla')).toBe(true);
+    expect(matches('-inflaton')).toBe(true);
+    expect(matches('"interest rate"')).toBe(false);
+  });
+
+  it('compares ratings, dates and booleans', () => {
+    expect(matches('rating:>=4 rating:<5')).toBe(true);
+    expect(matches('rating:5')).toBe(false);
+    expect(matches('published:2024..2025')).toBe(true);
+    expect(matches('published:2024-06-15')).toBe(true);
+    expect(matches('published:<2024-06')).toBe(false);
+    expect(matches('watched:false')).toBe(true);
+  });
+
+  it('lists the text terms that are not negated', () => {
+    expect(positiveSearchTexts(parseSearchQuery('fed -crypto rating:>3 channel:lex')!).map((node) => node.value)).toEqual([
+      'fed',
+      'lex',
+    ]);
+  });
+});
@@ -0,0 +1,472 @@
+import {
+  fieldValueTexts,
+  searchFieldsForCategories,
+  VIDEO_QUERY_FIELDS,
+  type VideoQueryField,
+} from '@/features/videos/api/field-registry';
+import { analyzeQuery, analyzeText, detectLanguage, matchTerm, tokenize, type SearchLanguage } from './search-text';
+
+/**
+ * Search query language shared by `/api/search` and offline search.
+ *
+ *   rates inflation          every word must match (AND)
+ *   "interest rates"         phrase: these words in this order
+ *   -crypto                  negation (also -"phrase", -channel:x, -(...))
+ *   fed OR ecb               either; OR binds tighter than AND
+ *   (fed OR ecb) rates       grouping
+ *   channel:"Lex Fridman"    text in one search category (`VIDEO_QUERY_FIELDS`)
+ *   rating:>=4  rating:3..5  numbers: =, >, >=, <, <= and ranges
+ *   published:2024..2025     dates as YYYY, YYYY-MM or YYYY-MM-DD (UTC)
+ *   watched:false            booleans
+ *
+ * `parseSearchQuery` turns a query into a `SearchQueryNode` tree and
+ * `matchesSearchQuery` decides whether a video matches it. Words are matched
+ * as stemmed terms the way the server index stores them (see `search-text.ts`),
+ * including prefix and typo matches, so both sides agree on every result.
+ * Phrases and negated terms match exactly.
+ *
+ * Pure functions without server imports, usable from client code.
+ */
+
+export type SearchQueryNode =
+  | { type: 'and'; nodes: SearchQueryNode[] }
+  | { type: 'or'; nodes: SearchQueryNode[] }
+  | { type: 'not'; node: SearchQueryNode }
+  /** Words (or a phrase) in `field`'s category, or in the searched categories when unset. */
+  | { type: 'text'; value: string; phrase: boolean; field?: string }
+  /** Numbers, and dates as epoch milliseconds. */
+  | { type: 'range'; field: string; min?: number; max?: number; exclusiveMin?: boolean; exclusiveMax?: boolean }
+  | { type: 'boolean'; field: string; value: boolean };
+
+export type SearchTextNode = Extract<SearchQueryNode, { type: 'text' }>;
+
+export class SearchQuerySyntaxError extends Error {
+  /** Offset of the offending character in the query. */
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'SearchQuerySyntaxError';
+    this.position = position;
+  }
+}
+
+const QUERY_FIELDS = new Map<string, VideoQueryField>(VIDEO_QUERY_FIELDS.map((field) => [field.key, field]));
+
+const ALL_SEARCH_FIELDS: readonly string[] = searchFieldsForCategories([]);
+
+// ---------------------------------------------------------------------------
+// Lexer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: 'term'; position: number; key?: string; value: string; quoted: boolean }
+  | { type: 'not' | 'or' | 'and' | 'open' | 'close'; position: number };
+
+const WORD_END = /[\s()"]/;
+const FIELD_PREFIX = /^([a-z]+):/i;
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new SearchQuerySyntaxError('Missing closing quote', start);
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+    const position = index;
+
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', position });
+      index += 1;
+    } else if (char === '-' && index + 1 < input.length && !/[\s)]/.test(input[index + 1])) {
+      tokens.push({ type: 'not', position });
+      index += 1;
+    } else if (char === '-') {
+      throw new SearchQuerySyntaxError('"-" needs a term to exclude', position);
+    } else if (char === '"') {
+      const { value, end } = readQuoted(input, index);
+      tokens.push({ type: 'term', position, value, quoted: true });
+      index = end;
+    } else {
+      let end = index;
+      while (end < input.length && !WORD_END.test(input[end])) end += 1;
+      const word = input.slice(index, end);
+      const prefix = word.match(FIELD_PREFIX);
+
+      if (!prefix) {
+        tokens.push(
+          word === 'OR' || word === 'AND'
+            ? { type: word === 'OR' ? 'or' : 'and', position }
+            : { type: 'term', position, value: word, quoted: false },
+        );
+        index = end;
+        continue;
+      }
+
+      const key = prefix[1].toLowerCase();
+      if (!QUERY_FIELDS.has(key)) {
+        // Not a field: pasted URLs, "Re: Fed" and the like are plain text.
+        tokens.push({ type: 'term', position, value: word, quoted: false });
+        index = end;
+        continue;
+      }
+      const rest = word.slice(prefix[0].length);
+      if (rest === '' && input[end] === '"') {
+        const { value, end: quoteEnd } = readQuoted(input, end);
+        tokens.push({ type: 'term', position, key, value, quoted: true });
+        index = quoteEnd;
+      } else if (rest === '') {
+        throw new SearchQuerySyntaxError(`"${key}:" needs a value`, position);
+      } else {
+        tokens.push({ type: 'term', position, key, value: rest, quoted: false });
+        index = end;
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Field values
+// ---------------------------------------------------------------------------
+
+type Comparison = '=' | '>' | '>=' | '<' | '<=';
+
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)?(.*)$/;
+const DATE_PATTERN = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/;
+
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim();
+  const value = Number(trimmed);
+  return trimmed !== '' && Number.isFinite(value) ? value : null;
+}
+
+/** `[start, end)` in epoch milliseconds of a year, month or day. */
+function parseDateInterval(text: string): [number, number] | null {
+  const match = text.trim().match(DATE_PATTERN);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 0 || month > 11)) return null;
+
+  if (month === null) return [Date.UTC(year, 0, 1), Date.UTC(year + 1, 0, 1)];
+  if (day === null) return [Date.UTC(year, month, 1), Date.UTC(year, month + 1, 1)];
+
+  const start = Date.UTC(year, month, day);
+  if (day < 1 || new Date(start).getUTCMonth() !== month) return null;
+  return [start, Date.UTC(year, month, day + 1)];
+}
+
+function rangeNode(
+  field: string,
+  bounds: Omit<Extract<SearchQueryNode, { type: 'range' }>, 'type' | 'field'>,
+  position: number,
+): SearchQueryNode {
+  if (bounds.min !== undefined && bounds.max !== undefined && bounds.min > bounds.max) {
+    throw new SearchQuerySyntaxError(`"${field}:" range starts after it ends`, position);
+  }
+  return { type: 'range', field, ...bounds };
+}
+
+function numberNode(field: string, value: string, position: number): SearchQueryNode {
+  const invalid = () =>
+    new SearchQuerySyntaxError(`"${field}:" expects a number, a comparison (>=4) or a range (3..5)`, position);
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    const min = range[0] === '' ? undefined : parseNumber(range[0]);
+    const max = range[1] === '' ? undefined : parseNumber(range[1]);
+    if (min === null || max === null || (min === undefined && max === undefined)) throw invalid();
+    return rangeNode(field, { min, max }, position);
+  }
+
+  const [, operator = '=', operand] = value.match(COMPARISON_PATTERN)!;
+  const number = parseNumber(operand);
+  if (number === null) throw invalid();
+
+  switch (operator as Comparison) {
+    case '>':
+      return rangeNode(field, { min: number, exclusiveMin: true }, position);
+    case '>=':
+      return rangeNode(field, { min: number }, position);
+    case '<':
+      return rangeNode(field, { max: number, exclusiveMax: true }, position);
+    case '<=':
+      return rangeNode(field, { max: number }, position);
+    default:
+      return rangeNode(field, { min: number, max: number }, position);
+  }
+}
+
+function dateNode(field: string, value: string, position: number): SearchQueryNode {
+  const invalid = () =>
+    new SearchQuerySyntaxError(
+      `"${field}:" expects a date (2024, 2024-06 or 2024-06-30), a comparison (>=2024) or a range (2024..2025)`,
+      position,
+    );
+
+  const range = value.split('..');
+  if (range.length === 2) {
+    const from = range[0] === '' ? undefined : parseDateInterval(range[0]);
+    const to = range[1] === '' ? undefined : parseDateInterval(range[1]);
+    if (from === null || to === null || (from === undefined && to === undefined)) throw invalid();
+    return rangeNode(field, { min: from?.[0], max: to?.[1], exclusiveMax: to !== undefined }, position);
+  }
+
+  const [, operator = '=', operand] = value.match(COMPARISON_PATTERN)!;
+  const interval = parseDateInterval(operand);
+  if (!interval) throw invalid();
+  const [start, end] = interval;
+
+  // A date stands for its whole year, month or day: `>2024` starts in 2025.
+  switch (operator as Comparison) {
+    case '>':
+      return rangeNode(field, { min: end }, position);
+    case '>=':
+      return rangeNode(field, { min: start }, position);
+    case '<':
+      return rangeNode(field, { max: start, exclusiveMax: true }, position);
+    case '<=':
+      return rangeNode(field, { max: end, exclusiveMax: true }, position);
+    default:
+      return rangeNode(field, { min: start, max: end, exclusiveMax: true }, position);
+  }
+}
+
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, yes: true, '1': true, false: false, no: false, '0': false };
+
+function termNode(token: Extract<Token, { type: 'term' }>): SearchQueryNode {
+  const { key, value, quoted, position } = token;
+  if (!key) return { type: 'text', value, phrase: quoted };
+
+  switch (QUERY_FIELDS.get(key)!.kind) {
+    case 'number':
+    case 'rating':
+      return numberNode(key, value, position);
+    case 'date':
+      return dateNode(key, value, position);
+    case 'boolean': {
+      const flag = BOOLEAN_VALUES[value.toLowerCase()];
+      if (flag === undefined) throw new SearchQuerySyntaxError(`"${key}:" expects true or false`, position);
+      return { type: 'boolean', field: key, value: flag };
+    }
+    default:
+      return { type: 'text', field: key, value, phrase: quoted };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a search query; `null` when it holds no terms. Throws
+ * `SearchQuerySyntaxError` with the offending position.
+ */
+export function parseSearchQuery(input: string): SearchQueryNode | null {
+  const tokens = lex(input);
+  let index = 0;
+
+  function parseAll(): SearchQueryNode[] {
+    const nodes: SearchQueryNode[] = [];
+    while (index < tokens.length && tokens[index].type !== 'close') {
+      if (tokens[index].type === 'and') {
+        index += 1;
+        continue;
+      }
+      nodes.push(parseEither());
+    }
+    return nodes;
+  }
+
+  function parseEither(): SearchQueryNode {
+    const nodes = [parseUnary()];
+    while (tokens[index]?.type === 'or') {
+      const position = tokens[index].position;
+      index += 1;
+      const next = tokens[index]?.type;
+      if (next === undefined || next === 'close' || next === 'or' || next === 'and') {
+        throw new SearchQuerySyntaxError('"OR" needs a term on both sides', position);
+      }
+      nodes.push(parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+  }
+
+  function parseUnary(): SearchQueryNode {
+    const token = tokens[index];
+    index += 1;
+
+    switch (token.type) {
+      case 'not':
+        if (index >= tokens.length || tokens[index].type === 'close') {
+          throw new SearchQuerySyntaxError('"-" needs a term to exclude', token.position);
+        }
+        return { type: 'not', node: parseUnary() };
+      case 'open': {
+        const nodes = parseAll();
+        if (tokens[index]?.type !== 'close') {
+          throw new SearchQuerySyntaxError('Missing closing parenthesis', token.position);
+        }
+        if (nodes.length === 0) {
+          throw new SearchQuerySyntaxError('Empty parentheses', token.position);
+        }
+        index += 1;
+        return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+      }
+      case 'term':
+        return termNode(token);
+      case 'or':
+        throw new SearchQuerySyntaxError('"OR" needs a term on both sides', token.position);
+      default:
+        throw new SearchQuerySyntaxError(`Unexpected "${token.type === 'close' ? ')' : 'AND'}"`, token.position);
+    }
+  }
+
+  const nodes = parseAll();
+  if (index < tokens.length) {
+    throw new SearchQuerySyntaxError('Unexpected ")"', tokens[index].position);
+  }
+  if (nodes.length === 0) return null;
+  return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/** Fields a text node searches: its category, else `defaultFields`. */
+export function searchTextFields(node: SearchTextNode, defaultFields: readonly string[] = ALL_SEARCH_FIELDS): readonly string[] {
+  return node.field ? QUERY_FIELDS.get(node.field)?.fields ?? [] : defaultFields;
+}
+
+/** Text nodes that are not negated; they decide relevance. */
+export function positiveSearchTexts(node: SearchQueryNode): SearchTextNode[] {
+  switch (node.type) {
+    case 'text':
+      return [node];
+    case 'and':
+    case 'or':
+      return node.nodes.flatMap(positiveSearchTexts);
+    default:
+      return [];
+  }
+}
+
+/** One field as plain text, the way the search index reads it. */
+export function documentFieldText(video: object, field: string): string {
+  return fieldValueTexts((video as Record<string, unknown>)[field]).join('\n');
+}
+
+/** Stemming language of a video: its `Language` column or what its text looks like. */
+export function documentLanguage(video: object): SearchLanguage {
+  const { Language } = video as { Language?: string | null };
+  return detectLanguage(Language, ['Title', 'TLDR', 'Description'].map((field) => documentFieldText(video, field)).join('\n'));
+}
+
+function timestamp(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const time = value instanceof Date ? value.getTime() : new Date(value as string | number).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function numeric(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  return typeof value === 'string' ? parseNumber(value) : null;
+}
+
+function inRange(value: number, { min, max, exclusiveMin, exclusiveMax }: Extract<SearchQueryNode, { type: 'range' }>) {
+  if (min !== undefined && (exclusiveMin ? value <= min : value < min)) return false;
+  if (max !== undefined && (exclusiveMax ? value >= max : value > max)) return false;
+  return true;
+}
+
+export interface SearchQueryMatchOptions {
+  /** Fields for text without a `field:` prefix; every search field by default. */
+  fields?: readonly string[];
+  /**
+   * Accept prefix and typo matches (default). Results that also match with
+   * `fuzzy: false` are exact hits and rank above the rest.
+   */
+  fuzzy?: boolean;
+}
+
+/** Whether `video` matches the parsed query. */
+export function matchesSearchQuery(
+  query: SearchQueryNode,
+  video: object,
+  { fields = ALL_SEARCH_FIELDS, fuzzy = true }: SearchQueryMatchOptions = {},
+): boolean {
+  const record = video as Record<string, unknown>;
+  let language: SearchLanguage | undefined;
+  const analyzed = new Map<string, { terms: string[]; termSet: Set<string>; tokens: string }>();
+
+  function analyze(field: string) {
+    let entry = analyzed.get(field);
+    if (!entry) {
+      const text = documentFieldText(video, field);
+      language = language ?? documentLanguage(video);
+      const terms = analyzeText(text, language);
+      entry = { terms, termSet: new Set(terms), tokens: ` ${tokenize(text).join(' ')} ` };
+      analyzed.set(field, entry);
+    }
+    return entry;
+  }
+
+  function hasTerm(field: string, queryTerm: string, tolerant: boolean): boolean {
+    const { terms, termSet } = analyze(field);
+    return termSet.has(queryTerm) || (tolerant && terms.some((term) => matchTerm(queryTerm, term) > 0));
+  }
+
+  function matchesText(node: SearchTextNode, tolerant: boolean): boolean {
+    const targets = searchTextFields(node, fields);
+
+    if (node.phrase) {
+      const phrase = tokenize(node.value).join(' ');
+      return phrase === '' || targets.some((field) => analyze(field).tokens.includes(` ${phrase} `));
+    }
+
+    // Every word in some field; each word may match any of its stems.
+    return analyzeQuery(node.value).every((terms) =>
+      targets.some((field) => terms.some((term) => hasTerm(field, term, tolerant))),
+    );
+  }
+
+  function evaluate(node: SearchQueryNode, tolerant: boolean): boolean {
+    switch (node.type) {
+      case 'and':
+        return node.nodes.every((child) => evaluate(child, tolerant));
+      case 'or':
+        return node.nodes.some((child) => evaluate(child, tolerant));
+      case 'not':
+        // `-powell` should not also hide "Powel" typos in other videos.
+        return !evaluate(node.node, false);
+      case 'text':
+        return matchesText(node, tolerant);
+      case 'range': {
+        const definition = QUERY_FIELDS.get(node.field);
+        const read = definition?.kind === 'date' ? timestamp : numeric;
+        return (definition?.fields ?? []).some((field) => {
+          const value = read(record[field]);
+          return value !== null && inRange(value, node);
+        });
+      }
+      case 'boolean':
+        return (QUERY_FIELDS.get(node.field)?.fields ?? []).some((field) => Boolean(record[field]) === node.value);
+    }
+  }
+
+  return evaluate(query, fuzzy);
+}
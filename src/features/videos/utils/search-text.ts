@@ -0,0 +1,293 @@
+/**
+ * Text analysis for video search: tokenising, stopwords and light German and
+ * English stemming. Documents are stemmed in their own language; query words
+ * are stemmed both ways (the query's language is unknown), so "Zinsen"
+ * finds "Zins" and "rates" finds "rate".
+ *
+ * Tokens are folded first: umlauts become their two-letter spelling
+ * ("München" = "Muenchen") and accents are dropped ("café" = "cafe"). Query
+ * terms also match index terms they prefix or are a few typos away from
+ * (`matchTerm`), with a lower weight than exact matches.
+ *
+ * Pure functions without server imports, usable from client code.
+ */
+
+export type SearchLanguage = 'de' | 'en';
+
+// Applied to folded text, see `foldSearchText`.
+const TOKEN_PATTERN = /[a-z0-9]+/g;
+
+const FOLDED_LETTERS: Record<string, string> = { ä: 'ae', ö: 'oe', ü: 'ue', ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o' };
+
+/** Lowercase, umlauts and ligatures spelled out, accents removed. */
+export function foldSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[äöüßæœø]/g, (letter) => FOLDED_LETTERS[letter])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+const ENGLISH_STOPWORDS = new Set<string>([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'how', 'i', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'we', 'were', 'what', 'will', 'with', 'you', 'your',
+]);
+
+const GERMAN_STOPWORDS = new Set<string>([
+  'am', 'an', 'auf', 'aus', 'bei', 'das', 'dass', 'dem', 'den', 'der', 'des', 'die', 'ein', 'eine', 'einem', 'einen',
+  'einer', 'eines', 'er', 'es', 'für', 'ich', 'im', 'in', 'ist', 'mit', 'nach', 'nicht', 'noch', 'nur', 'oder',
+  'sich', 'sie', 'so', 'über', 'um', 'und', 'vom', 'von', 'vor', 'wie', 'wir', 'zu', 'zum', 'zur',
+].map(foldSearchText));
+
+export function isStopword(token: string): boolean {
+  return ENGLISH_STOPWORDS.has(token) || GERMAN_STOPWORDS.has(token);
+}
+
+/** Folded word tokens; single letters are dropped, single digits kept. */
+export function tokenize(text: string): string[] {
+  return (foldSearchText(text).match(TOKEN_PATTERN) ?? []).filter((token) => token.length > 1 || /\d/.test(token));
+}
+
+// ---------------------------------------------------------------------------
+// English: steps 1-3 of the Porter stemmer
+// ---------------------------------------------------------------------------
+
+function isConsonant(word: string, index: number): boolean {
+  const char = word[index];
+  if ('aeiou'.indexOf(char) !== -1) return false;
+  if (char === 'y') return index === 0 || !isConsonant(word, index - 1);
+  return true;
+}
+
+/** Porter's m: the number of vowel-consonant sequences in `stem`. */
+function measure(stem: string): number {
+  let count = 0;
+  let previousVowel = false;
+  for (let index = 0; index < stem.length; index += 1) {
+    const vowel = !isConsonant(stem, index);
+    if (!vowel && previousVowel) count += 1;
+    previousVowel = vowel;
+  }
+  return count;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let index = 0; index < stem.length; index += 1) {
+    if (!isConsonant(stem, index)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const length = word.length;
+  return length > 1 && word[length - 1] === word[length - 2] && isConsonant(word, length - 1);
+}
+
+/** Consonant-vowel-consonant ending, where the last consonant is not w, x or y. */
+function endsWithCvc(word: string): boolean {
+  const length = word.length;
+  return (
+    length > 2 &&
+    isConsonant(word, length - 3) &&
+    !isConsonant(word, length - 2) &&
+    isConsonant(word, length - 1) &&
+    'wxy'.indexOf(word[length - 1]) === -1
+  );
+}
+
+const ENGLISH_STEP2: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'], ['abli', 'able'],
+  ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'],
+  ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'],
+  ['iviti', 'ive'], ['biliti', 'ble'],
+];
+
+const ENGLISH_STEP3: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', ''],
+];
+
+function replaceSuffix(word: string, rules: Array<[string, string]>): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > 0 ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+export function stemEnglish(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  let result = word;
+
+  // Step 1a: plurals
+  if (result.endsWith('sses')) result = result.slice(0, -2);
+  else if (result.endsWith('ies')) result = result.slice(0, -2);
+  else if (!result.endsWith('ss') && !result.endsWith('us') && !result.endsWith('is') && result.endsWith('s')) {
+    result = result.slice(0, -1);
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if (result.endsWith('eed')) {
+    if (measure(result.slice(0, -3)) > 0) result = result.slice(0, -1);
+  } else {
+    const suffix = result.endsWith('ed') ? 'ed' : result.endsWith('ing') ? 'ing' : null;
+    const stem = suffix ? result.slice(0, -suffix.length) : '';
+    if (suffix && hasVowel(stem)) {
+      result = stem;
+      if (result.endsWith('at') || result.endsWith('bl') || result.endsWith('iz')) {
+        result += 'e';
+      } else if (endsWithDoubleConsonant(result) && 'lsz'.indexOf(result[result.length - 1]) === -1) {
+        result = result.slice(0, -1);
+      } else if (measure(result) === 1 && endsWithCvc(result)) {
+        result += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if (result.endsWith('y') && hasVowel(result.slice(0, -1))) {
+    result = `${result.slice(0, -1)}i`;
+  }
+
+  return replaceSuffix(replaceSuffix(result, ENGLISH_STEP2), ENGLISH_STEP3);
+}
+
+// ---------------------------------------------------------------------------
+// German: CISTEM (Weissweiler & Fraser, 2017), case-insensitive variant
+// ---------------------------------------------------------------------------
+
+export function stemGerman(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word
+    .replace(/ü/g, 'u')
+    .replace(/ö/g, 'o')
+    .replace(/ä/g, 'a')
+    .replace(/ß/g, 'ss')
+    .replace(/sch/g, '$')
+    .replace(/ei/g, '%')
+    .replace(/ie/g, '&')
+    .replace(/(.)\1/g, '$1*');
+
+  while (result.length > 3) {
+    if (result.length > 5 && /(em|er|nd)$/.test(result)) {
+      result = result.slice(0, -2);
+    } else if (/[tesn]$/.test(result)) {
+      result = result.slice(0, -1);
+    } else {
+      break;
+    }
+  }
+
+  return result
+    .replace(/(.)\*/g, '$1$1')
+    .replace(/&/g, 'ie')
+    .replace(/%/g, 'ei')
+    .replace(/\$/g, 'sch');
+}
+
+export function stem(token: string, language: SearchLanguage): string {
+  return language === 'de' ? stemGerman(token) : stemEnglish(token);
+}
+
+/**
+ * Language of a document: its `Language` column when set (`de`, `de-DE`,
+ * `German`, ...), otherwise whichever stopword list matches more words.
+ */
+export function detectLanguage(declared: string | null | undefined, sample: string): SearchLanguage {
+  const normalized = declared?.trim().toLowerCase() ?? '';
+  if (normalized.startsWith('de') || normalized === 'german') return 'de';
+  if (normalized.startsWith('en') || normalized === 'english') return 'en';
+
+  // Umlauts are folded away by `tokenize`, so count those words on the raw text.
+  let german = (sample.toLowerCase().match(/[^\s]*[äöüß][^\s]*/g) ?? []).length;
+  let english = 0;
+  tokenize(sample).forEach((token) => {
+    if (GERMAN_STOPWORDS.has(token)) german += 1;
+    if (ENGLISH_STOPWORDS.has(token)) english += 1;
+  });
+  return german > english ? 'de' : 'en';
+}
+
+/** Index terms of a document text: tokens without stopwords, stemmed in `language`. */
+export function analyzeText(text: string, language: SearchLanguage): string[] {
+  return tokenize(text)
+    .filter((token) => !isStopword(token))
+    .map((token) => stem(token, language));
+}
+
+/**
+ * Query words as alternatives: one entry per word, each listing the terms it
+ * may match (the German and English stem). Stopwords are dropped.
+ */
+export function analyzeQuery(query: string): string[][] {
+  return tokenize(query)
+    .filter((token) => !isStopword(token))
+    .map((token) => Array.from(new Set([stemGerman(token), stemEnglish(token)])));
+}
+
+// ---------------------------------------------------------------------------
+// Typo tolerance
+// ---------------------------------------------------------------------------
+
+/** Weight of a term that starts with the query term ("infl" -> "inflat"). */
+export const PREFIX_MATCH_WEIGHT = 0.6;
+/** Weight of a term one or two edits away from the query term ("powel" -> "powell"). */
+export const FUZZY_MATCH_WEIGHTS = [1, 0.5, 0.3];
+
+const MIN_PREFIX_LENGTH = 3;
+
+/** Edits a query term of this length may be away from a match: none below 4 letters, two from 7. */
+export function maxEditDistance(length: number): number {
+  if (length < 4) return 0;
+  return length < 7 ? 1 : 2;
+}
+
+/**
+ * Levenshtein distance with transpositions counted as one edit (optimal string
+ * alignment), or `max + 1` as soon as it is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max = Math.max(a.length, b.length)): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row: number[] = [];
+  for (let j = 0; j <= b.length; j += 1) row.push(j);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+
+  return row[b.length] > max ? max + 1 : row[b.length];
+}
+
+/**
+ * How well index `term` matches query term `queryTerm`: 1 when equal, a
+ * `PREFIX_MATCH_WEIGHT` / `FUZZY_MATCH_WEIGHTS` fraction for prefix and typo
+ * matches, 0 otherwise. Terms with digits (years, tickers like "s500") only
+ * match exactly.
+ */
+export function matchTerm(queryTerm: string, term: string, fuzzy = true): number {
+  if (queryTerm === term) return 1;
+  if (!fuzzy || /\d/.test(queryTerm) || /\d/.test(term)) return 0;
+
+  const max = maxEditDistance(queryTerm.length);
+  const distance = max > 0 ? editDistance(queryTerm, term, max) : 1;
+  const typo = distance <= max ? FUZZY_MATCH_WEIGHTS[distance] : 0;
+  const prefix = queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm) ? PREFIX_MATCH_WEIGHT : 0;
+  return Math.max(typo, prefix);
+}
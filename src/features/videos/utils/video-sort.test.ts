@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeVideoSort, normalizeVideoSort, parseSortSpec, sortVideosBySpec } from './video-sort';
+
+describe('video sort specs', () => {
+  it('parses and normalises multi-key specs', () => {
+    expect(parseSortSpec('-ImportanceRating, +PublishedAt,-ImportanceRating,bad field')).toEqual([
+      { field: 'ImportanceRating', direction: 'desc' },
+      { field: 'PublishedAt', direction: 'asc' },
+    ]);
+    expect(normalizeVideoSort('-ImportanceRating,Secret,-PublishedAt')).toBe('-ImportanceRating,-PublishedAt');
+    expect(normalizeVideoSort(['Channel,-PublishedAt'])).toBe('Channel,-PublishedAt');
+    expect(normalizeVideoSort('Secret')).toBe('-CreatedAt');
+    expect(normalizeVideoSort(null)).toBe('-CreatedAt');
+    expect(describeVideoSort('-Duration,Title')).toBe('Duration ↓, Title ↑');
+  });
+
+  it('sorts by each key in turn with empty values lowest, like NocoDB', () => {
+    const videos = [
+      { Id: 1, ImportanceRating: 5, PublishedAt: '2024-01-01T00:00:00.000Z' },
+      { Id: 2, ImportanceRating: null, PublishedAt: '2025-01-01T00:00:00.000Z' },
+      { Id: 3, ImportanceRating: 5, PublishedAt: new Date('2024-06-01T00:00:00.000Z') },
+      { Id: 4, ImportanceRating: 3, PublishedAt: null },
+      { Id: 5, ImportanceRating: 5, PublishedAt: null },
+    ];
+
+    expect(sortVideosBySpec(videos, '-ImportanceRating,-PublishedAt').map((video) => video.Id)).toEqual([
+      3, 1, 5, 4, 2,
+    ]);
+    expect(sortVideosBySpec(videos, 'PublishedAt').map((video) => video.Id)).toEqual([4, 5, 1, 3, 2]);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Sort specs in NocoDB's own syntax: comma-separated fields, `-` for
+ * descending, e.g. `-ImportanceRating,-PublishedAt`. The same spec is sent to
+ * NocoDB for lists and navigation and applied in memory by `/api/search`, the
+ * local repository and offline search, so every view orders videos alike.
+ */
+
+export const DEFAULT_VIDEO_SORT = '-CreatedAt';
+
+/** Fields the app lets users sort by. */
+export const SORTABLE_VIDEO_FIELDS = [
+  'Title',
+  'Channel',
+  'ImportanceRating',
+  'PublishedAt',
+  'CreatedAt',
+  'UpdatedAt',
+  'Duration',
+  'Sentiment',
+  'Watched',
+] as const;
+
+export type SortableVideoField = (typeof SORTABLE_VIDEO_FIELDS)[number];
+
+export interface VideoSortKey {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/** More keys than this add nothing in practice and only slow NocoDB down. */
+export const MAX_SORT_KEYS = 4;
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Parse a spec into keys. Malformed parts and repeated fields are skipped;
+ * any column name is accepted (the local repository sorts by `Id` in tests).
+ */
+export function parseSortSpec(spec: string | null | undefined): VideoSortKey[] {
+  const seen = new Set<string>();
+
+  return (spec ?? '')
+    .split(',')
+    .map((part) => part.trim())
+    .flatMap((part): VideoSortKey[] => {
+      const direction = part.startsWith('-') ? 'desc' : 'asc';
+      const field = part.replace(/^[-+]/, '');
+      if (!FIELD_NAME_PATTERN.test(field) || seen.has(field)) {
+        return [];
+      }
+      seen.add(field);
+      return [{ field, direction }];
+    });
+}
+
+export function formatSortSpec(keys: VideoSortKey[]): string {
+  return keys.map(({ field, direction }) => (direction === 'desc' ? `-${field}` : field)).join(',');
+}
+
+/**
+ * Canonical spec for user input (query strings, stored preferences): only
+ * `SORTABLE_VIDEO_FIELDS`, at most `MAX_SORT_KEYS`, and `DEFAULT_VIDEO_SORT`
+ * when nothing usable is left.
+ */
+export function normalizeVideoSort(spec: string | string[] | null | undefined): string {
+  const raw = Array.isArray(spec) ? spec[0] : spec;
+  const keys = parseSortSpec(raw)
+    .filter(({ field }) => (SORTABLE_VIDEO_FIELDS as readonly string[]).includes(field))
+    .slice(0, MAX_SORT_KEYS);
+
+  return keys.length > 0 ? formatSortSpec(keys) : DEFAULT_VIDEO_SORT;
+}
+
+function isEmptySortValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (value instanceof Date && Number.isNaN(value.getTime()))
+  );
+}
+
+const ISO_DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+
+function compareSortValues(a: unknown, b: unknown): number {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() - new Date(b as Date).getTime();
+  }
+
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+
+  if (typeof a === 'string' && typeof b === 'string' && ISO_DATE_PREFIX.test(a) && ISO_DATE_PREFIX.test(b)) {
+    return new Date(a).getTime() - new Date(b).getTime();
+  }
+
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base', numeric: true });
+}
+
+/**
+ * Compare two records key by key. Empty values rank below everything else,
+ * as in NocoDB: first in ascending sorts, last in descending ones. In-memory
+ * sorts (local repository, offline, search) thus order pages the same way as
+ * the NocoDB queries they stand in for.
+ */
+export function compareBySortKeys(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+  keys: VideoSortKey[],
+): number {
+  for (const { field, direction } of keys) {
+    const left = a[field];
+    const right = b[field];
+    const leftEmpty = isEmptySortValue(left);
+    const rightEmpty = isEmptySortValue(right);
+
+    if (leftEmpty && rightEmpty) continue;
+
+    const result = leftEmpty ? -1 : rightEmpty ? 1 : compareSortValues(left, right);
+    if (result !== 0) {
+      return direction === 'desc' ? -result : result;
+    }
+  }
+
+  return 0;
+}
+
+/** Sorted copy of `items`; ties keep their input order. */
+export function sortVideosBySpec<T extends object>(items: T[], spec: string | null | undefined): T[] {
+  const keys = parseSortSpec(spec);
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort(
+      (a, b) =>
+        compareBySortKeys(a.item as Record<string, unknown>, b.item as Record<string, unknown>, keys) ||
+        a.index - b.index,
+    )
+    .map(({ item }) => item);
+}
+
+export interface VideoSortOption {
+  value: string;
+  label: string;
+}
+
+/** Presets offered by `SortDropdown`; any other valid spec still works via `?sort=`. */
+export const VIDEO_SORT_OPTIONS: VideoSortOption[] = [
+  { value: '-CreatedAt', label: 'Date Added: Newest First' },
+  { value: 'CreatedAt', label: 'Date Added: Oldest First' },
+  { value: '-PublishedAt', label: 'Published: Newest First' },
+  { value: 'PublishedAt', label: 'Published: Oldest First' },
+  { value: '-UpdatedAt', label: 'Date Updated: Newest First' },
+  { value: 'UpdatedAt', label: 'Date Updated: Oldest First' },
+  { value: '-ImportanceRating,-PublishedAt', label: 'Importance, then Newest Published' },
+  { value: '-ImportanceRating', label: 'Importance: High to Low' },
+  { value: 'ImportanceRating', label: 'Importance: Low to High' },
+  { value: 'Title', label: 'Title: A-Z' },
+  { value: '-Title', label: 'Title: Z-A' },
+  { value: 'Channel,-PublishedAt', label: 'Channel A-Z, then Newest Published' },
+  { value: 'Channel', label: 'Channel: A-Z' },
+  { value: '-Channel', label: 'Channel: Z-A' },
+  { value: '-Duration', label: 'Duration: Longest First' },
+  { value: 'Duration', label: 'Duration: Shortest First' },
+  { value: '-Sentiment', label: 'Sentiment: Most Positive First' },
+  { value: 'Sentiment', label: 'Sentiment: Most Negative First' },
+  { value: 'Watched,-CreatedAt', label: 'Unwatched First' },
+  { value: '-Watched,-CreatedAt', label: 'Watched First' },
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  CreatedAt: 'Date Added',
+  UpdatedAt: 'Date Updated',
+  PublishedAt: 'Published',
+  ImportanceRating: 'Importance',
+};
+
+/** Label for a spec: the preset's, or one built from the keys (`Importance ↓, Published ↓`). */
+export function describeVideoSort(spec: string): string {
+  const preset = VIDEO_SORT_OPTIONS.find((option) => option.value === spec);
+  if (preset) {
+    return preset.label;
+  }
+
+  return parseSortSpec(spec)
+    .map(({ field, direction }) => `${FIELD_LABELS[field] ?? field} ${direction === 'desc' ? '↓' : '↑'}`)
+    .join(', ');
+}
@@ -0,0 +1,23 @@
+import { DEFAULT_WORKSPACE_ID, WORKSPACE_PARAM } from '@/features/videos/api/workspaces';
+
+/**
+ * Add (or replace) the `workspace` query parameter on an app-relative URL.
+ * The default workspace is omitted so existing links stay unchanged.
+ */
+export function withWorkspace(path: string, workspaceId: string | null | undefined): string {
+  const url = new URL(path, 'http://workspace.local');
+
+  if (workspaceId && workspaceId !== DEFAULT_WORKSPACE_ID) {
+    url.searchParams.set(WORKSPACE_PARAM, workspaceId);
+  } else {
+    url.searchParams.delete(WORKSPACE_PARAM);
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/** Read the workspace from a query string; `null` means the default workspace. */
+export function getWorkspaceFromSearch(search: string): string | null {
+  const value = new URLSearchParams(search).get(WORKSPACE_PARAM)?.trim();
+  return value && value !== DEFAULT_WORKSPACE_ID ? value : null;
+}
@@ -0,0 +1,22 @@
+/**
+ * Next.js boot hook. Validates the environment once before the first request
+ * so a missing or malformed variable stops the server with a readable report
+ * (see `src/shared/utils/env.ts`).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') {
+    return;
+  }
+
+  const { assertServerEnv, InvalidEnvironmentError } = await import('@/shared/utils/env');
+
+  try {
+    assertServerEnv();
+  } catch (error) {
+    if (error instanceof InvalidEnvironmentError) {
+      console.error(`\n${error.message}\n`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
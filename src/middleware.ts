@@ -23,11 +23,17 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // Allow access to login page, auth API, and offline sync API
+  // Allow access to login page, auth API, offline sync API, webhooks, metrics and
+  // health probes (webhooks and metrics authenticate with their own shared secret;
+  // /api/ready only shows check details to a session or the metrics token)
   if (
     pathname === '/login' ||
     pathname.startsWith('/api/auth') ||
     pathname.startsWith('/api/offline') ||
+    pathname.startsWith('/api/webhooks') ||
+    pathname === '/api/metrics' ||
+    pathname === '/api/health' ||
+    pathname === '/api/ready' ||
     pathname === '/sw.js' ||
     pathname === '/idb.min.js' ||
     pathname === '/manifest.json' ||
@@ -2,11 +2,12 @@
 
 import { useOfflineMode } from '@/features/offline/hooks/use-offline-mode';
 import { useOfflineStats } from '@/features/offline/hooks/use-offline-stats';
+import Link from 'next/link';
 import { WifiOff, Wifi, RefreshCw } from 'lucide-react';
 
 export function OfflineIndicator() {
   const { isOfflineMode, isOnline, isSyncing } = useOfflineMode();
-  const { pendingMutations } = useOfflineStats();
+  const { pendingMutations, conflicts } = useOfflineStats();
 
   // Nur anzeigen wenn Offline-Modus aktiviert ist
   if (!isOfflineMode) return null;
@@ -33,6 +34,11 @@ export function OfflineIndicator() {
               {pendingMutations} pending
             </span>
           )}
+          {conflicts.length > 0 && (
+            <Link href="/settings" className="ml-2 px-2 py-0.5 bg-red-600 rounded-full text-xs underline">
+              {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+            </Link>
+          )}
         </>
       ) : (
         <>
@@ -43,6 +49,11 @@ export function OfflineIndicator() {
               {pendingMutations} pending
             </span>
           )}
+          {conflicts.length > 0 && (
+            <Link href="/settings" className="ml-2 px-2 py-0.5 bg-red-600 rounded-full text-xs underline">
+              {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+            </Link>
+          )}
         </>
       )}
     </div>
@@ -1,5 +1,5 @@
 import { render, screen, fireEvent, act } from '@testing-library/react';
-import { beforeEach, afterEach, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { SearchComponent } from './search-component';
 
 const mockVideos = [
@@ -68,6 +68,25 @@ describe('SearchComponent', () => {
     expect(screen.queryByText('📝 machine learning')).not.toBeInTheDocument();
   });
 
+  it('shows query syntax errors and help', async () => {
+    render(<SearchComponent initialVideos={mockVideos} />);
+
+    const input = screen.getByPlaceholderText(/Search videos/);
+    await act(async () => {
+      fireEvent.change(input, { target: { value: 'rating:lots' } });
+      fireEvent.focus(input);
+    });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('"rating:" expects a number');
+    expect(screen.getByText(/Add "rating:lots" as tag/).closest('button')).toBeDisabled();
+
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('Search syntax'));
+    });
+
+    expect(screen.getByText('published:2024..2025')).toBeInTheDocument();
+  });
+
   it('clears all tags when clicking clear all', async () => {
     render(<SearchComponent initialVideos={mockVideos} />);
 
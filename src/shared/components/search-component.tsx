@@ -1,12 +1,17 @@
 "use client";
 
 import { useState, useMemo, useCallback, useEffect, useRef } from "react";
-import { Search, Tag, Filter, X, Loader2 } from 'lucide-react';
+import { Search, Tag, Filter, X, Loader2, CircleHelp } from 'lucide-react';
 import { Input } from '@/shared/components/ui/input';
 import { Button } from '@/shared/components/ui/button';
 import { Card, CardContent } from '@/shared/components/ui/card';
 import { Badge } from '@/shared/components/ui/badge';
+import { useSearchParams } from "next/navigation";
 import { VideoCard } from '@/features/videos/components/video-card';
+import { useWorkspace } from '@/features/videos/hooks/use-workspace';
+import { normalizeVideoSort } from '@/features/videos/utils/video-sort';
+import { VIDEO_QUERY_FIELDS, VIDEO_SEARCH_CATEGORIES } from '@/features/videos/api/field-registry';
+import { parseSearchQuery, SearchQuerySyntaxError } from '@/features/videos/utils/search-query';
 import type { VideoListItem } from "@/features/videos/api/nocodb";
 
 interface SearchTag {
@@ -16,32 +21,34 @@ interface SearchTag {
   label: string;
 }
 
+const QUERY_SYNTAX_EXAMPLES: Array<{ example: string; description: string }> = [
+  { example: 'rates inflation', description: 'all words' },
+  { example: '"interest rates"', description: 'exact phrase' },
+  { example: 'fed OR ecb', description: 'either word' },
+  { example: '-crypto', description: 'exclude' },
+  { example: 'channel:"Lex Fridman"', description: 'in one field' },
+  { example: 'ticker:NVDA', description: 'ticker symbol' },
+  { example: 'rating:>=4', description: 'compare numbers' },
+  { example: 'published:2024..2025', description: 'date range' },
+  { example: 'watched:false', description: 'yes/no fields' },
+];
+
+/** Parse error of a query, or `null` when it is valid (the server parses it again). */
+function querySyntaxError(query: string): SearchQuerySyntaxError | null {
+  try {
+    parseSearchQuery(query);
+    return null;
+  } catch (error) {
+    if (error instanceof SearchQuerySyntaxError) return error;
+    throw error;
+  }
+}
+
 interface SearchComponentProps {
   initialVideos?: VideoListItem[];
   className?: string;
 }
 
-const SEARCH_CATEGORIES = [
-  { key: 'title', label: 'Title', icon: '📝' },
-  { key: 'description', label: 'Description', icon: '📄' },
-  { key: 'channel', label: 'Channel', icon: '📺' },
-  { key: 'speaker', label: 'Speaker', icon: '🎤' },
-  { key: 'genre', label: 'Genre', icon: '🎭' },
-  { key: 'topic', label: 'Topic', icon: '🏷️' },
-  { key: 'hashtag', label: 'Hashtag', icon: '#' },
-  { key: 'person', label: 'Person', icon: '👤' },
-  { key: 'company', label: 'Company', icon: '🏢' },
-  { key: 'indicator', label: 'Indicator', icon: '📊' },
-  { key: 'trend', label: 'Trend', icon: '📈' },
-  { key: 'asset', label: 'Asset', icon: '💰' },
-  { key: 'institution', label: 'Institution', icon: '🏛️' },
-  { key: 'event', label: 'Event', icon: '📅' },
-  { key: 'doi', label: 'DOI', icon: '🔗' },
-  { key: 'source', label: 'Source', icon: '📚' },
-  { key: 'technical', label: 'Technical', icon: '⚙️' },
-  { key: 'ticker', label: 'Ticker', icon: '📊' },
-];
-
 export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [searchTags, setSearchTags] = useState<SearchTag[]>([]);
@@ -52,19 +59,26 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const [hasNextPage, setHasNextPage] = useState(initialVideos.length >= 35); // Assume more if we got a full page
   const [totalResults, setTotalResults] = useState(0);
+  const [showSyntaxHelp, setShowSyntaxHelp] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
   const loadingRef = useRef<HTMLDivElement>(null);
   const isLoadingRef = useRef(false);
+  const { workspaceId, withWorkspace } = useWorkspace();
+  // `?sort=` drives the list and search alike; the parent remounts this component when it changes.
+  const sort = normalizeVideoSort(useSearchParams()?.get('sort'));
 
   // Generate unique ID for tags
   const generateTagId = useCallback(() => {
     return `tag_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }, []);
 
+  const inputError = useMemo(() => querySyntaxError(searchQuery), [searchQuery]);
+
   // Add a search tag
   const addSearchTag = useCallback((value: string, category: string) => {
-    if (!value.trim()) return;
+    if (!value.trim() || querySyntaxError(value)) return;
 
-    const categoryInfo = SEARCH_CATEGORIES.find(cat => cat.key === category);
+    const categoryInfo = VIDEO_SEARCH_CATEGORIES.find(cat => cat.key === category);
     const label = categoryInfo ? `${categoryInfo.icon} ${value}` : value;
 
     const newTag: SearchTag = {
@@ -101,6 +115,7 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
     setCurrentPage(1);
     setHasNextPage(true);
     setTotalResults(0);
+    setSearchError(null);
   }, []);
 
   // Perform search
@@ -115,7 +130,7 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
 
       try {
         const page = currentPage; // Use current page number, not currentPage + 1
-        const response = await fetch(`/api/videos?page=${page}&limit=35&sort=-CreatedAt`);
+        const response = await fetch(withWorkspace(`/api/videos?page=${page}&limit=35&sort=${encodeURIComponent(sort)}`));
         const data = await response.json();
 
         if (data.success && data.videos && data.videos.length > 0) {
@@ -152,15 +167,17 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
     }
 
     try {
-      const query = searchTags.map(tag => tag.value).join(' ');
-      const categories = selectedCategories.length > 0 ? selectedCategories : SEARCH_CATEGORIES.map(cat => cat.key);
+      // Each tag is its own group, so `a OR b` in one tag does not reach into the next
+      const query = searchTags.map(tag => (/\s/.test(tag.value) ? `(${tag.value})` : tag.value)).join(' ');
+      const categories = selectedCategories.length > 0 ? selectedCategories : VIDEO_SEARCH_CATEGORIES.map(cat => cat.key);
       const page = isLoadMore ? currentPage : 1;
       const offset = (page - 1) * 35;
 
-      const response = await fetch(`/api/search?q=${encodeURIComponent(query)}&categories=${encodeURIComponent(categories.join(','))}&limit=35&offset=${offset}&sort=-CreatedAt`);
+      const response = await fetch(withWorkspace(`/api/search?q=${encodeURIComponent(query)}&categories=${encodeURIComponent(categories.join(','))}&limit=35&offset=${offset}&sort=${encodeURIComponent(sort)}`));
       const data = await response.json();
 
       if (data.success) {
+        setSearchError(null);
         if (isLoadMore) {
           setSearchResults(prev => [...prev, ...(data.videos || [])]);
           setCurrentPage(prev => prev + 1);
@@ -172,6 +189,8 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
         }
       } else {
         console.error('Search failed:', data.error);
+        // Problem responses explain invalid queries in `detail`
+        setSearchError(data.detail || data.title || 'Search failed');
         if (!isLoadMore) {
           setSearchResults([]);
           setHasNextPage(false);
@@ -189,7 +208,7 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
       setIsSearching(false);
       isLoadingRef.current = false;
     }
-  }, [searchTags, selectedCategories, currentPage]);
+  }, [searchTags, selectedCategories, currentPage, withWorkspace, sort]);
 
   // Trigger search when tags or categories change
   useEffect(() => {
@@ -245,7 +264,7 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
       if (e.key === 'Escape') {
         setShowCategorySelector(false);
       }
-      if (e.key === 'Enter' && searchQuery.trim()) {
+      if (e.key === 'Enter' && searchQuery.trim() && !inputError) {
         e.preventDefault();
         addSearchTag(searchQuery, selectedCategories[0] || 'title');
       }
@@ -253,13 +272,13 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [searchQuery, selectedCategories, addSearchTag]);
+  }, [searchQuery, selectedCategories, addSearchTag, inputError]);
 
   // Get available categories based on current search
   const availableCategories = useMemo(() => {
-    if (!searchQuery.trim()) return SEARCH_CATEGORIES;
+    if (!searchQuery.trim()) return VIDEO_SEARCH_CATEGORIES;
 
-    return SEARCH_CATEGORIES.filter(cat =>
+    return VIDEO_SEARCH_CATEGORIES.filter(cat =>
       cat.label.toLowerCase().includes(searchQuery.toLowerCase()) ||
       cat.key.toLowerCase().includes(searchQuery.toLowerCase())
     );
@@ -311,8 +330,9 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
                   type="text"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search videos... (e.g., 'machine learning' → add tags with Enter)"
-                  className="pl-10 pr-20"
+                  placeholder="Search videos... (e.g., 'machine learning' or 'rating:>=4 -crypto' → add tags with Enter)"
+                  className="pl-10 pr-28"
+                  aria-invalid={inputError ? true : undefined}
                   onFocus={() => searchQuery.trim() && setShowCategorySelector(true)}
                 />
                 <div className="absolute right-2 flex items-center gap-1">
@@ -327,6 +347,16 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
                       <Filter className="w-3 h-3" />
                     </Button>
                   )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowSyntaxHelp(!showSyntaxHelp)}
+                    className="h-6 w-6 p-0"
+                    title="Search syntax"
+                    aria-expanded={showSyntaxHelp}
+                  >
+                    <CircleHelp className="w-3 h-3" />
+                  </Button>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -368,10 +398,10 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
                           size="sm"
                           onClick={() => addSearchTag(searchQuery, selectedCategories[0] || 'title')}
                           className="w-full text-xs"
-                          disabled={selectedCategories.length > 1}
+                          disabled={selectedCategories.length > 1 || inputError !== null}
                         >
                           Add &quot;{searchQuery}&quot; as tag
-                          {selectedCategories.length === 1 && ` in ${SEARCH_CATEGORIES.find(c => c.key === selectedCategories[0])?.label}`}
+                          {selectedCategories.length === 1 && ` in ${VIDEO_SEARCH_CATEGORIES.find(c => c.key === selectedCategories[0])?.label}`}
                         </Button>
                       </div>
                     )}
@@ -380,12 +410,43 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
               )}
             </div>
 
+            {/* Query syntax errors (typed here or reported by the server) */}
+            {(inputError || searchError) && (
+              <p role="alert" className="text-xs text-destructive">
+                {inputError
+                  ? `${inputError.message} (at character ${inputError.position + 1})`
+                  : searchError}
+              </p>
+            )}
+
+            {/* Syntax Help */}
+            {showSyntaxHelp && (
+              <div className="rounded-md border bg-muted/40 p-3 text-xs space-y-2">
+                <div className="font-medium">Search syntax</div>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                  {QUERY_SYNTAX_EXAMPLES.map(({ example, description }) => (
+                    <div key={example} className="contents">
+                      <dt><code>{example}</code></dt>
+                      <dd className="text-muted-foreground">{description}</dd>
+                    </div>
+                  ))}
+                </dl>
+                <div className="text-muted-foreground">
+                  Fields: {VIDEO_QUERY_FIELDS.map(field => field.key).join(', ')}. Dates are YYYY, YYYY-MM or YYYY-MM-DD;
+                  OR binds tighter than the implicit AND, use parentheses to group.
+                </div>
+                <div className="text-muted-foreground">
+                  Words also find prefixes and small typos (ranked after exact hits); ä = ae, ö = oe, ü = ue, ß = ss.
+                </div>
+              </div>
+            )}
+
             {/* Selected Categories Display */}
             {selectedCategories.length > 0 && (
               <div className="flex flex-wrap gap-1">
                 <span className="text-xs text-muted-foreground">Searching in:</span>
                 {selectedCategories.map((category) => {
-                  const categoryInfo = SEARCH_CATEGORIES.find(cat => cat.key === category);
+                  const categoryInfo = VIDEO_SEARCH_CATEGORIES.find(cat => cat.key === category);
                   return (
                     <Badge key={category} variant="outline" className="text-xs">
                       {categoryInfo?.icon} {categoryInfo?.label}
@@ -435,7 +496,13 @@ export function SearchComponent({ initialVideos = [] }: SearchComponentProps) {
         {searchResults.length > 0 && (
           <div className="grid grid-cols-[repeat(auto-fill,minmax(200px,1fr))] gap-4">
             {searchResults.map((video, index) => (
-              <VideoCard key={`${video.Id}-${index}`} video={video} priority={index === 0} />
+              <VideoCard
+                key={`${video.Id}-${index}`}
+                video={video}
+                priority={index === 0}
+                workspaceId={workspaceId}
+                sort={sort}
+              />
             ))}
           </div>
         )}
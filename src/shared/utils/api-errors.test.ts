@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/shared/utils/server-logger', () => ({
+  logDevEvent: vi.fn(),
+  logDevError: vi.fn(),
+}));
+
+import {
+  NocoDBRequestError,
+  NocoDBTimeoutError,
+  NocoDBUnavailableError,
+  NocoDBValidationError,
+  VideoAlreadyExistsError,
+  VideoConflictError,
+  VideoInTrashError,
+} from '@/features/videos/api/errors';
+import type { Video } from '@/features/videos/api/schemas';
+
+import { ApiError, problemFromError, withApiErrors } from './api-errors';
+
+describe('problemFromError', () => {
+  it('maps NocoDB failures to gateway and client statuses', () => {
+    expect(problemFromError(new NocoDBRequestError('gone', 404))).toMatchObject({ status: 404, title: 'Not found' });
+    expect(problemFromError(new NocoDBRequestError('bad where', 422))).toMatchObject({ status: 400 });
+    expect(problemFromError(new NocoDBRequestError('token', 401))).toMatchObject({
+      status: 502,
+      extensions: { upstreamStatus: 401 },
+    });
+    expect(problemFromError(new NocoDBTimeoutError('slow'))).toMatchObject({ status: 504 });
+    expect(problemFromError(new NocoDBValidationError('bad row', [{ path: ['Id'] }]))).toMatchObject({
+      status: 502,
+      extensions: { issues: [{ path: ['Id'] }] },
+    });
+    expect(problemFromError(new NocoDBUnavailableError('open', 2500))).toMatchObject({
+      status: 503,
+      headers: { 'Retry-After': '3' },
+    });
+    expect(problemFromError(new Error('boom'), 'Failed to fetch videos')).toMatchObject({
+      status: 500,
+      title: 'Failed to fetch videos',
+      detail: 'boom',
+    });
+  });
+
+  it('tells trashed duplicates apart from videos in the library', () => {
+    const existing = { Id: 3, VideoID: 'abc' } as Video;
+    expect(problemFromError(new VideoAlreadyExistsError('abc', existing))).toMatchObject({
+      type: 'urn:yt-viewer:problem:video-exists',
+      status: 409,
+      extensions: { existing },
+    });
+    expect(problemFromError(new VideoInTrashError('abc', existing))).toMatchObject({
+      type: 'urn:yt-viewer:problem:video-in-trash',
+      title: 'Video is in the trash',
+      status: 409,
+      extensions: { existing },
+    });
+  });
+});
+
+describe('withApiErrors', () => {
+  it('answers thrown errors as problem+json with the caller correlation id', async () => {
+    const handler = withApiErrors(async () => {
+      throw new ApiError(404, 'Video not found');
+    });
+
+    const response = await handler(
+      new NextRequest('http://localhost/api/videos/abc/details', { headers: { 'x-correlation-id': 'req-42' } }),
+    );
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('content-type')).toBe('application/problem+json');
+    expect(response.headers.get('x-correlation-id')).toBe('req-42');
+    expect(await response.json()).toMatchObject({
+      type: 'urn:yt-viewer:problem:not-found',
+      title: 'Video not found',
+      status: 404,
+      instance: '/api/videos/abc/details',
+      correlationId: 'req-42',
+      success: false,
+      error: 'Video not found',
+    });
+  });
+
+  it('keeps conflict payloads and tags successful responses', async () => {
+    const current = { Id: 7, UpdatedAt: new Date('2025-01-01T00:00:00.000Z') } as Video;
+    const conflict = withApiErrors(async () => {
+      throw new VideoConflictError('stale', current);
+    });
+    const ok = withApiErrors(async () => NextResponse.json({ success: true }));
+
+    const conflictResponse = await conflict(new NextRequest('http://localhost/api/videos/7'));
+    expect(conflictResponse.status).toBe(409);
+    expect(conflictResponse.headers.get('etag')).toBe(`W/"7-${current.UpdatedAt!.getTime()}"`);
+    expect((await conflictResponse.json()).current).toMatchObject({ Id: 7 });
+
+    const okResponse = await ok(new NextRequest('http://localhost/api/workspaces', { headers: { 'x-correlation-id': 'bad id!' } }));
+    expect(okResponse.headers.get('x-correlation-id')).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
@@ -0,0 +1,394 @@
+import { randomUUID } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+import { videoETag } from '@/features/videos/api/concurrency';
+import {
+  InvalidVideoFilterError,
+  InvalidWebhookPayloadError,
+  InvalidYouTubeVideoError,
+  NocoDBRequestError,
+  NocoDBTimeoutError,
+  NocoDBUnavailableError,
+  NocoDBValidationError,
+  UnknownWorkspaceError,
+  VideoAlreadyExistsError,
+  VideoConflictError,
+  VideoETagMismatchError,
+  VideoInTrashError,
+  VideoNotFoundError,
+  VideoNotInTrashError,
+  YouTubeMetadataError,
+} from '@/features/videos/api/errors';
+import { SearchQuerySyntaxError } from '@/features/videos/utils/search-query';
+import { InvalidEnvironmentError } from '@/shared/utils/env';
+import { httpRequestDuration, httpRequestsTotal, secondsSince } from '@/shared/utils/metrics';
+import { logDevEvent } from '@/shared/utils/server-logger';
+
+/**
+ * Shared error handling for route handlers under `src/app/api`.
+ *
+ * Handlers are wrapped with `withApiErrors` and simply throw: domain errors
+ * (`NocoDBRequestError`, `VideoConflictError`, ...) and `ApiError` for
+ * request-level failures are mapped to an HTTP status and answered as RFC 7807
+ * `application/problem+json`. Every response carries an `X-Correlation-ID`
+ * (taken from the request when the caller sent one), which is also written to
+ * the problem body and the server log.
+ *
+ * The wrapper also records request count and latency per route template for
+ * `/api/metrics`.
+ *
+ * Problem bodies keep the older `{ success: false, error, details }` members as
+ * extensions so existing clients keep working.
+ */
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id';
+
+const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+const CORRELATION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/** Thrown by handlers for failures they detect themselves (missing fields, unknown ids). */
+export class ApiError extends Error {
+  status: number;
+  title: string;
+  detail?: string;
+  extensions: Record<string, unknown>;
+
+  constructor(status: number, title: string, detail?: string, extensions: Record<string, unknown> = {}) {
+    super(detail ?? title);
+    this.name = 'ApiError';
+    this.status = status;
+    this.title = title;
+    this.detail = detail;
+    this.extensions = extensions;
+  }
+}
+
+export interface Problem {
+  /** URI identifying the problem type; `about:blank` when the status says it all. */
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  extensions?: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+function problemType(slug: string): string {
+  return `urn:yt-viewer:problem:${slug}`;
+}
+
+const TYPE_BY_STATUS: Record<number, string> = {
+  400: problemType('invalid-request'),
+  401: problemType('unauthorized'),
+  403: problemType('forbidden'),
+  404: problemType('not-found'),
+  409: problemType('conflict'),
+  412: problemType('precondition-failed'),
+};
+
+function formatIssues(error: ZodError): string {
+  return error.errors
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/** `400` for a request body or parameter that failed its zod schema. */
+export function invalidRequestError(title: string, error: ZodError): ApiError {
+  return new ApiError(400, title, formatIssues(error), { issues: error.errors });
+}
+
+/** Parse the JSON body, answering `400` instead of a 500 for malformed input. */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError(400, 'Request body must be JSON');
+  }
+}
+
+function upstreamProblem(error: NocoDBRequestError): Problem {
+  const extensions = { upstreamStatus: error.status ?? null };
+
+  if (error instanceof NocoDBUnavailableError) {
+    const retryAfter = Math.max(1, Math.ceil(error.retryAfterMs / 1000));
+    return {
+      type: problemType('upstream-unavailable'),
+      title: 'NocoDB is temporarily unavailable',
+      status: 503,
+      detail: error.message,
+      extensions: { retryAfter },
+      headers: { 'Retry-After': String(retryAfter) },
+    };
+  }
+
+  if (error instanceof NocoDBTimeoutError) {
+    return { type: problemType('upstream-timeout'), title: 'NocoDB did not respond in time', status: 504, detail: error.message, extensions };
+  }
+
+  switch (error.status) {
+    case 404:
+      return { type: problemType('not-found'), title: 'Not found', status: 404, detail: error.message, extensions };
+    case 400:
+    case 422:
+      return { type: problemType('upstream-rejected'), title: 'NocoDB rejected the request', status: 400, detail: error.message, extensions };
+    case 401:
+    case 403:
+      // Our API token is wrong, not the caller's login, so this is a gateway failure.
+      return { type: problemType('upstream-auth'), title: 'NocoDB rejected the API token', status: 502, detail: error.message, extensions };
+    case 409:
+      return { type: problemType('conflict'), title: 'Conflict', status: 409, detail: error.message, extensions };
+    case 429:
+      return { type: problemType('upstream-unavailable'), title: 'NocoDB is rate limiting requests', status: 503, detail: error.message, extensions };
+    default:
+      return { type: problemType('upstream-error'), title: 'NocoDB request failed', status: 502, detail: error.message, extensions };
+  }
+}
+
+/** Map anything a handler may throw to a problem; unknown errors become `500 fallbackTitle`. */
+export function problemFromError(error: unknown, fallbackTitle = 'Internal server error'): Problem {
+  if (error instanceof ApiError) {
+    return {
+      type: TYPE_BY_STATUS[error.status] ?? 'about:blank',
+      title: error.title,
+      status: error.status,
+      detail: error.detail,
+      extensions: error.extensions,
+    };
+  }
+
+  if (error instanceof NocoDBRequestError) {
+    return upstreamProblem(error);
+  }
+
+  if (error instanceof NocoDBValidationError) {
+    return {
+      type: problemType('upstream-invalid-data'),
+      title: 'NocoDB returned data the app cannot read',
+      status: 502,
+      detail: error.message,
+      extensions: { issues: error.issues },
+    };
+  }
+
+  if (error instanceof UnknownWorkspaceError) {
+    return {
+      type: problemType('unknown-workspace'),
+      title: 'Unknown workspace',
+      status: 400,
+      detail: error.message,
+      extensions: { workspace: error.workspaceId },
+    };
+  }
+
+  if (error instanceof InvalidVideoFilterError || error instanceof InvalidWebhookPayloadError) {
+    return {
+      type: problemType('invalid-request'),
+      title: error instanceof InvalidVideoFilterError ? 'Invalid filter' : 'Invalid webhook payload',
+      status: 400,
+      detail: error.message,
+      extensions: { issues: error.issues },
+    };
+  }
+
+  if (error instanceof SearchQuerySyntaxError) {
+    return {
+      type: problemType('invalid-query'),
+      title: 'Invalid search query',
+      status: 400,
+      detail: error.message,
+      extensions: { position: error.position },
+    };
+  }
+
+  if (error instanceof InvalidYouTubeVideoError) {
+    return { type: problemType('invalid-request'), title: 'Invalid YouTube URL or video ID', status: 400, detail: error.message };
+  }
+
+  if (error instanceof ZodError) {
+    return {
+      type: problemType('invalid-request'),
+      title: 'Invalid request',
+      status: 400,
+      detail: formatIssues(error),
+      extensions: { issues: error.errors },
+    };
+  }
+
+  if (error instanceof VideoConflictError) {
+    const etag = videoETag(error.current);
+    return {
+      type: problemType('video-conflict'),
+      title: 'Video was modified by someone else',
+      status: 409,
+      detail: error.message,
+      extensions: { current: error.current },
+      headers: etag ? { ETag: etag } : undefined,
+    };
+  }
+
+  if (error instanceof VideoETagMismatchError) {
+    return {
+      type: problemType('precondition-failed'),
+      title: 'If-Match does not match this video',
+      status: 412,
+      detail: error.message,
+      extensions: { videoId: error.videoId },
+    };
+  }
+
+  // Before VideoAlreadyExistsError, which it extends.
+  if (error instanceof VideoInTrashError) {
+    return {
+      type: problemType('video-in-trash'),
+      title: 'Video is in the trash',
+      status: 409,
+      detail: error.message,
+      extensions: { existing: error.existing },
+    };
+  }
+
+  if (error instanceof VideoAlreadyExistsError) {
+    return {
+      type: problemType('video-exists'),
+      title: 'Video is already in the library',
+      status: 409,
+      detail: error.message,
+      extensions: { existing: error.existing },
+    };
+  }
+
+  if (error instanceof VideoNotFoundError) {
+    return {
+      type: problemType('not-found'),
+      title: 'Video not found',
+      status: 404,
+      detail: error.message,
+      extensions: { videoId: error.videoId },
+    };
+  }
+
+  if (error instanceof VideoNotInTrashError) {
+    return { type: problemType('conflict'), title: 'Video is not in the trash', status: 409, detail: error.message };
+  }
+
+  if (error instanceof InvalidEnvironmentError) {
+    // Only the variable names and rules; values (and secrets) are not part of the message.
+    return { type: problemType('misconfigured'), title: 'Server configuration is invalid', status: 500, detail: error.message };
+  }
+
+  if (error instanceof YouTubeMetadataError) {
+    return { type: problemType('youtube-unavailable'), title: 'Failed to load video from YouTube', status: 502, detail: error.message };
+  }
+
+  return {
+    type: 'about:blank',
+    title: fallbackTitle,
+    status: 500,
+    detail: error instanceof Error ? error.message : 'Unknown error',
+  };
+}
+
+export function getCorrelationId(request: Request): string {
+  const incoming = request.headers.get(CORRELATION_ID_HEADER) ?? request.headers.get('x-request-id');
+  return incoming && CORRELATION_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+export function problemResponse(problem: Problem, { instance, correlationId }: { instance?: string; correlationId: string }) {
+  return NextResponse.json(
+    {
+      type: problem.type,
+      title: problem.title,
+      status: problem.status,
+      detail: problem.detail,
+      instance,
+      correlationId,
+      ...problem.extensions,
+      success: false,
+      error: problem.title,
+      details: problem.detail,
+    },
+    {
+      status: problem.status,
+      headers: {
+        'Content-Type': PROBLEM_CONTENT_TYPE,
+        [CORRELATION_ID_HEADER]: correlationId,
+        ...problem.headers,
+      },
+    },
+  );
+}
+
+/**
+ * Route template for metrics: dynamic segment values from the handler context
+ * (`{ params }`) are replaced by their `[name]`, e.g. `/api/videos/[videoId]/details`.
+ */
+export async function routeTemplate(pathname: string, context: unknown): Promise<string> {
+  const params =
+    context && typeof context === 'object' && 'params' in context
+      ? await (context as { params: unknown }).params
+      : undefined;
+  if (!params || typeof params !== 'object') {
+    return pathname;
+  }
+
+  const names = new Map<string, string>();
+  Object.entries(params as Record<string, unknown>).forEach(([name, value]) => {
+    if (typeof value === 'string' && value) {
+      names.set(encodeURIComponent(value), name);
+    }
+  });
+
+  return pathname
+    .split('/')
+    .map((segment) => (names.has(segment) ? `[${names.get(segment)}]` : segment))
+    .join('/');
+}
+
+/**
+ * Wrap a route handler: thrown errors become problem responses, and every
+ * response gets the correlation id header. `fallbackTitle` names the operation
+ * for unexpected errors ("Failed to fetch videos").
+ */
+export function withApiErrors<Req extends Request, Args extends unknown[]>(
+  handler: (request: Req, ...args: Args) => Response | Promise<Response>,
+  fallbackTitle?: string,
+) {
+  return async (request: Req, ...args: Args): Promise<Response> => {
+    const correlationId = getCorrelationId(request);
+    const startedAt = performance.now();
+    let response: Response;
+
+    try {
+      response = await handler(request, ...args);
+    } catch (error) {
+      const problem = problemFromError(error, fallbackTitle);
+      const instance = new URL(request.url).pathname;
+
+      void logDevEvent({
+        level: problem.status >= 500 ? 'error' : 'warn',
+        message: `${request.method} ${instance} failed: ${problem.title}`,
+        payload: {
+          correlationId,
+          status: problem.status,
+          detail: problem.detail,
+          error: error instanceof Error ? error.name : typeof error,
+        },
+      });
+
+      response = problemResponse(problem, { instance, correlationId });
+    }
+
+    try {
+      response.headers.set(CORRELATION_ID_HEADER, correlationId);
+    } catch {
+      // Redirects and proxied responses may have immutable headers.
+    }
+
+    const route = await routeTemplate(new URL(request.url).pathname, args[0]).catch(() => 'unknown');
+    httpRequestsTotal.inc({ route, method: request.method, status: response.status });
+    httpRequestDuration.observe({ route, method: request.method }, secondsSince(startedAt));
+
+    return response;
+  };
+}
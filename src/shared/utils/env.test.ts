@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { assertServerEnv, describeServerEnv, InvalidEnvironmentError, readServerEnv } from './env';
+
+const VALID_ENV = {
+  NC_URL: 'http://localhost:8080',
+  NC_TOKEN: 'nc-secret',
+  NOCODB_PROJECT_ID: 'p1',
+  NOCODB_TABLE_ID: 'm1',
+  APP_PASSWORD: 'hunter2',
+};
+
+describe('server env', () => {
+  it('applies defaults and accepts a minimal NocoDB setup', () => {
+    const env = assertServerEnv(VALID_ENV);
+
+    expect(env.VIDEO_REPOSITORY).toBe('nocodb');
+    expect(env.NEXT_PUBLIC_TTS_API_URL).toBe('http://127.0.0.1:50000');
+    expect(env.NEXT_PUBLIC_TTS_VOICE_DE).toBe('de');
+  });
+
+  it('lists every invalid variable in one report', () => {
+    let error: unknown;
+    try {
+      assertServerEnv({ NC_URL: 'not a url', NOCODB_MAX_RETRIES: '-1', NOCODB_WORKSPACES: '[{"id":"x"}]' });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(InvalidEnvironmentError);
+    const message = (error as Error).message;
+    expect(message).toContain('NC_URL Invalid url');
+    expect(message).toContain('NC_TOKEN is required while VIDEO_REPOSITORY=nocodb');
+    expect(message).toContain('APP_PASSWORD is required');
+    expect(message).toContain('NOCODB_MAX_RETRIES');
+    expect(message).toContain('NOCODB_WORKSPACES.0.tableId is required');
+  });
+
+  it('does not require NocoDB variables in local mode', () => {
+    expect(() => assertServerEnv({ VIDEO_REPOSITORY: 'local', APP_PASSWORD: 'x' })).not.toThrow();
+    expect(readServerEnv('YOUTUBE_SAVED_PLAYLIST_ID', { YOUTUBE_SAVED_PLAYLIST_ID: ' ' })).toBeUndefined();
+  });
+
+  it('redacts secrets in the diagnostics summary', () => {
+    const summary = describeServerEnv({ ...VALID_ENV, NOCODB_CIRCUIT_RESET_MS: 'soon' });
+    const byKey = new Map(summary.map((entry) => [entry.key, entry]));
+
+    expect(byKey.get('NC_TOKEN')).toMatchObject({ value: '[redacted]', source: 'env', secret: true });
+    expect(byKey.get('NC_URL')).toMatchObject({ value: 'http://localhost:8080', source: 'env' });
+    expect(byKey.get('NEXT_PUBLIC_TTS_VOICE_EN')).toMatchObject({ value: 'en', source: 'default' });
+    expect(byKey.get('METRICS_TOKEN')).toMatchObject({ value: null, source: 'unset' });
+    expect(byKey.get('NOCODB_CIRCUIT_RESET_MS')).toMatchObject({ value: 'soon', error: expect.any(String) });
+    expect(JSON.stringify(summary)).not.toContain('nc-secret');
+  });
+});
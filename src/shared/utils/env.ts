@@ -0,0 +1,221 @@
+import { z } from 'zod';
+
+import { workspaceListSchema } from '@/features/videos/api/workspaces';
+
+/**
+ * Every environment variable the server reads, validated with zod.
+ *
+ * `src/instrumentation.ts` runs `assertServerEnv()` once at boot so a missing
+ * or malformed variable stops the server with one readable report instead of
+ * surfacing as a 500 on the first request that needs it. Modules keep reading
+ * their values lazily (tests override them per case) through
+ * `readServerEnv` or their own `get*Config` helpers.
+ */
+
+export const DEFAULT_TTS_API_URL = 'http://127.0.0.1:50000';
+
+function emptyToUndefined(value: unknown): unknown {
+  return typeof value === 'string' && value.trim() === '' ? undefined : value;
+}
+
+const optionalString = z.preprocess(emptyToUndefined, z.string().trim().min(1).optional());
+const optionalUrl = z.preprocess(emptyToUndefined, z.string().trim().url().optional());
+const optionalNonNegativeInt = z.preprocess(emptyToUndefined, z.coerce.number().int().nonnegative().optional());
+const optionalPositiveInt = z.preprocess(emptyToUndefined, z.coerce.number().int().positive().optional());
+const optionalBoolean = z.preprocess(
+  emptyToUndefined,
+  z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.enum(['true', 'false']))
+    .optional(),
+);
+
+const workspacesJson = z.preprocess(
+  emptyToUndefined,
+  z
+    .string()
+    .transform((raw, ctx) => {
+      try {
+        return JSON.parse(raw) as unknown;
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be a JSON array of { id, name, tableId, projectId?, tableName? }' });
+        return z.NEVER;
+      }
+    })
+    .pipe(workspaceListSchema)
+    .optional(),
+);
+
+export const serverEnvSchema = z.object({
+  NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+
+  // Video storage
+  VIDEO_REPOSITORY: z.preprocess(
+    emptyToUndefined,
+    z.string().trim().toLowerCase().pipe(z.enum(['nocodb', 'local'])).default('nocodb'),
+  ),
+  VIDEO_LOCAL_STORE_PATH: optionalString,
+  VIDEO_AUDIT_LOG_PATH: optionalString,
+  VIDEO_AUDIT_LOG_MAX_ENTRIES: optionalNonNegativeInt,
+  VIDEO_SOFT_DELETE: optionalBoolean,
+  VIDEO_TRASH_RETENTION_DAYS: optionalNonNegativeInt,
+  VIDEO_CACHE_MAX_ENTRIES: optionalPositiveInt,
+
+  // NocoDB (required unless VIDEO_REPOSITORY=local)
+  NC_URL: optionalUrl,
+  NC_TOKEN: optionalString,
+  NOCODB_PROJECT_ID: optionalString,
+  NOCODB_TABLE_ID: optionalString,
+  NOCODB_TABLE_NAME: optionalString,
+  NOCODB_WORKSPACES: workspacesJson,
+  NOCODB_DEFAULT_WORKSPACE_NAME: optionalString,
+  NOCODB_WEBHOOK_SECRET: optionalString,
+  NOCODB_MAX_RETRIES: optionalNonNegativeInt,
+  NOCODB_RETRY_BASE_DELAY_MS: optionalNonNegativeInt,
+  NOCODB_RETRY_MAX_DELAY_MS: optionalNonNegativeInt,
+  NOCODB_CIRCUIT_FAILURE_THRESHOLD: optionalNonNegativeInt,
+  NOCODB_CIRCUIT_RESET_MS: optionalNonNegativeInt,
+
+  // App
+  APP_PASSWORD: z.preprocess(emptyToUndefined, z.string().min(1)),
+  METRICS_TOKEN: optionalString,
+  YOUTUBE_SAVED_PLAYLIST_ID: optionalString,
+
+  // Text-to-speech
+  NEXT_PUBLIC_TTS_API_URL: z.preprocess(emptyToUndefined, z.string().trim().url().default(DEFAULT_TTS_API_URL)),
+  NEXT_PUBLIC_TTS_VOICE_DE: z.preprocess(emptyToUndefined, z.string().trim().default('de')),
+  NEXT_PUBLIC_TTS_VOICE_EN: z.preprocess(emptyToUndefined, z.string().trim().default('en')),
+});
+
+const NOCODB_REQUIRED_KEYS = ['NC_URL', 'NC_TOKEN', 'NOCODB_PROJECT_ID', 'NOCODB_TABLE_ID'] as const;
+
+export type ServerEnv = z.infer<typeof serverEnvSchema>;
+export type ServerEnvKey = keyof ServerEnv;
+
+/** Variables whose values never leave the server unredacted. */
+export const SECRET_ENV_KEYS: ReadonlySet<ServerEnvKey> = new Set<ServerEnvKey>([
+  'NC_TOKEN',
+  'APP_PASSWORD',
+  'NOCODB_WEBHOOK_SECRET',
+  'METRICS_TOKEN',
+]);
+
+export class InvalidEnvironmentError extends Error {
+  issues: z.ZodIssue[];
+
+  constructor(issues: z.ZodIssue[]) {
+    super(formatEnvIssues(issues));
+    this.name = 'InvalidEnvironmentError';
+    this.issues = issues;
+  }
+}
+
+type EnvSource = Record<string, string | undefined>;
+
+function issueMessage(issue: z.ZodIssue): string {
+  return issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined' ? 'is required' : issue.message;
+}
+
+export function formatEnvIssues(issues: z.ZodIssue[]): string {
+  const lines = issues.map((issue) => {
+    const key = issue.path.length > 0 ? issue.path.join('.') : 'environment';
+    return `  - ${key} ${issueMessage(issue)}`;
+  });
+  return `Invalid environment configuration:\n${lines.join('\n')}\nSee .env.example for the expected variables.`;
+}
+
+// Checked outside the schema: zod skips refinements once any field is invalid,
+// and the report should list missing NocoDB variables alongside the rest.
+function nocodbRequirementIssues(source: EnvSource): z.ZodIssue[] {
+  const repository = serverEnvSchema.shape.VIDEO_REPOSITORY.safeParse(source.VIDEO_REPOSITORY);
+  if (repository.success && repository.data !== 'nocodb') {
+    return [];
+  }
+
+  return NOCODB_REQUIRED_KEYS.filter((key) => emptyToUndefined(source[key]) === undefined).map((key) => ({
+    code: z.ZodIssueCode.custom,
+    path: [key],
+    message: 'is required while VIDEO_REPOSITORY=nocodb',
+  }));
+}
+
+export type ServerEnvParseResult = { success: true; data: ServerEnv } | { success: false; issues: z.ZodIssue[] };
+
+export function parseServerEnv(source: EnvSource = process.env): ServerEnvParseResult {
+  const result = serverEnvSchema.safeParse(source);
+  const requirementIssues = nocodbRequirementIssues(source);
+  const requiredKeys = new Set(requirementIssues.map((issue) => issue.path[0]));
+  const issues = [
+    ...(result.success ? [] : result.error.issues.filter((issue) => !requiredKeys.has(issue.path[0]))),
+    ...requirementIssues,
+  ];
+
+  return issues.length === 0 && result.success ? { success: true, data: result.data } : { success: false, issues };
+}
+
+/** Validate the whole environment; throws `InvalidEnvironmentError` listing every problem. */
+export function assertServerEnv(source: EnvSource = process.env): ServerEnv {
+  const result = parseServerEnv(source);
+  if (!result.success) {
+    throw new InvalidEnvironmentError(result.issues);
+  }
+  return result.data;
+}
+
+/**
+ * Read one validated variable. Only that variable is checked, so an unrelated
+ * misconfiguration (e.g. NocoDB in local mode) does not break the caller.
+ */
+export function readServerEnv<K extends ServerEnvKey>(key: K, source: EnvSource = process.env): ServerEnv[K] {
+  const result = serverEnvSchema.shape[key].safeParse(source[key]);
+  if (!result.success) {
+    throw new InvalidEnvironmentError(result.error.issues.map((issue) => ({ ...issue, path: [key, ...issue.path] })));
+  }
+  return result.data as ServerEnv[K];
+}
+
+export interface EnvSummaryEntry {
+  key: ServerEnvKey;
+  /** Effective value, `[redacted]` for secrets, `null` when unset without default. */
+  value: string | null;
+  source: 'env' | 'default' | 'unset';
+  secret: boolean;
+  error?: string;
+}
+
+/** Effective configuration for diagnostics, with secrets redacted. */
+export function describeServerEnv(source: EnvSource = process.env): EnvSummaryEntry[] {
+  const result = parseServerEnv(source);
+  const errors = new Map<string, string>();
+  if (!result.success) {
+    result.issues.forEach((issue) => {
+      errors.set(String(issue.path[0] ?? ''), issueMessage(issue));
+    });
+  }
+
+  return (Object.keys(serverEnvSchema.shape) as ServerEnvKey[]).map((key) => {
+    const raw = emptyToUndefined(source[key]) as string | undefined;
+    const secret = SECRET_ENV_KEYS.has(key);
+    const parsed = serverEnvSchema.shape[key].safeParse(source[key]);
+    // Invalid values are shown as given so the diagnostics page can point at them.
+    const effective = parsed.success ? parsed.data : raw;
+    const value =
+      effective === undefined
+        ? null
+        : secret
+          ? '[redacted]'
+          : typeof effective === 'string'
+            ? effective
+            : JSON.stringify(effective);
+
+    return {
+      key,
+      value,
+      source: raw !== undefined ? 'env' : effective !== undefined ? 'default' : 'unset',
+      secret,
+      ...(errors.has(key) ? { error: errors.get(key) } : {}),
+    };
+  });
+}
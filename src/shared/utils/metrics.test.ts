@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { createCounter, createGauge, createHistogram, renderMetrics, resetMetrics } from './metrics';
+
+const requests = createCounter({ name: 'test_requests_total', help: 'Requests.' });
+const latency = createHistogram({ name: 'test_latency_seconds', help: 'Latency.', buckets: [0.1, 1] });
+let collected = 0;
+createGauge({ name: 'test_collected', help: 'Collected.', collect: () => [{ labels: { source: 'a"b' }, value: collected }] });
+
+describe('metrics registry', () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it('renders counters, histograms and collected gauges in the Prometheus text format', () => {
+    requests.inc({ route: '/api/videos', status: 200 });
+    requests.inc({ status: 200, route: '/api/videos' }, 2);
+    latency.observe({ route: '/api/videos' }, 0.05);
+    latency.observe({ route: '/api/videos' }, 0.5);
+    collected = 0.75;
+
+    const text = renderMetrics();
+
+    expect(text).toContain('# TYPE test_requests_total counter');
+    expect(text).toContain('test_requests_total{route="/api/videos",status="200"} 3');
+    expect(text).toContain('# TYPE test_latency_seconds histogram');
+    expect(text).toContain('test_latency_seconds_bucket{le="0.1",route="/api/videos"} 1');
+    expect(text).toContain('test_latency_seconds_bucket{le="1",route="/api/videos"} 2');
+    expect(text).toContain('test_latency_seconds_bucket{le="+Inf",route="/api/videos"} 2');
+    expect(text).toContain('test_latency_seconds_sum{route="/api/videos"} 0.55');
+    expect(text).toContain('test_latency_seconds_count{route="/api/videos"} 2');
+    expect(text).toContain('test_collected{source="a\\"b"} 0.75');
+  });
+
+  it('clears recorded values on reset but keeps reading collectors', () => {
+    requests.inc({ route: '/api/search', status: 500 });
+    resetMetrics();
+    collected = 1;
+
+    const text = renderMetrics();
+    expect(text).not.toContain('test_requests_total{');
+    expect(text).toContain('test_collected{source="a\\"b"} 1');
+  });
+});
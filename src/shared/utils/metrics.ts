@@ -0,0 +1,205 @@
+/**
+ * Minimal in-process Prometheus registry.
+ *
+ * Counters, gauges and histograms live in module state (like the video cache)
+ * and are rendered in the text exposition format by `/api/metrics`. Metrics
+ * whose value already exists elsewhere, such as the cache hit counters, pass
+ * a `collect` callback that is read at scrape time instead of being updated
+ * on every event.
+ */
+
+export type MetricLabels = Record<string, string | number>;
+
+export interface MetricSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface MetricDefinition {
+  name: string;
+  help: string;
+  collect?: () => MetricSample[];
+}
+
+interface RegisteredMetric {
+  name: string;
+  help: string;
+  type: MetricType;
+  render: () => string[];
+  reset: () => void;
+}
+
+/** Latency buckets in seconds, from a warm cache hit to a stalled tunnel. */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const registry = new Map<string, RegisteredMetric>();
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function labelKey(labels: MetricLabels = {}): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${escapeLabelValue(String(labels[key]))}"`)
+    .join(',');
+}
+
+function formatSample(name: string, key: string, value: number): string {
+  const formatted = Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+  return key ? `${name}{${key}} ${formatted}` : `${name} ${formatted}`;
+}
+
+// A module re-evaluated by hot reload replaces its metrics instead of failing.
+function register(metric: RegisteredMetric) {
+  registry.set(metric.name, metric);
+}
+
+function createValueMetric(type: 'counter' | 'gauge', definition: MetricDefinition) {
+  const values = new Map<string, number>();
+
+  register({
+    name: definition.name,
+    help: definition.help,
+    type,
+    render: () => {
+      const samples = definition.collect
+        ? definition.collect().map((sample) => [labelKey(sample.labels), sample.value] as const)
+        : Array.from(values.entries());
+      return samples.map(([key, value]) => formatSample(definition.name, key, value));
+    },
+    reset: () => values.clear(),
+  });
+
+  return {
+    add(labels: MetricLabels | undefined, amount: number) {
+      const key = labelKey(labels);
+      values.set(key, (values.get(key) ?? 0) + amount);
+    },
+    set(labels: MetricLabels | undefined, value: number) {
+      values.set(labelKey(labels), value);
+    },
+  };
+}
+
+export function createCounter(definition: MetricDefinition) {
+  const metric = createValueMetric('counter', definition);
+  return {
+    inc(labels?: MetricLabels, amount = 1) {
+      if (amount > 0) {
+        metric.add(labels, amount);
+      }
+    },
+  };
+}
+
+export function createGauge(definition: MetricDefinition) {
+  const metric = createValueMetric('gauge', definition);
+  return {
+    set(labels: MetricLabels | undefined, value: number) {
+      metric.set(labels, value);
+    },
+  };
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export function createHistogram(definition: Omit<MetricDefinition, 'collect'> & { buckets?: number[] }) {
+  const bounds = [...(definition.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+  const series = new Map<string, HistogramSeries>();
+
+  register({
+    name: definition.name,
+    help: definition.help,
+    type: 'histogram',
+    render: () =>
+      Array.from(series.values()).flatMap((entry) => {
+        const lines = bounds.map((bound, index) =>
+          formatSample(`${definition.name}_bucket`, labelKey({ ...entry.labels, le: bound }), entry.buckets[index]),
+        );
+        lines.push(formatSample(`${definition.name}_bucket`, labelKey({ ...entry.labels, le: '+Inf' }), entry.count));
+        lines.push(formatSample(`${definition.name}_sum`, labelKey(entry.labels), entry.sum));
+        lines.push(formatSample(`${definition.name}_count`, labelKey(entry.labels), entry.count));
+        return lines;
+      }),
+    reset: () => series.clear(),
+  });
+
+  return {
+    observe(labels: MetricLabels, value: number) {
+      const key = labelKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, buckets: bounds.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      bounds.forEach((bound, index) => {
+        if (value <= bound) {
+          entry!.buckets[index] += 1;
+        }
+      });
+      entry.sum += value;
+      entry.count += 1;
+    },
+  };
+}
+
+/** Seconds elapsed since `startedAt` (a `performance.now()` reading). */
+export function secondsSince(startedAt: number): number {
+  return (performance.now() - startedAt) / 1000;
+}
+
+/** Every registered metric in the Prometheus text exposition format (0.0.4). */
+export function renderMetrics(): string {
+  const blocks = Array.from(registry.values()).map((metric) =>
+    [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render()].join('\n'),
+  );
+  return `${blocks.join('\n')}\n`;
+}
+
+/** Clear recorded values (tests). Collected metrics keep reading their source. */
+export function resetMetrics() {
+  registry.forEach((metric) => metric.reset());
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Application metrics. Route labels use the route template (`/api/videos/[videoId]`),
+// so a video id never becomes its own time series.
+
+export const httpRequestsTotal = createCounter({
+  name: 'ytviewer_http_requests_total',
+  help: 'API requests handled, by route template, method and status.',
+});
+
+export const httpRequestDuration = createHistogram({
+  name: 'ytviewer_http_request_duration_seconds',
+  help: 'API handler latency until the response headers are ready.',
+});
+
+export const nocodbRequestsTotal = createCounter({
+  name: 'ytviewer_nocodb_requests_total',
+  help: 'NocoDB HTTP attempts (retries count separately), by operation, method and outcome.',
+});
+
+export const nocodbRequestDuration = createHistogram({
+  name: 'ytviewer_nocodb_request_duration_seconds',
+  help: 'NocoDB HTTP attempt latency by operation and method.',
+});
+
+export const ttsProxyDuration = createHistogram({
+  name: 'ytviewer_tts_proxy_duration_seconds',
+  help: 'Time until the TTS upstream answered, by upstream status.',
+});
+
+export const downloadStreamBytesTotal = createCounter({
+  name: 'ytviewer_download_stream_bytes_total',
+  help: 'Bytes streamed by /api/videos/[videoId]/download, by type (video or audio).',
+});
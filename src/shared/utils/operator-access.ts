@@ -0,0 +1,30 @@
+import { timingSafeEqual } from 'crypto';
+
+import type { NextRequest } from 'next/server';
+
+import { readServerEnv } from './env';
+
+function hasValidToken(request: NextRequest, expected: string): boolean {
+  const header = request.headers.get('authorization') ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1].trim());
+  const expectedBuffer = Buffer.from(expected);
+  return provided.length === expectedBuffer.length && timingSafeEqual(provided, expectedBuffer);
+}
+
+/**
+ * Operational endpoints (`/api/metrics`, the `/api/ready` details) accept a
+ * logged-in browser session or `Authorization: Bearer $METRICS_TOKEN`.
+ */
+export function hasOperatorAccess(request: NextRequest): boolean {
+  if (request.cookies.get('yt-viewer-auth')?.value === 'authenticated') {
+    return true;
+  }
+
+  const token = readServerEnv('METRICS_TOKEN');
+  return token ? hasValidToken(request, token) : false;
+}
@@ -0,0 +1,11 @@
+const MAX_ACTOR_LENGTH = 80;
+
+/**
+ * Actor recorded in the video audit log. The app has a single shared login,
+ * so clients may name themselves (device, script) via `x-actor`; otherwise
+ * the route's own label is used.
+ */
+export function getRequestActor(request: Request, fallback: string): string {
+  const header = request.headers.get('x-actor')?.trim();
+  return header ? header.slice(0, MAX_ACTOR_LENGTH) : fallback;
+}